@@ -0,0 +1,114 @@
+/**
+ * =============================================================================
+ * SYNC MOCK SERVER
+ * A small stand-in for the sync API described in the README ("Sync API"), for
+ * developing and testing server sync locally. Records are kept in memory and,
+ * with --data <file>, also written to a JSON file so they survive a restart.
+ *
+ *   npm run mock-server                       # http://localhost:3001/api
+ *   npm run mock-server -- --port 4000 --data sync-data.json --delay 500
+ *
+ * --delay adds latency to every response, to see the app's loading states.
+ * =============================================================================
+ */
+
+import { createServer } from 'node:http';
+import { existsSync, readFileSync, writeFileSync } from 'node:fs';
+
+const RESOURCES = ['periods', 'portions', 'expenses'];
+
+function readOption(name, fallback) {
+  const index = process.argv.indexOf(`--${name}`);
+  return index >= 0 && process.argv[index + 1] ? process.argv[index + 1] : fallback;
+}
+
+const port = Number(readOption('port', process.env.PORT || 3001));
+const dataFile = readOption('data', null);
+const delay = Number(readOption('delay', 0));
+
+/** resource → Map(id → record); Map keeps insertion order, so records come back in the order they were created */
+const store = Object.fromEntries(RESOURCES.map(resource => [resource, new Map()]));
+
+if (dataFile && existsSync(dataFile)) {
+  const saved = JSON.parse(readFileSync(dataFile, 'utf8'));
+  RESOURCES.forEach(resource => {
+    (saved[resource] || []).forEach(record => store[resource].set(record.id, record));
+  });
+}
+
+function persist() {
+  if (!dataFile) return;
+  const snapshot = Object.fromEntries(RESOURCES.map(resource => [resource, [...store[resource].values()]]));
+  writeFileSync(dataFile, JSON.stringify(snapshot, null, 2));
+}
+
+function send(res, status, body) {
+  res.writeHead(status, {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'GET, PUT, DELETE, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type',
+    ...(body === undefined ? {} : { 'Content-Type': 'application/json' })
+  });
+  res.end(body === undefined ? undefined : JSON.stringify(body));
+}
+
+function readBody(req) {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => resolve(body));
+    req.on('error', reject);
+  });
+}
+
+async function handle(req, res) {
+  if (req.method === 'OPTIONS') return send(res, 204);
+
+  const { pathname } = new URL(req.url, `http://${req.headers.host}`);
+  const [prefix, resource, rawId, ...rest] = pathname.split('/').filter(Boolean);
+  const id = rawId === undefined ? undefined : decodeURIComponent(rawId);
+
+  if (prefix !== 'api') return send(res, 404, { error: 'Not found' });
+  if (resource === 'health' && req.method === 'GET') return send(res, 200, { ok: true });
+  if (!RESOURCES.includes(resource) || rest.length > 0) return send(res, 404, { error: 'Unknown resource' });
+  const records = store[resource];
+
+  if (id === undefined) {
+    if (req.method === 'GET') return send(res, 200, [...records.values()]);
+    return send(res, 405, { error: 'Method not allowed' });
+  }
+
+  switch (req.method) {
+    case 'GET':
+      return records.has(id) ? send(res, 200, records.get(id)) : send(res, 404, { error: 'Not found' });
+    case 'PUT': {
+      let record;
+      try {
+        record = JSON.parse(await readBody(req));
+      } catch {
+        return send(res, 400, { error: 'Invalid JSON' });
+      }
+      if (!record || typeof record !== 'object' || record.id !== id) {
+        return send(res, 400, { error: 'Body must be a record whose id matches the URL' });
+      }
+      records.set(id, record);
+      persist();
+      return send(res, 200, record);
+    }
+    case 'DELETE':
+      // Deleting a missing record succeeds, so replayed deletes are harmless
+      if (records.delete(id)) persist();
+      return send(res, 204);
+    default:
+      return send(res, 405, { error: 'Method not allowed' });
+  }
+}
+
+createServer((req, res) => {
+  setTimeout(() => {
+    handle(req, res).catch(err => send(res, 500, { error: String(err?.message || err) }));
+    console.log(`${req.method} ${req.url}`);
+  }, delay);
+}).listen(port, () => {
+  console.log(`Sync mock server listening on http://localhost:${port}/api${dataFile ? ` (data file: ${dataFile})` : ''}`);
+});
@@ -3,45 +3,88 @@
  * PERSONAL BUDGET APP - Main Application Component
  * =============================================================================
  * 
- * A pure front-end personal budgeting app with localStorage persistence.
- * No backend, no authentication, no external database.
+ * A front-end personal budgeting app with in-browser persistence.
+ * No authentication; an optional REST server can sync periods, categories and expenses.
  * 
  * Features:
- * - Income & Period Setup
+ * - Period Setup with multiple income sources (expected/received)
  * - Budget Portions/Categories
- * - Expense Tracking
+ * - Expense Tracking, including foreign-currency expenses
+ * - Recurring expenses posted automatically
  * - Budget vs Actual View
  * - Data Export/Import
- * - 1-year data retention
+ * - Per-period data retention with archive
+ * - Bahasa Indonesia and English interface, chosen in Settings
+ * - Undo/redo of every data change (Ctrl+Z / Ctrl+Shift+Z), kept for the browser session
+ * - Optional server sync with an offline queue (see server/mock-server.mjs)
+ * - Open tabs kept in sync, with conflicts shown when a record is edited in two tabs
+ * - Installable PWA that works offline, with an "Add expense" home-screen shortcut
+ * - Optional passphrase lock encrypting the stored data, with auto-lock
+ * - Separate budget profiles in one browser, switched from the header
  * 
- * Currency: IDR (Rp)
- * Storage: localStorage with key "budget_app_v1"
+ * Currency: IDR (Rp) by default, per-period base currency with converted foreign-currency expenses
+ * Storage: IndexedDB database "budget_app_v1", falling back to localStorage key "budget_app_v1";
+ * profiles other than the first add a "_profile_<id>" suffix
  */
 
+import { useState, useEffect } from 'react';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Button } from '@/components/ui/button';
+import { Alert, AlertDescription } from '@/components/ui/alert';
 import { useBudgetData } from '@/hooks/useBudgetData';
+import { useServiceWorker } from '@/hooks/useServiceWorker';
+import { useLock } from '@/hooks/useLock';
+import { I18nProvider } from '@/hooks/useI18n';
+import { detectLanguage, translate } from '@/i18n';
 import { Dashboard } from '@/components/Dashboard';
 import { Portions } from '@/components/Portions';
 import { Expenses } from '@/components/Expenses';
 import { Settings } from '@/components/Settings';
 import { PeriodManager } from '@/components/PeriodManager';
-import { LayoutDashboard, PieChart, Receipt, Settings as SettingsIcon, Loader2 } from 'lucide-react';
+import { RecurringExpenses } from '@/components/RecurringExpenses';
+import { ProfileSwitcher } from '@/components/ProfileSwitcher';
+import { Income } from '@/components/Income';
+import { UndoToast } from '@/components/UndoToast';
+import { SyncIndicator } from '@/components/SyncIndicator';
+import { TabConflictNotice } from '@/components/TabConflictNotice';
+import { PortionAlertBanner } from '@/components/PortionAlertBanner';
+import { AlertHistory } from '@/components/AlertHistory';
+import { Reports } from '@/components/Reports';
+import { YearReview } from '@/components/YearReview';
+import { UpdatePrompt } from '@/components/UpdatePrompt';
+import { clearLaunchAction, getLaunchAction } from '@/services/pwa';
+import { ExpenseFilters } from '@/types';
+import { LayoutDashboard, PieChart, Receipt, BarChart3, Settings as SettingsIcon, Loader2, Undo2, Redo2, AlertTriangle, Lock } from 'lucide-react';
 
 export default function App() {
   const {
     data,
     loading,
-    wasDataCleared,
-    dismissClearedNotice,
+    storageKind,
+    storageError,
+    dismissStorageError,
+    retentionReport,
+    dismissRetentionReport,
+    migrationError,
+    migrationReadOnly,
+    dismissMigrationError,
     activePeriod,
+    baseCurrency,
+    activeIncomes,
     activePortions,
     activeExpenses,
     periodSummary,
     portionSummaries,
+    portionForecasts,
+    forecastUsesHistory,
+    dailyAllowances,
     setActivePeriod,
     addPeriod,
     updatePeriod,
     deletePeriod,
+    addIncome,
+    updateIncome,
+    deleteIncome,
     addPortion,
     updatePortion,
     deletePortion,
@@ -49,11 +92,81 @@ export default function App() {
     updateExpense,
     deleteExpense,
     getFilteredExpenses,
+    addRecurringExpense,
+    updateRecurringExpense,
+    deleteRecurringExpense,
+    saveImportProfile,
+    deleteImportProfile,
+    saveExchangeRate,
+    deleteExchangeRate,
+    updateSettings,
+    runRetention,
+    clearArchive,
+    newAlerts,
+    dismissNewAlerts,
+    clearAlertHistory,
     exportData,
+    exportPeriod,
+    exportArchive,
+    exportMigrationBackup,
+    exportCsv,
     importData,
-    clearData
+    previewImportMerge,
+    mergeImportData,
+    clearData,
+    undo,
+    redo,
+    undoAction,
+    redoAction,
+    undoNotice,
+    dismissUndoNotice,
+    sync,
+    syncNow,
+    tabConflicts,
+    resolveTabConflict
   } = useBudgetData();
 
+  const { updateReady, applyUpdate, dismissUpdate } = useServiceWorker();
+  const { enabled: lockEnabled, lockNow } = useLock();
+
+  const language = data?.settings?.language || detectLanguage();
+
+  // The manifest's "Add expense" shortcut opens the app on the expenses tab with the dialog open
+  const [addExpenseRequested, setAddExpenseRequested] = useState(() => getLaunchAction() === 'add-expense');
+  const [activeTab, setActiveTab] = useState(() => getLaunchAction() === 'add-expense' ? 'expenses' : 'dashboard');
+  useEffect(clearLaunchAction, []);
+
+  // Clicking a Dashboard chart opens the expenses tab with the matching filter
+  const [expenseFilterRequest, setExpenseFilterRequest] = useState<ExpenseFilters | null>(null);
+  const showExpenses = (filters: ExpenseFilters) => {
+    setExpenseFilterRequest(filters);
+    setActiveTab('expenses');
+  };
+  // A Reports cell opens its period's expenses
+  const showPeriodExpenses = (periodId: string, filters: ExpenseFilters) => {
+    setActivePeriod(periodId);
+    showExpenses(filters);
+  };
+
+  // Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS); text fields keep their own undo
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      const target = e.target as HTMLElement | null;
+      if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
+
   if (loading) {
     return (
       <div className="min-h-screen flex items-center justify-center">
@@ -63,96 +176,222 @@ export default function App() {
   }
 
   return (
-    <div className="min-h-screen bg-gray-50">
-      {/* Header */}
-      <header className="bg-white border-b sticky top-0 z-10">
-        <div className="max-w-6xl mx-auto px-4 py-4">
-          <div className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
-            <h1 className="text-2xl font-bold text-gray-900">Personal Budget</h1>
-            <PeriodManager
-              periods={data?.periods || []}
-              activePeriodId={data?.activePeriodId}
-              onSetActive={setActivePeriod}
-              onAdd={addPeriod}
-              onUpdate={updatePeriod}
-              onDelete={deletePeriod}
-            />
+    <I18nProvider language={language}>
+      <div className="min-h-screen bg-gray-50">
+        {/* Header */}
+        <header className="bg-white border-b sticky top-0 z-10">
+          <div className="max-w-6xl mx-auto px-4 py-4">
+            <div className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
+              <div className="flex items-center gap-2">
+                <h1 className="text-2xl font-bold text-gray-900">{translate(language, 'app.title')}</h1>
+                <Button
+                  variant="ghost" size="icon" className="h-8 w-8 ml-2"
+                  onClick={undo}
+                  disabled={!undoAction}
+                  title={undoAction ? translate(language, 'history.undoTitle', { action: translate(language, `history.action.${undoAction}`) }) : translate(language, 'history.undo')}
+                >
+                  <Undo2 className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost" size="icon" className="h-8 w-8"
+                  onClick={redo}
+                  disabled={!redoAction}
+                  title={redoAction ? translate(language, 'history.redoTitle', { action: translate(language, `history.action.${redoAction}`) }) : translate(language, 'history.redo')}
+                >
+                  <Redo2 className="h-4 w-4" />
+                </Button>
+                {lockEnabled && (
+                  <Button
+                    variant="ghost" size="icon" className="h-8 w-8"
+                    onClick={lockNow}
+                    title={translate(language, 'lock.lockNow')}
+                  >
+                    <Lock className="h-4 w-4" />
+                  </Button>
+                )}
+                <SyncIndicator sync={sync} onSyncNow={syncNow} />
+              </div>
+              <div className="flex items-center gap-4 flex-wrap">
+                <ProfileSwitcher />
+                <PeriodManager
+                  periods={data?.periods || []}
+                  incomes={data?.incomes || []}
+                  portions={data?.portions || []}
+                  activePeriodId={data?.activePeriodId}
+                  onSetActive={setActivePeriod}
+                  onAdd={addPeriod}
+                  onUpdate={updatePeriod}
+                  onDelete={deletePeriod}
+                />
+              </div>
+            </div>
           </div>
-        </div>
-      </header>
-
-      {/* Main Content */}
-      <main className="max-w-6xl mx-auto px-4 py-6">
-        <Tabs defaultValue="dashboard" className="space-y-6">
-          <TabsList className="grid w-full grid-cols-4 lg:w-[400px]">
-            <TabsTrigger value="dashboard" className="flex items-center gap-2">
-              <LayoutDashboard className="h-4 w-4" />
-              <span className="hidden sm:inline">Dashboard</span>
-            </TabsTrigger>
-            <TabsTrigger value="budgets" className="flex items-center gap-2">
-              <PieChart className="h-4 w-4" />
-              <span className="hidden sm:inline">Budgets</span>
-            </TabsTrigger>
-            <TabsTrigger value="expenses" className="flex items-center gap-2">
-              <Receipt className="h-4 w-4" />
-              <span className="hidden sm:inline">Expenses</span>
-            </TabsTrigger>
-            <TabsTrigger value="settings" className="flex items-center gap-2">
-              <SettingsIcon className="h-4 w-4" />
-              <span className="hidden sm:inline">Settings</span>
-            </TabsTrigger>
-          </TabsList>
-
-          <TabsContent value="dashboard">
-            <Dashboard
-              periodSummary={periodSummary}
-              portionSummaries={portionSummaries}
-              periodName={activePeriod?.name || ''}
-            />
-          </TabsContent>
-
-          <TabsContent value="budgets">
-            <Portions
-              portions={activePortions}
-              periodSummary={periodSummary}
-              activePeriodId={data?.activePeriodId}
-              onAdd={addPortion}
-              onUpdate={updatePortion}
-              onDelete={deletePortion}
-            />
-          </TabsContent>
-
-          <TabsContent value="expenses">
-            <Expenses
-              expenses={activeExpenses}
-              portions={activePortions}
-              activePeriodId={data?.activePeriodId}
-              onAdd={addExpense}
-              onUpdate={updateExpense}
-              onDelete={deleteExpense}
-              getFilteredExpenses={getFilteredExpenses}
-            />
-          </TabsContent>
-
-          <TabsContent value="settings">
-            <Settings
-              data={data}
-              wasDataCleared={wasDataCleared}
-              onDismissClearedNotice={dismissClearedNotice}
-              onExport={exportData}
-              onImport={importData}
-              onClear={clearData}
-            />
-          </TabsContent>
-        </Tabs>
-      </main>
-
-      {/* Footer */}
-      <footer className="border-t bg-white mt-12">
-        <div className="max-w-6xl mx-auto px-4 py-4 text-center text-sm text-muted-foreground">
-          Personal Budget App • Data stored locally in your browser
-        </div>
-      </footer>
-    </div>
+        </header>
+
+        {/* Main Content */}
+        <main className="max-w-6xl mx-auto px-4 py-6">
+          {storageError && (
+            <Alert variant="destructive" className="mb-6">
+              <AlertTriangle className="h-4 w-4" />
+              <AlertDescription>
+                {storageError}
+                <Button variant="link" className="p-0 h-auto ml-2" onClick={dismissStorageError}>
+                  {translate(language, 'common.dismiss')}
+                </Button>
+              </AlertDescription>
+            </Alert>
+          )}
+          <TabConflictNotice conflicts={tabConflicts} onResolve={resolveTabConflict} />
+          <PortionAlertBanner alerts={newAlerts} onDismiss={dismissNewAlerts} />
+          <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-6">
+            <TabsList className="grid w-full grid-cols-5 lg:w-[500px]">
+              <TabsTrigger value="dashboard" className="flex items-center gap-2">
+                <LayoutDashboard className="h-4 w-4" />
+                <span className="hidden sm:inline">{translate(language, 'tabs.dashboard')}</span>
+              </TabsTrigger>
+              <TabsTrigger value="budgets" className="flex items-center gap-2">
+                <PieChart className="h-4 w-4" />
+                <span className="hidden sm:inline">{translate(language, 'tabs.budgets')}</span>
+              </TabsTrigger>
+              <TabsTrigger value="expenses" className="flex items-center gap-2">
+                <Receipt className="h-4 w-4" />
+                <span className="hidden sm:inline">{translate(language, 'tabs.expenses')}</span>
+              </TabsTrigger>
+              <TabsTrigger value="reports" className="flex items-center gap-2">
+                <BarChart3 className="h-4 w-4" />
+                <span className="hidden sm:inline">{translate(language, 'tabs.reports')}</span>
+              </TabsTrigger>
+              <TabsTrigger value="settings" className="flex items-center gap-2">
+                <SettingsIcon className="h-4 w-4" />
+                <span className="hidden sm:inline">{translate(language, 'tabs.settings')}</span>
+              </TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="dashboard">
+              <Dashboard
+                periodSummary={periodSummary}
+                portionSummaries={portionSummaries}
+                periodName={activePeriod?.name || ''}
+                currency={baseCurrency}
+                period={activePeriod}
+                expenses={activeExpenses}
+                onShowExpenses={showExpenses}
+                forecasts={portionForecasts}
+                allowances={dailyAllowances}
+                forecastUsesHistory={forecastUsesHistory}
+                onForecastUsesHistoryChange={(value) => updateSettings({ forecastUsesHistory: value })}
+              />
+            </TabsContent>
+
+            <TabsContent value="budgets" className="space-y-6">
+              <Income
+                incomes={activeIncomes}
+                period={activePeriod}
+                currency={baseCurrency}
+                knownSources={[...new Set((data?.incomes || []).map(i => i.source))]}
+                onAdd={addIncome}
+                onUpdate={updateIncome}
+                onDelete={deleteIncome}
+              />
+              <Portions
+                portions={activePortions}
+                periodSummary={periodSummary}
+                activePeriodId={data?.activePeriodId}
+                currency={baseCurrency}
+                onAdd={addPortion}
+                onUpdate={updatePortion}
+                onDelete={deletePortion}
+              />
+              <AlertHistory
+                alerts={data?.alertHistory || []}
+                activePeriodId={data?.activePeriodId}
+                onClear={clearAlertHistory}
+              />
+            </TabsContent>
+
+            <TabsContent value="expenses" className="space-y-6">
+              <Expenses
+                expenses={activeExpenses}
+                portions={activePortions}
+                activePeriod={activePeriod}
+                activePeriodId={data?.activePeriodId}
+                currency={baseCurrency}
+                exchangeRates={data?.exchangeRates || []}
+                onAdd={addExpense}
+                onUpdate={updateExpense}
+                onDelete={deleteExpense}
+                getFilteredExpenses={getFilteredExpenses}
+                onExportCsv={exportCsv}
+                importProfiles={data?.importProfiles || []}
+                onSaveImportProfile={saveImportProfile}
+                onDeleteImportProfile={deleteImportProfile}
+                addRequested={addExpenseRequested}
+                onAddRequestHandled={() => setAddExpenseRequested(false)}
+                filterRequest={expenseFilterRequest}
+                allowances={dailyAllowances}
+                onFilterRequestHandled={() => setExpenseFilterRequest(null)}
+              />
+              <RecurringExpenses
+                recurringExpenses={data?.recurringExpenses || []}
+                portionNames={[...new Set((data?.portions || []).map(p => p.name))]}
+                activePortionNames={activePortions.map(p => p.name)}
+                currency={baseCurrency}
+                onAdd={addRecurringExpense}
+                onUpdate={updateRecurringExpense}
+                onDelete={deleteRecurringExpense}
+              />
+            </TabsContent>
+
+            <TabsContent value="reports" className="space-y-6">
+              <Reports
+                data={data}
+                activePeriodId={data?.activePeriodId}
+                currency={baseCurrency}
+                onShowExpenses={showPeriodExpenses}
+              />
+              {data && <YearReview data={data} />}
+            </TabsContent>
+
+            <TabsContent value="settings">
+              <Settings
+                data={data}
+                storageKind={storageKind}
+                sync={sync}
+                onSyncNow={syncNow}
+                retentionReport={retentionReport}
+                onDismissRetentionReport={dismissRetentionReport}
+                migrationError={migrationError}
+                migrationReadOnly={migrationReadOnly}
+                onDismissMigrationError={dismissMigrationError}
+                onExportMigrationBackup={exportMigrationBackup}
+                onUpdateSettings={updateSettings}
+                onRunRetention={runRetention}
+                onSaveExchangeRate={saveExchangeRate}
+                onDeleteExchangeRate={deleteExchangeRate}
+                onExport={exportData}
+                onExportCsv={exportCsv}
+                onExportPeriod={exportPeriod}
+                onExportArchive={exportArchive}
+                onClearArchive={clearArchive}
+                onImport={importData}
+                onPreviewMerge={previewImportMerge}
+                onMerge={mergeImportData}
+                onClear={clearData}
+              />
+            </TabsContent>
+          </Tabs>
+        </main>
+
+        <UndoToast notice={undoNotice} onUndo={undo} onDismiss={dismissUndoNotice} />
+        <UpdatePrompt open={updateReady} onUpdate={applyUpdate} onDismiss={dismissUpdate} />
+
+        {/* Footer */}
+        <footer className="border-t bg-white mt-12">
+          <div className="max-w-6xl mx-auto px-4 py-4 text-center text-sm text-muted-foreground">
+            {translate(language, 'app.footer')}
+          </div>
+        </footer>
+      </div>
+    </I18nProvider>
   );
 }
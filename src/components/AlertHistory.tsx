@@ -0,0 +1,62 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { formatDateTime, formatPercent } from '@/utils/formatters';
+import { useI18n } from '@/hooks/useI18n';
+import { PortionAlert } from '@/types';
+import { Bell, Trash2 } from 'lucide-react';
+
+interface AlertHistoryProps {
+  alerts: PortionAlert[];
+  activePeriodId: string | undefined;
+  onClear: () => void;
+}
+
+/** When each category of the active period crossed its alert thresholds, latest first */
+export function AlertHistory({ alerts, activePeriodId, onClear }: AlertHistoryProps) {
+  const { t } = useI18n();
+  const periodAlerts = alerts.filter(a => a.periodId === activePeriodId).reverse();
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2">
+            <Bell className="h-5 w-5" /> {t('alerts.historyTitle')}
+          </CardTitle>
+          <CardDescription>{t('alerts.historyDescription')}</CardDescription>
+        </div>
+        {alerts.length > 0 && (
+          <Button size="sm" variant="outline" onClick={onClear}>
+            <Trash2 className="h-4 w-4 mr-1" /> {t('alerts.clearHistory')}
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent>
+        {periodAlerts.length === 0 ? (
+          <p className="text-sm text-muted-foreground">{t('alerts.noHistory')}</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-muted-foreground">
+                <th className="py-1 font-normal">{t('alerts.when')}</th>
+                <th className="py-1 font-normal">{t('common.category')}</th>
+                <th className="py-1 font-normal text-right">{t('alerts.threshold')}</th>
+                <th className="py-1 font-normal text-right">{t('alerts.used')}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {periodAlerts.map(alert => (
+                <tr key={alert.id} className="border-t">
+                  <td className="py-1">{formatDateTime(alert.triggeredAt)}</td>
+                  <td className="py-1">{alert.portionName}</td>
+                  <td className="py-1 text-right">{alert.threshold}%</td>
+                  <td className={`py-1 text-right ${alert.percentUsed >= 100 ? 'text-red-600' : ''}`}>{formatPercent(alert.percentUsed)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
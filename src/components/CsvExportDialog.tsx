@@ -0,0 +1,74 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter, DialogDescription } from '@/components/ui/dialog';
+import { downloadFile } from '@/utils/download';
+import { getCurrentDate } from '@/utils/formatters';
+import { CsvExportScope, CsvSheet } from '@/services/csvExport';
+import { useI18n } from '@/hooks/useI18n';
+import { Download } from 'lucide-react';
+
+interface CsvExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onExport: (sheet: CsvSheet, scope: CsvExportScope) => string;
+  /** Offer the "current filter" scope (only where a filter exists) */
+  allowFiltered?: boolean;
+}
+
+export function CsvExportDialog({ open, onOpenChange, onExport, allowFiltered = false }: CsvExportDialogProps) {
+  const { t } = useI18n();
+  const [sheet, setSheet] = useState<CsvSheet>('expenses');
+  const [scope, setScope] = useState<CsvExportScope>(allowFiltered ? 'filtered' : 'active-period');
+
+  const handleExport = () => {
+    const name = sheet === 'expenses' ? 'expenses' : 'budget-vs-actual';
+    downloadFile(onExport(sheet, scope), `budget-${name}-${scope}-${getCurrentDate()}.csv`, 'text/csv;charset=utf-8');
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{t('csv.title')}</DialogTitle>
+          <DialogDescription>{t('csv.description')}</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 py-4">
+          <div className="space-y-2">
+            <Label>{t('csv.sheet')}</Label>
+            <Select value={sheet} onValueChange={(v) => setSheet(v as CsvSheet)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="expenses">{t('csv.sheetExpenses')}</SelectItem>
+                <SelectItem value="portion-summary">{t('csv.sheetSummary')}</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>{t('csv.scope')}</Label>
+            <Select value={scope} onValueChange={(v) => setScope(v as CsvExportScope)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {allowFiltered && <SelectItem value="filtered">{t('csv.scopeFiltered')}</SelectItem>}
+                <SelectItem value="active-period">{t('csv.scopeActive')}</SelectItem>
+                <SelectItem value="all-periods">{t('csv.scopeAll')}</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>{t('common.cancel')}</Button>
+          <Button onClick={handleExport}>
+            <Download className="h-4 w-4 mr-2" /> {t('common.download')}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
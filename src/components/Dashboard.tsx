@@ -1,21 +1,72 @@
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Progress } from '@/components/ui/progress';
 import { Alert, AlertDescription } from '@/components/ui/alert';
-import { formatCurrency, formatPercent } from '@/utils/formatters';
-import { PeriodSummary, PortionSummary } from '@/types';
-import { Wallet, PiggyBank, Receipt, TrendingDown, AlertTriangle } from 'lucide-react';
+import { SpendingCharts } from '@/components/SpendingCharts';
+import { SafeToSpend } from '@/components/SafeToSpend';
+import { formatCurrency, formatDate, formatPercent } from '@/utils/formatters';
+import { PortionForecast } from '@/services/forecast';
+import { DailyAllowances } from '@/services/allowance';
+import { useI18n } from '@/hooks/useI18n';
+import { Expense, ExpenseFilters, Period, PeriodSummary, PortionSummary } from '@/types';
+import { Wallet, PiggyBank, Receipt, TrendingDown, TrendingUp, AlertTriangle } from 'lucide-react';
 
 interface DashboardProps {
   periodSummary: PeriodSummary | null;
   portionSummaries: PortionSummary[];
   periodName: string;
+  currency: string;
+  period: Period | null;
+  /** Expenses of the active period */
+  expenses: Expense[];
+  /** Open the expense list filtered to a chart's day or category */
+  onShowExpenses: (filters: ExpenseFilters) => void;
+  /** Projections for the portions; empty once the period is over */
+  forecasts: PortionForecast[];
+  forecastUsesHistory: boolean;
+  onForecastUsesHistoryChange: (value: boolean) => void;
+  /** Today's allowances; null when today is outside the period */
+  allowances: DailyAllowances | null;
 }
 
-export function Dashboard({ periodSummary, portionSummaries, periodName }: DashboardProps) {
+function ForecastDetails({ forecast, currency }: { forecast: PortionForecast; currency: string }) {
+  const { t } = useI18n();
+
+  if (!forecast.basis) {
+    return <p className="text-muted-foreground">{t('forecast.noData')}</p>;
+  }
+
+  return (
+    <>
+      <div className="flex justify-between">
+        <span>{t('forecast.projectedTotal')}</span>
+        <span>{formatCurrency(forecast.projectedTotal, currency)}</span>
+      </div>
+      <div className="flex justify-between">
+        <span>{forecast.projectedBalance < 0 ? t('forecast.overspend') : t('forecast.surplus')}</span>
+        <span className={forecast.projectedBalance < 0 ? 'text-red-600' : 'text-green-600'}>
+          {formatCurrency(Math.abs(forecast.projectedBalance), currency)}
+        </span>
+      </div>
+      <p className={forecast.exhausted || forecast.runOutDate ? 'text-red-600' : ''}>
+        {forecast.exhausted
+          ? t('forecast.exhausted')
+          : forecast.runOutDate ? t('forecast.runsOut', { date: formatDate(forecast.runOutDate) }) : t('forecast.lasts')}
+      </p>
+      <p className="text-muted-foreground">{t(`forecast.basis.${forecast.basis}`, { count: forecast.historyPeriods })}</p>
+    </>
+  );
+}
+
+export function Dashboard({
+  periodSummary, portionSummaries, periodName, currency, period, expenses, onShowExpenses,
+  forecasts, forecastUsesHistory, onForecastUsesHistoryChange, allowances
+}: DashboardProps) {
+  const { t } = useI18n();
+
   if (!periodSummary) {
     return (
       <div className="text-center py-12 text-muted-foreground">
-        <p>No active period selected. Create a period to get started.</p>
+        <p>{t('dashboard.noPeriod')}</p>
       </div>
     );
   }
@@ -27,58 +78,82 @@ export function Dashboard({ periodSummary, portionSummaries, periodName }: Dashb
         <Alert variant="warning">
           <AlertTriangle className="h-4 w-4" />
           <AlertDescription>
-            Budget exceeds income by {formatCurrency(Math.abs(periodSummary.unallocatedIncome))}
+            {t('dashboard.budgetExceedsIncome', { amount: formatCurrency(Math.abs(periodSummary.unallocatedIncome), currency) })}
           </AlertDescription>
         </Alert>
       )}
 
+      {/* Safe to Spend Today */}
+      {allowances && <SafeToSpend allowances={allowances} portionSummaries={portionSummaries} currency={currency} />}
+
       {/* Period Summary Cards */}
       <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Total Income</CardTitle>
+            <CardTitle className="text-sm font-medium">{t('dashboard.totalIncome')}</CardTitle>
             <Wallet className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">{formatCurrency(periodSummary.totalIncome)}</div>
+            <div className="text-2xl font-bold">{formatCurrency(periodSummary.totalIncome, currency)}</div>
             <p className="text-xs text-muted-foreground">{periodName}</p>
+            {periodSummary.incomeBySource.length > 0 && (
+              <ul className="mt-2 space-y-0.5 text-xs">
+                {periodSummary.incomeBySource.map(s => (
+                  <li key={s.source} className="flex justify-between gap-2">
+                    <span className="truncate">{s.source}</span>
+                    <span>
+                      {formatCurrency(s.received, currency)}
+                      {s.expected > 0 && <span className="text-muted-foreground"> {t('dashboard.sourceExpected', { amount: formatCurrency(s.expected, currency) })}</span>}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+            <p className={`text-xs mt-1 ${periodSummary.remainingIncome < 0 ? 'text-red-600' : 'text-muted-foreground'}`}>
+              {t('dashboard.leftOfReceived', { amount: formatCurrency(periodSummary.remainingIncome, currency) })}
+            </p>
           </CardContent>
         </Card>
 
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Total Budgeted</CardTitle>
+            <CardTitle className="text-sm font-medium">{t('dashboard.totalBudgeted')}</CardTitle>
             <PiggyBank className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">{formatCurrency(periodSummary.totalBudgeted)}</div>
+            <div className="text-2xl font-bold">{formatCurrency(periodSummary.totalBudgeted, currency)}</div>
             {periodSummary.unallocatedIncome > 0 && (
-              <p className="text-xs text-green-600">+{formatCurrency(periodSummary.unallocatedIncome)} unallocated</p>
+              <p className="text-xs text-green-600">{t('dashboard.unallocated', { amount: formatCurrency(periodSummary.unallocatedIncome, currency) })}</p>
+            )}
+            {periodSummary.totalCarriedIn !== 0 && (
+              <p className={`text-xs ${periodSummary.totalCarriedIn < 0 ? 'text-red-600' : 'text-blue-700'}`}>
+                {t('dashboard.carriedIn', { amount: `${periodSummary.totalCarriedIn > 0 ? '+' : ''}${formatCurrency(periodSummary.totalCarriedIn, currency)}` })}
+              </p>
             )}
           </CardContent>
         </Card>
 
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Total Expenses</CardTitle>
+            <CardTitle className="text-sm font-medium">{t('dashboard.totalExpenses')}</CardTitle>
             <Receipt className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">{formatCurrency(periodSummary.totalExpenses)}</div>
-            <p className="text-xs text-muted-foreground">{formatPercent(periodSummary.overallPercentUsed)} of budget</p>
+            <div className="text-2xl font-bold">{formatCurrency(periodSummary.totalExpenses, currency)}</div>
+            <p className="text-xs text-muted-foreground">{t('dashboard.percentOfBudget', { percent: formatPercent(periodSummary.overallPercentUsed) })}</p>
           </CardContent>
         </Card>
 
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Remaining</CardTitle>
+            <CardTitle className="text-sm font-medium">{t('dashboard.remaining')}</CardTitle>
             <TrendingDown className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
             <div className={`text-2xl font-bold ${periodSummary.remainingBudget < 0 ? 'text-red-600' : ''}`}>
-              {formatCurrency(periodSummary.remainingBudget)}
+              {formatCurrency(periodSummary.remainingBudget, currency)}
             </div>
-            <p className="text-xs text-muted-foreground">from budget</p>
+            <p className="text-xs text-muted-foreground">{t('dashboard.fromBudget')}</p>
           </CardContent>
         </Card>
       </div>
@@ -86,7 +161,7 @@ export function Dashboard({ periodSummary, portionSummaries, periodName }: Dashb
       {/* Overall Progress */}
       <Card>
         <CardHeader>
-          <CardTitle className="text-lg">Overall Budget Usage</CardTitle>
+          <CardTitle className="text-lg">{t('dashboard.overallUsage')}</CardTitle>
         </CardHeader>
         <CardContent>
           <Progress 
@@ -95,25 +170,54 @@ export function Dashboard({ periodSummary, portionSummaries, periodName }: Dashb
             indicatorClassName={periodSummary.isOverBudget ? 'bg-red-500' : ''}
           />
           <p className="text-sm text-muted-foreground mt-2">
-            {formatCurrency(periodSummary.totalExpenses)} of {formatCurrency(periodSummary.totalBudgeted)} used
+            {t('dashboard.usedOf', {
+              used: formatCurrency(periodSummary.totalExpenses, currency),
+              available: formatCurrency(periodSummary.totalBudgeted + periodSummary.totalCarriedIn, currency)
+            })}
           </p>
         </CardContent>
       </Card>
 
+      {/* Spending Charts */}
+      {period && (
+        <SpendingCharts
+          period={period}
+          expenses={expenses}
+          portionSummaries={portionSummaries}
+          available={periodSummary.totalBudgeted + periodSummary.totalCarriedIn}
+          currency={currency}
+          onShowExpenses={onShowExpenses}
+        />
+      )}
+
       {/* Portion Cards */}
       <div>
-        <h2 className="text-xl font-semibold mb-4">Budget by Category</h2>
+        <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+          <h2 className="text-xl font-semibold">{t('dashboard.byCategory')}</h2>
+          {forecasts.length > 0 && (
+            <label className="flex items-center gap-2 text-sm text-muted-foreground">
+              <input
+                type="checkbox"
+                checked={forecastUsesHistory}
+                onChange={(e) => onForecastUsesHistoryChange(e.target.checked)}
+              />
+              {t('forecast.useHistory')}
+            </label>
+          )}
+        </div>
         {portionSummaries.length === 0 ? (
-          <p className="text-muted-foreground">No budget categories yet. Add some in the Budgets tab.</p>
+          <p className="text-muted-foreground">{t('dashboard.noCategories')}</p>
         ) : (
           <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
-            {portionSummaries.map((summary) => (
+            {portionSummaries.map((summary) => {
+              const forecast = forecasts.find(f => f.portionId === summary.portion.id);
+              return (
               <Card key={summary.portion.id} className={summary.isOverBudget ? 'border-red-300' : ''}>
                 <CardHeader className="pb-2">
                   <CardTitle className="text-base flex justify-between items-center">
                     <span>{summary.portion.name}</span>
                     {summary.isOverBudget && (
-                      <span className="text-xs bg-red-100 text-red-700 px-2 py-1 rounded">Over Budget</span>
+                      <span className="text-xs bg-red-100 text-red-700 px-2 py-1 rounded">{t('dashboard.overBudget')}</span>
                     )}
                   </CardTitle>
                 </CardHeader>
@@ -125,26 +229,38 @@ export function Dashboard({ periodSummary, portionSummaries, periodName }: Dashb
                   />
                   <div className="grid grid-cols-3 gap-2 text-sm">
                     <div>
-                      <p className="text-muted-foreground">Budget</p>
-                      <p className="font-medium">{formatCurrency(summary.budget)}</p>
+                      <p className="text-muted-foreground">{t('dashboard.budget')}</p>
+                      <p className="font-medium">{formatCurrency(summary.budget, currency)}</p>
                     </div>
                     <div>
-                      <p className="text-muted-foreground">Used</p>
-                      <p className="font-medium">{formatCurrency(summary.used)}</p>
+                      <p className="text-muted-foreground">{t('dashboard.used')}</p>
+                      <p className="font-medium">{formatCurrency(summary.used, currency)}</p>
                     </div>
                     <div>
-                      <p className="text-muted-foreground">Left</p>
+                      <p className="text-muted-foreground">{t('dashboard.left')}</p>
                       <p className={`font-medium ${summary.remaining < 0 ? 'text-red-600' : 'text-green-600'}`}>
-                        {formatCurrency(summary.remaining)}
+                        {formatCurrency(summary.remaining, currency)}
                       </p>
                     </div>
                   </div>
-                  <p className="text-xs text-muted-foreground text-right">
-                    {formatPercent(summary.percentUsed)} used
-                  </p>
+                  <div className="flex justify-between text-xs text-muted-foreground">
+                    <span className={summary.carriedIn < 0 ? 'text-red-600' : 'text-blue-700'}>
+                      {summary.carriedIn !== 0 && t('dashboard.carriedIn', { amount: `${summary.carriedIn > 0 ? '+' : ''}${formatCurrency(summary.carriedIn, currency)}` })}
+                    </span>
+                    <span>{t('dashboard.percentUsed', { percent: formatPercent(summary.percentUsed) })}</span>
+                  </div>
+                  {forecast && (
+                    <div className="rounded-md border border-dashed bg-muted/40 p-2 text-xs space-y-1">
+                      <p className="flex items-center gap-1 font-medium uppercase tracking-wide text-muted-foreground">
+                        <TrendingUp className="h-3 w-3" /> {t('forecast.title')}
+                      </p>
+                      <ForecastDetails forecast={forecast} currency={currency} />
+                    </div>
+                  )}
                 </CardContent>
               </Card>
-            ))}
+              );
+            })}
           </div>
         )}
       </div>
@@ -0,0 +1,133 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { formatDate, formatRate } from '@/utils/formatters';
+import { CURRENCIES, DEFAULT_CURRENCY } from '@/utils/currency';
+import { useI18n } from '@/hooks/useI18n';
+import { ExchangeRate } from '@/types';
+import { ArrowRightLeft, Pencil, Trash2 } from 'lucide-react';
+
+interface ExchangeRatesProps {
+  rates: ExchangeRate[];
+  onSave: (rate: Omit<ExchangeRate, 'id' | 'updatedAt'> & { id?: string }) => void;
+  onDelete: (id: string) => void;
+}
+
+const EMPTY_FORM = { id: undefined as string | undefined, currency: 'USD', base: DEFAULT_CURRENCY, rate: '' };
+
+export function ExchangeRates({ rates, onSave, onDelete }: ExchangeRatesProps) {
+  const { t } = useI18n();
+  const [formData, setFormData] = useState(EMPTY_FORM);
+  const [error, setError] = useState('');
+
+  const sorted = [...rates].sort((a, b) => `${a.currency}${a.base}`.localeCompare(`${b.currency}${b.base}`));
+
+  const handleSave = () => {
+    if (formData.currency === formData.base) {
+      setError(t('rates.sameCurrency'));
+      return;
+    }
+    const rate = parseFloat(formData.rate);
+    if (!rate || rate <= 0) {
+      setError(t('rates.ratePositive'));
+      return;
+    }
+    onSave({ id: formData.id, currency: formData.currency, base: formData.base, rate });
+    setFormData(EMPTY_FORM);
+    setError('');
+  };
+
+  const handleEdit = (rate: ExchangeRate) => {
+    setFormData({ id: rate.id, currency: rate.currency, base: rate.base, rate: String(rate.rate) });
+    setError('');
+  };
+
+  const handleDelete = (rate: ExchangeRate) => {
+    if (confirm(t('rates.confirmDelete', { currency: rate.currency, base: rate.base }))) {
+      onDelete(rate.id);
+      if (formData.id === rate.id) setFormData(EMPTY_FORM);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ArrowRightLeft className="h-5 w-5" /> {t('rates.title')}
+        </CardTitle>
+        <CardDescription>
+          {t('rates.description')}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {sorted.length === 0 ? (
+          <p className="text-sm text-muted-foreground">{t('rates.none')}</p>
+        ) : (
+          <div className="space-y-2">
+            {sorted.map(rate => (
+              <div key={rate.id} className="flex items-center justify-between border rounded-md p-3 text-sm">
+                <div>
+                  <span className="font-medium">1 {rate.currency} = {formatRate(rate.rate)} {rate.base}</span>
+                  <p className="text-xs text-muted-foreground">{t('rates.updated', { date: formatDate(rate.updatedAt) })}</p>
+                </div>
+                <div className="flex gap-1">
+                  <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => handleEdit(rate)}>
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="icon" className="h-8 w-8 text-red-600" onClick={() => handleDelete(rate)}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+        <div className="grid gap-4 md:grid-cols-4 items-end">
+          <div className="space-y-2">
+            <Label>{t('rates.from')}</Label>
+            <Select value={formData.currency} onValueChange={(v) => setFormData({ ...formData, currency: v })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {CURRENCIES.map(c => <SelectItem key={c.code} value={c.code}>{c.code}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>{t('rates.to')}</Label>
+            <Select value={formData.base} onValueChange={(v) => setFormData({ ...formData, base: v })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {CURRENCIES.map(c => <SelectItem key={c.code} value={c.code}>{c.code}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="rate">{t('rates.rate')}</Label>
+            <Input
+              id="rate"
+              type="number"
+              step="any"
+              min="0"
+              value={formData.rate}
+              onChange={(e) => setFormData({ ...formData, rate: e.target.value })}
+              placeholder={t('common.example', { value: '16250' })}
+            />
+          </div>
+          <div className="flex gap-2">
+            <Button onClick={handleSave}>{formData.id ? t('common.update') : t('rates.save')}</Button>
+            {formData.id && <Button variant="outline" onClick={() => setFormData(EMPTY_FORM)}>{t('common.cancel')}</Button>}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
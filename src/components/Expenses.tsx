@@ -1,59 +1,110 @@
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
-import { formatCurrency, formatDate, getCurrentDate } from '@/utils/formatters';
-import { Expense, Portion } from '@/types';
-import { Plus, Pencil, Trash2, Filter } from 'lucide-react';
+import { CsvExportDialog } from '@/components/CsvExportDialog';
+import { StatementImportDialog } from '@/components/StatementImportDialog';
+import { formatAmountInput, formatCurrency, formatDate, formatRate, getCurrentDate, parseCurrency } from '@/utils/formatters';
+import { CURRENCIES, getCurrencyInfo } from '@/utils/currency';
+import { findExchangeRate, toBaseCurrencyFields } from '@/services/exchangeRates';
+import { CsvExportScope, CsvSheet } from '@/services/csvExport';
+import { DailyAllowances } from '@/services/allowance';
+import { useI18n } from '@/hooks/useI18n';
+import { Expense, ExpenseFilters, ExchangeRate, Period, Portion, StatementImportProfile } from '@/types';
+import { Plus, Pencil, Trash2, Filter, Download, Upload, Repeat } from 'lucide-react';
 
 interface ExpensesProps {
   expenses: Expense[];
   portions: Portion[];
+  activePeriod: Period | null;
   activePeriodId: string | undefined;
+  /** Base currency of the active period */
+  currency: string;
+  exchangeRates: ExchangeRate[];
   onAdd: (expense: Omit<Expense, 'id'>) => void;
   onUpdate: (id: string, updates: Partial<Expense>) => void;
   onDelete: (id: string) => void;
-  getFilteredExpenses: (filters?: { startDate?: string; endDate?: string; portionId?: string }) => Expense[];
+  getFilteredExpenses: (filters?: ExpenseFilters) => Expense[];
+  onExportCsv: (sheet: CsvSheet, scope: CsvExportScope, filters?: ExpenseFilters) => string;
+  importProfiles: StatementImportProfile[];
+  onSaveImportProfile: (profile: Omit<StatementImportProfile, 'id'> & { id?: string }) => StatementImportProfile;
+  onDeleteImportProfile: (id: string) => void;
+  /** Open the add dialog right away, e.g. when launched from the "Add expense" shortcut */
+  addRequested?: boolean;
+  onAddRequestHandled?: () => void;
+  /** Replace the filters, e.g. with a day or category clicked on the Dashboard */
+  filterRequest?: ExpenseFilters | null;
+  onFilterRequestHandled?: () => void;
+  /** Today's allowances, shown for the category picked when adding; null outside the period */
+  allowances?: DailyAllowances | null;
 }
 
-export function Expenses({ portions, activePeriodId, onAdd, onUpdate, onDelete, getFilteredExpenses }: ExpensesProps) {
+export function Expenses({
+  expenses, portions, activePeriod, activePeriodId, currency, exchangeRates, onAdd, onUpdate, onDelete, getFilteredExpenses, onExportCsv,
+  importProfiles, onSaveImportProfile, onDeleteImportProfile, addRequested, onAddRequestHandled,
+  filterRequest, onFilterRequestHandled, allowances
+}: ExpensesProps) {
+  const { t } = useI18n();
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [editingExpense, setEditingExpense] = useState<Expense | null>(null);
-  const [formData, setFormData] = useState({ portionId: '', date: getCurrentDate(), description: '', amount: '' });
+  const [formData, setFormData] = useState({
+    portionId: '', date: getCurrentDate(), description: '', amount: '', currency, exchangeRate: ''
+  });
   const [error, setError] = useState('');
+  const [csvDialogOpen, setCsvDialogOpen] = useState(false);
+  const [statementDialogOpen, setStatementDialogOpen] = useState(false);
   
   // Filters
   const [filterPortionId, setFilterPortionId] = useState<string>('');
   const [filterStartDate, setFilterStartDate] = useState('');
   const [filterEndDate, setFilterEndDate] = useState('');
 
-  const filteredExpenses = getFilteredExpenses({
-    portionId: filterPortionId || undefined,
+  const filters: ExpenseFilters = {
+    portionId: filterPortionId && filterPortionId !== 'all' ? filterPortionId : undefined,
     startDate: filterStartDate || undefined,
     endDate: filterEndDate || undefined
-  });
+  };
+  const filteredExpenses = getFilteredExpenses(filters);
+
+  const selectedAllowance = !editingExpense && allowances?.portions.find(a => a.portionId === formData.portionId);
 
   const getPortionName = (portionId: string) => {
-    return portions.find(p => p.id === portionId)?.name || 'Unknown';
+    return portions.find(p => p.id === portionId)?.name || t('common.unknown');
   };
 
   const openAddDialog = () => {
     setEditingExpense(null);
-    setFormData({ portionId: portions[0]?.id || '', date: getCurrentDate(), description: '', amount: '' });
+    setFormData({ portionId: portions[0]?.id || '', date: getCurrentDate(), description: '', amount: '', currency, exchangeRate: '' });
     setError('');
     setIsDialogOpen(true);
   };
 
+  useEffect(() => {
+    if (!addRequested) return;
+    openAddDialog();
+    onAddRequestHandled?.();
+  }, [addRequested]);
+
+  useEffect(() => {
+    if (!filterRequest) return;
+    setFilterPortionId(filterRequest.portionId || '');
+    setFilterStartDate(filterRequest.startDate || '');
+    setFilterEndDate(filterRequest.endDate || '');
+    onFilterRequestHandled?.();
+  }, [filterRequest]);
+
   const openEditDialog = (expense: Expense) => {
     setEditingExpense(expense);
     setFormData({
       portionId: expense.portionId,
       date: expense.date,
       description: expense.description,
-      amount: expense.amount.toString()
+      amount: formatAmountInput(expense.originalAmount ?? expense.amount, expense.originalCurrency || currency),
+      currency: expense.originalCurrency || currency,
+      exchangeRate: expense.exchangeRate ? String(expense.exchangeRate) : ''
     });
     setError('');
     setIsDialogOpen(true);
@@ -61,24 +112,30 @@ export function Expenses({ portions, activePeriodId, onAdd, onUpdate, onDelete,
 
   const handleSubmit = () => {
     if (!formData.portionId) {
-      setError('Please select a category');
+      setError(t('common.selectCategoryError'));
       return;
     }
     if (!formData.date) {
-      setError('Date is required');
+      setError(t('common.dateRequired'));
       return;
     }
     if (!formData.description.trim()) {
-      setError('Description is required');
+      setError(t('common.descriptionRequired'));
       return;
     }
-    const amount = parseInt(formData.amount.replace(/\./g, ''), 10);
+    const amount = parseCurrency(formData.amount, formData.currency);
     if (!amount || amount <= 0) {
-      setError('Amount must be greater than 0');
+      setError(t('common.amountPositive'));
+      return;
+    }
+    const rate = formData.currency === currency ? 1 : parseFloat(formData.exchangeRate);
+    if (!rate || rate <= 0) {
+      setError(t('expenses.rateRequired', { currency: formData.currency, base: currency }));
       return;
     }
+    const amountFields = toBaseCurrencyFields(amount, formData.currency, currency, rate);
     if (!activePeriodId) {
-      setError('No active period selected');
+      setError(t('common.noActivePeriod'));
       return;
     }
 
@@ -87,7 +144,7 @@ export function Expenses({ portions, activePeriodId, onAdd, onUpdate, onDelete,
         portionId: formData.portionId,
         date: formData.date,
         description: formData.description.trim(),
-        amount
+        ...amountFields
       });
     } else {
       onAdd({
@@ -95,18 +152,26 @@ export function Expenses({ portions, activePeriodId, onAdd, onUpdate, onDelete,
         portionId: formData.portionId,
         date: formData.date,
         description: formData.description.trim(),
-        amount
+        ...amountFields
       });
     }
     setIsDialogOpen(false);
   };
 
-  const handleDelete = (id: string) => {
-    if (confirm('Delete this expense?')) {
-      onDelete(id);
+  const handleDelete = (expense: Expense) => {
+    const message = expense.recurringId
+      ? t('expenses.confirmSkip')
+      : t('expenses.confirmDelete');
+    if (confirm(message)) {
+      onDelete(expense.id);
     }
   };
 
+  const handleCurrencyChange = (value: string) => {
+    const rate = findExchangeRate(exchangeRates, value, currency);
+    setFormData({ ...formData, currency: value, exchangeRate: rate && value !== currency ? String(rate) : '' });
+  };
+
   const clearFilters = () => {
     setFilterPortionId('');
     setFilterStartDate('');
@@ -116,7 +181,7 @@ export function Expenses({ portions, activePeriodId, onAdd, onUpdate, onDelete,
   if (!activePeriodId) {
     return (
       <div className="text-center py-12 text-muted-foreground">
-        <p>No active period selected. Create a period first.</p>
+        <p>{t('common.noActivePeriod')}</p>
       </div>
     );
   }
@@ -124,37 +189,50 @@ export function Expenses({ portions, activePeriodId, onAdd, onUpdate, onDelete,
   if (portions.length === 0) {
     return (
       <div className="text-center py-12 text-muted-foreground">
-        <p>No budget categories yet. Add some in the Budgets tab first.</p>
+        <p>{t('expenses.noCategories')}</p>
       </div>
     );
   }
 
   const totalFiltered = filteredExpenses.reduce((sum, e) => sum + e.amount, 0);
+  const formAmount = parseCurrency(formData.amount, formData.currency);
+  const formRate = parseFloat(formData.exchangeRate);
+  const convertedAmount = formAmount > 0 && formRate > 0
+    ? toBaseCurrencyFields(formAmount, formData.currency, currency, formRate).amount
+    : null;
 
   return (
     <div className="space-y-6">
-      {/* Add Button */}
-      <Button onClick={openAddDialog}>
-        <Plus className="h-4 w-4 mr-2" /> Add Expense
-      </Button>
+      {/* Actions */}
+      <div className="flex flex-wrap gap-2">
+        <Button onClick={openAddDialog}>
+          <Plus className="h-4 w-4 mr-2" /> {t('expenses.add')}
+        </Button>
+        <Button variant="outline" onClick={() => setStatementDialogOpen(true)}>
+          <Upload className="h-4 w-4 mr-2" /> {t('expenses.importStatement')}
+        </Button>
+        <Button variant="outline" onClick={() => setCsvDialogOpen(true)}>
+          <Download className="h-4 w-4 mr-2" /> {t('expenses.exportCsv')}
+        </Button>
+      </div>
 
       {/* Filters */}
       <Card>
         <CardHeader className="pb-3">
           <CardTitle className="text-base flex items-center gap-2">
-            <Filter className="h-4 w-4" /> Filters
+            <Filter className="h-4 w-4" /> {t('expenses.filters')}
           </CardTitle>
         </CardHeader>
         <CardContent>
           <div className="grid gap-4 md:grid-cols-4">
             <div className="space-y-2">
-              <Label>Category</Label>
+              <Label>{t('common.category')}</Label>
               <Select value={filterPortionId} onValueChange={setFilterPortionId}>
                 <SelectTrigger>
-                  <SelectValue placeholder="All categories" />
+                  <SelectValue placeholder={t('expenses.allCategories')} />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="all">All categories</SelectItem>
+                  <SelectItem value="all">{t('expenses.allCategories')}</SelectItem>
                   {portions.map(p => (
                     <SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>
                   ))}
@@ -162,15 +240,15 @@ export function Expenses({ portions, activePeriodId, onAdd, onUpdate, onDelete,
               </Select>
             </div>
             <div className="space-y-2">
-              <Label>From Date</Label>
+              <Label>{t('expenses.fromDate')}</Label>
               <Input type="date" value={filterStartDate} onChange={(e) => setFilterStartDate(e.target.value)} />
             </div>
             <div className="space-y-2">
-              <Label>To Date</Label>
+              <Label>{t('expenses.toDate')}</Label>
               <Input type="date" value={filterEndDate} onChange={(e) => setFilterEndDate(e.target.value)} />
             </div>
             <div className="flex items-end">
-              <Button variant="outline" onClick={clearFilters}>Clear</Button>
+              <Button variant="outline" onClick={clearFilters}>{t('common.clear')}</Button>
             </div>
           </div>
         </CardContent>
@@ -178,13 +256,13 @@ export function Expenses({ portions, activePeriodId, onAdd, onUpdate, onDelete,
 
       {/* Summary */}
       <div className="flex justify-between items-center">
-        <p className="text-muted-foreground">{filteredExpenses.length} expense(s)</p>
-        <p className="font-semibold">Total: {formatCurrency(totalFiltered)}</p>
+        <p className="text-muted-foreground">{t('expenses.count', { count: filteredExpenses.length })}</p>
+        <p className="font-semibold">{t('expenses.total', { amount: formatCurrency(totalFiltered, currency) })}</p>
       </div>
 
       {/* Expenses List */}
       {filteredExpenses.length === 0 ? (
-        <p className="text-muted-foreground text-center py-8">No expenses found.</p>
+        <p className="text-muted-foreground text-center py-8">{t('expenses.none')}</p>
       ) : (
         <div className="space-y-2">
           {filteredExpenses.map((expense) => (
@@ -194,16 +272,28 @@ export function Expenses({ portions, activePeriodId, onAdd, onUpdate, onDelete,
                   <div className="flex items-center gap-2">
                     <span className="font-medium">{expense.description}</span>
                     <span className="text-xs bg-secondary px-2 py-0.5 rounded">{getPortionName(expense.portionId)}</span>
+                    {expense.autoGenerated && (
+                      <span className="text-xs bg-blue-100 text-blue-700 px-2 py-0.5 rounded flex items-center gap-1">
+                        <Repeat className="h-3 w-3" /> {t('expenses.auto')}
+                      </span>
+                    )}
                   </div>
                   <p className="text-sm text-muted-foreground">{formatDate(expense.date)}</p>
                 </div>
                 <div className="flex items-center gap-4">
-                  <span className="font-bold text-lg">{formatCurrency(expense.amount)}</span>
+                  <div className="text-right">
+                    <span className="font-bold text-lg">{formatCurrency(expense.amount, currency)}</span>
+                    {expense.originalCurrency && expense.originalAmount !== undefined && (
+                      <p className="text-xs text-muted-foreground">
+                        {formatCurrency(expense.originalAmount, expense.originalCurrency)} @ {formatRate(expense.exchangeRate || 0)}
+                      </p>
+                    )}
+                  </div>
                   <div className="flex gap-1">
                     <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => openEditDialog(expense)}>
                       <Pencil className="h-4 w-4" />
                     </Button>
-                    <Button variant="ghost" size="icon" className="h-8 w-8 text-red-600" onClick={() => handleDelete(expense.id)}>
+                    <Button variant="ghost" size="icon" className="h-8 w-8 text-red-600" onClick={() => handleDelete(expense)}>
                       <Trash2 className="h-4 w-4" />
                     </Button>
                   </div>
@@ -214,19 +304,40 @@ export function Expenses({ portions, activePeriodId, onAdd, onUpdate, onDelete,
         </div>
       )}
 
+      <CsvExportDialog
+        open={csvDialogOpen}
+        onOpenChange={setCsvDialogOpen}
+        onExport={(sheet, scope) => onExportCsv(sheet, scope, filters)}
+        allowFiltered
+      />
+
+      {activePeriod && (
+        <StatementImportDialog
+          open={statementDialogOpen}
+          onOpenChange={setStatementDialogOpen}
+          period={activePeriod}
+          portions={portions}
+          expenses={expenses}
+          profiles={importProfiles}
+          onSaveProfile={onSaveImportProfile}
+          onDeleteProfile={onDeleteImportProfile}
+          onAdd={onAdd}
+        />
+      )}
+
       {/* Add/Edit Dialog */}
       <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
         <DialogContent>
           <DialogHeader>
-            <DialogTitle>{editingExpense ? 'Edit Expense' : 'Add Expense'}</DialogTitle>
+            <DialogTitle>{editingExpense ? t('expenses.edit') : t('expenses.add')}</DialogTitle>
           </DialogHeader>
           <div className="space-y-4 py-4">
             {error && <p className="text-sm text-red-600">{error}</p>}
             <div className="space-y-2">
-              <Label>Category *</Label>
+              <Label>{t('expenses.categoryLabel')}</Label>
               <Select value={formData.portionId} onValueChange={(v) => setFormData({ ...formData, portionId: v })}>
                 <SelectTrigger>
-                  <SelectValue placeholder="Select category" />
+                  <SelectValue placeholder={t('common.selectCategory')} />
                 </SelectTrigger>
                 <SelectContent>
                   {portions.map(p => (
@@ -234,9 +345,17 @@ export function Expenses({ portions, activePeriodId, onAdd, onUpdate, onDelete,
                   ))}
                 </SelectContent>
               </Select>
+              {selectedAllowance && (
+                <p className={`text-xs ${selectedAllowance.spentToday > selectedAllowance.perDay ? 'text-red-600' : 'text-blue-700'}`}>
+                  {t('allowance.dialogHint', {
+                    allowance: formatCurrency(selectedAllowance.perDay, currency),
+                    spent: formatCurrency(selectedAllowance.spentToday, currency)
+                  })}
+                </p>
+              )}
             </div>
             <div className="space-y-2">
-              <Label htmlFor="date">Date *</Label>
+              <Label htmlFor="date">{t('expenses.dateLabel')}</Label>
               <Input
                 id="date"
                 type="date"
@@ -245,27 +364,63 @@ export function Expenses({ portions, activePeriodId, onAdd, onUpdate, onDelete,
               />
             </div>
             <div className="space-y-2">
-              <Label htmlFor="description">Description *</Label>
+              <Label htmlFor="description">{t('expenses.descriptionLabel')}</Label>
               <Input
                 id="description"
                 value={formData.description}
                 onChange={(e) => setFormData({ ...formData, description: e.target.value })}
-                placeholder="e.g., Lunch nasi goreng"
+                placeholder={t('expenses.descriptionPlaceholder')}
               />
             </div>
-            <div className="space-y-2">
-              <Label htmlFor="amount">Amount (Rp) *</Label>
-              <Input
-                id="amount"
-                value={formData.amount}
-                onChange={(e) => setFormData({ ...formData, amount: e.target.value.replace(/[^\d]/g, '') })}
-                placeholder="e.g., 50000"
-              />
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label>{t('common.currency')}</Label>
+                <Select value={formData.currency} onValueChange={handleCurrencyChange}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {CURRENCIES.map(c => (
+                      <SelectItem key={c.code} value={c.code}>{c.code}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2 col-span-2">
+                <Label htmlFor="amount">{t('common.amountWithSymbol', { symbol: getCurrencyInfo(formData.currency).symbol })}</Label>
+                <Input
+                  id="amount"
+                  inputMode="decimal"
+                  value={formData.amount}
+                  onChange={(e) => setFormData({ ...formData, amount: e.target.value.replace(/[^\d.,]/g, '') })}
+                  placeholder={t('common.example', { value: formatAmountInput(getCurrencyInfo(formData.currency).decimals > 0 ? 12.5 : 50000, formData.currency) })}
+                />
+              </div>
             </div>
+            {formData.currency !== currency && (
+              <div className="space-y-2">
+                <Label htmlFor="exchangeRate">{t('expenses.rateLabel', { currency: formData.currency, base: currency })}</Label>
+                <Input
+                  id="exchangeRate"
+                  type="number"
+                  step="any"
+                  min="0"
+                  value={formData.exchangeRate}
+                  onChange={(e) => setFormData({ ...formData, exchangeRate: e.target.value })}
+                  placeholder={t('common.example', { value: '16250' })}
+                />
+                {convertedAmount !== null && (
+                  <p className="text-xs text-muted-foreground">= {formatCurrency(convertedAmount, currency)}</p>
+                )}
+                {!findExchangeRate(exchangeRates, formData.currency, currency) && (
+                  <p className="text-xs text-muted-foreground">{t('expenses.noSavedRate', { currency: formData.currency })}</p>
+                )}
+              </div>
+            )}
           </div>
           <DialogFooter>
-            <Button variant="outline" onClick={() => setIsDialogOpen(false)}>Cancel</Button>
-            <Button onClick={handleSubmit}>{editingExpense ? 'Save' : 'Add'}</Button>
+            <Button variant="outline" onClick={() => setIsDialogOpen(false)}>{t('common.cancel')}</Button>
+            <Button onClick={handleSubmit}>{editingExpense ? t('common.save') : t('common.add')}</Button>
           </DialogFooter>
         </DialogContent>
       </Dialog>
@@ -0,0 +1,228 @@
+import { useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Input } from '@/components/ui/input';
+import { MergeConflictResolver } from '@/components/MergeConflictResolver';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter, DialogDescription } from '@/components/ui/dialog';
+import { ImportValidationError, ValidationIssue } from '@/services/validation';
+import { ConflictStrategy, MergePreview, MergeResolutions } from '@/services/merge';
+import { decryptImportedJson, getExportedProfileNames, isEncryptedJson } from '@/services/dataService';
+import { useI18n } from '@/hooks/useI18n';
+
+const MAX_LISTED_ISSUES = 50;
+
+type ImportMode = 'replace' | 'merge';
+
+interface ImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onImport: (json: string) => void;
+  onPreviewMerge: (json: string) => MergePreview;
+  onMerge: (json: string, strategy: ConflictStrategy, resolutions: MergeResolutions) => void;
+  /** Add the profiles of an all-profiles export */
+  onImportProfiles: (json: string) => Promise<number>;
+}
+
+export function ImportDialog({ open, onOpenChange, onImport, onPreviewMerge, onMerge, onImportProfiles }: ImportDialogProps) {
+  const { t } = useI18n();
+  const [importText, setImportText] = useState('');
+  const [mode, setMode] = useState<ImportMode>('replace');
+  const [strategy, setStrategy] = useState<ConflictStrategy>('keep-existing');
+  const [error, setError] = useState('');
+  const [issues, setIssues] = useState<ValidationIssue[]>([]);
+  const [preview, setPreview] = useState<MergePreview | null>(null);
+  const [resolutions, setResolutions] = useState<MergeResolutions>({});
+  const [passphrase, setPassphrase] = useState('');
+  const [decrypting, setDecrypting] = useState(false);
+  const [importingProfiles, setImportingProfiles] = useState(false);
+
+  const encrypted = useMemo(() => isEncryptedJson(importText), [importText]);
+  const profileNames = useMemo(() => getExportedProfileNames(importText), [importText]);
+
+  const reset = () => {
+    setImportText('');
+    setPassphrase('');
+    setError('');
+    setIssues([]);
+    setPreview(null);
+  };
+
+  const handleOpenChange = (isOpen: boolean) => {
+    if (!isOpen) reset();
+    onOpenChange(isOpen);
+  };
+
+  const showError = (err: unknown) => {
+    if (err instanceof ImportValidationError) {
+      setError(err.message);
+      setIssues(err.issues);
+    } else {
+      setError(err instanceof Error ? err.message : t('import.invalidJson'));
+      setIssues([]);
+    }
+  };
+
+  const handleTextChange = (value: string) => {
+    setImportText(value);
+    setPreview(null);
+  };
+
+  const handleDecrypt = async () => {
+    setDecrypting(true);
+    try {
+      handleTextChange(await decryptImportedJson(importText, passphrase));
+      setPassphrase('');
+      setError('');
+      setIssues([]);
+    } catch (err) {
+      showError(err);
+    } finally {
+      setDecrypting(false);
+    }
+  };
+
+  const handleImport = () => {
+    try {
+      onImport(importText);
+      handleOpenChange(false);
+    } catch (err) {
+      showError(err);
+    }
+  };
+
+  const handleImportProfiles = async () => {
+    setImportingProfiles(true);
+    try {
+      await onImportProfiles(importText);
+      handleOpenChange(false);
+    } catch (err) {
+      showError(err);
+    } finally {
+      setImportingProfiles(false);
+    }
+  };
+
+  const handlePreview = () => {
+    try {
+      setPreview(onPreviewMerge(importText));
+      setResolutions({});
+      setError('');
+      setIssues([]);
+    } catch (err) {
+      showError(err);
+    }
+  };
+
+  const handleMerge = () => {
+    try {
+      onMerge(importText, strategy, resolutions);
+      handleOpenChange(false);
+    } catch (err) {
+      showError(err);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className={preview?.conflicts.length ? 'max-w-2xl' : undefined}>
+        <DialogHeader>
+          <DialogTitle>{t('import.title')}</DialogTitle>
+          <DialogDescription>
+            {mode === 'replace'
+              ? t('import.replaceDescription')
+              : t('import.mergeDescription')}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 py-4">
+          {!profileNames && (
+            <div className="space-y-2">
+              <Label>{t('import.mode')}</Label>
+              <Select value={mode} onValueChange={(v) => { setMode(v as ImportMode); setPreview(null); }}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="replace">{t('import.modeReplace')}</SelectItem>
+                  <SelectItem value="merge">{t('import.modeMerge')}</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          {error && (
+            <div className="text-sm text-red-600 space-y-1">
+              <p>{error}</p>
+              {issues.length > 0 && (
+                <ul className="max-h-40 overflow-y-auto list-disc pl-5 font-mono text-xs">
+                  {issues.slice(0, MAX_LISTED_ISSUES).map((issue, i) => (
+                    <li key={i}>{issue.path}: {issue.message}</li>
+                  ))}
+                  {issues.length > MAX_LISTED_ISSUES && <li>{t('import.moreIssues', { count: issues.length - MAX_LISTED_ISSUES })}</li>}
+                </ul>
+              )}
+            </div>
+          )}
+          <Textarea
+            value={importText}
+            onChange={(e) => handleTextChange(e.target.value)}
+            placeholder={t('import.placeholder')}
+            className="min-h-[200px] font-mono text-xs"
+          />
+          {encrypted && (
+            <div className="space-y-2">
+              <Label htmlFor="import-passphrase">{t('import.encrypted')}</Label>
+              <div className="flex gap-2">
+                <Input
+                  id="import-passphrase"
+                  type="password"
+                  value={passphrase}
+                  onChange={(e) => setPassphrase(e.target.value)}
+                  placeholder={t('lock.passphrase')}
+                />
+                <Button variant="outline" onClick={handleDecrypt} disabled={decrypting || !passphrase}>
+                  {decrypting ? t('lock.working') : t('import.decrypt')}
+                </Button>
+              </div>
+            </div>
+          )}
+          {profileNames && (
+            <p className="text-sm">{t('import.profilesFile', { count: profileNames.length, names: profileNames.join(', ') })}</p>
+          )}
+          {preview && (
+            <div className="space-y-2 text-sm">
+              <p>
+                {t('import.previewSummary', { ...preview.added, unchanged: preview.unchanged })}
+                {preview.matchedByDetails > 0 && ` ${t('import.previewMatched', { count: preview.matchedByDetails })}`}
+              </p>
+              {preview.conflicts.length > 0 && (
+                <>
+                  <p className="font-medium">{t('import.conflicts', { count: preview.conflicts.length })}</p>
+                  <MergeConflictResolver
+                    conflicts={preview.conflicts}
+                    strategy={strategy}
+                    resolutions={resolutions}
+                    onStrategyChange={(next) => { setStrategy(next); setResolutions({}); }}
+                    onResolve={(key, choice) => setResolutions({ ...resolutions, [key]: choice })}
+                  />
+                </>
+              )}
+            </div>
+          )}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)}>{t('common.cancel')}</Button>
+          {profileNames ? (
+            <Button onClick={handleImportProfiles} disabled={importingProfiles}>{t('import.addProfiles')}</Button>
+          ) : (
+            <>
+              {mode === 'replace' && <Button onClick={handleImport} disabled={encrypted}>{t('import.import')}</Button>}
+              {mode === 'merge' && !preview && <Button onClick={handlePreview} disabled={encrypted}>{t('import.previewMerge')}</Button>}
+              {mode === 'merge' && preview && <Button onClick={handleMerge}>{t('import.applyMerge')}</Button>}
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
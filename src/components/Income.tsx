@@ -0,0 +1,202 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
+import { formatAmountInput, formatCurrency, formatDate, parseCurrency } from '@/utils/formatters';
+import { getCurrencyInfo } from '@/utils/currency';
+import { useI18n } from '@/hooks/useI18n';
+import { IncomeEntry, IncomeStatus, Period } from '@/types';
+import { Plus, Pencil, Trash2, Wallet, CheckCircle2, Clock } from 'lucide-react';
+
+interface IncomeProps {
+  incomes: IncomeEntry[];
+  period: Period | null;
+  currency: string;
+  /** Sources used before, offered as suggestions */
+  knownSources: string[];
+  onAdd: (income: Omit<IncomeEntry, 'id'>) => void;
+  onUpdate: (id: string, updates: Partial<IncomeEntry>) => void;
+  onDelete: (id: string) => void;
+}
+
+export function Income({ incomes, period, currency, knownSources, onAdd, onUpdate, onDelete }: IncomeProps) {
+  const { t } = useI18n();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingIncome, setEditingIncome] = useState<IncomeEntry | null>(null);
+  const [formData, setFormData] = useState({ source: '', date: '', amount: '', status: 'expected' as IncomeStatus });
+  const [error, setError] = useState('');
+
+  if (!period) return null;
+
+  const received = incomes.filter(i => i.status === 'received').reduce((sum, i) => sum + i.amount, 0);
+  const expected = incomes.filter(i => i.status === 'expected').reduce((sum, i) => sum + i.amount, 0);
+  const sorted = [...incomes].sort((a, b) => a.date.localeCompare(b.date));
+
+  const openAddDialog = () => {
+    setEditingIncome(null);
+    setFormData({ source: '', date: period.startDate, amount: '', status: 'expected' });
+    setError('');
+    setIsDialogOpen(true);
+  };
+
+  const openEditDialog = (income: IncomeEntry) => {
+    setEditingIncome(income);
+    setFormData({ source: income.source, date: income.date, amount: formatAmountInput(income.amount, currency), status: income.status });
+    setError('');
+    setIsDialogOpen(true);
+  };
+
+  const handleSubmit = () => {
+    if (!formData.source.trim()) {
+      setError(t('income.sourceRequired'));
+      return;
+    }
+    if (!formData.date) {
+      setError(t('common.dateRequired'));
+      return;
+    }
+    const amount = parseCurrency(formData.amount, currency);
+    if (!amount || amount <= 0) {
+      setError(t('common.amountPositive'));
+      return;
+    }
+
+    const values = { source: formData.source.trim(), date: formData.date, amount, status: formData.status };
+    if (editingIncome) {
+      onUpdate(editingIncome.id, values);
+    } else {
+      onAdd({ ...values, periodId: period.id });
+    }
+    setIsDialogOpen(false);
+  };
+
+  const handleDelete = (id: string) => {
+    if (confirm(t('income.confirmDelete'))) {
+      onDelete(id);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Wallet className="h-5 w-5" /> {t('income.title')}
+        </CardTitle>
+        <CardDescription>
+          {t('income.received', { amount: formatCurrency(received, currency) })}
+          {expected > 0 && t('income.stillExpected', { amount: formatCurrency(expected, currency) })}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Button variant="outline" onClick={openAddDialog}>
+          <Plus className="h-4 w-4 mr-2" /> {t('income.add')}
+        </Button>
+
+        {sorted.length === 0 ? (
+          <p className="text-sm text-muted-foreground">{t('income.none')}</p>
+        ) : (
+          <div className="space-y-2">
+            {sorted.map(income => (
+              <div key={income.id} className="flex items-center justify-between border rounded-md p-3">
+                <div>
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{income.source}</span>
+                    {income.status === 'received' ? (
+                      <span className="text-xs bg-green-100 text-green-700 px-2 py-0.5 rounded">{t('income.statusReceived')}</span>
+                    ) : (
+                      <span className="text-xs bg-yellow-100 text-yellow-800 px-2 py-0.5 rounded">{t('income.statusExpected')}</span>
+                    )}
+                  </div>
+                  <p className="text-sm text-muted-foreground">{formatDate(income.date)}</p>
+                </div>
+                <div className="flex items-center gap-4">
+                  <span className="font-bold">{formatCurrency(income.amount, currency)}</span>
+                  <div className="flex gap-1">
+                    <Button
+                      variant="ghost" size="icon" className="h-8 w-8"
+                      title={income.status === 'received' ? t('income.markExpected') : t('income.markReceived')}
+                      onClick={() => onUpdate(income.id, { status: income.status === 'received' ? 'expected' : 'received' })}
+                    >
+                      {income.status === 'received' ? <Clock className="h-4 w-4" /> : <CheckCircle2 className="h-4 w-4" />}
+                    </Button>
+                    <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => openEditDialog(income)}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="icon" className="h-8 w-8 text-red-600" onClick={() => handleDelete(income.id)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      {/* Add/Edit Dialog */}
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingIncome ? t('income.edit') : t('income.add')}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            {error && <p className="text-sm text-red-600">{error}</p>}
+            <div className="space-y-2">
+              <Label htmlFor="incomeSource">{t('income.source')}</Label>
+              <Input
+                id="incomeSource"
+                list="incomeSources"
+                value={formData.source}
+                onChange={(e) => setFormData({ ...formData, source: e.target.value })}
+                placeholder={t('income.sourcePlaceholder')}
+              />
+              <datalist id="incomeSources">
+                {knownSources.map(source => <option key={source} value={source} />)}
+              </datalist>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="incomeDate">{t('common.date')} *</Label>
+                <Input
+                  id="incomeDate"
+                  type="date"
+                  value={formData.date}
+                  onChange={(e) => setFormData({ ...formData, date: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="incomeAmount">{t('common.amountWithSymbol', { symbol: getCurrencyInfo(currency).symbol })}</Label>
+                <Input
+                  id="incomeAmount"
+                  inputMode="decimal"
+                  value={formData.amount}
+                  onChange={(e) => setFormData({ ...formData, amount: e.target.value.replace(/[^\d.,]/g, '') })}
+                  placeholder={t('common.example', { value: '10000000' })}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>{t('common.status')}</Label>
+              <Select value={formData.status} onValueChange={(v) => setFormData({ ...formData, status: v as IncomeStatus })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="expected">{t('income.statusExpected')}</SelectItem>
+                  <SelectItem value="received">{t('income.statusReceived')}</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsDialogOpen(false)}>{t('common.cancel')}</Button>
+            <Button onClick={handleSubmit}>{editingIncome ? t('common.save') : t('common.add')}</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
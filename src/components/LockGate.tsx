@@ -0,0 +1,100 @@
+import { FormEvent, ReactNode, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { I18nProvider, useI18n } from '@/hooks/useI18n';
+import { useLock } from '@/hooks/useLock';
+import { detectLanguage } from '@/i18n';
+import { Lock, AlertTriangle } from 'lucide-react';
+
+/** Renders the app only while unlocked; otherwise asks for the passphrase */
+export function LockGate({ children }: { children: ReactNode }) {
+  const { unlocked } = useLock();
+  if (unlocked) return <>{children}</>;
+  // The chosen language is part of the encrypted settings, so the browser's is used here
+  return (
+    <I18nProvider language={detectLanguage()}>
+      <UnlockScreen />
+    </I18nProvider>
+  );
+}
+
+function UnlockScreen() {
+  const { t } = useI18n();
+  const { unlock, eraseLockedData } = useLock();
+  const [passphrase, setPassphrase] = useState('');
+  const [error, setError] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [showForgot, setShowForgot] = useState(false);
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    setBusy(true);
+    setError('');
+    try {
+      await unlock(passphrase);
+    } catch (err) {
+      setError((err as Error).message);
+      setBusy(false);
+    }
+  };
+
+  const handleErase = async () => {
+    setBusy(true);
+    await eraseLockedData().catch(err => {
+      setError((err as Error).message);
+      setBusy(false);
+    });
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+      <Card className="w-full max-w-sm">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Lock className="h-5 w-5" /> {t('lock.unlockTitle')}
+          </CardTitle>
+          <CardDescription>{t('lock.unlockDescription')}</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form className="space-y-4" onSubmit={handleSubmit}>
+            <div>
+              <Label htmlFor="unlock-passphrase">{t('lock.passphrase')}</Label>
+              <Input
+                id="unlock-passphrase"
+                type="password"
+                autoComplete="current-password"
+                autoFocus
+                value={passphrase}
+                onChange={e => setPassphrase(e.target.value)}
+              />
+            </div>
+            {error && <p className="text-sm text-red-600">{error}</p>}
+            <Button type="submit" className="w-full" disabled={busy || !passphrase}>
+              {busy ? t('lock.unlocking') : t('lock.unlock')}
+            </Button>
+          </form>
+
+          <div className="mt-4 text-center">
+            <Button variant="link" className="h-auto p-0 text-muted-foreground" onClick={() => setShowForgot(!showForgot)}>
+              {t('lock.forgot')}
+            </Button>
+          </div>
+          {showForgot && (
+            <Alert variant="destructive" className="mt-2">
+              <AlertTriangle className="h-4 w-4" />
+              <AlertDescription>
+                {t('lock.forgotBody')}
+                <Button size="sm" variant="destructive" className="mt-2" disabled={busy} onClick={handleErase}>
+                  {t('lock.erase')}
+                </Button>
+              </AlertDescription>
+            </Alert>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,148 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { useI18n } from '@/hooks/useI18n';
+import { useLock } from '@/hooks/useLock';
+import { AUTO_LOCK_OPTIONS, MIN_PASSPHRASE_LENGTH } from '@/services/lock';
+import { Lock, AlertTriangle } from 'lucide-react';
+
+const EMPTY_FORM = { passphrase: '', confirm: '' };
+
+/** Turns the passphrase lock on or off and sets the auto-lock delay */
+export function LockSettings() {
+  const { t } = useI18n();
+  const { enabled, autoLockMinutes, enableLock, disableLock, setAutoLockMinutes, lockNow } = useLock();
+  const [formData, setFormData] = useState(EMPTY_FORM);
+  const [newAutoLock, setNewAutoLock] = useState(15);
+  const [error, setError] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    setError('');
+    try {
+      await action();
+      setFormData(EMPTY_FORM);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleEnable = () => {
+    if (formData.passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      setError(t('lock.tooShort', { min: MIN_PASSPHRASE_LENGTH }));
+      return;
+    }
+    if (formData.passphrase !== formData.confirm) {
+      setError(t('lock.mismatch'));
+      return;
+    }
+    run(() => enableLock(formData.passphrase, newAutoLock));
+  };
+
+  const autoLockLabel = (minutes: number) =>
+    minutes === 0 ? t('lock.autoLockNever') : t('lock.autoLockMinutes', { minutes });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Lock className="h-5 w-5" /> {t('lock.title')}
+        </CardTitle>
+        <CardDescription>{t('lock.description')}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {enabled ? (
+          <>
+            <p className="text-sm text-muted-foreground">{t('lock.enabledNote')}</p>
+            <div>
+              <Label>{t('lock.autoLock')}</Label>
+              <Select value={String(autoLockMinutes)} onValueChange={v => setAutoLockMinutes(parseInt(v))}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {AUTO_LOCK_OPTIONS.map(minutes => (
+                    <SelectItem key={minutes} value={String(minutes)}>{autoLockLabel(minutes)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button variant="outline" onClick={lockNow}>
+              <Lock className="h-4 w-4 mr-2" /> {t('lock.lockNow')}
+            </Button>
+            <div className="border-t pt-4 space-y-2">
+              <Label htmlFor="lock-current">{t('lock.currentPassphrase')}</Label>
+              <Input
+                id="lock-current"
+                type="password"
+                autoComplete="current-password"
+                value={formData.passphrase}
+                onChange={e => setFormData({ ...formData, passphrase: e.target.value })}
+              />
+              <Button
+                variant="outline"
+                disabled={busy || !formData.passphrase}
+                onClick={() => run(() => disableLock(formData.passphrase))}
+              >
+                {busy ? t('lock.working') : t('lock.disable')}
+              </Button>
+            </div>
+          </>
+        ) : (
+          <>
+            <Alert variant="warning">
+              <AlertTriangle className="h-4 w-4" />
+              <AlertDescription>{t('lock.warning')}</AlertDescription>
+            </Alert>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              <div>
+                <Label htmlFor="lock-new">{t('lock.newPassphrase')}</Label>
+                <Input
+                  id="lock-new"
+                  type="password"
+                  autoComplete="new-password"
+                  value={formData.passphrase}
+                  onChange={e => setFormData({ ...formData, passphrase: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="lock-confirm">{t('lock.confirmPassphrase')}</Label>
+                <Input
+                  id="lock-confirm"
+                  type="password"
+                  autoComplete="new-password"
+                  value={formData.confirm}
+                  onChange={e => setFormData({ ...formData, confirm: e.target.value })}
+                />
+              </div>
+            </div>
+            <div>
+              <Label>{t('lock.autoLock')}</Label>
+              <Select value={String(newAutoLock)} onValueChange={v => setNewAutoLock(parseInt(v))}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {AUTO_LOCK_OPTIONS.map(minutes => (
+                    <SelectItem key={minutes} value={String(minutes)}>{autoLockLabel(minutes)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button disabled={busy || !formData.passphrase} onClick={handleEnable}>
+              {busy ? t('lock.working') : t('lock.enable')}
+            </Button>
+          </>
+        )}
+        {error && <p className="text-sm text-red-600">{error}</p>}
+      </CardContent>
+    </Card>
+  );
+}
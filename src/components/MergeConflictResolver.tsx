@@ -0,0 +1,101 @@
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ConflictStrategy, MergeConflict, MergeResolutions, conflictKey } from '@/services/merge';
+import { useI18n } from '@/hooks/useI18n';
+import { MessageKey } from '@/i18n';
+import { cn } from '@/lib/utils';
+
+interface MergeConflictResolverProps {
+  conflicts: MergeConflict[];
+  strategy: ConflictStrategy;
+  resolutions: MergeResolutions;
+  /** Use one choice for every conflict, replacing single choices */
+  onStrategyChange: (strategy: ConflictStrategy) => void;
+  onResolve: (key: string, choice: ConflictStrategy) => void;
+}
+
+function recordName(conflict: MergeConflict): string {
+  const record = conflict.existing;
+  return 'name' in record ? record.name : 'source' in record ? record.source : record.description;
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined || value === null || value === '') return '—';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+/** Lists records changed on both sides next to each other, to pick a version per record */
+export function MergeConflictResolver({ conflicts, strategy, resolutions, onStrategyChange, onResolve }: MergeConflictResolverProps) {
+  const { t } = useI18n();
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-2">
+        <Label>{t('import.forConflicts')}</Label>
+        <Select value={strategy} onValueChange={(v) => onStrategyChange(v as ConflictStrategy)}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="keep-existing">{t('import.keepExisting')}</SelectItem>
+            <SelectItem value="use-incoming">{t('import.useIncoming')}</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="max-h-72 overflow-y-auto space-y-3 pr-1">
+        {conflicts.map(conflict => {
+          const key = conflictKey(conflict);
+          const choice = resolutions[key] || strategy;
+          const sideClass = (side: ConflictStrategy) =>
+            cn('px-2 py-1 align-top break-all', choice === side ? 'bg-green-50 font-medium' : 'text-muted-foreground');
+          const sideButton = (side: ConflictStrategy, label: MessageKey) => (
+            <button
+              type="button"
+              className={cn('w-full rounded px-2 py-1 text-left', choice === side ? 'bg-green-100 text-green-800' : 'hover:bg-muted')}
+              aria-pressed={choice === side}
+              onClick={() => onResolve(key, side)}
+            >
+              {t(label)}
+            </button>
+          );
+
+          return (
+            <div key={key} className="rounded-md border text-xs">
+              <div className="flex items-center justify-between gap-2 border-b bg-muted/50 px-2 py-1.5">
+                <span className="font-medium">
+                  {t('import.conflictTitle', { kind: t(`import.kind.${conflict.kind}`), name: recordName(conflict) })}
+                </span>
+                {conflict.matchedBy === 'details' && (
+                  <span className="text-muted-foreground">{t('import.matchedByDetails')}</span>
+                )}
+              </div>
+              <table className="w-full table-fixed">
+                <thead>
+                  <tr>
+                    <th className="w-1/4 px-2 py-1 text-left font-normal text-muted-foreground">{t('import.field')}</th>
+                    <th className="px-1 py-1">{sideButton('keep-existing', 'import.currentVersion')}</th>
+                    <th className="px-1 py-1">{sideButton('use-incoming', 'import.importedVersion')}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {conflict.fields.map(field => (
+                    <tr key={field} className="border-t">
+                      <td className="px-2 py-1 align-top font-mono text-muted-foreground">{field}</td>
+                      <td className={sideClass('keep-existing')}>
+                        {formatValue(conflict.existing[field as keyof typeof conflict.existing])}
+                      </td>
+                      <td className={sideClass('use-incoming')}>
+                        {formatValue(conflict.incoming[field as keyof typeof conflict.incoming])}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -4,50 +4,121 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
-import { formatCurrency, getShortMonthYear } from '@/utils/formatters';
-import { Period } from '@/types';
-import { Plus, Pencil, Trash2, Calendar } from 'lucide-react';
+import { formatAmountInput, formatCurrency, parseCurrency } from '@/utils/formatters';
+import { CURRENCIES, DEFAULT_CURRENCY, getCurrencyInfo } from '@/utils/currency';
+import {
+  getIncomeTemplates, getLatestPeriod, getMonthRange, getNextMonthRange, getPortionTemplates, IncomeTemplate, PortionTemplate
+} from '@/services/periods';
+import { getPeriodIncomeTotal } from '@/services/dataService';
+import { getPeriodCurrency } from '@/services/exchangeRates';
+import { useI18n } from '@/hooks/useI18n';
+import { IncomeEntry, Period, Portion } from '@/types';
+import { Plus, Pencil, Trash2, Calendar, FastForward } from 'lucide-react';
+
+const EMPTY_SOURCE = 'empty';
 
 interface PeriodManagerProps {
   periods: Period[];
+  incomes: IncomeEntry[];
+  portions: Portion[];
   activePeriodId: string | undefined;
   onSetActive: (id: string) => void;
-  onAdd: (period: Omit<Period, 'id'>) => void;
+  onAdd: (period: Omit<Period, 'id'>, portionTemplates?: PortionTemplate[], incomeTemplates?: IncomeTemplate[]) => void;
   onUpdate: (id: string, updates: Partial<Period>) => void;
   onDelete: (id: string) => void;
 }
 
-export function PeriodManager({ periods, activePeriodId, onSetActive, onAdd, onUpdate, onDelete }: PeriodManagerProps) {
+/** Editable copy of a portion shown in the "start from" preview */
+interface PortionDraft {
+  include: boolean;
+  name: string;
+  budgetAmount: string;
+  notes: string;
+  template: PortionTemplate;
+}
+
+/** Editable copy of an income entry shown in the "start from" preview */
+interface IncomeDraft {
+  include: boolean;
+  source: string;
+  amount: string;
+}
+
+export function PeriodManager({ periods, incomes, portions, activePeriodId, onSetActive, onAdd, onUpdate, onDelete }: PeriodManagerProps) {
+  const { t } = useI18n();
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [editingPeriod, setEditingPeriod] = useState<Period | null>(null);
-  const [formData, setFormData] = useState({ name: '', startDate: '', endDate: '', incomeAmount: '' });
+  const [formData, setFormData] = useState({ name: '', startDate: '', endDate: '', incomeAmount: '', currency: DEFAULT_CURRENCY });
+  const [sourcePeriodId, setSourcePeriodId] = useState<string>(EMPTY_SOURCE);
+  const [portionDrafts, setPortionDrafts] = useState<PortionDraft[]>([]);
+  const [incomeDrafts, setIncomeDrafts] = useState<IncomeDraft[]>([]);
   const [error, setError] = useState('');
 
   const activePeriod = periods.find(p => p.id === activePeriodId);
+  const latestPeriod = getLatestPeriod(periods);
 
-  const openAddDialog = () => {
-    const now = new Date();
-    const startDate = new Date(now.getFullYear(), now.getMonth(), 1);
-    const endDate = new Date(now.getFullYear(), now.getMonth() + 1, 0);
-    
+  const getDrafts = (periodId: string, currency: string): PortionDraft[] => {
+    return getPortionTemplates(portions, periodId).map(template => ({
+      include: true,
+      name: template.name,
+      budgetAmount: formatAmountInput(template.budgetAmount, currency),
+      notes: template.notes || '',
+      template
+    }));
+  };
+
+  const getIncomeDrafts = (periodId: string, currency: string): IncomeDraft[] => {
+    return incomes
+      .filter(i => i.periodId === periodId)
+      .map(i => ({ include: true, source: i.source, amount: formatAmountInput(i.amount, currency) }));
+  };
+
+  /** Open the new-period dialog for the given dates, copying from `source` if any */
+  const openNewPeriod = (range: { name: string; startDate: string; endDate: string }, source: Period | undefined) => {
     setEditingPeriod(null);
-    setFormData({
-      name: getShortMonthYear(now),
-      startDate: startDate.toISOString().split('T')[0],
-      endDate: endDate.toISOString().split('T')[0],
-      incomeAmount: ''
-    });
+    setFormData({ ...range, incomeAmount: '', currency: getPeriodCurrency(source) });
+    setSourcePeriodId(source ? source.id : EMPTY_SOURCE);
+    setPortionDrafts(source ? getDrafts(source.id, getPeriodCurrency(source)) : []);
+    setIncomeDrafts(source ? getIncomeDrafts(source.id, getPeriodCurrency(source)) : []);
     setError('');
     setIsDialogOpen(true);
   };
 
+  const openAddDialog = () => {
+    openNewPeriod(getMonthRange(new Date()), latestPeriod);
+  };
+
+  /** Prefill the next calendar month after the latest period, copied from it */
+  const openRollForward = () => {
+    if (latestPeriod) openNewPeriod(getNextMonthRange(latestPeriod), latestPeriod);
+  };
+
+  const handleSourceChange = (periodId: string) => {
+    const source = periods.find(p => p.id === periodId);
+    setSourcePeriodId(periodId);
+    if (source) setFormData(current => ({ ...current, currency: getPeriodCurrency(source) }));
+    setPortionDrafts(source ? getDrafts(source.id, getPeriodCurrency(source)) : []);
+    setIncomeDrafts(source ? getIncomeDrafts(source.id, getPeriodCurrency(source)) : []);
+  };
+
+  const updateDraft = (index: number, updates: Partial<PortionDraft>) => {
+    setPortionDrafts(drafts => drafts.map((d, i) => i === index ? { ...d, ...updates } : d));
+  };
+
+  const updateIncomeDraft = (index: number, updates: Partial<IncomeDraft>) => {
+    setIncomeDrafts(drafts => drafts.map((d, i) => i === index ? { ...d, ...updates } : d));
+  };
+
   const openEditDialog = (period: Period) => {
     setEditingPeriod(period);
+    setPortionDrafts([]);
+    setIncomeDrafts([]);
     setFormData({
       name: period.name,
       startDate: period.startDate,
       endDate: period.endDate,
-      incomeAmount: period.incomeAmount.toString()
+      incomeAmount: '',
+      currency: getPeriodCurrency(period)
     });
     setError('');
     setIsDialogOpen(true);
@@ -55,16 +126,15 @@ export function PeriodManager({ periods, activePeriodId, onSetActive, onAdd, onU
 
   const handleSubmit = () => {
     if (!formData.name.trim()) {
-      setError('Name is required');
+      setError(t('periods.nameRequired'));
       return;
     }
     if (!formData.startDate || !formData.endDate) {
-      setError('Start and end dates are required');
+      setError(t('periods.datesRequired'));
       return;
     }
-    const income = parseInt(formData.incomeAmount.replace(/\./g, ''), 10);
-    if (!income || income <= 0) {
-      setError('Income must be greater than 0');
+    if (formData.startDate > formData.endDate) {
+      setError(t('common.endAfterStart'));
       return;
     }
 
@@ -72,22 +142,59 @@ export function PeriodManager({ periods, activePeriodId, onSetActive, onAdd, onU
       onUpdate(editingPeriod.id, {
         name: formData.name.trim(),
         startDate: formData.startDate,
-        endDate: formData.endDate,
-        incomeAmount: income
+        endDate: formData.endDate
       });
     } else {
+      const source = periods.find(p => p.id === sourcePeriodId);
+      let incomeTemplates: IncomeTemplate[] = [];
+      if (source) {
+        incomeTemplates = getIncomeTemplates(incomes, source, formData)
+          .map((template, i) => ({
+            ...template,
+            source: incomeDrafts[i].source.trim(),
+            amount: parseCurrency(incomeDrafts[i].amount, formData.currency)
+          }))
+          .filter((_, i) => incomeDrafts[i].include);
+        if (incomeTemplates.some(template => !template.source || template.amount <= 0)) {
+          setError(t('periods.incomeCopyInvalid'));
+          return;
+        }
+      } else if (formData.incomeAmount) {
+        const income = parseCurrency(formData.incomeAmount, formData.currency);
+        if (!income || income <= 0) {
+          setError(t('periods.incomePositive'));
+          return;
+        }
+        incomeTemplates = [{ source: t('periods.salary'), date: formData.startDate, amount: income, status: 'expected' }];
+      }
+
+      const included = portionDrafts.filter(d => d.include);
+      if (included.some(d => !d.name.trim())) {
+        setError(t('periods.categoryNameRequired'));
+        return;
+      }
+      const templates = included.map(d => ({
+        ...d.template,
+        name: d.name.trim(),
+        budgetAmount: parseCurrency(d.budgetAmount, formData.currency),
+        notes: d.notes.trim() || undefined
+      }));
+      if (templates.some(template => template.budgetAmount <= 0)) {
+        setError(t('periods.budgetsPositive'));
+        return;
+      }
       onAdd({
         name: formData.name.trim(),
         startDate: formData.startDate,
         endDate: formData.endDate,
-        incomeAmount: income
-      });
+        currency: formData.currency
+      }, templates, incomeTemplates);
     }
     setIsDialogOpen(false);
   };
 
   const handleDelete = (id: string) => {
-    if (confirm('Delete this period? All related categories and expenses will also be deleted.')) {
+    if (confirm(t('periods.confirmDelete'))) {
       onDelete(id);
     }
   };
@@ -100,25 +207,30 @@ export function PeriodManager({ periods, activePeriodId, onSetActive, onAdd, onU
         {periods.length > 0 ? (
           <Select value={activePeriodId || ''} onValueChange={onSetActive}>
             <SelectTrigger className="w-[180px]">
-              <SelectValue placeholder="Select period" />
+              <SelectValue placeholder={t('periods.select')} />
             </SelectTrigger>
             <SelectContent>
               {periods.map(p => (
                 <SelectItem key={p.id} value={p.id}>
-                  {p.name} ({formatCurrency(p.incomeAmount)})
+                  {p.name} ({formatCurrency(getPeriodIncomeTotal(incomes, p.id), getPeriodCurrency(p))})
                 </SelectItem>
               ))}
             </SelectContent>
           </Select>
         ) : (
-          <span className="text-muted-foreground">No periods</span>
+          <span className="text-muted-foreground">{t('periods.none')}</span>
         )}
       </div>
 
       {/* Actions */}
       <Button size="sm" variant="outline" onClick={openAddDialog}>
-        <Plus className="h-4 w-4 mr-1" /> New Period
+        <Plus className="h-4 w-4 mr-1" /> {t('periods.new')}
       </Button>
+      {latestPeriod && (
+        <Button size="sm" variant="outline" onClick={openRollForward} title={t('periods.nextMonthTitle')}>
+          <FastForward className="h-4 w-4 mr-1" /> {t('periods.nextMonth')}
+        </Button>
+      )}
       
       {activePeriod && (
         <>
@@ -133,24 +245,38 @@ export function PeriodManager({ periods, activePeriodId, onSetActive, onAdd, onU
 
       {/* Add/Edit Dialog */}
       <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
-        <DialogContent>
+        <DialogContent className="max-h-[90vh] overflow-y-auto">
           <DialogHeader>
-            <DialogTitle>{editingPeriod ? 'Edit Period' : 'New Period'}</DialogTitle>
+            <DialogTitle>{editingPeriod ? t('periods.edit') : t('periods.new')}</DialogTitle>
           </DialogHeader>
           <div className="space-y-4 py-4">
             {error && <p className="text-sm text-red-600">{error}</p>}
+            {!editingPeriod && periods.length > 0 && (
+              <div className="space-y-2">
+                <Label>{t('periods.startFrom')}</Label>
+                <Select value={sourcePeriodId} onValueChange={handleSourceChange}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={EMPTY_SOURCE}>{t('periods.emptyPeriod')}</SelectItem>
+                    {periods.map(p => <SelectItem key={p.id} value={p.id}>{t('periods.copyOf', { name: p.name })}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
             <div className="space-y-2">
-              <Label htmlFor="periodName">Period Name *</Label>
+              <Label htmlFor="periodName">{t('periods.nameLabel')}</Label>
               <Input
                 id="periodName"
                 value={formData.name}
                 onChange={(e) => setFormData({ ...formData, name: e.target.value })}
-                placeholder="e.g., Nov 2025"
+                placeholder={t('periods.namePlaceholder')}
               />
             </div>
             <div className="grid grid-cols-2 gap-4">
               <div className="space-y-2">
-                <Label htmlFor="startDate">Start Date *</Label>
+                <Label htmlFor="startDate">{t('periods.startDate')}</Label>
                 <Input
                   id="startDate"
                   type="date"
@@ -159,7 +285,7 @@ export function PeriodManager({ periods, activePeriodId, onSetActive, onAdd, onU
                 />
               </div>
               <div className="space-y-2">
-                <Label htmlFor="endDate">End Date *</Label>
+                <Label htmlFor="endDate">{t('periods.endDate')}</Label>
                 <Input
                   id="endDate"
                   type="date"
@@ -169,18 +295,105 @@ export function PeriodManager({ periods, activePeriodId, onSetActive, onAdd, onU
               </div>
             </div>
             <div className="space-y-2">
-              <Label htmlFor="income">Monthly Income (Rp) *</Label>
-              <Input
-                id="income"
-                value={formData.incomeAmount}
-                onChange={(e) => setFormData({ ...formData, incomeAmount: e.target.value.replace(/[^\d]/g, '') })}
-                placeholder="e.g., 10000000"
-              />
+              <Label>{t('periods.baseCurrency')}</Label>
+              <Select
+                value={formData.currency}
+                onValueChange={(v) => setFormData({ ...formData, currency: v })}
+                disabled={!!editingPeriod}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CURRENCIES.map(c => <SelectItem key={c.code} value={c.code}>{c.code} ({c.symbol})</SelectItem>)}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                {editingPeriod
+                  ? t('periods.currencyFixed')
+                  : t('periods.currencyHint')}
+              </p>
             </div>
+            {!editingPeriod && sourcePeriodId === EMPTY_SOURCE && (
+              <div className="space-y-2">
+                <Label htmlFor="income">{t('periods.expectedSalary', { symbol: getCurrencyInfo(formData.currency).symbol })}</Label>
+                <Input
+                  id="income"
+                  inputMode="decimal"
+                  value={formData.incomeAmount}
+                  onChange={(e) => setFormData({ ...formData, incomeAmount: e.target.value.replace(/[^\d.,]/g, '') })}
+                  placeholder={t('common.example', { value: '10000000' })}
+                />
+                <p className="text-xs text-muted-foreground">{t('periods.moreIncomeHint')}</p>
+              </div>
+            )}
+            {incomeDrafts.length > 0 && (
+              <div className="space-y-2">
+                <Label>{t('periods.incomeToCopy')}</Label>
+                <div className="space-y-2">
+                  {incomeDrafts.map((draft, i) => (
+                    <div key={i} className={`flex items-center gap-2 ${draft.include ? '' : 'opacity-50'}`}>
+                      <input
+                        type="checkbox"
+                        checked={draft.include}
+                        onChange={(e) => updateIncomeDraft(i, { include: e.target.checked })}
+                      />
+                      <Input
+                        value={draft.source}
+                        onChange={(e) => updateIncomeDraft(i, { source: e.target.value })}
+                        disabled={!draft.include}
+                        className="h-8"
+                      />
+                      <Input
+                        value={draft.amount}
+                        onChange={(e) => updateIncomeDraft(i, { amount: e.target.value.replace(/[^\d.,]/g, '') })}
+                        disabled={!draft.include}
+                        className="h-8 w-32"
+                      />
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+            {portionDrafts.length > 0 && (
+              <div className="space-y-2">
+                <Label>{t('periods.categoriesToCopy')}</Label>
+                <div className="space-y-2">
+                  {portionDrafts.map((draft, i) => (
+                    <div key={i} className={`flex items-center gap-2 ${draft.include ? '' : 'opacity-50'}`}>
+                      <input
+                        type="checkbox"
+                        checked={draft.include}
+                        onChange={(e) => updateDraft(i, { include: e.target.checked })}
+                      />
+                      <Input
+                        value={draft.name}
+                        onChange={(e) => updateDraft(i, { name: e.target.value })}
+                        disabled={!draft.include}
+                        className="h-8"
+                      />
+                      <Input
+                        value={draft.budgetAmount}
+                        onChange={(e) => updateDraft(i, { budgetAmount: e.target.value.replace(/[^\d.,]/g, '') })}
+                        disabled={!draft.include}
+                        className="h-8 w-32"
+                      />
+                      <Input
+                        value={draft.notes}
+                        onChange={(e) => updateDraft(i, { notes: e.target.value })}
+                        disabled={!draft.include}
+                        placeholder={t('common.notes')}
+                        className="h-8"
+                      />
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
           </div>
           <DialogFooter>
-            <Button variant="outline" onClick={() => setIsDialogOpen(false)}>Cancel</Button>
-            <Button onClick={handleSubmit}>{editingPeriod ? 'Save' : 'Create'}</Button>
+            <Button variant="outline" onClick={() => setIsDialogOpen(false)}>{t('common.cancel')}</Button>
+            <Button onClick={handleSubmit}>{editingPeriod ? t('common.save') : t('periods.create')}</Button>
           </DialogFooter>
         </DialogContent>
       </Dialog>
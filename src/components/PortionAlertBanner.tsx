@@ -0,0 +1,32 @@
+import { Button } from '@/components/ui/button';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { describeAlert } from '@/services/alerts';
+import { useI18n } from '@/hooks/useI18n';
+import { PortionAlert } from '@/types';
+import { Bell } from 'lucide-react';
+
+interface PortionAlertBannerProps {
+  alerts: PortionAlert[];
+  onDismiss: () => void;
+}
+
+/** Categories that just crossed one of their alert thresholds */
+export function PortionAlertBanner({ alerts, onDismiss }: PortionAlertBannerProps) {
+  const { t } = useI18n();
+  if (alerts.length === 0) return null;
+
+  return (
+    <Alert variant="warning" className="mb-6">
+      <Bell className="h-4 w-4" />
+      <AlertTitle>{t('alerts.bannerTitle')}</AlertTitle>
+      <AlertDescription>
+        <ul className="mt-1 space-y-0.5">
+          {alerts.map(alert => <li key={alert.id}>{describeAlert(alert)}</li>)}
+        </ul>
+        <Button variant="link" className="p-0 h-auto mt-1" onClick={onDismiss}>
+          {t('common.dismiss')}
+        </Button>
+      </AlertDescription>
+    </Alert>
+  );
+}
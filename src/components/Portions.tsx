@@ -4,30 +4,40 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
 import { Alert, AlertDescription } from '@/components/ui/alert';
-import { formatCurrency } from '@/utils/formatters';
-import { Portion, PeriodSummary } from '@/types';
+import { formatAmountInput, formatCurrency, parseCurrency } from '@/utils/formatters';
+import { getCurrencyInfo } from '@/utils/currency';
+import { DEFAULT_ALERT_THRESHOLDS, formatAlertThresholds, getAlertThresholds, parseAlertThresholds } from '@/services/alerts';
+import { useI18n } from '@/hooks/useI18n';
+import { CarryOverPolicy, Portion, PeriodSummary } from '@/types';
 import { Plus, Pencil, Trash2, AlertTriangle } from 'lucide-react';
 
+const CARRY_OVER_POLICIES: CarryOverPolicy[] = ['none', 'surplus', 'deficit', 'both'];
+
 interface PortionsProps {
   portions: Portion[];
   periodSummary: PeriodSummary | null;
   activePeriodId: string | undefined;
+  currency: string;
   onAdd: (portion: Omit<Portion, 'id'>) => void;
   onUpdate: (id: string, updates: Partial<Portion>) => void;
   onDelete: (id: string) => void;
 }
 
-export function Portions({ portions, periodSummary, activePeriodId, onAdd, onUpdate, onDelete }: PortionsProps) {
+export function Portions({ portions, periodSummary, activePeriodId, currency, onAdd, onUpdate, onDelete }: PortionsProps) {
+  const { t } = useI18n();
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [editingPortion, setEditingPortion] = useState<Portion | null>(null);
-  const [formData, setFormData] = useState({ name: '', budgetAmount: '', notes: '' });
+  const [formData, setFormData] = useState({
+    name: '', budgetAmount: '', notes: '', carryOver: 'none' as CarryOverPolicy, alertThresholds: formatAlertThresholds(DEFAULT_ALERT_THRESHOLDS)
+  });
   const [error, setError] = useState('');
 
   const openAddDialog = () => {
     setEditingPortion(null);
-    setFormData({ name: '', budgetAmount: '', notes: '' });
+    setFormData({ name: '', budgetAmount: '', notes: '', carryOver: 'none', alertThresholds: formatAlertThresholds(DEFAULT_ALERT_THRESHOLDS) });
     setError('');
     setIsDialogOpen(true);
   };
@@ -36,8 +46,10 @@ export function Portions({ portions, periodSummary, activePeriodId, onAdd, onUpd
     setEditingPortion(portion);
     setFormData({
       name: portion.name,
-      budgetAmount: portion.budgetAmount.toString(),
-      notes: portion.notes || ''
+      budgetAmount: formatAmountInput(portion.budgetAmount, currency),
+      notes: portion.notes || '',
+      carryOver: portion.carryOver || 'none',
+      alertThresholds: formatAlertThresholds(getAlertThresholds(portion))
     });
     setError('');
     setIsDialogOpen(true);
@@ -45,16 +57,21 @@ export function Portions({ portions, periodSummary, activePeriodId, onAdd, onUpd
 
   const handleSubmit = () => {
     if (!formData.name.trim()) {
-      setError('Name is required');
+      setError(t('portions.nameRequired'));
       return;
     }
-    const amount = parseInt(formData.budgetAmount.replace(/\./g, ''), 10);
+    const amount = parseCurrency(formData.budgetAmount, currency);
     if (!amount || amount <= 0) {
-      setError('Budget amount must be greater than 0');
+      setError(t('portions.budgetPositive'));
+      return;
+    }
+    const alertThresholds = parseAlertThresholds(formData.alertThresholds);
+    if (!alertThresholds) {
+      setError(t('alerts.thresholdsInvalid'));
       return;
     }
     if (!activePeriodId) {
-      setError('No active period selected');
+      setError(t('common.noActivePeriod'));
       return;
     }
 
@@ -62,21 +79,25 @@ export function Portions({ portions, periodSummary, activePeriodId, onAdd, onUpd
       onUpdate(editingPortion.id, {
         name: formData.name.trim(),
         budgetAmount: amount,
-        notes: formData.notes.trim() || undefined
+        notes: formData.notes.trim() || undefined,
+        carryOver: formData.carryOver,
+        alertThresholds
       });
     } else {
       onAdd({
         periodId: activePeriodId,
         name: formData.name.trim(),
         budgetAmount: amount,
-        notes: formData.notes.trim() || undefined
+        notes: formData.notes.trim() || undefined,
+        carryOver: formData.carryOver,
+        alertThresholds
       });
     }
     setIsDialogOpen(false);
   };
 
   const handleDelete = (id: string) => {
-    if (confirm('Delete this budget category? All related expenses will also be deleted.')) {
+    if (confirm(t('portions.confirmDelete'))) {
       onDelete(id);
     }
   };
@@ -84,7 +105,7 @@ export function Portions({ portions, periodSummary, activePeriodId, onAdd, onUpd
   if (!activePeriodId) {
     return (
       <div className="text-center py-12 text-muted-foreground">
-        <p>No active period selected. Create a period first.</p>
+        <p>{t('common.noActivePeriod')}</p>
       </div>
     );
   }
@@ -95,17 +116,17 @@ export function Portions({ portions, periodSummary, activePeriodId, onAdd, onUpd
       {periodSummary && (
         <div className="flex flex-wrap gap-4 items-center justify-between">
           <div className="space-y-1">
-            <p className="text-sm text-muted-foreground">Total Budgeted</p>
-            <p className="text-2xl font-bold">{formatCurrency(periodSummary.totalBudgeted)}</p>
+            <p className="text-sm text-muted-foreground">{t('portions.totalBudgeted')}</p>
+            <p className="text-2xl font-bold">{formatCurrency(periodSummary.totalBudgeted, currency)}</p>
           </div>
           <div className="space-y-1">
-            <p className="text-sm text-muted-foreground">Income</p>
-            <p className="text-2xl font-bold">{formatCurrency(periodSummary.totalIncome)}</p>
+            <p className="text-sm text-muted-foreground">{t('portions.income')}</p>
+            <p className="text-2xl font-bold">{formatCurrency(periodSummary.totalIncome, currency)}</p>
           </div>
           <div className="space-y-1">
-            <p className="text-sm text-muted-foreground">Unallocated</p>
+            <p className="text-sm text-muted-foreground">{t('portions.unallocated')}</p>
             <p className={`text-2xl font-bold ${periodSummary.unallocatedIncome < 0 ? 'text-red-600' : 'text-green-600'}`}>
-              {formatCurrency(periodSummary.unallocatedIncome)}
+              {formatCurrency(periodSummary.unallocatedIncome, currency)}
             </p>
           </div>
         </div>
@@ -115,19 +136,19 @@ export function Portions({ portions, periodSummary, activePeriodId, onAdd, onUpd
         <Alert variant="warning">
           <AlertTriangle className="h-4 w-4" />
           <AlertDescription>
-            Your budget exceeds your income by {formatCurrency(Math.abs(periodSummary.unallocatedIncome))}
+            {t('portions.exceedsIncome', { amount: formatCurrency(Math.abs(periodSummary.unallocatedIncome), currency) })}
           </AlertDescription>
         </Alert>
       )}
 
       {/* Add Button */}
       <Button onClick={openAddDialog}>
-        <Plus className="h-4 w-4 mr-2" /> Add Budget Category
+        <Plus className="h-4 w-4 mr-2" /> {t('portions.add')}
       </Button>
 
       {/* Portions List */}
       {portions.length === 0 ? (
-        <p className="text-muted-foreground">No budget categories yet.</p>
+        <p className="text-muted-foreground">{t('portions.none')}</p>
       ) : (
         <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
           {portions.map((portion) => (
@@ -146,8 +167,16 @@ export function Portions({ portions, periodSummary, activePeriodId, onAdd, onUpd
                 </CardTitle>
               </CardHeader>
               <CardContent>
-                <p className="text-2xl font-bold">{formatCurrency(portion.budgetAmount)}</p>
+                <p className="text-2xl font-bold">{formatCurrency(portion.budgetAmount, currency)}</p>
                 {portion.notes && <p className="text-sm text-muted-foreground mt-2">{portion.notes}</p>}
+                {portion.carryOver && portion.carryOver !== 'none' && (
+                  <p className="text-xs text-blue-700 mt-2">{t('portions.carryToNext', { policy: t(`carryOver.${portion.carryOver}`) })}</p>
+                )}
+                <p className="text-xs text-muted-foreground mt-1">
+                  {getAlertThresholds(portion).length > 0
+                    ? t('alerts.portionThresholds', { thresholds: getAlertThresholds(portion).map(v => `${v}%`).join(', ') })
+                    : t('alerts.portionNoThresholds')}
+                </p>
               </CardContent>
             </Card>
           ))}
@@ -158,41 +187,68 @@ export function Portions({ portions, periodSummary, activePeriodId, onAdd, onUpd
       <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
         <DialogContent>
           <DialogHeader>
-            <DialogTitle>{editingPortion ? 'Edit Budget Category' : 'Add Budget Category'}</DialogTitle>
+            <DialogTitle>{editingPortion ? t('portions.edit') : t('portions.add')}</DialogTitle>
           </DialogHeader>
           <div className="space-y-4 py-4">
             {error && <p className="text-sm text-red-600">{error}</p>}
             <div className="space-y-2">
-              <Label htmlFor="name">Name *</Label>
+              <Label htmlFor="name">{t('portions.nameLabel')}</Label>
               <Input
                 id="name"
                 value={formData.name}
                 onChange={(e) => setFormData({ ...formData, name: e.target.value })}
-                placeholder="e.g., Food, Transport"
+                placeholder={t('portions.namePlaceholder')}
               />
             </div>
             <div className="space-y-2">
-              <Label htmlFor="budget">Budget Amount (Rp) *</Label>
+              <Label htmlFor="budget">{t('portions.budgetLabel', { symbol: getCurrencyInfo(currency).symbol })}</Label>
               <Input
                 id="budget"
+                inputMode="decimal"
                 value={formData.budgetAmount}
-                onChange={(e) => setFormData({ ...formData, budgetAmount: e.target.value.replace(/[^\d]/g, '') })}
-                placeholder="e.g., 3000000"
+                onChange={(e) => setFormData({ ...formData, budgetAmount: e.target.value.replace(/[^\d.,]/g, '') })}
+                placeholder={t('common.example', { value: '3000000' })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>{t('portions.atPeriodEnd')}</Label>
+              <Select value={formData.carryOver} onValueChange={(v) => setFormData({ ...formData, carryOver: v as CarryOverPolicy })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CARRY_OVER_POLICIES.map(policy => (
+                    <SelectItem key={policy} value={policy}>{t(`carryOver.${policy}`)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                {t('portions.carryHint')}
+              </p>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="alert-thresholds">{t('alerts.thresholdsLabel')}</Label>
+              <Input
+                id="alert-thresholds"
+                value={formData.alertThresholds}
+                onChange={(e) => setFormData({ ...formData, alertThresholds: e.target.value })}
+                placeholder={t('common.example', { value: '50, 80, 100' })}
               />
+              <p className="text-xs text-muted-foreground">{t('alerts.thresholdsHint')}</p>
             </div>
             <div className="space-y-2">
-              <Label htmlFor="notes">Notes</Label>
+              <Label htmlFor="notes">{t('common.notes')}</Label>
               <Textarea
                 id="notes"
                 value={formData.notes}
                 onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
-                placeholder="Optional notes"
+                placeholder={t('portions.notesPlaceholder')}
               />
             </div>
           </div>
           <DialogFooter>
-            <Button variant="outline" onClick={() => setIsDialogOpen(false)}>Cancel</Button>
-            <Button onClick={handleSubmit}>{editingPortion ? 'Save' : 'Add'}</Button>
+            <Button variant="outline" onClick={() => setIsDialogOpen(false)}>{t('common.cancel')}</Button>
+            <Button onClick={handleSubmit}>{editingPortion ? t('common.save') : t('common.add')}</Button>
           </DialogFooter>
         </DialogContent>
       </Dialog>
@@ -0,0 +1,156 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
+import { useI18n } from '@/hooks/useI18n';
+import { useProfiles } from '@/hooks/useProfiles';
+import { DEFAULT_PROFILE_ID, MAX_PROFILE_NAME_LENGTH } from '@/services/profiles';
+import { BudgetProfile } from '@/types';
+import { Users, UserCog, Plus, Pencil, Copy, Trash2, Check, X } from 'lucide-react';
+
+/** Profile selector for the header, with a dialog to add, rename, duplicate and delete profiles */
+export function ProfileSwitcher() {
+  const { t } = useI18n();
+  const { profiles, activeProfile, switchProfile, createProfile, duplicateProfile, renameProfile, deleteProfile } = useProfiles();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [newName, setNewName] = useState('');
+  const [editing, setEditing] = useState<{ id: string; name: string } | null>(null);
+  const [error, setError] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  const run = async (action: () => void | Promise<void>) => {
+    setBusy(true);
+    setError('');
+    try {
+      await action();
+      return true;
+    } catch (err) {
+      setError((err as Error).message);
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleOpenChange = (open: boolean) => {
+    setDialogOpen(open);
+    setNewName('');
+    setEditing(null);
+    setError('');
+  };
+
+  const handleCreate = async () => {
+    if (await run(() => createProfile(newName))) handleOpenChange(false);
+  };
+
+  const handleRename = async () => {
+    if (editing && await run(() => renameProfile(editing.id, editing.name))) setEditing(null);
+  };
+
+  const handleDuplicate = (profile: BudgetProfile) => {
+    run(() => duplicateProfile(profile.id, t('profiles.copyName', { name: profile.name })));
+  };
+
+  const handleDelete = (profile: BudgetProfile) => {
+    if (confirm(t('profiles.confirmDelete', { name: profile.name }))) run(() => deleteProfile(profile.id));
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <Users className="h-5 w-5 text-muted-foreground" />
+      <Select value={activeProfile.id} onValueChange={switchProfile}>
+        <SelectTrigger className="w-[160px]" aria-label={t('profiles.select')}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {profiles.map(p => (
+            <SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Button size="sm" variant="ghost" onClick={() => handleOpenChange(true)} title={t('profiles.manage')}>
+        <UserCog className="h-4 w-4" />
+      </Button>
+
+      <Dialog open={dialogOpen} onOpenChange={handleOpenChange}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{t('profiles.title')}</DialogTitle>
+            <DialogDescription>{t('profiles.description')}</DialogDescription>
+          </DialogHeader>
+
+          <ul className="divide-y rounded-md border">
+            {profiles.map(profile => (
+              <li key={profile.id} className="flex items-center gap-2 px-3 py-2">
+                {editing?.id === profile.id ? (
+                  <>
+                    <Input
+                      value={editing.name}
+                      maxLength={MAX_PROFILE_NAME_LENGTH}
+                      autoFocus
+                      onChange={e => setEditing({ ...editing, name: e.target.value })}
+                      onKeyDown={e => { if (e.key === 'Enter') handleRename(); }}
+                    />
+                    <Button size="sm" variant="ghost" disabled={busy} onClick={handleRename} title={t('common.save')}>
+                      <Check className="h-4 w-4" />
+                    </Button>
+                    <Button size="sm" variant="ghost" onClick={() => setEditing(null)} title={t('common.cancel')}>
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </>
+                ) : (
+                  <>
+                    <span className="flex-1 text-sm">
+                      {profile.name}
+                      {profile.id === activeProfile.id && (
+                        <span className="ml-2 text-xs text-muted-foreground">{t('profiles.open')}</span>
+                      )}
+                    </span>
+                    <Button
+                      size="sm" variant="ghost" title={t('profiles.rename')}
+                      onClick={() => setEditing({ id: profile.id, name: profile.name })}
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button size="sm" variant="ghost" disabled={busy} onClick={() => handleDuplicate(profile)} title={t('profiles.duplicate')}>
+                      <Copy className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      size="sm" variant="ghost" className="text-red-600"
+                      disabled={busy || profile.id === DEFAULT_PROFILE_ID || profile.id === activeProfile.id}
+                      onClick={() => handleDelete(profile)}
+                      title={profile.id === DEFAULT_PROFILE_ID ? t('profiles.defaultNotDeletable')
+                        : profile.id === activeProfile.id ? t('profiles.activeNotDeletable') : t('profiles.delete')}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </>
+                )}
+              </li>
+            ))}
+          </ul>
+
+          <div className="space-y-2">
+            <Label htmlFor="profile-name">{t('profiles.new')}</Label>
+            <div className="flex gap-2">
+              <Input
+                id="profile-name"
+                value={newName}
+                maxLength={MAX_PROFILE_NAME_LENGTH}
+                placeholder={t('profiles.namePlaceholder')}
+                onChange={e => setNewName(e.target.value)}
+                onKeyDown={e => { if (e.key === 'Enter') handleCreate(); }}
+              />
+              <Button disabled={busy || !newName.trim()} onClick={handleCreate}>
+                <Plus className="h-4 w-4 mr-1" /> {t('profiles.add')}
+              </Button>
+            </div>
+          </div>
+          {error && <p className="text-sm text-red-600">{error}</p>}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
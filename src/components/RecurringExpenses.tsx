@@ -0,0 +1,321 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
+import { formatAmountInput, formatCurrency, getCurrentDate, getMonthNames, getWeekdayNames, parseCurrency } from '@/utils/formatters';
+import { getCurrencyInfo } from '@/utils/currency';
+import { describeSchedule } from '@/services/recurring';
+import { useI18n } from '@/hooks/useI18n';
+import { RecurrenceSchedule, RecurringExpense } from '@/types';
+import { Plus, Pencil, Trash2, Repeat, Pause, Play } from 'lucide-react';
+
+interface RecurringExpensesProps {
+  recurringExpenses: RecurringExpense[];
+  /** Portion names available across all periods */
+  portionNames: string[];
+  /** Portion names present in the active period, to flag definitions that won't post */
+  activePortionNames: string[];
+  /** Base currency of the active period, which generated expenses are posted in */
+  currency: string;
+  onAdd: (recurring: Omit<RecurringExpense, 'id'>) => void;
+  onUpdate: (id: string, updates: Partial<RecurringExpense>) => void;
+  onDelete: (id: string) => void;
+}
+
+interface FormData {
+  description: string;
+  amount: string;
+  portionName: string;
+  frequency: RecurrenceSchedule['frequency'];
+  dayOfMonth: string;
+  dayOfWeek: string;
+  month: string;
+  startDate: string;
+  endDate: string;
+}
+
+const emptyForm = (portionName: string): FormData => ({
+  description: '', amount: '', portionName, frequency: 'monthly',
+  dayOfMonth: '1', dayOfWeek: '1', month: '1', startDate: getCurrentDate(), endDate: ''
+});
+
+export function RecurringExpenses({
+  recurringExpenses, portionNames, activePortionNames, currency, onAdd, onUpdate, onDelete
+}: RecurringExpensesProps) {
+  const { t } = useI18n();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<RecurringExpense | null>(null);
+  const [formData, setFormData] = useState<FormData>(emptyForm(''));
+  const [error, setError] = useState('');
+
+  const activeNames = new Set(activePortionNames.map(n => n.trim().toLowerCase()));
+
+  const openAddDialog = () => {
+    setEditing(null);
+    setFormData(emptyForm(portionNames[0] || ''));
+    setError('');
+    setIsDialogOpen(true);
+  };
+
+  const openEditDialog = (recurring: RecurringExpense) => {
+    const { schedule } = recurring;
+    setEditing(recurring);
+    setFormData({
+      description: recurring.description,
+      amount: formatAmountInput(recurring.amount, currency),
+      portionName: recurring.portionName,
+      frequency: schedule.frequency,
+      dayOfMonth: 'dayOfMonth' in schedule ? schedule.dayOfMonth.toString() : '1',
+      dayOfWeek: schedule.frequency === 'weekly' ? schedule.dayOfWeek.toString() : '1',
+      month: schedule.frequency === 'yearly' ? schedule.month.toString() : '1',
+      startDate: recurring.startDate,
+      endDate: recurring.endDate || ''
+    });
+    setError('');
+    setIsDialogOpen(true);
+  };
+
+  const buildSchedule = (): RecurrenceSchedule => {
+    const dayOfMonth = parseInt(formData.dayOfMonth, 10);
+    switch (formData.frequency) {
+      case 'weekly':
+        return { frequency: 'weekly', dayOfWeek: parseInt(formData.dayOfWeek, 10) };
+      case 'yearly':
+        return { frequency: 'yearly', month: parseInt(formData.month, 10), dayOfMonth };
+      default:
+        return { frequency: 'monthly', dayOfMonth };
+    }
+  };
+
+  const handleSubmit = () => {
+    if (!formData.description.trim()) {
+      setError(t('common.descriptionRequired'));
+      return;
+    }
+    if (!formData.portionName) {
+      setError(t('common.selectCategoryError'));
+      return;
+    }
+    const amount = parseCurrency(formData.amount, currency);
+    if (!amount || amount <= 0) {
+      setError(t('common.amountPositive'));
+      return;
+    }
+    const dayOfMonth = parseInt(formData.dayOfMonth, 10);
+    if (formData.frequency !== 'weekly' && (!dayOfMonth || dayOfMonth < 1 || dayOfMonth > 31)) {
+      setError(t('recurring.dayOfMonthRange'));
+      return;
+    }
+    if (!formData.startDate) {
+      setError(t('recurring.startRequired'));
+      return;
+    }
+    if (formData.endDate && formData.endDate < formData.startDate) {
+      setError(t('common.endAfterStart'));
+      return;
+    }
+
+    const values = {
+      description: formData.description.trim(),
+      amount,
+      portionName: formData.portionName,
+      schedule: buildSchedule(),
+      startDate: formData.startDate,
+      endDate: formData.endDate || undefined
+    };
+    if (editing) {
+      onUpdate(editing.id, values);
+    } else {
+      onAdd({ ...values, active: true });
+    }
+    setIsDialogOpen(false);
+  };
+
+  const handleDelete = (id: string) => {
+    if (confirm(t('recurring.confirmDelete'))) {
+      onDelete(id);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Repeat className="h-5 w-5" /> {t('recurring.title')}
+        </CardTitle>
+        <CardDescription>
+          {t('recurring.description')}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Button variant="outline" onClick={openAddDialog} disabled={portionNames.length === 0}>
+          <Plus className="h-4 w-4 mr-2" /> {t('recurring.add')}
+        </Button>
+
+        {recurringExpenses.length === 0 ? (
+          <p className="text-sm text-muted-foreground">{t('recurring.none')}</p>
+        ) : (
+          <div className="space-y-2">
+            {recurringExpenses.map(recurring => (
+              <div key={recurring.id} className={`flex items-center justify-between border rounded-md p-3 ${recurring.active ? '' : 'opacity-60'}`}>
+                <div>
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{recurring.description}</span>
+                    <span className="text-xs bg-secondary px-2 py-0.5 rounded">{recurring.portionName}</span>
+                    {!recurring.active && <span className="text-xs text-muted-foreground">{t('recurring.paused')}</span>}
+                  </div>
+                  <p className="text-sm text-muted-foreground">
+                    {describeSchedule(recurring.schedule)}
+                    {recurring.active && !activeNames.has(recurring.portionName.trim().toLowerCase()) && (
+                      <span className="text-yellow-700">{t('recurring.missingCategory', { name: recurring.portionName })}</span>
+                    )}
+                  </p>
+                </div>
+                <div className="flex items-center gap-4">
+                  <span className="font-bold">{formatCurrency(recurring.amount, currency)}</span>
+                  <div className="flex gap-1">
+                    <Button
+                      variant="ghost" size="icon" className="h-8 w-8"
+                      onClick={() => onUpdate(recurring.id, { active: !recurring.active })}
+                    >
+                      {recurring.active ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+                    </Button>
+                    <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => openEditDialog(recurring)}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="icon" className="h-8 w-8 text-red-600" onClick={() => handleDelete(recurring.id)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      {/* Add/Edit Dialog */}
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editing ? t('recurring.edit') : t('recurring.add')}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            {error && <p className="text-sm text-red-600">{error}</p>}
+            <div className="space-y-2">
+              <Label htmlFor="recurringDescription">{t('expenses.descriptionLabel')}</Label>
+              <Input
+                id="recurringDescription"
+                value={formData.description}
+                onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                placeholder={t('recurring.descriptionPlaceholder')}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="recurringAmount">{t('common.amountWithSymbol', { symbol: getCurrencyInfo(currency).symbol })}</Label>
+                <Input
+                  id="recurringAmount"
+                  value={formData.amount}
+                  onChange={(e) => setFormData({ ...formData, amount: e.target.value.replace(/[^\d.,]/g, '') })}
+                  placeholder={t('common.example', { value: formatAmountInput(getCurrencyInfo(currency).decimals > 0 ? 25 : 350000, currency) })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>{t('expenses.categoryLabel')}</Label>
+                <Select value={formData.portionName} onValueChange={(v) => setFormData({ ...formData, portionName: v })}>
+                  <SelectTrigger>
+                    <SelectValue placeholder={t('common.selectCategory')} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {portionNames.map(name => <SelectItem key={name} value={name}>{name}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>{t('recurring.repeats')}</Label>
+                <Select
+                  value={formData.frequency}
+                  onValueChange={(v) => setFormData({ ...formData, frequency: v as RecurrenceSchedule['frequency'] })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="monthly">{t('recurring.monthly')}</SelectItem>
+                    <SelectItem value="weekly">{t('recurring.weekly')}</SelectItem>
+                    <SelectItem value="yearly">{t('recurring.yearly')}</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              {formData.frequency === 'weekly' ? (
+                <div className="space-y-2">
+                  <Label>{t('recurring.on')}</Label>
+                  <Select value={formData.dayOfWeek} onValueChange={(v) => setFormData({ ...formData, dayOfWeek: v })}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {getWeekdayNames().map((day, i) => <SelectItem key={day} value={i.toString()}>{day}</SelectItem>)}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ) : (
+                <div className="space-y-2">
+                  <Label htmlFor="dayOfMonth">{t('recurring.dayOfMonth')}</Label>
+                  <Input
+                    id="dayOfMonth"
+                    value={formData.dayOfMonth}
+                    onChange={(e) => setFormData({ ...formData, dayOfMonth: e.target.value.replace(/[^\d]/g, '') })}
+                  />
+                </div>
+              )}
+            </div>
+            {formData.frequency === 'yearly' && (
+              <div className="space-y-2">
+                <Label>{t('recurring.month')}</Label>
+                <Select value={formData.month} onValueChange={(v) => setFormData({ ...formData, month: v })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {getMonthNames().map((month, i) => <SelectItem key={month} value={(i + 1).toString()}>{month}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="recurringStart">{t('recurring.starts')}</Label>
+                <Input
+                  id="recurringStart"
+                  type="date"
+                  value={formData.startDate}
+                  onChange={(e) => setFormData({ ...formData, startDate: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="recurringEnd">{t('recurring.ends')}</Label>
+                <Input
+                  id="recurringEnd"
+                  type="date"
+                  value={formData.endDate}
+                  onChange={(e) => setFormData({ ...formData, endDate: e.target.value })}
+                />
+              </div>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsDialogOpen(false)}>{t('common.cancel')}</Button>
+            <Button onClick={handleSubmit}>{editing ? t('common.save') : t('common.add')}</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
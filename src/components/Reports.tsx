@@ -0,0 +1,144 @@
+import { useMemo, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { REPORT_RANGES, ReportCell, ReportRange, buildPeriodReport } from '@/services/reports';
+import { formatCurrency, formatPercent } from '@/utils/formatters';
+import { useI18n } from '@/hooks/useI18n';
+import { AppData, ExpenseFilters } from '@/types';
+import { BarChart3 } from 'lucide-react';
+
+interface ReportsProps {
+  data: AppData | null;
+  activePeriodId: string | undefined;
+  /** Base currency of the active period */
+  currency: string;
+  /** Make a period active and open its expenses with the given filter */
+  onShowExpenses: (periodId: string, filters: ExpenseFilters) => void;
+}
+
+const SPARK_WIDTH = 96;
+const SPARK_HEIGHT = 28;
+
+/** Actual spending per period as a line, with the available amount dashed behind it */
+function Sparkline({ cells }: { cells: ReportCell[] }) {
+  const max = Math.max(...cells.map(c => Math.max(c.actual, c.available)), 1);
+  const x = (i: number) => (cells.length > 1 ? (i / (cells.length - 1)) * SPARK_WIDTH : SPARK_WIDTH / 2);
+  const y = (value: number) => SPARK_HEIGHT - 2 - (value / max) * (SPARK_HEIGHT - 4);
+  const points = (pick: (c: ReportCell) => number) => cells.map((c, i) => `${x(i)},${y(pick(c))}`).join(' ');
+
+  return (
+    <svg viewBox={`0 0 ${SPARK_WIDTH} ${SPARK_HEIGHT}`} className="w-24 h-7" aria-hidden="true">
+      <polyline points={points(c => c.available)} fill="none" stroke="#94a3b8" strokeWidth={1} strokeDasharray="3 2" />
+      <polyline points={points(c => c.actual)} fill="none" stroke="#3b82f6" strokeWidth={1.5} />
+      {cells.map((c, i) => (
+        <circle key={c.periodId} cx={x(i)} cy={y(c.actual)} r={1.5} fill={c.variance < 0 ? '#ef4444' : '#3b82f6'} />
+      ))}
+    </svg>
+  );
+}
+
+/** Categories compared across the latest periods, with trends and changes from period to period */
+export function Reports({ data, activePeriodId, currency, onShowExpenses }: ReportsProps) {
+  const { t } = useI18n();
+  const [range, setRange] = useState<ReportRange>(6);
+  const report = useMemo(
+    () => data ? buildPeriodReport(data, activePeriodId, range) : null,
+    [data, activePeriodId, range]
+  );
+
+  if (!report || report.periods.length === 0) {
+    return (
+      <div className="text-center py-12 text-muted-foreground">
+        <p>{t('common.noActivePeriod')}</p>
+      </div>
+    );
+  }
+
+  const renderCell = (cell: ReportCell, filters: ExpenseFilters | null) => {
+    if (!filters) return <span className="text-muted-foreground">—</span>;
+    return (
+      <button
+        type="button"
+        className="w-full rounded px-2 py-1 text-right hover:bg-muted"
+        title={t('reports.openExpenses')}
+        onClick={() => onShowExpenses(cell.periodId, filters)}
+      >
+        <div className="font-medium">{formatCurrency(cell.actual, currency)}</div>
+        <div className="text-xs text-muted-foreground">{t('reports.ofBudget', { amount: formatCurrency(cell.available, currency) })}</div>
+        <div className={`text-xs ${cell.variance < 0 ? 'text-red-600' : 'text-green-600'}`}>
+          {cell.variance < 0
+            ? t('reports.over', { amount: formatCurrency(-cell.variance, currency) })
+            : t('reports.under', { amount: formatCurrency(cell.variance, currency) })}
+        </div>
+        {cell.change !== null && (
+          <div className={`text-xs ${cell.change > 0 ? 'text-amber-700' : 'text-blue-700'}`}>
+            {t('reports.change', { percent: `${cell.change > 0 ? '+' : ''}${formatPercent(cell.change)}` })}
+          </div>
+        )}
+      </button>
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row flex-wrap items-start justify-between gap-4 space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2">
+            <BarChart3 className="h-5 w-5" /> {t('reports.title')}
+          </CardTitle>
+          <CardDescription>{t('reports.description')}</CardDescription>
+        </div>
+        <Select value={String(range)} onValueChange={(v) => setRange(Number(v) as ReportRange)}>
+          <SelectTrigger className="w-[180px]" aria-label={t('reports.range')}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {REPORT_RANGES.map(r => (
+              <SelectItem key={r} value={String(r)}>{t('reports.lastPeriods', { count: r })}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </CardHeader>
+      <CardContent>
+        {report.rows.length === 0 ? (
+          <p className="text-sm text-muted-foreground">{t('reports.noCategories')}</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b text-muted-foreground">
+                  <th className="sticky left-0 bg-background py-2 pr-2 text-left font-medium">{t('common.category')}</th>
+                  <th className="py-2 px-2 text-left font-medium">{t('reports.trend')}</th>
+                  {report.periods.map(period => (
+                    <th key={period.id} className="py-2 px-2 text-right font-medium whitespace-nowrap">{period.name}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {report.rows.map(row => (
+                  <tr key={row.name} className="border-b align-top">
+                    <td className="sticky left-0 bg-background py-2 pr-2 font-medium">{row.name}</td>
+                    <td className="py-2 px-2"><Sparkline cells={row.cells} /></td>
+                    {row.cells.map(cell => (
+                      <td key={cell.periodId} className="py-1 px-1 min-w-[8.5rem]">
+                        {renderCell(cell, cell.portionId ? { portionId: cell.portionId } : null)}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+                <tr className="align-top">
+                  <td className="sticky left-0 bg-background py-2 pr-2 font-semibold">{t('reports.total')}</td>
+                  <td className="py-2 px-2"><Sparkline cells={report.totals} /></td>
+                  {report.totals.map(cell => (
+                    <td key={cell.periodId} className="py-1 px-1 min-w-[8.5rem]">{renderCell(cell, {})}</td>
+                  ))}
+                </tr>
+              </tbody>
+            </table>
+          </div>
+        )}
+        <p className="text-xs text-muted-foreground mt-3">{t('reports.hint')}</p>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,77 @@
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Progress } from '@/components/ui/progress';
+import { DailyAllowance, DailyAllowances } from '@/services/allowance';
+import { formatCurrency } from '@/utils/formatters';
+import { useI18n } from '@/hooks/useI18n';
+import { PortionSummary } from '@/types';
+import { CalendarCheck } from 'lucide-react';
+
+interface SafeToSpendProps {
+  allowances: DailyAllowances;
+  portionSummaries: PortionSummary[];
+  currency: string;
+}
+
+function usage(allowance: DailyAllowance): number {
+  if (allowance.perDay > 0) return Math.min((allowance.spentToday / allowance.perDay) * 100, 100);
+  return allowance.spentToday > 0 ? 100 : 0;
+}
+
+/** Today's allowance overall and per portion, with what has been spent today */
+export function SafeToSpend({ allowances, portionSummaries, currency }: SafeToSpendProps) {
+  const { t } = useI18n();
+  const { overall } = allowances;
+  const overspent = overall.spentToday > overall.perDay;
+
+  return (
+    <Card className="border-blue-200 bg-blue-50/40">
+      <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+        <CardTitle className="text-lg">{t('allowance.title')}</CardTitle>
+        <CalendarCheck className="h-5 w-5 text-blue-700" />
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-4 md:grid-cols-2">
+          <div className="space-y-2">
+            <div className="text-3xl font-bold text-blue-700">{formatCurrency(overall.perDay, currency)}</div>
+            <Progress value={usage(overall)} className="h-2" indicatorClassName={overspent ? 'bg-red-500' : 'bg-blue-600'} />
+            <p className={`text-sm ${overspent ? 'text-red-600' : 'text-muted-foreground'}`}>
+              {overspent
+                ? t('allowance.overToday', { spent: formatCurrency(overall.spentToday, currency), amount: formatCurrency(overall.spentToday - overall.perDay, currency) })
+                : t('allowance.spentToday', { spent: formatCurrency(overall.spentToday, currency), left: formatCurrency(overall.perDay - overall.spentToday, currency) })}
+            </p>
+            <p className="text-xs text-muted-foreground">
+              {t('allowance.basis', {
+                remaining: formatCurrency(overall.remaining, currency),
+                days: allowances.daysLeft
+              })}
+              {overall.committed > 0 && <> {t('allowance.committed', { amount: formatCurrency(overall.committed, currency) })}</>}
+            </p>
+          </div>
+
+          {allowances.portions.length > 0 && (
+            <ul className="space-y-2 text-sm">
+              {allowances.portions.map(allowance => {
+                const name = portionSummaries.find(s => s.portion.id === allowance.portionId)?.portion.name || t('common.unknown');
+                const over = allowance.spentToday > allowance.perDay;
+                return (
+                  <li key={allowance.portionId} className="space-y-1">
+                    <div className="flex justify-between gap-2">
+                      <span className="truncate">{name}</span>
+                      <span className={over ? 'text-red-600' : ''}>
+                        {t('allowance.portionLine', {
+                          spent: formatCurrency(allowance.spentToday, currency),
+                          allowance: formatCurrency(allowance.perDay, currency)
+                        })}
+                      </span>
+                    </div>
+                    <Progress value={usage(allowance)} className="h-1.5" indicatorClassName={over ? 'bg-red-500' : 'bg-blue-600'} />
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
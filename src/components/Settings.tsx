@@ -1,50 +1,156 @@
 import { useState } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { Textarea } from '@/components/ui/textarea';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter, DialogDescription } from '@/components/ui/dialog';
-import { formatDate } from '@/utils/formatters';
-import { AppData } from '@/types';
-import { Download, Upload, Trash2, AlertTriangle, Info } from 'lucide-react';
+import { ImportDialog } from '@/components/ImportDialog';
+import { CsvExportDialog } from '@/components/CsvExportDialog';
+import { ExchangeRates } from '@/components/ExchangeRates';
+import { LockSettings } from '@/components/LockSettings';
+import { downloadFile } from '@/utils/download';
+import { formatDate, formatDateTime, getCurrentDate } from '@/utils/formatters';
+import { getSettings, getUpcomingExpirations } from '@/services/dataService';
+import { ConflictStrategy, MergePreview, MergeResolutions } from '@/services/merge';
+import { CsvExportScope, CsvSheet } from '@/services/csvExport';
+import { StorageKind } from '@/services/storage';
+import { DEFAULT_SYNC_URL, SyncState } from '@/services/remoteSync';
+import { MIN_PASSPHRASE_LENGTH } from '@/services/lock';
+import { notificationsSupported, requestNotificationPermission } from '@/services/alerts';
+import { useI18n } from '@/hooks/useI18n';
+import { useProfiles } from '@/hooks/useProfiles';
+import { LANGUAGES } from '@/i18n';
+import { AppData, AppSettings, ExchangeRate, Language, RetentionReport } from '@/types';
+import { Download, Upload, Trash2, AlertTriangle, Info, Archive, Clock, Languages, Cloud, RefreshCw, Lock, Bell } from 'lucide-react';
+
+const RETENTION_OPTIONS = [3, 6, 12, 24, 36];
+const EXPIRY_WARNING_DAYS = 60;
 
 interface SettingsProps {
   data: AppData | null;
-  wasDataCleared: boolean;
-  onDismissClearedNotice: () => void;
-  onExport: () => string;
+  storageKind: StorageKind | null;
+  sync: SyncState;
+  onSyncNow: () => void;
+  retentionReport: RetentionReport | null;
+  onDismissRetentionReport: () => void;
+  migrationError: string | null;
+  /** No backup of the original could be written, so nothing is saved until the data is cleared */
+  migrationReadOnly: boolean;
+  onDismissMigrationError: () => void;
+  onExportMigrationBackup: () => Promise<string>;
+  onUpdateSettings: (updates: Partial<AppSettings>) => void;
+  onRunRetention: () => void;
+  onSaveExchangeRate: (rate: Omit<ExchangeRate, 'id' | 'updatedAt'> & { id?: string }) => void;
+  onDeleteExchangeRate: (id: string) => void;
+  onExport: (passphrase?: string) => Promise<string>;
+  onExportCsv: (sheet: CsvSheet, scope: CsvExportScope) => string;
+  onExportPeriod: (periodId: string) => string;
+  onExportArchive: () => string;
+  onClearArchive: () => void;
   onImport: (json: string) => void;
+  onPreviewMerge: (json: string) => MergePreview;
+  onMerge: (json: string, strategy: ConflictStrategy, resolutions: MergeResolutions) => void;
   onClear: () => void;
 }
 
-export function Settings({ data, wasDataCleared, onDismissClearedNotice, onExport, onImport, onClear }: SettingsProps) {
+function downloadJson(json: string, filename: string) {
+  downloadFile(json, filename, 'application/json');
+}
+
+export function Settings({
+  data, storageKind, sync, onSyncNow, retentionReport, onDismissRetentionReport, migrationError, migrationReadOnly, onDismissMigrationError, onExportMigrationBackup, onUpdateSettings, onRunRetention,
+  onSaveExchangeRate, onDeleteExchangeRate,
+  onExport, onExportCsv, onExportPeriod, onExportArchive, onClearArchive, onImport, onPreviewMerge, onMerge, onClear
+}: SettingsProps) {
+  const { t, language } = useI18n();
   const [importDialogOpen, setImportDialogOpen] = useState(false);
   const [clearDialogOpen, setClearDialogOpen] = useState(false);
-  const [importText, setImportText] = useState('');
-  const [importError, setImportError] = useState('');
+  const [csvDialogOpen, setCsvDialogOpen] = useState(false);
+  const [encryptDialogOpen, setEncryptDialogOpen] = useState(false);
+  const [exportPassphrase, setExportPassphrase] = useState({ passphrase: '', confirm: '' });
+  const [exportError, setExportError] = useState('');
+  const [backupError, setBackupError] = useState('');
+  const [exportScope, setExportScope] = useState<'profile' | 'all'>('profile');
+  const [notificationError, setNotificationError] = useState('');
+  const { profiles, activeProfile, exportAllProfiles, importProfiles } = useProfiles();
+  const [syncUrl, setSyncUrl] = useState(data?.settings?.sync?.serverUrl || DEFAULT_SYNC_URL);
+
+  const settings = data ? getSettings(data) : null;
+  const upcomingExpirations = data ? getUpcomingExpirations(data, EXPIRY_WARNING_DAYS) : [];
+  const archiveCount = data?.archive?.length || 0;
+  const today = getCurrentDate();
+
+  /** The chosen scope's JSON and file name, without the extension */
+  const exportJson = (passphrase?: string): Promise<[string, string]> => exportScope === 'all'
+    ? exportAllProfiles(passphrase).then(json => [json, `budget-profiles-${today}`])
+    : onExport(passphrase).then(json => [json, `budget-data-${today}`]);
 
   const handleExport = () => {
-    const jsonData = onExport();
-    const blob = new Blob([jsonData], { type: 'application/json' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `budget-data-${new Date().toISOString().split('T')[0]}.json`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
+    setExportError('');
+    exportJson()
+      .then(([json, filename]) => downloadJson(json, `${filename}.json`))
+      .catch(err => setExportError((err as Error).message));
   };
 
-  const handleImport = () => {
-    try {
-      onImport(importText);
-      setImportDialogOpen(false);
-      setImportText('');
-      setImportError('');
-    } catch (err) {
-      setImportError(err instanceof Error ? err.message : 'Invalid JSON');
+  const handleEncryptDialogChange = (open: boolean) => {
+    setEncryptDialogOpen(open);
+    setExportPassphrase({ passphrase: '', confirm: '' });
+    setExportError('');
+  };
+
+  const handleExportEncrypted = () => {
+    if (exportPassphrase.passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      setExportError(t('lock.tooShort', { min: MIN_PASSPHRASE_LENGTH }));
+      return;
+    }
+    if (exportPassphrase.passphrase !== exportPassphrase.confirm) {
+      setExportError(t('lock.mismatch'));
+      return;
     }
+    exportJson(exportPassphrase.passphrase).then(([json, filename]) => {
+      downloadJson(json, `${filename}.encrypted.json`);
+      handleEncryptDialogChange(false);
+    }).catch(err => setExportError((err as Error).message));
+  };
+
+  const handleExportPeriod = (periodId: string, periodName: string) => {
+    downloadJson(onExportPeriod(periodId), `budget-period-${periodName.replace(/\s+/g, '-').toLowerCase()}.json`);
+  };
+
+  const handleExportArchive = () => {
+    downloadJson(onExportArchive(), `budget-archive-${today}.json`);
+  };
+
+  const handleExportMigrationBackup = () => {
+    setBackupError('');
+    onExportMigrationBackup()
+      .then(json => downloadJson(json, `budget-data-backup-${today}.json`))
+      .catch(err => setBackupError((err as Error).message));
+  };
+
+  const handleRetentionChange = (months: string) => {
+    if (!settings) return;
+    onUpdateSettings({ retention: { ...settings.retention, retentionMonths: parseInt(months, 10) } });
+  };
+
+  const handleArchiveToggle = (archiveExpired: boolean) => {
+    if (!settings) return;
+    onUpdateSettings({ retention: { ...settings.retention, archiveExpired } });
+  };
+
+  const handleSyncToggle = (enabled: boolean) => {
+    onUpdateSettings({ sync: { enabled, serverUrl: syncUrl.trim() } });
+  };
+
+  const handleNotificationsToggle = async (enabled: boolean) => {
+    setNotificationError('');
+    if (enabled && !(await requestNotificationPermission())) {
+      setNotificationError(t('alerts.notificationsBlocked'));
+      return;
+    }
+    onUpdateSettings({ alertNotifications: enabled });
   };
 
   const handleClear = () => {
@@ -54,65 +160,297 @@ export function Settings({ data, wasDataCleared, onDismissClearedNotice, onExpor
 
   return (
     <div className="space-y-6 max-w-2xl">
-      {/* Data Cleared Notice */}
-      {wasDataCleared && (
+      {/* Migration Error */}
+      {migrationError && (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>{t('settings.migrationErrorTitle')}</AlertTitle>
+          <AlertDescription>
+            {migrationError} {migrationReadOnly ? t('settings.migrationReadOnlyBody') : t('settings.migrationErrorBody')}
+            {backupError && <p className="text-sm mt-1">{backupError}</p>}
+            <div className="flex gap-2 mt-2">
+              <Button size="sm" variant="outline" onClick={handleExportMigrationBackup}>
+                <Download className="h-4 w-4 mr-1" /> {t('settings.downloadOriginal')}
+              </Button>
+              <Button size="sm" variant="link" onClick={onDismissMigrationError}>{t('common.dismiss')}</Button>
+            </div>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {/* Retention Report */}
+      {retentionReport && (
         <Alert variant="warning">
           <AlertTriangle className="h-4 w-4" />
-          <AlertTitle>Old data cleared</AlertTitle>
+          <AlertTitle>{t('settings.retentionReportTitle')}</AlertTitle>
           <AlertDescription>
-            Old data (over 1 year) has been cleared.
-            <Button variant="link" className="p-0 h-auto ml-2" onClick={onDismissClearedNotice}>
-              Dismiss
+            {t('settings.retentionReportBody', {
+              periods: retentionReport.removedPeriods.map(p => p.name).join(', '),
+              portions: retentionReport.removedPortions,
+              expenses: retentionReport.removedExpenses
+            })}{' '}
+            {retentionReport.archived ? t('settings.retentionArchived') : t('settings.retentionNotArchived')}
+            <Button variant="link" className="p-0 h-auto ml-2" onClick={onDismissRetentionReport}>
+              {t('common.dismiss')}
             </Button>
           </AlertDescription>
         </Alert>
       )}
 
+      {/* Language */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Languages className="h-5 w-5" /> {t('settings.language')}
+          </CardTitle>
+          <CardDescription>{t('settings.languageDescription')}</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Select value={language} onValueChange={(v) => onUpdateSettings({ language: v as Language })}>
+            <SelectTrigger className="md:w-1/2">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {LANGUAGES.map(l => <SelectItem key={l.code} value={l.code}>{l.label}</SelectItem>)}
+            </SelectContent>
+          </Select>
+        </CardContent>
+      </Card>
+
+      {/* Alert Notifications */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Bell className="h-5 w-5" /> {t('alerts.settingsTitle')}
+          </CardTitle>
+          <CardDescription>{t('alerts.settingsDescription')}</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          <label className="flex items-center gap-2 text-sm">
+            <input
+              type="checkbox"
+              checked={settings?.alertNotifications || false}
+              disabled={!notificationsSupported()}
+              onChange={(e) => handleNotificationsToggle(e.target.checked)}
+            />
+            {t('alerts.enableNotifications')}
+          </label>
+          {!notificationsSupported() && <p className="text-xs text-muted-foreground">{t('alerts.notificationsUnsupported')}</p>}
+          {notificationError && <p className="text-sm text-red-600">{notificationError}</p>}
+        </CardContent>
+      </Card>
+
       {/* Storage Info */}
       <Card>
         <CardHeader>
           <CardTitle className="flex items-center gap-2">
-            <Info className="h-5 w-5" /> Data Storage
+            <Info className="h-5 w-5" /> {t('settings.storageTitle')}
           </CardTitle>
           <CardDescription>
-            Your data is stored only in this browser (local storage) and kept for a maximum of 1 year.
+            {t('settings.storageDescription', { backend: t(`settings.backend.${storageKind || 'localstorage'}`) })}
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-2 text-sm text-muted-foreground">
           {data && (
             <>
-              <p><strong>Created:</strong> {formatDate(data.createdAt)}</p>
-              <p><strong>Last used:</strong> {formatDate(data.lastUsedAt)}</p>
-              <p><strong>Periods:</strong> {data.periods.length}</p>
-              <p><strong>Categories:</strong> {data.portions.length}</p>
-              <p><strong>Expenses:</strong> {data.expenses.length}</p>
+              <p><strong>{t('settings.created')}</strong> {formatDate(data.createdAt)}</p>
+              <p><strong>{t('settings.lastUsed')}</strong> {formatDate(data.lastUsedAt)}</p>
+              <p><strong>{t('settings.periods')}</strong> {data.periods.length}</p>
+              <p><strong>{t('settings.categories')}</strong> {data.portions.length}</p>
+              <p><strong>{t('settings.expenses')}</strong> {data.expenses.length}</p>
             </>
           )}
         </CardContent>
       </Card>
 
-      {/* Export */}
+      {/* Server Sync */}
+      {settings && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Cloud className="h-5 w-5" /> {t('sync.title')}
+            </CardTitle>
+            <CardDescription>{t('sync.description')}</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="syncUrl">{t('sync.serverUrl')}</Label>
+              <Input
+                id="syncUrl"
+                type="url"
+                value={syncUrl}
+                onChange={(e) => setSyncUrl(e.target.value)}
+                disabled={settings.sync?.enabled}
+              />
+              <p className="text-xs text-muted-foreground">{t('sync.urlHint', { url: DEFAULT_SYNC_URL })}</p>
+            </div>
+            <label className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={settings.sync?.enabled || false}
+                disabled={!syncUrl.trim()}
+                onChange={(e) => handleSyncToggle(e.target.checked)}
+              />
+              {t('sync.enable')}
+            </label>
+            <p className="text-xs text-muted-foreground">{t('sync.offNote')}</p>
+            {sync.status !== 'disabled' && (
+              <div className="space-y-2 text-sm">
+                <p>
+                  <strong>{t('common.status')}:</strong> {t(`sync.status.${sync.status}`)}
+                  {sync.pending > 0 && <> · {t('sync.pending', { count: sync.pending })}</>}
+                </p>
+                <p className="text-muted-foreground">
+                  {sync.lastSyncedAt ? t('sync.lastSynced', { time: formatDateTime(sync.lastSyncedAt) }) : t('sync.neverSynced')}
+                </p>
+                {sync.error && (
+                  <Alert variant={sync.status === 'offline' ? 'warning' : 'destructive'}>
+                    <AlertTriangle className="h-4 w-4" />
+                    <AlertDescription>{sync.error}</AlertDescription>
+                  </Alert>
+                )}
+                <Button size="sm" variant="outline" onClick={onSyncNow} disabled={sync.status === 'syncing'}>
+                  <RefreshCw className={`h-4 w-4 mr-1 ${sync.status === 'syncing' ? 'animate-spin' : ''}`} /> {t('sync.syncNow')}
+                </Button>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Retention */}
+      {settings && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Clock className="h-5 w-5" /> {t('settings.retentionTitle')}
+            </CardTitle>
+            <CardDescription>{t('settings.retentionDescription')}</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-2">
+                <Label>{t('settings.keepPeriodsFor')}</Label>
+                <Select value={settings.retention.retentionMonths.toString()} onValueChange={handleRetentionChange}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {RETENTION_OPTIONS.map(months => (
+                      <SelectItem key={months} value={months.toString()}>{t('settings.monthsAfterEnd', { months })}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="flex items-end">
+                <label className="flex items-center gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={settings.retention.archiveExpired}
+                    onChange={(e) => handleArchiveToggle(e.target.checked)}
+                  />
+                  {t('settings.archiveExpired')}
+                </label>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <p className="text-sm font-medium">{t('settings.expiringWithin', { days: EXPIRY_WARNING_DAYS })}</p>
+              {upcomingExpirations.length === 0 ? (
+                <p className="text-sm text-muted-foreground">{t('settings.noneExpiring')}</p>
+              ) : (
+                <ul className="space-y-2">
+                  {upcomingExpirations.map(({ period, expiresOn, daysLeft }) => (
+                    <li key={period.id} className="flex items-center justify-between text-sm">
+                      <span>
+                        <strong>{period.name}</strong>{' '}
+                        <span className={daysLeft <= 0 ? 'text-red-600' : 'text-muted-foreground'}>
+                          {daysLeft <= 0 ? t('settings.expiredPending') : t('settings.expiresOn', { date: formatDate(expiresOn), days: daysLeft })}
+                        </span>
+                      </span>
+                      <Button size="sm" variant="outline" onClick={() => handleExportPeriod(period.id, period.name)}>
+                        <Download className="h-4 w-4 mr-1" /> {t('common.export')}
+                      </Button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+              {upcomingExpirations.some(e => e.daysLeft <= 0) && (
+                <Button size="sm" variant="outline" onClick={onRunRetention}>{t('settings.removeExpired')}</Button>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Passphrase Lock */}
+      <LockSettings />
+
+      {/* Exchange Rates */}
+      <ExchangeRates rates={data?.exchangeRates || []} onSave={onSaveExchangeRate} onDelete={onDeleteExchangeRate} />
+
+      {/* Archive */}
       <Card>
         <CardHeader>
-          <CardTitle>Export Data</CardTitle>
-          <CardDescription>Download all your data as a JSON file for backup.</CardDescription>
+          <CardTitle className="flex items-center gap-2">
+            <Archive className="h-5 w-5" /> {t('settings.archiveTitle')}
+          </CardTitle>
+          <CardDescription>{t('settings.archiveDescription', { count: archiveCount })}</CardDescription>
         </CardHeader>
-        <CardContent>
-          <Button onClick={handleExport}>
-            <Download className="h-4 w-4 mr-2" /> Export JSON
+        <CardContent className="flex gap-2">
+          <Button variant="outline" onClick={handleExportArchive} disabled={archiveCount === 0}>
+            <Download className="h-4 w-4 mr-2" /> {t('settings.exportArchive')}
+          </Button>
+          <Button variant="outline" className="text-red-600" onClick={onClearArchive} disabled={archiveCount === 0}>
+            <Trash2 className="h-4 w-4 mr-2" /> {t('settings.clearArchive')}
           </Button>
         </CardContent>
       </Card>
 
+      {/* Export */}
+      <Card>
+        <CardHeader>
+          <CardTitle>{t('settings.exportTitle')}</CardTitle>
+          <CardDescription>{t('settings.exportDescription')}</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {profiles.length > 1 && (
+            <div>
+              <Label>{t('settings.exportScope')}</Label>
+              <Select value={exportScope} onValueChange={v => setExportScope(v as 'profile' | 'all')}>
+                <SelectTrigger className="w-[240px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="profile">{t('settings.exportScopeProfile', { name: activeProfile.name })}</SelectItem>
+                  <SelectItem value="all">{t('settings.exportScopeAll')}</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          <div className="flex flex-wrap gap-2">
+            <Button onClick={handleExport}>
+              <Download className="h-4 w-4 mr-2" /> {t('settings.exportJson')}
+            </Button>
+            <Button variant="outline" onClick={() => setCsvDialogOpen(true)}>
+              <Download className="h-4 w-4 mr-2" /> {t('settings.exportCsv')}
+            </Button>
+            <Button variant="outline" onClick={() => handleEncryptDialogChange(true)}>
+              <Lock className="h-4 w-4 mr-2" /> {t('settings.exportEncrypted')}
+            </Button>
+          </div>
+          {exportError && !encryptDialogOpen && <p className="text-sm text-red-600">{exportError}</p>}
+        </CardContent>
+      </Card>
+
       {/* Import */}
       <Card>
         <CardHeader>
-          <CardTitle>Import Data</CardTitle>
-          <CardDescription>Restore data from a previously exported JSON file. This will replace all current data.</CardDescription>
+          <CardTitle>{t('settings.importTitle')}</CardTitle>
+          <CardDescription>{t('settings.importDescription')}</CardDescription>
         </CardHeader>
         <CardContent>
           <Button variant="outline" onClick={() => setImportDialogOpen(true)}>
-            <Upload className="h-4 w-4 mr-2" /> Import JSON
+            <Upload className="h-4 w-4 mr-2" /> {t('settings.importJson')}
           </Button>
         </CardContent>
       </Card>
@@ -120,35 +458,61 @@ export function Settings({ data, wasDataCleared, onDismissClearedNotice, onExpor
       {/* Clear */}
       <Card className="border-red-200">
         <CardHeader>
-          <CardTitle className="text-red-600">Clear All Data</CardTitle>
-          <CardDescription>Permanently delete all periods, categories, and expenses. This cannot be undone.</CardDescription>
+          <CardTitle className="text-red-600">{t('settings.clearTitle')}</CardTitle>
+          <CardDescription>{t('settings.clearDescription')}</CardDescription>
         </CardHeader>
         <CardContent>
           <Button variant="destructive" onClick={() => setClearDialogOpen(true)}>
-            <Trash2 className="h-4 w-4 mr-2" /> Clear All Data
+            <Trash2 className="h-4 w-4 mr-2" /> {t('settings.clearTitle')}
           </Button>
         </CardContent>
       </Card>
 
       {/* Import Dialog */}
-      <Dialog open={importDialogOpen} onOpenChange={setImportDialogOpen}>
+      <CsvExportDialog open={csvDialogOpen} onOpenChange={setCsvDialogOpen} onExport={onExportCsv} />
+
+      <ImportDialog
+        open={importDialogOpen}
+        onOpenChange={setImportDialogOpen}
+        onImport={onImport}
+        onPreviewMerge={onPreviewMerge}
+        onMerge={onMerge}
+        onImportProfiles={importProfiles}
+      />
+
+      {/* Encrypted Export Dialog */}
+      <Dialog open={encryptDialogOpen} onOpenChange={handleEncryptDialogChange}>
         <DialogContent>
           <DialogHeader>
-            <DialogTitle>Import Data</DialogTitle>
-            <DialogDescription>Paste your exported JSON data below. This will replace all current data.</DialogDescription>
+            <DialogTitle>{t('settings.exportEncryptedTitle')}</DialogTitle>
+            <DialogDescription>{t('settings.exportEncryptedDescription')}</DialogDescription>
           </DialogHeader>
           <div className="space-y-4 py-4">
-            {importError && <p className="text-sm text-red-600">{importError}</p>}
-            <Textarea
-              value={importText}
-              onChange={(e) => setImportText(e.target.value)}
-              placeholder='Paste JSON here...'
-              className="min-h-[200px] font-mono text-xs"
-            />
+            <div>
+              <Label htmlFor="export-passphrase">{t('lock.passphrase')}</Label>
+              <Input
+                id="export-passphrase"
+                type="password"
+                autoComplete="new-password"
+                value={exportPassphrase.passphrase}
+                onChange={e => setExportPassphrase({ ...exportPassphrase, passphrase: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label htmlFor="export-confirm">{t('lock.confirmPassphrase')}</Label>
+              <Input
+                id="export-confirm"
+                type="password"
+                autoComplete="new-password"
+                value={exportPassphrase.confirm}
+                onChange={e => setExportPassphrase({ ...exportPassphrase, confirm: e.target.value })}
+              />
+            </div>
+            {exportError && <p className="text-sm text-red-600">{exportError}</p>}
           </div>
           <DialogFooter>
-            <Button variant="outline" onClick={() => setImportDialogOpen(false)}>Cancel</Button>
-            <Button onClick={handleImport}>Import</Button>
+            <Button variant="outline" onClick={() => handleEncryptDialogChange(false)}>{t('common.cancel')}</Button>
+            <Button onClick={handleExportEncrypted}>{t('settings.exportEncrypted')}</Button>
           </DialogFooter>
         </DialogContent>
       </Dialog>
@@ -157,14 +521,14 @@ export function Settings({ data, wasDataCleared, onDismissClearedNotice, onExpor
       <Dialog open={clearDialogOpen} onOpenChange={setClearDialogOpen}>
         <DialogContent>
           <DialogHeader>
-            <DialogTitle>Clear All Data?</DialogTitle>
+            <DialogTitle>{t('settings.clearConfirmTitle')}</DialogTitle>
             <DialogDescription>
-              This will permanently delete all your periods, budget categories, and expenses. This action cannot be undone.
+              {t('settings.clearConfirmBody')}
             </DialogDescription>
           </DialogHeader>
           <DialogFooter>
-            <Button variant="outline" onClick={() => setClearDialogOpen(false)}>Cancel</Button>
-            <Button variant="destructive" onClick={handleClear}>Yes, Clear All</Button>
+            <Button variant="outline" onClick={() => setClearDialogOpen(false)}>{t('common.cancel')}</Button>
+            <Button variant="destructive" onClick={handleClear}>{t('settings.clearConfirm')}</Button>
           </DialogFooter>
         </DialogContent>
       </Dialog>
@@ -0,0 +1,227 @@
+import { useMemo } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { buildPortionBreakdown, buildSpendingSeries, SpendingSeries } from '@/services/charts';
+import { formatCurrency, formatDate, formatPercent } from '@/utils/formatters';
+import { useI18n } from '@/hooks/useI18n';
+import { Expense, ExpenseFilters, Period, PortionSummary } from '@/types';
+
+interface SpendingChartsProps {
+  period: Period;
+  /** Expenses of the period */
+  expenses: Expense[];
+  portionSummaries: PortionSummary[];
+  /** Budget plus carried-in balances */
+  available: number;
+  currency: string;
+  /** Open the expense list filtered to what was clicked */
+  onShowExpenses: (filters: ExpenseFilters) => void;
+}
+
+const WIDTH = 600;
+const HEIGHT = 180;
+const PAD_TOP = 8;
+const PLOT_HEIGHT = HEIGHT - PAD_TOP;
+
+const SLICE_COLORS = ['#3b82f6', '#22c55e', '#f59e0b', '#ef4444', '#8b5cf6', '#14b8a6', '#ec4899', '#64748b'];
+
+/** Maps a day index and an amount onto the chart area */
+function scales(series: SpendingSeries, max: number) {
+  const slot = WIDTH / Math.max(series.days.length, 1);
+  return {
+    slot,
+    /** Left edge of a day */
+    x: (i: number) => i * slot,
+    y: (amount: number) => PAD_TOP + PLOT_HEIGHT - (max > 0 ? (amount / max) * PLOT_HEIGHT : 0)
+  };
+}
+
+function DateAxis({ series }: { series: SpendingSeries }) {
+  const first = series.days[0];
+  const last = series.days[series.days.length - 1];
+  return (
+    <div className="flex justify-between text-xs text-muted-foreground mt-1">
+      <span>{formatDate(first.date)}</span>
+      <span>{formatDate(last.date)}</span>
+    </div>
+  );
+}
+
+function Swatch({ color, dashed }: { color: string; dashed?: boolean }) {
+  return (
+    <span
+      className="inline-block w-4 align-middle mr-1 border-t-2"
+      style={{ borderColor: color, borderStyle: dashed ? 'dashed' : 'solid' }}
+    />
+  );
+}
+
+/** Spending of the active period per day, accumulated and by category; each part opens the matching expenses */
+export function SpendingCharts({ period, expenses, portionSummaries, available, currency, onShowExpenses }: SpendingChartsProps) {
+  const { t } = useI18n();
+  const series = useMemo(() => buildSpendingSeries(period, expenses, available), [period, expenses, available]);
+  const slices = useMemo(() => buildPortionBreakdown(portionSummaries), [portionSummaries]);
+
+  if (series.days.length === 0) return null;
+
+  const lastSpent = [...series.days].reverse().find(d => d.cumulative !== null);
+  const paceDay = series.todayIndex >= 0 ? series.days[series.todayIndex] : lastSpent || series.days[0];
+
+  // Accumulated spending against the even pace
+  const cumulativeMax = Math.max(available, ...series.days.map(d => d.cumulative ?? 0), 1);
+  const line = scales(series, cumulativeMax);
+  const idealPoints = [`0,${line.y(0)}`, ...series.days.map((d, i) => `${line.x(i + 1)},${line.y(d.ideal)}`)].join(' ');
+  const spentDays = series.days.filter(d => d.cumulative !== null);
+  const spentPoints = spentDays.length > 0
+    ? [`0,${line.y(0)}`, ...spentDays.map((d, i) => `${line.x(i + 1)},${line.y(d.cumulative!)}`)].join(' ')
+    : '';
+
+  // Spending per day against an even daily share
+  const dailyMax = Math.max(series.dailyAllowance, ...series.days.map(d => d.spent), 1);
+  const bars = scales(series, dailyMax);
+
+  // Category share of spending
+  const radius = 60;
+  const circumference = 2 * Math.PI * radius;
+  let sliceOffset = 0;
+
+  return (
+    <div className="grid gap-4 lg:grid-cols-3">
+      <Card className="lg:col-span-2">
+        <CardHeader className="pb-2">
+          <CardTitle className="text-lg">{t('charts.cumulativeTitle')}</CardTitle>
+          <div className="flex flex-wrap gap-x-4 text-xs text-muted-foreground">
+            <span><Swatch color="#3b82f6" />{t('charts.spentSoFar', { amount: formatCurrency(paceDay.cumulative ?? 0, currency) })}</span>
+            <span><Swatch color="#94a3b8" dashed />{t('charts.evenPace', { amount: formatCurrency(paceDay.ideal, currency) })}</span>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} preserveAspectRatio="none" className="w-full h-44" role="img" aria-label={t('charts.cumulativeTitle')}>
+            <line x1={0} y1={line.y(0)} x2={WIDTH} y2={line.y(0)} stroke="#e2e8f0" vectorEffect="non-scaling-stroke" />
+            {series.todayIndex >= 0 && (
+              <line
+                x1={line.x(series.todayIndex + 1)} y1={PAD_TOP} x2={line.x(series.todayIndex + 1)} y2={line.y(0)}
+                stroke="#cbd5e1" strokeDasharray="2 3" vectorEffect="non-scaling-stroke"
+              />
+            )}
+            <polyline points={idealPoints} fill="none" stroke="#94a3b8" strokeWidth={2} strokeDasharray="6 4" vectorEffect="non-scaling-stroke" />
+            {spentPoints && (
+              <polyline points={spentPoints} fill="none" stroke="#3b82f6" strokeWidth={2.5} vectorEffect="non-scaling-stroke" />
+            )}
+            {series.days.map((day, i) => (
+              <rect
+                key={day.date}
+                x={line.x(i)} y={0} width={line.slot} height={HEIGHT}
+                className="cursor-pointer fill-transparent hover:fill-black/5"
+                onClick={() => onShowExpenses({ startDate: period.startDate, endDate: day.date })}
+              >
+                <title>
+                  {day.cumulative === null
+                    ? t('charts.futureTooltip', { date: formatDate(day.date), ideal: formatCurrency(day.ideal, currency) })
+                    : t('charts.cumulativeTooltip', {
+                      date: formatDate(day.date),
+                      total: formatCurrency(day.cumulative, currency),
+                      ideal: formatCurrency(day.ideal, currency)
+                    })}
+                </title>
+              </rect>
+            ))}
+          </svg>
+          <DateAxis series={series} />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="pb-2">
+          <CardTitle className="text-lg">{t('charts.byCategoryTitle')}</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {slices.length === 0 ? (
+            <p className="text-sm text-muted-foreground py-8 text-center">{t('charts.noSpending')}</p>
+          ) : (
+            <div className="space-y-3">
+              <svg viewBox="0 0 160 160" className="w-36 h-36 mx-auto" role="img" aria-label={t('charts.byCategoryTitle')}>
+                <g transform="rotate(-90 80 80)">
+                  {slices.map((slice, i) => {
+                    const length = slice.share * circumference;
+                    const offset = sliceOffset;
+                    sliceOffset += length;
+                    return (
+                      <circle
+                        key={slice.portionId}
+                        cx={80} cy={80} r={radius} fill="none"
+                        stroke={SLICE_COLORS[i % SLICE_COLORS.length]} strokeWidth={28}
+                        strokeDasharray={`${length} ${circumference - length}`} strokeDashoffset={-offset}
+                        className="cursor-pointer hover:opacity-80"
+                        onClick={() => onShowExpenses({ portionId: slice.portionId })}
+                      >
+                        <title>
+                          {t('charts.sliceTooltip', {
+                            name: slice.name, amount: formatCurrency(slice.amount, currency), percent: formatPercent(slice.share * 100)
+                          })}
+                        </title>
+                      </circle>
+                    );
+                  })}
+                </g>
+              </svg>
+              <ul className="space-y-1 text-sm">
+                {slices.map((slice, i) => (
+                  <li key={slice.portionId}>
+                    <button
+                      type="button"
+                      className="flex w-full items-center gap-2 rounded px-1 py-0.5 text-left hover:bg-muted"
+                      onClick={() => onShowExpenses({ portionId: slice.portionId })}
+                    >
+                      <span className="h-3 w-3 shrink-0 rounded-sm" style={{ backgroundColor: SLICE_COLORS[i % SLICE_COLORS.length] }} />
+                      <span className="flex-1 truncate">{slice.name}</span>
+                      <span className="text-muted-foreground">{formatPercent(slice.share * 100)}</span>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="lg:col-span-3">
+        <CardHeader className="pb-2">
+          <CardTitle className="text-lg">{t('charts.dailyTitle')}</CardTitle>
+          <div className="text-xs text-muted-foreground">
+            <Swatch color="#94a3b8" dashed />{t('charts.dailyAllowance', { amount: formatCurrency(series.dailyAllowance, currency) })}
+          </div>
+        </CardHeader>
+        <CardContent>
+          <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} preserveAspectRatio="none" className="w-full h-40" role="img" aria-label={t('charts.dailyTitle')}>
+            <line x1={0} y1={bars.y(0)} x2={WIDTH} y2={bars.y(0)} stroke="#e2e8f0" vectorEffect="non-scaling-stroke" />
+            {series.days.map((day, i) => (
+              <g
+                key={day.date}
+                className="group cursor-pointer"
+                onClick={() => onShowExpenses({ startDate: day.date, endDate: day.date })}
+              >
+                <title>{t('charts.dailyTooltip', { date: formatDate(day.date), amount: formatCurrency(day.spent, currency) })}</title>
+                <rect x={bars.x(i)} y={0} width={bars.slot} height={HEIGHT} className="fill-transparent group-hover:fill-black/5" />
+                {day.spent > 0 && (
+                  <rect
+                    x={bars.x(i) + bars.slot * 0.15} y={bars.y(day.spent)}
+                    width={bars.slot * 0.7} height={bars.y(0) - bars.y(day.spent)}
+                    fill={day.spent > series.dailyAllowance ? '#f59e0b' : '#3b82f6'}
+                  />
+                )}
+              </g>
+            ))}
+            {series.dailyAllowance > 0 && (
+              <line
+                x1={0} y1={bars.y(series.dailyAllowance)} x2={WIDTH} y2={bars.y(series.dailyAllowance)}
+                stroke="#94a3b8" strokeWidth={1.5} strokeDasharray="6 4" vectorEffect="non-scaling-stroke" pointerEvents="none"
+              />
+            )}
+          </svg>
+          <DateAxis series={series} />
+          <p className="text-xs text-muted-foreground mt-2">{t('charts.clickHint')}</p>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,379 @@
+import { useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter, DialogDescription } from '@/components/ui/dialog';
+import { formatCurrency, formatDate } from '@/utils/formatters';
+import { detectDelimiter, parseCsv } from '@/utils/csv';
+import { roundToCurrency } from '@/utils/currency';
+import {
+  createDefaultProfile, findDuplicate, parseStatement, suggestPortionId, StatementRow
+} from '@/services/statementImport';
+import { getPeriodCurrency } from '@/services/exchangeRates';
+import { useI18n } from '@/hooks/useI18n';
+import { Expense, Period, Portion, StatementDateFormat, StatementImportProfile } from '@/types';
+
+type Step = 'source' | 'mapping' | 'review';
+type Mapping = Omit<StatementImportProfile, 'id' | 'name'>;
+type RowStatus = 'ok' | 'duplicate' | 'outside-period' | 'invalid' | 'credit';
+
+interface ReviewRow {
+  row: StatementRow;
+  status: RowStatus;
+  include: boolean;
+  portionId: string;
+}
+
+const NEW_PROFILE = 'new';
+
+const DATE_FORMATS: StatementDateFormat[] = ['DD/MM/YYYY', 'YYYY-MM-DD', 'MM/DD/YYYY'];
+
+interface StatementImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  period: Period;
+  portions: Portion[];
+  expenses: Expense[];
+  profiles: StatementImportProfile[];
+  onSaveProfile: (profile: Omit<StatementImportProfile, 'id'> & { id?: string }) => StatementImportProfile;
+  onDeleteProfile: (id: string) => void;
+  onAdd: (expense: Omit<Expense, 'id'>) => void;
+}
+
+function buildReviewRows(rows: StatementRow[], period: Period, portions: Portion[], expenses: Expense[]): ReviewRow[] {
+  const accepted: Expense[] = [];
+  return rows.map(row => {
+    let status: RowStatus = 'ok';
+    if (row.date === null || row.amount === null || row.amount === 0) status = 'invalid';
+    else if (row.isCredit) status = 'credit';
+    else if (row.date < period.startDate || row.date > period.endDate) status = 'outside-period';
+    else if (findDuplicate(row, [...expenses, ...accepted])) status = 'duplicate';
+
+    const portionId = suggestPortionId(row.description, expenses, portions);
+    if (status === 'ok') {
+      accepted.push({
+        id: `line-${row.line}`, periodId: period.id, portionId,
+        date: row.date!, description: row.description, amount: row.amount!
+      });
+    }
+    return { row, status, include: status === 'ok', portionId };
+  });
+}
+
+export function StatementImportDialog({
+  open, onOpenChange, period, portions, expenses, profiles, onSaveProfile, onDeleteProfile, onAdd
+}: StatementImportDialogProps) {
+  const { t } = useI18n();
+  const [step, setStep] = useState<Step>('source');
+  const [text, setText] = useState('');
+  const [profileId, setProfileId] = useState<string>(NEW_PROFILE);
+  const [profileName, setProfileName] = useState('');
+  const [mapping, setMapping] = useState<Mapping>(createDefaultProfile(','));
+  const [reviewRows, setReviewRows] = useState<ReviewRow[]>([]);
+  const [error, setError] = useState('');
+
+  const previewTable = useMemo(() => text ? parseCsv(text, mapping.delimiter).slice(0, 4) : [], [text, mapping.delimiter]);
+  const columnCount = Math.max(0, ...previewTable.map(r => r.length));
+  const columnLabels = Array.from({ length: columnCount }, (_, i) =>
+    mapping.hasHeader && previewTable[0]?.[i] ? previewTable[0][i] : t('statement.column', { index: i + 1 })
+  );
+
+  const reset = () => {
+    setStep('source');
+    setText('');
+    setReviewRows([]);
+    setError('');
+  };
+
+  const handleOpenChange = (isOpen: boolean) => {
+    if (!isOpen) reset();
+    onOpenChange(isOpen);
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setText(await file.text());
+  };
+
+  const handleProfileChange = (id: string) => {
+    setProfileId(id);
+    const profile = profiles.find(p => p.id === id);
+    if (profile) {
+      const { id: _id, name, ...rest } = profile;
+      setProfileName(name);
+      setMapping(rest);
+    } else {
+      setProfileName('');
+    }
+  };
+
+  const goToMapping = () => {
+    if (!text.trim()) {
+      setError(t('statement.noContent'));
+      return;
+    }
+    if (profileId === NEW_PROFILE) setMapping(createDefaultProfile(detectDelimiter(text)));
+    setError('');
+    setStep('mapping');
+  };
+
+  const goToReview = () => {
+    const { rows } = parseStatement(text, mapping);
+    if (rows.length === 0) {
+      setError(t('statement.noRows'));
+      return;
+    }
+    if (profileName.trim()) {
+      const saved = onSaveProfile({ ...mapping, name: profileName.trim(), id: profileId === NEW_PROFILE ? undefined : profileId });
+      setProfileId(saved.id);
+    }
+    setReviewRows(buildReviewRows(rows, period, portions, expenses));
+    setError('');
+    setStep('review');
+  };
+
+  const updateRow = (index: number, updates: Partial<ReviewRow>) => {
+    setReviewRows(rows => rows.map((r, i) => i === index ? { ...r, ...updates } : r));
+  };
+
+  const currency = getPeriodCurrency(period);
+  const selected = reviewRows.filter(r => r.include);
+
+  const handleCommit = () => {
+    if (selected.some(r => !r.portionId)) {
+      setError(t('statement.rowsNeedCategory'));
+      return;
+    }
+    selected.forEach(({ row, portionId }) => onAdd({
+      periodId: period.id,
+      portionId,
+      date: row.date!,
+      description: row.description || t('statement.importedTransaction'),
+      amount: roundToCurrency(row.amount!, currency)
+    }));
+    handleOpenChange(false);
+  };
+
+  const setColumn = (key: 'dateColumn' | 'descriptionColumn' | 'amountColumn', value: string) => {
+    setMapping({ ...mapping, [key]: parseInt(value, 10) });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{t('statement.title')}</DialogTitle>
+          <DialogDescription>
+            {step === 'source' && t('statement.sourceDescription')}
+            {step === 'mapping' && t('statement.mappingDescription')}
+            {step === 'review' && t('statement.reviewDescription', { period: period.name })}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          {step === 'source' && (
+            <>
+              <div className="space-y-2">
+                <Label>{t('statement.profile')}</Label>
+                <div className="flex gap-2">
+                  <Select value={profileId} onValueChange={handleProfileChange}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NEW_PROFILE}>{t('statement.newMapping')}</SelectItem>
+                      {profiles.map(p => <SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>)}
+                    </SelectContent>
+                  </Select>
+                  {profileId !== NEW_PROFILE && (
+                    <Button variant="outline" className="text-red-600" onClick={() => { onDeleteProfile(profileId); handleProfileChange(NEW_PROFILE); }}>
+                      {t('common.delete')}
+                    </Button>
+                  )}
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="statementFile">{t('statement.file')}</Label>
+                <Input id="statementFile" type="file" accept=".csv,text/csv,text/plain" onChange={(e) => handleFile(e.target.files?.[0])} />
+              </div>
+              <Textarea
+                value={text}
+                onChange={(e) => setText(e.target.value)}
+                placeholder={t('statement.pastePlaceholder')}
+                className="min-h-[150px] font-mono text-xs"
+              />
+            </>
+          )}
+
+          {step === 'mapping' && (
+            <>
+              <div className="overflow-x-auto">
+                <table className="text-xs w-full border">
+                  <tbody>
+                    {previewTable.map((row, i) => (
+                      <tr key={i} className={i === 0 && mapping.hasHeader ? 'font-semibold bg-secondary' : ''}>
+                        {row.map((cell, j) => <td key={j} className="border px-2 py-1 whitespace-nowrap">{cell}</td>)}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              <div className="grid gap-4 md:grid-cols-3">
+                {([['dateColumn', 'statement.dateColumn'], ['descriptionColumn', 'statement.descriptionColumn'], ['amountColumn', 'statement.amountColumn']] as const).map(([key, label]) => (
+                  <div key={key} className="space-y-2">
+                    <Label>{t(label)}</Label>
+                    <Select value={mapping[key].toString()} onValueChange={(v) => setColumn(key, v)}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {columnLabels.map((label, i) => <SelectItem key={i} value={i.toString()}>{label}</SelectItem>)}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+                <div className="space-y-2">
+                  <Label>{t('statement.dateFormat')}</Label>
+                  <Select value={mapping.dateFormat} onValueChange={(v) => setMapping({ ...mapping, dateFormat: v as StatementDateFormat })}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {DATE_FORMATS.map(f => <SelectItem key={f} value={f}>{f}</SelectItem>)}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>{t('statement.spendingShownAs')}</Label>
+                  <Select value={mapping.debitSign} onValueChange={(v) => setMapping({ ...mapping, debitSign: v as Mapping['debitSign'] })}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="negative">{t('statement.negativeAmounts')}</SelectItem>
+                      <SelectItem value="positive">{t('statement.positiveAmounts')}</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>{t('statement.separator')}</Label>
+                  <Select value={mapping.delimiter} onValueChange={(v) => setMapping({ ...mapping, delimiter: v })}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value=",">{t('statement.comma')}</SelectItem>
+                      <SelectItem value=";">{t('statement.semicolon')}</SelectItem>
+                      <SelectItem value={'\t'}>{t('statement.tab')}</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <label className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={mapping.hasHeader}
+                  onChange={(e) => setMapping({ ...mapping, hasHeader: e.target.checked })}
+                />
+                {t('statement.hasHeader')}
+              </label>
+              <div className="space-y-2">
+                <Label htmlFor="profileName">{t('statement.saveAs')}</Label>
+                <Input
+                  id="profileName"
+                  value={profileName}
+                  onChange={(e) => setProfileName(e.target.value)}
+                  placeholder={t('statement.saveAsPlaceholder')}
+                />
+              </div>
+            </>
+          )}
+
+          {step === 'review' && (
+            <>
+              <p className="text-sm text-muted-foreground">
+                {t('statement.selectedSummary', {
+                  selected: selected.length,
+                  total: reviewRows.length,
+                  amount: formatCurrency(selected.reduce((sum, r) => sum + (r.row.amount || 0), 0), currency)
+                })}
+              </p>
+              <div className="overflow-x-auto">
+                <table className="text-sm w-full">
+                  <thead>
+                    <tr className="text-left text-muted-foreground">
+                      <th className="p-2"></th>
+                      <th className="p-2">{t('common.date')}</th>
+                      <th className="p-2">{t('common.description')}</th>
+                      <th className="p-2 text-right">{t('common.amount')}</th>
+                      <th className="p-2">{t('common.category')}</th>
+                      <th className="p-2">{t('common.status')}</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {reviewRows.map((r, i) => {
+                      const selectable = r.status !== 'invalid' && r.status !== 'credit' && r.status !== 'outside-period';
+                      return (
+                        <tr key={r.row.line} className="border-t">
+                          <td className="p-2">
+                            <input
+                              type="checkbox"
+                              checked={r.include}
+                              disabled={!selectable}
+                              onChange={(e) => updateRow(i, { include: e.target.checked })}
+                            />
+                          </td>
+                          <td className="p-2 whitespace-nowrap">{r.row.date ? formatDate(r.row.date) : r.row.cells[mapping.dateColumn]}</td>
+                          <td className="p-2">{r.row.description}</td>
+                          <td className="p-2 text-right whitespace-nowrap">{r.row.amount !== null ? formatCurrency(r.row.amount, currency) : '-'}</td>
+                          <td className="p-2 min-w-[140px]">
+                            <Select value={r.portionId} onValueChange={(v) => updateRow(i, { portionId: v })} disabled={!selectable}>
+                              <SelectTrigger className="h-8">
+                                <SelectValue placeholder={t('common.category')} />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {portions.map(p => <SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>)}
+                              </SelectContent>
+                            </Select>
+                          </td>
+                          <td className={`p-2 text-xs whitespace-nowrap ${r.status === 'ok' ? 'text-green-600' : r.status === 'duplicate' ? 'text-yellow-700' : 'text-muted-foreground'}`}>
+                            {t(`statement.status.${r.status}`)}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            </>
+          )}
+        </div>
+
+        <DialogFooter>
+          {step === 'source' && (
+            <>
+              <Button variant="outline" onClick={() => handleOpenChange(false)}>{t('common.cancel')}</Button>
+              <Button onClick={goToMapping}>{t('common.next')}</Button>
+            </>
+          )}
+          {step === 'mapping' && (
+            <>
+              <Button variant="outline" onClick={() => setStep('source')}>{t('common.back')}</Button>
+              <Button onClick={goToReview}>{t('statement.review')}</Button>
+            </>
+          )}
+          {step === 'review' && (
+            <>
+              <Button variant="outline" onClick={() => setStep('mapping')}>{t('common.back')}</Button>
+              <Button onClick={handleCommit} disabled={selected.length === 0}>{t('statement.addExpenses', { count: selected.length })}</Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
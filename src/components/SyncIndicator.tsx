@@ -0,0 +1,43 @@
+import { Button } from '@/components/ui/button';
+import { useI18n } from '@/hooks/useI18n';
+import { SyncState } from '@/services/remoteSync';
+import { formatDateTime } from '@/utils/formatters';
+import { AlertTriangle, Cloud, CloudOff, RefreshCw } from 'lucide-react';
+
+interface SyncIndicatorProps {
+  sync: SyncState;
+  onSyncNow: () => void;
+}
+
+/** Header badge with the sync status; clicking it syncs right away */
+export function SyncIndicator({ sync, onSyncNow }: SyncIndicatorProps) {
+  const { t } = useI18n();
+  if (sync.status === 'disabled') return null;
+
+  const icon = {
+    syncing: <RefreshCw className="h-4 w-4 animate-spin" />,
+    synced: <Cloud className="h-4 w-4 text-green-600" />,
+    pending: <Cloud className="h-4 w-4 text-amber-600" />,
+    offline: <CloudOff className="h-4 w-4 text-amber-600" />,
+    error: <AlertTriangle className="h-4 w-4 text-red-600" />
+  }[sync.status];
+
+  const details = [
+    sync.error,
+    sync.pending > 0 ? t('sync.pending', { count: sync.pending }) : null,
+    sync.lastSyncedAt ? t('sync.lastSynced', { time: formatDateTime(sync.lastSyncedAt) }) : t('sync.neverSynced')
+  ].filter(Boolean).join('\n');
+
+  return (
+    <Button
+      variant="ghost" size="sm" className="h-8 gap-1 text-xs text-muted-foreground"
+      onClick={onSyncNow}
+      disabled={sync.status === 'syncing'}
+      title={details}
+    >
+      {icon}
+      <span className="hidden sm:inline">{t(`sync.status.${sync.status}`)}</span>
+      {sync.pending > 0 && <span>({sync.pending})</span>}
+    </Button>
+  );
+}
@@ -0,0 +1,50 @@
+import { Button } from '@/components/ui/button';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { useI18n } from '@/hooks/useI18n';
+import { TabConflict, describeRecord } from '@/services/crossTab';
+import { Copy } from 'lucide-react';
+
+interface TabConflictNoticeProps {
+  conflicts: TabConflict[];
+  onResolve: (conflict: TabConflict, keep: 'local' | 'remote') => void;
+}
+
+/** Records changed in this tab and another at the same time, each with a choice of version */
+export function TabConflictNotice({ conflicts, onResolve }: TabConflictNoticeProps) {
+  const { t } = useI18n();
+  if (conflicts.length === 0) return null;
+
+  const describe = (conflict: TabConflict) => {
+    const params = {
+      collection: t(`tabSync.collection.${conflict.collection}`),
+      name: describeRecord((conflict.local || conflict.remote)!)
+    };
+    if (!conflict.local) return t('tabSync.conflictDeletedHere', params);
+    if (!conflict.remote) return t('tabSync.conflictDeletedThere', params);
+    return t('tabSync.conflictBody', params);
+  };
+
+  return (
+    <Alert variant="warning" className="mb-6">
+      <Copy className="h-4 w-4" />
+      <AlertTitle>{t('tabSync.conflictTitle')}</AlertTitle>
+      <AlertDescription>
+        <ul className="space-y-2 mt-1">
+          {conflicts.map(conflict => (
+            <li key={`${conflict.collection}/${conflict.id}`} className="space-y-1">
+              <p>{describe(conflict)}</p>
+              <div className="flex flex-wrap gap-2">
+                <Button size="sm" variant="outline" onClick={() => onResolve(conflict, 'local')}>
+                  {t('tabSync.keepLocal')}
+                </Button>
+                <Button size="sm" variant="outline" onClick={() => onResolve(conflict, 'remote')}>
+                  {t('tabSync.keepRemote')}
+                </Button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      </AlertDescription>
+    </Alert>
+  );
+}
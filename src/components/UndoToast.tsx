@@ -0,0 +1,40 @@
+import { useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { useI18n } from '@/hooks/useI18n';
+import { HistoryAction } from '@/services/history';
+import { Undo2, X } from 'lucide-react';
+
+/** How long the notice stays up after a destructive action */
+const NOTICE_DURATION_MS = 8000;
+
+interface UndoToastProps {
+  notice: { id: string; action: HistoryAction } | null;
+  onUndo: () => void;
+  onDismiss: () => void;
+}
+
+export function UndoToast({ notice, onUndo, onDismiss }: UndoToastProps) {
+  const { t } = useI18n();
+
+  useEffect(() => {
+    if (!notice) return;
+    const timer = window.setTimeout(onDismiss, NOTICE_DURATION_MS);
+    return () => window.clearTimeout(timer);
+  }, [notice, onDismiss]);
+
+  if (!notice) return null;
+
+  return (
+    <div className="fixed bottom-4 left-1/2 -translate-x-1/2 z-50 w-[calc(100%-2rem)] max-w-md">
+      <div role="status" className="flex items-center gap-3 rounded-md border bg-gray-900 text-white shadow-lg px-4 py-3">
+        <span className="flex-1 text-sm">{t(`history.action.${notice.action}`)}</span>
+        <Button size="sm" variant="secondary" onClick={onUndo}>
+          <Undo2 className="h-4 w-4 mr-1" /> {t('history.undo')}
+        </Button>
+        <button className="text-gray-400 hover:text-white" onClick={onDismiss} aria-label={t('common.dismiss')}>
+          <X className="h-4 w-4" />
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,29 @@
+import { Button } from '@/components/ui/button';
+import { useI18n } from '@/hooks/useI18n';
+import { RefreshCw, X } from 'lucide-react';
+
+interface UpdatePromptProps {
+  open: boolean;
+  onUpdate: () => void;
+  onDismiss: () => void;
+}
+
+/** Offers to reload into a newly deployed version */
+export function UpdatePrompt({ open, onUpdate, onDismiss }: UpdatePromptProps) {
+  const { t } = useI18n();
+  if (!open) return null;
+
+  return (
+    <div className="fixed bottom-20 left-1/2 -translate-x-1/2 z-50 w-[calc(100%-2rem)] max-w-md">
+      <div role="status" className="flex items-center gap-3 rounded-md border bg-white shadow-lg px-4 py-3">
+        <span className="flex-1 text-sm">{t('pwa.updateReady')}</span>
+        <Button size="sm" onClick={onUpdate}>
+          <RefreshCw className="h-4 w-4 mr-1" /> {t('pwa.update')}
+        </Button>
+        <button className="text-muted-foreground hover:text-foreground" onClick={onDismiss} aria-label={t('common.dismiss')}>
+          <X className="h-4 w-4" />
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,196 @@
+import { useMemo, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { CategoryPeriod, buildYearReview, buildYearReviewHtml, getReviewYears, getYearCurrencies } from '@/services/yearReview';
+import { downloadFile } from '@/utils/download';
+import { formatCurrency, formatDate, formatPercent } from '@/utils/formatters';
+import { useI18n } from '@/hooks/useI18n';
+import { AppData } from '@/types';
+import { CalendarRange, Download, Printer } from 'lucide-react';
+
+interface YearReviewProps {
+  data: AppData;
+}
+
+/** A calendar year summed up over the periods overlapping it, viewable here and as a printable page */
+export function YearReview({ data }: YearReviewProps) {
+  const { t } = useI18n();
+  const years = useMemo(() => getReviewYears(data), [data]);
+  const [selectedYear, setYear] = useState<number>();
+  const year = selectedYear !== undefined && years.includes(selectedYear)
+    ? selectedYear
+    : years.find(y => y <= new Date().getFullYear()) ?? years[0];
+  const currencies = useMemo(() => (year ? getYearCurrencies(data, year) : []), [data, year]);
+  const [currency, setCurrency] = useState('');
+  const reviewCurrency = currencies.includes(currency) ? currency : currencies[0];
+  const review = useMemo(
+    () => (year ? buildYearReview(data, year, reviewCurrency) : null),
+    [data, year, reviewCurrency]
+  );
+  const [printError, setPrintError] = useState('');
+
+  if (!review) return null;
+
+  const money = (amount: number) => formatCurrency(amount, review.currency);
+  const periodCell = (p: CategoryPeriod | null) =>
+    p ? `${p.periodName} (${formatPercent(p.percentUsed)})` : '—';
+
+  const handlePrint = () => {
+    const page = window.open('', '_blank');
+    if (!page) {
+      setPrintError(t('yearReview.popupBlocked'));
+      return;
+    }
+    setPrintError('');
+    page.document.write(buildYearReviewHtml(review));
+    page.document.close();
+    page.focus();
+    page.print();
+  };
+
+  const handleDownload = () => {
+    downloadFile(buildYearReviewHtml(review), `year-review-${review.year}.html`, 'text/html');
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row flex-wrap items-start justify-between gap-4 space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2">
+            <CalendarRange className="h-5 w-5" /> {t('yearReview.title', { year: review.year })}
+          </CardTitle>
+          <CardDescription>
+            {t('yearReview.periodsCovered', { count: review.periods.length, names: review.periods.map(p => p.name).join(', ') })}
+          </CardDescription>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <Select value={String(year)} onValueChange={(v) => setYear(Number(v))}>
+            <SelectTrigger className="w-[110px]" aria-label={t('yearReview.year')}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {years.map(y => <SelectItem key={y} value={String(y)}>{y}</SelectItem>)}
+            </SelectContent>
+          </Select>
+          {currencies.length > 1 && (
+            <Select value={reviewCurrency} onValueChange={setCurrency}>
+              <SelectTrigger className="w-[100px]" aria-label={t('common.currency')}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {currencies.map(c => <SelectItem key={c} value={c}>{c}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          )}
+          <Button variant="outline" onClick={handlePrint}>
+            <Printer className="h-4 w-4 mr-1" /> {t('yearReview.print')}
+          </Button>
+          <Button variant="outline" onClick={handleDownload}>
+            <Download className="h-4 w-4 mr-1" /> {t('common.download')}
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {printError && <p className="text-sm text-red-600">{printError}</p>}
+
+        <div className="grid gap-4 grid-cols-2 md:grid-cols-4">
+          <div>
+            <p className="text-sm text-muted-foreground">{t('yearReview.income')}</p>
+            <p className="text-xl font-bold">{money(review.income)}</p>
+            {review.expectedIncome > 0 && (
+              <p className="text-xs text-muted-foreground">{t('yearReview.expectedIncome', { amount: money(review.expectedIncome) })}</p>
+            )}
+          </div>
+          <div>
+            <p className="text-sm text-muted-foreground">{t('yearReview.spending')}</p>
+            <p className="text-xl font-bold">{money(review.spending)}</p>
+          </div>
+          <div>
+            <p className="text-sm text-muted-foreground">{t('yearReview.savings')}</p>
+            <p className={`text-xl font-bold ${review.savings < 0 ? 'text-red-600' : 'text-green-600'}`}>{money(review.savings)}</p>
+          </div>
+          <div>
+            <p className="text-sm text-muted-foreground">{t('yearReview.savingsRate')}</p>
+            <p className={`text-xl font-bold ${review.savingsRate !== null && review.savingsRate < 0 ? 'text-red-600' : ''}`}>
+              {review.savingsRate === null ? '—' : formatPercent(review.savingsRate)}
+            </p>
+          </div>
+        </div>
+
+        <div>
+          <h3 className="font-semibold mb-2">{t('yearReview.categories')}</h3>
+          {review.categories.length === 0 ? (
+            <p className="text-sm text-muted-foreground">{t('reports.noCategories')}</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-left text-muted-foreground">
+                    <th className="py-1 pr-2 font-normal">{t('common.category')}</th>
+                    <th className="py-1 px-2 font-normal text-right">{t('yearReview.spent')}</th>
+                    <th className="py-1 px-2 font-normal">{t('yearReview.overBudget')}</th>
+                    <th className="py-1 px-2 font-normal">{t('yearReview.bestMonth')}</th>
+                    <th className="py-1 px-2 font-normal">{t('yearReview.worstMonth')}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {review.categories.map(c => (
+                    <tr key={c.name} className="border-b">
+                      <td className="py-1 pr-2 font-medium">{c.name}</td>
+                      <td className="py-1 px-2 text-right">{money(c.total)}</td>
+                      <td className={`py-1 px-2 ${c.overBudget > 0 ? 'text-red-600' : ''}`}>
+                        {t('yearReview.overBudgetCount', { over: c.overBudget, count: c.periods })}
+                      </td>
+                      <td className="py-1 px-2 text-green-700">{periodCell(c.best)}</td>
+                      <td className="py-1 px-2 text-red-700">{periodCell(c.worst)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+
+        <div className="grid gap-6 lg:grid-cols-2">
+          <div>
+            <h3 className="font-semibold mb-2">{t('yearReview.largestExpenses')}</h3>
+            {review.largestExpenses.length === 0 ? (
+              <p className="text-sm text-muted-foreground">{t('yearReview.noExpenses')}</p>
+            ) : (
+              <ol className="space-y-1 text-sm">
+                {review.largestExpenses.map(e => (
+                  <li key={e.id} className="flex justify-between gap-2">
+                    <span className="truncate">
+                      {e.description}
+                      <span className="text-muted-foreground"> · {e.portionName} · {formatDate(e.date)}</span>
+                    </span>
+                    <span className="font-medium whitespace-nowrap">{money(e.amount)}</span>
+                  </li>
+                ))}
+              </ol>
+            )}
+          </div>
+          <div>
+            <h3 className="font-semibold mb-2">{t('yearReview.frequentDescriptions')}</h3>
+            {review.frequentDescriptions.length === 0 ? (
+              <p className="text-sm text-muted-foreground">{t('yearReview.noExpenses')}</p>
+            ) : (
+              <ol className="space-y-1 text-sm">
+                {review.frequentDescriptions.map(d => (
+                  <li key={d.description} className="flex justify-between gap-2">
+                    <span className="truncate">{d.description}</span>
+                    <span className="whitespace-nowrap">
+                      <span className="text-muted-foreground">{t('yearReview.timesCount', { count: d.count })} · </span>
+                      {money(d.total)}
+                    </span>
+                  </li>
+                ))}
+              </ol>
+            )}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -5,62 +5,216 @@
  * =============================================================================
  */
 
-import { useState, useEffect, useCallback } from 'react';
-import { AppData, Period, Portion, Expense, PortionSummary, PeriodSummary } from '@/types';
+import { SetStateAction, useState, useEffect, useCallback, useRef } from 'react';
 import {
-  loadDataFromLocalStorage,
-  saveDataToLocalStorage,
+  AppData, AppSettings, Period, IncomeEntry, Portion, Expense, ExpenseFilters, PortionSummary, PeriodSummary, RetentionReport,
+  StatementImportProfile, RecurringExpense, ExchangeRate, PortionAlert
+} from '@/types';
+import {
+  loadData,
+  saveData,
   clearAllData,
+  createEmptyAppData,
+  getSettings,
+  applyRetention,
   exportDataAsJson,
+  exportPeriodAsJson,
+  exportArchiveAsJson,
+  getMigrationBackup,
   importDataFromJson,
   calculatePeriodSummary,
   getPortionSummaries
 } from '@/services/dataService';
-import { generateId } from '@/utils/formatters';
+import { ConflictStrategy, MergeResolutions, mergeAppData, previewMerge } from '@/services/merge';
+import { CsvExportScope, CsvSheet, buildExpensesCsv, buildPortionSummaryCsv } from '@/services/csvExport';
+import { generateRecurringExpenses } from '@/services/recurring';
+import { PortionForecast, forecastPortions } from '@/services/forecast';
+import { DailyAllowances, calculateDailyAllowances } from '@/services/allowance';
+import { showAlertNotification, withThresholdAlerts } from '@/services/alerts';
+import { StorageKind } from '@/services/storage';
+import { useRemoteSync } from '@/hooks/useRemoteSync';
+import { useCrossTabSync } from '@/hooks/useCrossTabSync';
+import { IncomeTemplate, PortionTemplate } from '@/services/periods';
+import { getPeriodCurrency, upsertExchangeRate } from '@/services/exchangeRates';
+import {
+  DESTRUCTIVE_ACTIONS, HistoryAction, HistoryState, loadHistory, pushHistory, rebaseHistory, redoHistory, saveHistory, undoHistory
+} from '@/services/history';
+import { generateId, getCurrentDate } from '@/utils/formatters';
+import { t } from '@/i18n';
 
 export function useBudgetData() {
   const [data, setData] = useState<AppData | null>(null);
-  const [wasDataCleared, setWasDataCleared] = useState(false);
+  const [retentionReport, setRetentionReport] = useState<RetentionReport | null>(null);
+  const [migrationError, setMigrationError] = useState<string | null>(null);
+  const [migrationReadOnly, setMigrationReadOnly] = useState(false);
   const [loading, setLoading] = useState(true);
+  const [storageKind, setStorageKind] = useState<StorageKind | null>(null);
+  const [storageError, setStorageError] = useState<string | null>(null);
+
+  // After a failed migration the empty data is not saved until something changes it, so the
+  // original stays in the main store as well as in the backup. With no backup, nothing is saved
+  // until the data is cleared.
+  const unsavedLoad = useRef<AppData | null>(null);
+  const readOnly = useRef(false);
 
   useEffect(() => {
-    const { data: loadedData, wasCleared } = loadDataFromLocalStorage();
-    setData(loadedData);
-    setWasDataCleared(wasCleared);
-    setLoading(false);
+    let cancelled = false;
+    loadData()
+      .then(({ data: loadedData, retentionReport: report, migrationError: loadError, readOnly: noBackup, storage }) => {
+        if (cancelled) return;
+        unsavedLoad.current = loadError ? loadedData : null;
+        readOnly.current = noBackup;
+        setMigrationReadOnly(noBackup);
+        setData(loadedData);
+        setRetentionReport(report);
+        setMigrationError(loadError);
+        setStorageKind(storage);
+      })
+      .catch(err => {
+        if (!cancelled) setStorageError(t('errors.loadFailed', { reason: err instanceof Error ? err.message : String(err) }));
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => { cancelled = true; };
   }, []);
 
   useEffect(() => {
-    if (data) saveDataToLocalStorage(data);
+    if (!data || data === unsavedLoad.current || readOnly.current) return;
+    unsavedLoad.current = null;
+    saveData(data).catch(() => setStorageError(t('errors.saveFailed')));
+  }, [data]);
+
+  // Undo history: operations name themselves in pendingAction before changing data,
+  // and the data they replaced is recorded once the change is rendered. Changes made
+  // in the same event (e.g. several imported expenses) become a single entry.
+  // Changes received from elsewhere are carried into the recorded snapshots instead.
+  const [history, setHistory] = useState<HistoryState>(loadHistory);
+  const [undoNotice, setUndoNotice] = useState<{ id: string; action: HistoryAction } | null>(null);
+  const pendingAction = useRef<HistoryAction | null>(null);
+  const receivedChange = useRef(false);
+  const previousData = useRef<AppData | null>(null);
+
+  useEffect(() => {
+    const before = previousData.current;
+    const action = pendingAction.current;
+    const received = receivedChange.current;
+    previousData.current = data;
+    pendingAction.current = null;
+    receivedChange.current = false;
+    if (!before || !data || before === data) return;
+    if (!action) {
+      if (received) setHistory(h => rebaseHistory(h, before, data));
+      return;
+    }
+    setHistory(h => pushHistory(h, action, before));
+    setUndoNotice(DESTRUCTIVE_ACTIONS.includes(action) ? { id: generateId(), action } : null);
   }, [data]);
 
+  useEffect(() => {
+    saveHistory(history);
+  }, [history]);
+
+  // Alerts raised by an expense added or edited in this tab get a banner and, if
+  // turned on, a browser notification; alerts arriving by undo, redo or another
+  // tab only go into the history.
+  const [newAlerts, setNewAlerts] = useState<PortionAlert[]>([]);
+  const announceAlerts = useRef(false);
+  const previousAlerts = useRef<PortionAlert[] | undefined>(undefined);
+
+  useEffect(() => {
+    const before = previousAlerts.current;
+    previousAlerts.current = data?.alertHistory;
+    const announce = announceAlerts.current;
+    announceAlerts.current = false;
+    if (!announce || !data?.alertHistory || data.alertHistory === before) return;
+    const known = new Set((before || []).map(a => a.id));
+    const raised = data.alertHistory.filter(a => !known.has(a.id));
+    if (raised.length === 0) return;
+    setNewAlerts(current => [...current, ...raised]);
+    if (getSettings(data).alertNotifications) raised.forEach(alert => { showAlertNotification(alert).catch(() => undefined); });
+  }, [data]);
+
+  /** setData for changes that come from the sync server or another tab */
+  const receiveData = useCallback((next: SetStateAction<AppData | null>) => {
+    receivedChange.current = true;
+    setData(next);
+  }, []);
+
+  const { sync, syncNow } = useRemoteSync(data, receiveData);
+  const { tabConflicts, resolveTabConflict } = useCrossTabSync(data, receiveData);
+
+  // Re-check recurring due dates when the app regains focus on a new day
+  const [today, setToday] = useState(getCurrentDate());
+  useEffect(() => {
+    const refreshToday = () => setToday(getCurrentDate());
+    window.addEventListener('focus', refreshToday);
+    return () => window.removeEventListener('focus', refreshToday);
+  }, []);
+
+  // Post recurring expenses that have fallen due in the active period
+  useEffect(() => {
+    setData(prev => {
+      const period = prev?.periods.find(p => p.id === prev.activePeriodId);
+      if (!prev || !period) return prev;
+      const generated = generateRecurringExpenses(prev, period, today);
+      return generated.length > 0 ? { ...prev, expenses: [...prev.expenses, ...generated] } : prev;
+    });
+  }, [data?.activePeriodId, data?.recurringExpenses, data?.portions, today]);
+
   const activePeriod = data?.periods.find(p => p.id === data.activePeriodId) || null;
+  const baseCurrency = getPeriodCurrency(activePeriod);
+  const activeIncomes = data?.incomes.filter(i => i.periodId === data.activePeriodId) || [];
   const activePortions = data?.portions.filter(p => p.periodId === data.activePeriodId) || [];
   const activeExpenses = data?.expenses.filter(e => e.periodId === data.activePeriodId) || [];
 
   const periodSummary: PeriodSummary | null = activePeriod && data
-    ? calculatePeriodSummary(activePeriod, data.portions, data.expenses)
+    ? calculatePeriodSummary(activePeriod, data.incomes, data.portions, data.expenses, data.periods)
     : null;
 
   const portionSummaries: PortionSummary[] = data && data.activePeriodId
-    ? getPortionSummaries(data.activePeriodId, data.portions, data.expenses)
+    ? getPortionSummaries(data.activePeriodId, data.portions, data.expenses, data.periods)
     : [];
 
+  const forecastUsesHistory = data?.settings?.forecastUsesHistory !== false;
+  const portionForecasts: PortionForecast[] = activePeriod && data
+    ? forecastPortions(activePeriod, portionSummaries, data, { useHistory: forecastUsesHistory, today })
+    : [];
+
+  const dailyAllowances: DailyAllowances | null = activePeriod && data
+    ? calculateDailyAllowances(activePeriod, portionSummaries, activeExpenses, data.recurringExpenses, today)
+    : null;
+
   // Period operations
   const setActivePeriod = useCallback((periodId: string) => {
     setData(prev => prev ? { ...prev, activePeriodId: periodId } : null);
   }, []);
 
-  const addPeriod = useCallback((period: Omit<Period, 'id'>) => {
+  /** Create a period, optionally with income entries and portions copied from templates */
+  const addPeriod = useCallback((
+    period: Omit<Period, 'id'>,
+    portionTemplates: PortionTemplate[] = [],
+    incomeTemplates: IncomeTemplate[] = []
+  ) => {
     const newPeriod: Period = { ...period, id: generateId() };
+    const newPortions: Portion[] = portionTemplates.map(t => ({ ...t, id: generateId(), periodId: newPeriod.id }));
+    const newIncomes: IncomeEntry[] = incomeTemplates.map(t => ({ ...t, id: generateId(), periodId: newPeriod.id }));
+    pendingAction.current = 'addPeriod';
     setData(prev => {
       if (!prev) return null;
-      return { ...prev, periods: [...prev.periods, newPeriod], activePeriodId: newPeriod.id };
+      return {
+        ...prev,
+        periods: [...prev.periods, newPeriod],
+        incomes: [...prev.incomes, ...newIncomes],
+        portions: [...prev.portions, ...newPortions],
+        activePeriodId: newPeriod.id
+      };
     });
     return newPeriod;
   }, []);
 
   const updatePeriod = useCallback((periodId: string, updates: Partial<Period>) => {
+    pendingAction.current = 'updatePeriod';
     setData(prev => {
       if (!prev) return null;
       return { ...prev, periods: prev.periods.map(p => p.id === periodId ? { ...p, ...updates } : p) };
@@ -68,12 +222,14 @@ export function useBudgetData() {
   }, []);
 
   const deletePeriod = useCallback((periodId: string) => {
+    pendingAction.current = 'deletePeriod';
     setData(prev => {
       if (!prev) return null;
       const newPeriods = prev.periods.filter(p => p.id !== periodId);
       return {
         ...prev,
         periods: newPeriods,
+        incomes: prev.incomes.filter(i => i.periodId !== periodId),
         portions: prev.portions.filter(p => p.periodId !== periodId),
         expenses: prev.expenses.filter(e => e.periodId !== periodId),
         activePeriodId: newPeriods.length > 0 ? newPeriods[0].id : undefined
@@ -81,14 +237,37 @@ export function useBudgetData() {
     });
   }, []);
 
+  // Income operations
+  const addIncome = useCallback((income: Omit<IncomeEntry, 'id'>) => {
+    const newIncome: IncomeEntry = { ...income, id: generateId() };
+    pendingAction.current = 'addIncome';
+    setData(prev => prev ? { ...prev, incomes: [...prev.incomes, newIncome] } : null);
+    return newIncome;
+  }, []);
+
+  const updateIncome = useCallback((incomeId: string, updates: Partial<IncomeEntry>) => {
+    pendingAction.current = 'updateIncome';
+    setData(prev => {
+      if (!prev) return null;
+      return { ...prev, incomes: prev.incomes.map(i => i.id === incomeId ? { ...i, ...updates } : i) };
+    });
+  }, []);
+
+  const deleteIncome = useCallback((incomeId: string) => {
+    pendingAction.current = 'deleteIncome';
+    setData(prev => prev ? { ...prev, incomes: prev.incomes.filter(i => i.id !== incomeId) } : null);
+  }, []);
+
   // Portion operations
   const addPortion = useCallback((portion: Omit<Portion, 'id'>) => {
     const newPortion: Portion = { ...portion, id: generateId() };
+    pendingAction.current = 'addPortion';
     setData(prev => prev ? { ...prev, portions: [...prev.portions, newPortion] } : null);
     return newPortion;
   }, []);
 
   const updatePortion = useCallback((portionId: string, updates: Partial<Portion>) => {
+    pendingAction.current = 'updatePortion';
     setData(prev => {
       if (!prev) return null;
       return { ...prev, portions: prev.portions.map(p => p.id === portionId ? { ...p, ...updates } : p) };
@@ -96,6 +275,7 @@ export function useBudgetData() {
   }, []);
 
   const deletePortion = useCallback((portionId: string) => {
+    pendingAction.current = 'deletePortion';
     setData(prev => {
       if (!prev) return null;
       return {
@@ -109,22 +289,82 @@ export function useBudgetData() {
   // Expense operations
   const addExpense = useCallback((expense: Omit<Expense, 'id'>) => {
     const newExpense: Expense = { ...expense, id: generateId() };
-    setData(prev => prev ? { ...prev, expenses: [...prev.expenses, newExpense] } : null);
+    pendingAction.current = 'addExpense';
+    announceAlerts.current = true;
+    setData(prev => prev
+      ? withThresholdAlerts(prev, { ...prev, expenses: [...prev.expenses, newExpense] }, [newExpense.portionId])
+      : null);
     return newExpense;
   }, []);
 
   const updateExpense = useCallback((expenseId: string, updates: Partial<Expense>) => {
+    pendingAction.current = 'updateExpense';
+    announceAlerts.current = true;
     setData(prev => {
       if (!prev) return null;
-      return { ...prev, expenses: prev.expenses.map(e => e.id === expenseId ? { ...e, ...updates } : e) };
+      const expense = prev.expenses.find(e => e.id === expenseId);
+      // Moving a generated expense to another date must not re-post the original due date
+      const movedRecurring = expense?.recurringId && updates.date && updates.date !== expense.date;
+      const portionIds = [expense?.portionId, updates.portionId].filter((id): id is string => !!id);
+      return withThresholdAlerts(prev, {
+        ...prev,
+        expenses: prev.expenses.map(e => e.id === expenseId ? { ...e, ...updates } : e),
+        recurringExpenses: movedRecurring
+          ? (prev.recurringExpenses || []).map(r => r.id === expense.recurringId
+              ? { ...r, skippedDates: [...(r.skippedDates || []), expense.date] }
+              : r)
+          : prev.recurringExpenses
+      }, portionIds);
     });
   }, []);
 
+  /** Deleting a generated recurring expense records its date as skipped so it is not posted again */
   const deleteExpense = useCallback((expenseId: string) => {
-    setData(prev => prev ? { ...prev, expenses: prev.expenses.filter(e => e.id !== expenseId) } : null);
+    pendingAction.current = 'deleteExpense';
+    setData(prev => {
+      if (!prev) return null;
+      const expense = prev.expenses.find(e => e.id === expenseId);
+      return {
+        ...prev,
+        expenses: prev.expenses.filter(e => e.id !== expenseId),
+        recurringExpenses: expense?.recurringId
+          ? (prev.recurringExpenses || []).map(r => r.id === expense.recurringId
+              ? { ...r, skippedDates: [...(r.skippedDates || []), expense.date] }
+              : r)
+          : prev.recurringExpenses
+      };
+    });
   }, []);
 
-  const getFilteredExpenses = useCallback((filters?: { startDate?: string; endDate?: string; portionId?: string }) => {
+  // Recurring expense operations
+  const addRecurringExpense = useCallback((recurring: Omit<RecurringExpense, 'id'>) => {
+    const newRecurring: RecurringExpense = { ...recurring, id: generateId() };
+    pendingAction.current = 'addRecurringExpense';
+    setData(prev => prev ? { ...prev, recurringExpenses: [...(prev.recurringExpenses || []), newRecurring] } : null);
+    return newRecurring;
+  }, []);
+
+  const updateRecurringExpense = useCallback((recurringId: string, updates: Partial<RecurringExpense>) => {
+    pendingAction.current = 'updateRecurringExpense';
+    setData(prev => {
+      if (!prev) return null;
+      return {
+        ...prev,
+        recurringExpenses: (prev.recurringExpenses || []).map(r => r.id === recurringId ? { ...r, ...updates } : r)
+      };
+    });
+  }, []);
+
+  /** Remove a definition; expenses already posted from it are kept */
+  const deleteRecurringExpense = useCallback((recurringId: string) => {
+    pendingAction.current = 'deleteRecurringExpense';
+    setData(prev => {
+      if (!prev) return null;
+      return { ...prev, recurringExpenses: (prev.recurringExpenses || []).filter(r => r.id !== recurringId) };
+    });
+  }, []);
+
+  const getFilteredExpenses = useCallback((filters?: ExpenseFilters) => {
     if (!data || !data.activePeriodId) return [];
     let filtered = data.expenses.filter(e => e.periodId === data.activePeriodId);
     if (filters?.startDate) filtered = filtered.filter(e => e.date >= filters.startDate!);
@@ -133,40 +373,161 @@ export function useBudgetData() {
     return filtered.sort((a, b) => b.date.localeCompare(a.date));
   }, [data]);
 
+  // Statement import profiles
+  const saveImportProfile = useCallback((profile: Omit<StatementImportProfile, 'id'> & { id?: string }) => {
+    const saved: StatementImportProfile = { ...profile, id: profile.id || generateId() };
+    pendingAction.current = 'saveImportProfile';
+    setData(prev => {
+      if (!prev) return null;
+      const profiles = prev.importProfiles || [];
+      return {
+        ...prev,
+        importProfiles: profiles.some(p => p.id === saved.id)
+          ? profiles.map(p => p.id === saved.id ? saved : p)
+          : [...profiles, saved]
+      };
+    });
+    return saved;
+  }, []);
+
+  const deleteImportProfile = useCallback((profileId: string) => {
+    pendingAction.current = 'deleteImportProfile';
+    setData(prev => prev ? { ...prev, importProfiles: (prev.importProfiles || []).filter(p => p.id !== profileId) } : null);
+  }, []);
+
+  // Exchange rate table
+  const saveExchangeRate = useCallback((rate: Omit<ExchangeRate, 'id' | 'updatedAt'> & { id?: string }) => {
+    const saved: ExchangeRate = { ...rate, id: rate.id || generateId(), updatedAt: new Date().toISOString() };
+    pendingAction.current = 'saveExchangeRate';
+    setData(prev => prev ? { ...prev, exchangeRates: upsertExchangeRate(prev.exchangeRates || [], saved) } : null);
+    return saved;
+  }, []);
+
+  const deleteExchangeRate = useCallback((rateId: string) => {
+    pendingAction.current = 'deleteExchangeRate';
+    setData(prev => prev ? { ...prev, exchangeRates: (prev.exchangeRates || []).filter(r => r.id !== rateId) } : null);
+  }, []);
+
+  // Settings
+  const updateSettings = useCallback((updates: Partial<AppSettings>) => {
+    setData(prev => prev ? { ...prev, settings: { ...getSettings(prev), ...updates } } : null);
+  }, []);
+
+  /** Apply retention now, e.g. after shortening the retention window */
+  const runRetention = useCallback(() => {
+    if (!data) return;
+    const { data: retained, report } = applyRetention(data);
+    if (report) {
+      pendingAction.current = 'runRetention';
+      setData(retained);
+      setRetentionReport(report);
+    }
+  }, [data]);
+
+  const clearArchive = useCallback(() => {
+    pendingAction.current = 'clearArchive';
+    setData(prev => prev ? { ...prev, archive: [] } : null);
+  }, []);
+
+  const clearAlertHistory = useCallback(() => {
+    pendingAction.current = 'clearAlertHistory';
+    setData(prev => prev ? { ...prev, alertHistory: [] } : null);
+  }, []);
+
   // Data management
-  const exportData = useCallback(() => data ? exportDataAsJson(data) : '', [data]);
+  const exportData = useCallback((passphrase?: string) => data ? exportDataAsJson(data, passphrase) : Promise.resolve(''), [data]);
+  const exportPeriod = useCallback((periodId: string) => data ? exportPeriodAsJson(data, periodId) : '', [data]);
+  const exportArchive = useCallback(() => data ? exportArchiveAsJson(data) : '', [data]);
+  const exportMigrationBackup = useCallback(async () => (await getMigrationBackup()) || '', []);
+
+  const exportCsv = useCallback((sheet: CsvSheet, scope: CsvExportScope, filters?: ExpenseFilters) => {
+    if (!data) return '';
+    const periodIds = scope === 'all-periods'
+      ? data.periods.map(p => p.id)
+      : data.activePeriodId ? [data.activePeriodId] : [];
+    const expenses = scope === 'filtered'
+      ? getFilteredExpenses(filters)
+      : data.expenses.filter(e => periodIds.includes(e.periodId));
+    return sheet === 'expenses'
+      ? buildExpensesCsv(data, expenses)
+      : buildPortionSummaryCsv(data, periodIds, expenses);
+  }, [data, getFilteredExpenses]);
 
   const importData = useCallback((jsonString: string) => {
     const importedData = importDataFromJson(jsonString);
+    pendingAction.current = 'importData';
     setData(importedData);
-    saveDataToLocalStorage(importedData);
   }, []);
 
+  /** Preview merging an export into the current data; throws on invalid input */
+  const previewImportMerge = useCallback((jsonString: string) => {
+    if (!data) throw new Error(t('errors.noData'));
+    return previewMerge(data, importDataFromJson(jsonString));
+  }, [data]);
+
+  const mergeImportData = useCallback((jsonString: string, strategy: ConflictStrategy, resolutions?: MergeResolutions) => {
+    if (!data) return;
+    const merged = mergeAppData(data, importDataFromJson(jsonString), strategy, resolutions);
+    pendingAction.current = 'mergeImportData';
+    setData(merged);
+  }, [data]);
+
   const resetData = useCallback(() => {
-    clearAllData();
-    const { data: freshData } = loadDataFromLocalStorage();
-    setData(freshData);
+    readOnly.current = false;
+    setMigrationReadOnly(false);
+    clearAllData()
+      .then(loadData)
+      .then(({ data: freshData }) => setData(freshData))
+      .catch(() => setStorageError(t('errors.saveFailed')));
   }, []);
 
   const clearData = useCallback(() => {
-    clearAllData();
-    const now = new Date().toISOString();
-    const emptyData: AppData = {
-      version: 'v1', createdAt: now, lastUsedAt: now,
-      periods: [], portions: [], expenses: [], activePeriodId: undefined
-    };
-    setData(emptyData);
-    saveDataToLocalStorage(emptyData);
+    pendingAction.current = 'clearData';
+    readOnly.current = false;
+    setMigrationReadOnly(false);
+    clearAllData().catch(() => setStorageError(t('errors.saveFailed')));
+    setData(createEmptyAppData());
   }, []);
 
-  const dismissClearedNotice = useCallback(() => setWasDataCleared(false), []);
+  // Undo / redo
+  const undo = useCallback(() => {
+    const result = data ? undoHistory(history, data) : null;
+    if (!result) return;
+    setHistory(result.history);
+    setData(result.data);
+    setUndoNotice(null);
+  }, [data, history]);
+
+  const redo = useCallback(() => {
+    const result = data ? redoHistory(history, data) : null;
+    if (!result) return;
+    setHistory(result.history);
+    setData(result.data);
+    setUndoNotice(null);
+  }, [data, history]);
+
+  const undoAction = history.past[history.past.length - 1]?.action || null;
+  const redoAction = history.future[history.future.length - 1]?.action || null;
+
+  const dismissRetentionReport = useCallback(() => setRetentionReport(null), []);
+  const dismissUndoNotice = useCallback(() => setUndoNotice(null), []);
+  const dismissMigrationError = useCallback(() => setMigrationError(null), []);
+  const dismissStorageError = useCallback(() => setStorageError(null), []);
+  const dismissNewAlerts = useCallback(() => setNewAlerts([]), []);
 
   return {
-    data, loading, wasDataCleared, dismissClearedNotice,
-    activePeriod, activePortions, activeExpenses, periodSummary, portionSummaries,
+    data, loading, storageKind, storageError, dismissStorageError, retentionReport, dismissRetentionReport, migrationError, migrationReadOnly, dismissMigrationError,
+    activePeriod, baseCurrency, activeIncomes, activePortions, activeExpenses, periodSummary, portionSummaries,
+    portionForecasts, forecastUsesHistory, dailyAllowances,
     setActivePeriod, addPeriod, updatePeriod, deletePeriod,
+    addIncome, updateIncome, deleteIncome,
     addPortion, updatePortion, deletePortion,
     addExpense, updateExpense, deleteExpense, getFilteredExpenses,
-    exportData, importData, resetData, clearData
+    addRecurringExpense, updateRecurringExpense, deleteRecurringExpense,
+    saveImportProfile, deleteImportProfile, saveExchangeRate, deleteExchangeRate,
+    updateSettings, runRetention, clearArchive, newAlerts, dismissNewAlerts, clearAlertHistory,
+    exportData, exportPeriod, exportArchive, exportMigrationBackup, exportCsv, importData, previewImportMerge, mergeImportData, resetData, clearData,
+    undo, redo, undoAction, redoAction, undoNotice, dismissUndoNotice,
+    sync, syncNow, tabConflicts, resolveTabConflict
   };
 }
@@ -0,0 +1,74 @@
+/**
+ * =============================================================================
+ * CROSS-TAB SYNC HOOK
+ * Sends this tab's changes to other open tabs, applies theirs, and collects
+ * records edited in two tabs at once as conflicts for the user to resolve
+ * =============================================================================
+ */
+
+import { Dispatch, SetStateAction, useState, useEffect, useCallback, useRef } from 'react';
+import { AppData } from '@/types';
+import { TAB_ID, TabChannel, TabConflict, applyTabMessage, diffForTabs, findRecord, openTabChannel, replaceRecord } from '@/services/crossTab';
+
+const sameTarget = (a: { collection: string; id: string }, b: { collection: string; id: string }) =>
+  a.collection === b.collection && a.id === b.id;
+
+export function useCrossTabSync(data: AppData | null, setData: Dispatch<SetStateAction<AppData | null>>) {
+  const [conflicts, setConflicts] = useState<TabConflict[]>([]);
+
+  const channel = useRef<TabChannel | null>(null);
+  const latestData = useRef<AppData | null>(data);
+  latestData.current = data;
+  // Data this tab has already told the others about, and the data last taken from another tab
+  const baseline = useRef<AppData | null>(null);
+  const received = useRef<AppData | null>(null);
+
+  useEffect(() => {
+    const opened = openTabChannel(message => {
+      const current = latestData.current;
+      if (!current) return;
+      const result = applyTabMessage(current, message);
+      if (result.data !== current) {
+        received.current = result.data;
+        latestData.current = result.data;
+        setData(result.data);
+      }
+      setConflicts(existing => {
+        const kept = existing.filter(c =>
+          !result.resolved.some(r => sameTarget(r, c)) && !result.conflicts.some(r => sameTarget(r, c))
+        );
+        return kept.length === existing.length && result.conflicts.length === 0 ? existing : [...kept, ...result.conflicts];
+      });
+    });
+    channel.current = opened;
+    return () => {
+      opened.close();
+      channel.current = null;
+    };
+  }, [setData]);
+
+  useEffect(() => {
+    const before = baseline.current;
+    baseline.current = data;
+    if (!before || !data || before === data || data === received.current) return;
+    const message = diffForTabs(before, data);
+    if (message) channel.current?.post(message);
+  }, [data]);
+
+  /** Keep this tab's version (and send it to the other tabs) or take the other tab's */
+  const resolveConflict = useCallback((conflict: TabConflict, keep: 'local' | 'remote') => {
+    setConflicts(existing => existing.filter(c => !sameTarget(c, conflict)));
+    if (keep === 'remote') {
+      setData(prev => prev ? replaceRecord(prev, conflict.collection, conflict.id, conflict.remote) : null);
+    } else if (latestData.current) {
+      const local = findRecord(latestData.current, conflict.collection, conflict.id);
+      channel.current?.post({
+        tabId: TAB_ID,
+        changes: [{ collection: conflict.collection, id: conflict.id, before: conflict.remote, after: local }],
+        fields: {}
+      });
+    }
+  }, [setData]);
+
+  return { tabConflicts: conflicts, resolveTabConflict: resolveConflict };
+}
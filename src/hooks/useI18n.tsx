@@ -0,0 +1,35 @@
+/**
+ * =============================================================================
+ * TRANSLATION HOOK
+ * Provides the selected language to components. Changing the language
+ * re-renders everything below the provider with the new catalog.
+ * =============================================================================
+ */
+
+import { createContext, ReactNode, useContext, useMemo } from 'react';
+import { Language } from '@/types';
+import { MessageKey, MessageParams, getActiveLanguage, setActiveLanguage, translate } from '@/i18n';
+
+interface I18nContextValue {
+  language: Language;
+  t: (key: MessageKey, params?: MessageParams) => string;
+}
+
+const I18nContext = createContext<I18nContextValue>({
+  language: getActiveLanguage(),
+  t: (key, params) => translate(getActiveLanguage(), key, params)
+});
+
+export function I18nProvider({ language, children }: { language: Language; children: ReactNode }) {
+  // Formatters and services read the module-level language, so it must be set before children render
+  setActiveLanguage(language);
+  const value = useMemo<I18nContextValue>(() => ({
+    language,
+    t: (key, params) => translate(language, key, params)
+  }), [language]);
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+}
+
+export function useI18n(): I18nContextValue {
+  return useContext(I18nContext);
+}
@@ -0,0 +1,127 @@
+/**
+ * =============================================================================
+ * LOCK HOOK
+ * Whether the passphrase lock is on and whether this tab is unlocked. While
+ * locked, LockGate shows the unlock screen instead of the app, so nothing can
+ * read or write data until the key is back in memory.
+ * =============================================================================
+ */
+
+import { createContext, ReactNode, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import * as lockService from '@/services/lock';
+
+/** How often the idle time is checked against the auto-lock delay */
+const AUTO_LOCK_CHECK_MS = 15 * 1000;
+const ACTIVITY_EVENTS = ['pointerdown', 'keydown', 'wheel', 'touchstart'] as const;
+
+interface LockContextValue {
+  enabled: boolean;
+  unlocked: boolean;
+  autoLockMinutes: number;
+  unlock: (passphrase: string) => Promise<void>;
+  enableLock: (passphrase: string, autoLockMinutes: number) => Promise<void>;
+  disableLock: (passphrase: string) => Promise<void>;
+  setAutoLockMinutes: (minutes: number) => void;
+  lockNow: () => void;
+  eraseLockedData: () => Promise<void>;
+}
+
+const LockContext = createContext<LockContextValue | null>(null);
+
+export function LockProvider({ children }: { children: ReactNode }) {
+  const [config, setConfig] = useState(lockService.getLockConfig);
+  const [unlocked, setUnlocked] = useState(() => !lockService.isLockEnabled());
+
+  // With the lock on, nothing may be written until the passphrase is entered
+  useEffect(() => {
+    if (lockService.isLockEnabled()) lockService.lock();
+  }, []);
+
+  const lockNow = useCallback(() => {
+    // The codec switch waits for saves already queued; later saves are refused
+    lockService.lock();
+    setUnlocked(false);
+  }, []);
+
+  const unlock = useCallback(async (passphrase: string) => {
+    await lockService.unlock(passphrase);
+    setUnlocked(true);
+  }, []);
+
+  const enableLock = useCallback(async (passphrase: string, autoLockMinutes: number) => {
+    await lockService.enableLock(passphrase, autoLockMinutes);
+    setConfig(lockService.getLockConfig());
+  }, []);
+
+  const disableLock = useCallback(async (passphrase: string) => {
+    await lockService.disableLock(passphrase);
+    setConfig(null);
+  }, []);
+
+  const setAutoLockMinutes = useCallback((minutes: number) => {
+    lockService.setAutoLockMinutes(minutes);
+    setConfig(lockService.getLockConfig());
+  }, []);
+
+  const eraseLockedData = useCallback(async () => {
+    await lockService.eraseLockedData();
+    setConfig(null);
+    setUnlocked(true);
+  }, []);
+
+  // Follow the lock being turned on or off in another tab
+  useEffect(() => {
+    const onStorage = (event: StorageEvent) => {
+      if (event.key !== lockService.LOCK_STORAGE_KEY) return;
+      const next = lockService.getLockConfig();
+      setConfig(next);
+      if (!next) {
+        lockService.forgetLock();
+        setUnlocked(true);
+      } else if (!event.oldValue) {
+        lockNow();
+      }
+    };
+    window.addEventListener('storage', onStorage);
+    return () => window.removeEventListener('storage', onStorage);
+  }, [lockNow]);
+
+  // Auto-lock after the configured time without input, also checked when the tab comes back into view
+  const autoLockMinutes = config?.autoLockMinutes || 0;
+  useEffect(() => {
+    if (!unlocked || !config || autoLockMinutes <= 0) return;
+    let lastActivity = Date.now();
+    const onActivity = () => { lastActivity = Date.now(); };
+    const check = () => {
+      if (Date.now() - lastActivity >= autoLockMinutes * 60 * 1000) lockNow();
+    };
+    ACTIVITY_EVENTS.forEach(type => window.addEventListener(type, onActivity, { passive: true }));
+    document.addEventListener('visibilitychange', check);
+    const timer = window.setInterval(check, AUTO_LOCK_CHECK_MS);
+    return () => {
+      ACTIVITY_EVENTS.forEach(type => window.removeEventListener(type, onActivity));
+      document.removeEventListener('visibilitychange', check);
+      window.clearInterval(timer);
+    };
+  }, [unlocked, config, autoLockMinutes, lockNow]);
+
+  const value = useMemo<LockContextValue>(() => ({
+    enabled: config !== null,
+    unlocked,
+    autoLockMinutes,
+    unlock,
+    enableLock,
+    disableLock,
+    setAutoLockMinutes,
+    lockNow,
+    eraseLockedData
+  }), [config, unlocked, autoLockMinutes, unlock, enableLock, disableLock, setAutoLockMinutes, lockNow, eraseLockedData]);
+
+  return <LockContext.Provider value={value}>{children}</LockContext.Provider>;
+}
+
+export function useLock(): LockContextValue {
+  const value = useContext(LockContext);
+  if (!value) throw new Error('useLock must be used inside LockProvider');
+  return value;
+}
@@ -0,0 +1,111 @@
+/**
+ * =============================================================================
+ * PROFILES HOOK
+ * The profiles in this browser and the one open in this tab. Switching
+ * profiles remounts everything below the provider, so the app loads the other
+ * profile's data, undo history and sync state from scratch.
+ * =============================================================================
+ */
+
+import { createContext, Fragment, ReactNode, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import { BudgetProfile } from '@/types';
+import {
+  DEFAULT_PROFILE_ID, PROFILES_STORAGE_KEY, getActiveProfileId, getProfiles, renameProfile as renameStoredProfile,
+  setActiveProfileId
+} from '@/services/profiles';
+import {
+  createProfile as createStoredProfile, deleteProfile as deleteStoredProfile, exportAllProfilesAsJson, importProfilesFromJson
+} from '@/services/dataService';
+import { t } from '@/i18n';
+
+interface ProfilesContextValue {
+  profiles: BudgetProfile[];
+  activeProfile: BudgetProfile;
+  switchProfile: (id: string) => void;
+  /** Add an empty profile and switch to it */
+  createProfile: (name: string) => Promise<void>;
+  /** Add a copy of a profile's data under a new name */
+  duplicateProfile: (id: string, name: string) => Promise<void>;
+  renameProfile: (id: string, name: string) => void;
+  /** Delete a profile other than the open one and the first one */
+  deleteProfile: (id: string) => Promise<void>;
+  exportAllProfiles: (passphrase?: string) => Promise<string>;
+  /** Add the profiles in an all-profiles export; resolves to how many were added */
+  importProfiles: (json: string) => Promise<number>;
+}
+
+const ProfilesContext = createContext<ProfilesContextValue | null>(null);
+
+export function ProfileProvider({ children }: { children: ReactNode }) {
+  const [profiles, setProfiles] = useState(getProfiles);
+  const [activeProfileId, setActiveId] = useState(getActiveProfileId);
+  // Storage reads the module-level profile, so it must be set before children render
+  setActiveProfileId(activeProfileId);
+
+  const refresh = useCallback(() => setProfiles(getProfiles()), []);
+
+  // Follow profiles added, renamed or deleted in another tab
+  useEffect(() => {
+    const onStorage = (event: StorageEvent) => {
+      if (event.key !== PROFILES_STORAGE_KEY) return;
+      const next = getProfiles();
+      setProfiles(next);
+      setActiveId(current => (next.some(p => p.id === current) ? current : DEFAULT_PROFILE_ID));
+    };
+    window.addEventListener('storage', onStorage);
+    return () => window.removeEventListener('storage', onStorage);
+  }, []);
+
+  const createProfile = useCallback(async (name: string) => {
+    const profile = await createStoredProfile(name);
+    refresh();
+    setActiveId(profile.id);
+  }, [refresh]);
+
+  const duplicateProfile = useCallback(async (id: string, name: string) => {
+    await createStoredProfile(name, id);
+    refresh();
+  }, [refresh]);
+
+  const renameProfile = useCallback((id: string, name: string) => {
+    renameStoredProfile(id, name);
+    refresh();
+  }, [refresh]);
+
+  const deleteProfile = useCallback(async (id: string) => {
+    // The open profile may still have saves on the way; switching away first keeps them from recreating it
+    if (id === activeProfileId) throw new Error(t('profiles.activeNotDeletable'));
+    await deleteStoredProfile(id);
+    refresh();
+  }, [activeProfileId, refresh]);
+
+  const importProfiles = useCallback(async (json: string) => {
+    const added = await importProfilesFromJson(json);
+    refresh();
+    return added.length;
+  }, [refresh]);
+
+  const value = useMemo<ProfilesContextValue>(() => ({
+    profiles,
+    activeProfile: profiles.find(p => p.id === activeProfileId) || profiles[0],
+    switchProfile: setActiveId,
+    createProfile,
+    duplicateProfile,
+    renameProfile,
+    deleteProfile,
+    exportAllProfiles: exportAllProfilesAsJson,
+    importProfiles
+  }), [profiles, activeProfileId, createProfile, duplicateProfile, renameProfile, deleteProfile, importProfiles]);
+
+  return (
+    <ProfilesContext.Provider value={value}>
+      <Fragment key={activeProfileId}>{children}</Fragment>
+    </ProfilesContext.Provider>
+  );
+}
+
+export function useProfiles(): ProfilesContextValue {
+  const value = useContext(ProfilesContext);
+  if (!value) throw new Error('useProfiles must be used inside ProfileProvider');
+  return value;
+}
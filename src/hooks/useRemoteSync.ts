@@ -0,0 +1,163 @@
+/**
+ * =============================================================================
+ * REMOTE SYNC HOOK
+ * Queues changes to periods, portions and expenses for the sync server,
+ * replays the queue when the server is reachable and pulls the server's records
+ * =============================================================================
+ */
+
+import { Dispatch, SetStateAction, useState, useEffect, useCallback, useRef } from 'react';
+import { AppData } from '@/types';
+import {
+  SyncJournal, SyncOfflineError, SyncState, applyRemoteRecords, clearSyncJournal, diffForSync, fetchRemoteRecords,
+  loadSyncJournal, queueOperations, saveSyncJournal, sendOperation, snapshotOperations
+} from '@/services/remoteSync';
+
+/** Wait after a change before sending it, so quick edits go out together */
+const PUSH_DELAY_MS = 1000;
+/** How often to retry while offline or after an error */
+const RETRY_INTERVAL_MS = 30000;
+
+/** 'push' sends the queue; 'full' also fetches the server's records afterwards */
+type SyncMode = 'push' | 'full';
+
+export function useRemoteSync(data: AppData | null, setData: Dispatch<SetStateAction<AppData | null>>) {
+  const sync = data?.settings?.sync;
+  const serverUrl = sync?.enabled && sync.serverUrl.trim() ? sync.serverUrl.trim() : null;
+  const loaded = data !== null;
+
+  const [state, setState] = useState<SyncState>({ status: 'disabled', pending: 0, lastSyncedAt: null, error: null });
+
+  const journal = useRef<SyncJournal | null>(null);
+  const latestData = useRef<AppData | null>(data);
+  latestData.current = data;
+  // Data the queue already accounts for, and the data last produced by a pull (never queued)
+  const baseline = useRef<AppData | null>(null);
+  const pulledData = useRef<AppData | null>(null);
+  const running = useRef(false);
+  const rerun = useRef<SyncMode | null>(null);
+  const pushTimer = useRef<number | undefined>(undefined);
+
+  const updateJournal = useCallback((update: (journal: SyncJournal) => SyncJournal) => {
+    if (!journal.current) return;
+    journal.current = update(journal.current);
+    saveSyncJournal(journal.current);
+    const { queue, lastSyncedAt } = journal.current;
+    setState(s => ({ ...s, pending: queue.length, lastSyncedAt }));
+  }, []);
+
+  const runSync = useCallback((mode: SyncMode) => {
+    const url = journal.current?.serverUrl;
+    if (!url) return;
+    if (running.current) {
+      rerun.current = rerun.current === 'full' ? 'full' : mode;
+      return;
+    }
+    if (!navigator.onLine) {
+      setState(s => ({ ...s, status: 'offline', error: null }));
+      return;
+    }
+    const current = () => journal.current?.serverUrl === url;
+
+    const push = async () => {
+      while (current() && journal.current!.queue.length > 0) {
+        const operation = journal.current!.queue[0];
+        await sendOperation(url, operation);
+        updateJournal(j => ({ ...j, queue: j.queue.filter(op => op !== operation) }));
+      }
+    };
+
+    const pull = async () => {
+      const remote = await fetchRemoteRecords(url);
+      if (!current() || !latestData.current) return;
+      const next = applyRemoteRecords(latestData.current, remote, journal.current!.queue);
+      if (next !== latestData.current) {
+        pulledData.current = next;
+        setData(next);
+      }
+      updateJournal(j => ({ ...j, lastSyncedAt: new Date().toISOString() }));
+    };
+
+    running.current = true;
+    setState(s => ({ ...s, status: 'syncing' }));
+    push()
+      .then(() => mode === 'full' ? pull() : undefined)
+      .then(() => {
+        if (!current()) return;
+        setState(s => ({ ...s, status: journal.current!.queue.length > 0 ? 'pending' : 'synced', error: null }));
+      })
+      .catch(err => {
+        if (!current()) return;
+        const error = err instanceof Error ? err.message : String(err);
+        setState(s => ({ ...s, status: err instanceof SyncOfflineError ? 'offline' : 'error', error }));
+      })
+      .finally(() => {
+        running.current = false;
+        const next = rerun.current;
+        rerun.current = null;
+        if (next) runSync(next);
+      });
+  }, [setData, updateJournal]);
+
+  // Open the journal for the configured server; turning sync off forgets the queue
+  useEffect(() => {
+    if (!loaded) return;
+    window.clearTimeout(pushTimer.current);
+    if (!serverUrl) {
+      if (journal.current) clearSyncJournal();
+      journal.current = null;
+      setState({ status: 'disabled', pending: 0, lastSyncedAt: null, error: null });
+      return;
+    }
+    journal.current = loadSyncJournal(serverUrl);
+    if (journal.current.lastSyncedAt === null && latestData.current) {
+      // First sync with this server: upload everything, then take in what the server has
+      journal.current = {
+        ...journal.current,
+        queue: queueOperations(journal.current.queue, snapshotOperations(latestData.current))
+      };
+    }
+    baseline.current = latestData.current;
+    updateJournal(j => j);
+    runSync('full');
+  }, [loaded, serverUrl, runSync, updateJournal]);
+
+  // Queue local changes and send them shortly after
+  useEffect(() => {
+    const before = baseline.current;
+    baseline.current = data;
+    if (!journal.current || !before || !data || before === data || data === pulledData.current) return;
+    const operations = diffForSync(before, data);
+    if (operations.length === 0) return;
+    updateJournal(j => ({ ...j, queue: queueOperations(j.queue, operations) }));
+    window.clearTimeout(pushTimer.current);
+    pushTimer.current = window.setTimeout(() => runSync('push'), PUSH_DELAY_MS);
+  }, [data, runSync, updateJournal]);
+
+  useEffect(() => () => window.clearTimeout(pushTimer.current), []);
+
+  // Catch up when the connection returns or the app regains focus
+  useEffect(() => {
+    if (!serverUrl) return;
+    const catchUp = () => runSync('full');
+    const goOffline = () => setState(s => ({ ...s, status: 'offline', error: null }));
+    window.addEventListener('online', catchUp);
+    window.addEventListener('focus', catchUp);
+    window.addEventListener('offline', goOffline);
+    return () => {
+      window.removeEventListener('online', catchUp);
+      window.removeEventListener('focus', catchUp);
+      window.removeEventListener('offline', goOffline);
+    };
+  }, [serverUrl, runSync]);
+
+  useEffect(() => {
+    if (state.status !== 'offline' && state.status !== 'error') return;
+    const timer = window.setInterval(() => runSync('full'), RETRY_INTERVAL_MS);
+    return () => window.clearInterval(timer);
+  }, [state.status, runSync]);
+
+  const syncNow = useCallback(() => runSync('full'), [runSync]);
+
+  return { sync: state, syncNow };
+}
@@ -0,0 +1,24 @@
+/**
+ * =============================================================================
+ * SERVICE WORKER HOOK
+ * Registers the offline service worker and offers a new version once deployed
+ * =============================================================================
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { activateUpdate, registerServiceWorker } from '@/services/pwa';
+
+export function useServiceWorker() {
+  const [waitingWorker, setWaitingWorker] = useState<ServiceWorker | null>(null);
+
+  useEffect(() => registerServiceWorker(setWaitingWorker), []);
+
+  const applyUpdate = useCallback(() => {
+    if (waitingWorker) activateUpdate(waitingWorker);
+  }, [waitingWorker]);
+
+  /** Hide the prompt; the new version starts once every tab of the app is closed */
+  const dismissUpdate = useCallback(() => setWaitingWorker(null), []);
+
+  return { updateReady: waitingWorker !== null, applyUpdate, dismissUpdate };
+}
@@ -0,0 +1,590 @@
+/**
+ * =============================================================================
+ * ENGLISH MESSAGES
+ * Source catalog: every other language must provide the same keys.
+ * Placeholders are written as {name}.
+ * =============================================================================
+ */
+
+export const en = {
+  // Common
+  'common.add': 'Add',
+  'common.save': 'Save',
+  'common.update': 'Update',
+  'common.cancel': 'Cancel',
+  'common.delete': 'Delete',
+  'common.dismiss': 'Dismiss',
+  'common.back': 'Back',
+  'common.next': 'Next',
+  'common.clear': 'Clear',
+  'common.export': 'Export',
+  'common.download': 'Download',
+  'common.unknown': 'Unknown',
+  'common.date': 'Date',
+  'common.description': 'Description',
+  'common.amount': 'Amount',
+  'common.category': 'Category',
+  'common.status': 'Status',
+  'common.notes': 'Notes',
+  'common.currency': 'Currency',
+  'common.selectCategory': 'Select category',
+  'common.example': 'e.g., {value}',
+  'common.noActivePeriod': 'No active period selected. Create a period first.',
+  'common.amountWithSymbol': 'Amount ({symbol}) *',
+  'common.dateRequired': 'Date is required',
+  'common.descriptionRequired': 'Description is required',
+  'common.amountPositive': 'Amount must be greater than 0',
+  'common.selectCategoryError': 'Please select a category',
+  'common.endAfterStart': 'End date must be after the start date',
+
+  // App shell
+  'app.title': 'Personal Budget',
+  'app.footer': 'Personal Budget App • Data stored locally in your browser',
+  'tabs.dashboard': 'Dashboard',
+  'tabs.budgets': 'Budgets',
+  'tabs.expenses': 'Expenses',
+  'tabs.reports': 'Reports',
+  'tabs.settings': 'Settings',
+
+  // App updates
+  'pwa.updateReady': 'A new version of the app is available.',
+  'pwa.update': 'Update',
+
+  // Dashboard
+  'dashboard.noPeriod': 'No active period selected. Create a period to get started.',
+  'dashboard.budgetExceedsIncome': 'Budget exceeds income by {amount}',
+  'dashboard.totalIncome': 'Total Income',
+  'dashboard.sourceExpected': '+{amount} expected',
+  'dashboard.leftOfReceived': '{amount} left of received income',
+  'dashboard.totalBudgeted': 'Total Budgeted',
+  'dashboard.unallocated': '+{amount} unallocated',
+  'dashboard.carriedIn': '{amount} carried in',
+  'dashboard.totalExpenses': 'Total Expenses',
+  'dashboard.percentOfBudget': '{percent} of budget',
+  'dashboard.remaining': 'Remaining',
+  'dashboard.fromBudget': 'from budget',
+  'dashboard.overallUsage': 'Overall Budget Usage',
+  'dashboard.usedOf': '{used} of {available} used',
+  'dashboard.byCategory': 'Budget by Category',
+  'dashboard.noCategories': 'No budget categories yet. Add some in the Budgets tab.',
+  'dashboard.overBudget': 'Over Budget',
+  'dashboard.budget': 'Budget',
+  'dashboard.used': 'Used',
+  'dashboard.left': 'Left',
+  'dashboard.percentUsed': '{percent} used',
+
+  // Dashboard charts
+  'charts.cumulativeTitle': 'Spending Over Time',
+  'charts.spentSoFar': 'Spent so far: {amount}',
+  'charts.evenPace': 'Even pace: {amount}',
+  'charts.cumulativeTooltip': '{date}: {total} spent so far, {ideal} at an even pace',
+  'charts.futureTooltip': '{date}: {ideal} at an even pace',
+  'charts.dailyTitle': 'Daily Spending',
+  'charts.dailyAllowance': 'Even daily share: {amount}',
+  'charts.dailyTooltip': '{date}: {amount} spent',
+  'charts.byCategoryTitle': 'Spending by Category',
+  'charts.sliceTooltip': '{name}: {amount} ({percent})',
+  'charts.noSpending': 'No expenses in this period yet.',
+  'charts.clickHint': 'Click a day or a category to see its expenses.',
+
+  // Year in review
+  'yearReview.title': '{year} in Review',
+  'yearReview.periodsCovered': '{count} period(s): {names}',
+  'yearReview.year': 'Year',
+  'yearReview.print': 'Print',
+  'yearReview.popupBlocked': 'The print window was blocked. Allow pop-ups or download the page instead.',
+  'yearReview.income': 'Income received',
+  'yearReview.expectedIncome': '{amount} still expected',
+  'yearReview.spending': 'Spending',
+  'yearReview.savings': 'Saved',
+  'yearReview.savingsRate': 'Savings rate',
+  'yearReview.categories': 'Categories',
+  'yearReview.spent': 'Spent',
+  'yearReview.overBudget': 'Over budget',
+  'yearReview.overBudgetCount': '{over} of {count} period(s)',
+  'yearReview.bestMonth': 'Best month',
+  'yearReview.worstMonth': 'Worst month',
+  'yearReview.largestExpenses': 'Largest expenses',
+  'yearReview.frequentDescriptions': 'Most frequent expenses',
+  'yearReview.times': 'Times',
+  'yearReview.timesCount': '{count}×',
+  'yearReview.noExpenses': 'No expenses in this year.',
+  'yearReview.generated': 'Generated {date}',
+
+  // Reports
+  'reports.title': 'Period Comparison',
+  'reports.description': 'Budget, actual spending and variance per category, with categories matched by name across periods in the same currency.',
+  'reports.range': 'Periods to compare',
+  'reports.lastPeriods': 'Last {count} periods',
+  'reports.trend': 'Trend',
+  'reports.total': 'Total',
+  'reports.ofBudget': 'of {amount}',
+  'reports.under': '{amount} left',
+  'reports.over': '{amount} over',
+  'reports.change': '{percent} vs previous',
+  'reports.noCategories': 'No categories in these periods yet.',
+  'reports.openExpenses': 'Show these expenses',
+  'reports.hint': 'Click a figure to open that period\'s expenses.',
+
+  // Category alerts
+  'alerts.bannerTitle': 'Budget alert',
+  'alerts.crossed': '{name} passed {threshold} of its budget ({percent} used)',
+  'alerts.notificationTitle': 'Budget alert',
+  'alerts.thresholdsLabel': 'Alert at (% of budget)',
+  'alerts.thresholdsHint': 'Comma-separated percentages. Leave empty for no alerts.',
+  'alerts.thresholdsInvalid': 'Alert thresholds must be percentages above 0, e.g. 50, 80, 100',
+  'alerts.portionThresholds': 'Alerts at {thresholds}',
+  'alerts.portionNoThresholds': 'No alerts',
+  'alerts.historyTitle': 'Alert History',
+  'alerts.historyDescription': 'When each category of this period crossed one of its alert thresholds.',
+  'alerts.noHistory': 'No alerts in this period yet.',
+  'alerts.clearHistory': 'Clear history',
+  'alerts.when': 'When',
+  'alerts.threshold': 'Threshold',
+  'alerts.used': 'Used',
+  'alerts.settingsTitle': 'Budget Alerts',
+  'alerts.settingsDescription': 'Alerts always show in the app. They can also appear as browser notifications.',
+  'alerts.enableNotifications': 'Show browser notifications',
+  'alerts.notificationsUnsupported': 'This browser does not support notifications.',
+  'alerts.notificationsBlocked': 'Notifications are blocked for this site. Allow them in the browser settings and try again.',
+
+  // Daily allowance
+  'allowance.title': 'Safe to Spend Today',
+  'allowance.spentToday': '{spent} spent today, {left} left',
+  'allowance.overToday': '{spent} spent today, {amount} over',
+  'allowance.basis': '{remaining} left over {days} day(s) to the end of the period.',
+  'allowance.committed': '{amount} is set aside for upcoming recurring and scheduled expenses.',
+  'allowance.portionLine': '{spent} of {allowance}',
+  'allowance.dialogHint': 'Safe to spend today: {allowance} ({spent} spent so far today)',
+
+  // Forecast
+  'forecast.title': 'Projection',
+  'forecast.useHistory': 'Include earlier periods in projections',
+  'forecast.projectedTotal': 'Expected by period end',
+  'forecast.surplus': 'Expected surplus',
+  'forecast.overspend': 'Expected overspend',
+  'forecast.runsOut': 'Expected to run out on {date}',
+  'forecast.lasts': 'Expected to last the period',
+  'forecast.exhausted': 'Already used up',
+  'forecast.noData': 'Nothing spent yet to project from.',
+  'forecast.basis.pace': 'Based on spending so far',
+  'forecast.basis.history': 'Based on {count} earlier period(s)',
+  'forecast.basis.blended': 'Based on spending so far and {count} earlier period(s)',
+
+  // Income
+  'income.title': 'Income',
+  'income.received': '{amount} received',
+  'income.stillExpected': ', {amount} still expected',
+  'income.add': 'Add Income',
+  'income.edit': 'Edit Income',
+  'income.none': 'No income recorded for this period.',
+  'income.statusReceived': 'Received',
+  'income.statusExpected': 'Expected',
+  'income.markExpected': 'Mark as expected',
+  'income.markReceived': 'Mark as received',
+  'income.confirmDelete': 'Delete this income entry?',
+  'income.source': 'Source *',
+  'income.sourcePlaceholder': 'e.g., Salary, THR, Freelance',
+  'income.sourceRequired': 'Source is required',
+
+  // Portions
+  'portions.totalBudgeted': 'Total Budgeted',
+  'portions.income': 'Income',
+  'portions.unallocated': 'Unallocated',
+  'portions.exceedsIncome': 'Your budget exceeds your income by {amount}',
+  'portions.add': 'Add Budget Category',
+  'portions.edit': 'Edit Budget Category',
+  'portions.none': 'No budget categories yet.',
+  'portions.carryToNext': '{policy} to next period',
+  'portions.confirmDelete': 'Delete this budget category? All related expenses will also be deleted.',
+  'portions.nameLabel': 'Name *',
+  'portions.namePlaceholder': 'e.g., Food, Transport',
+  'portions.nameRequired': 'Name is required',
+  'portions.budgetLabel': 'Budget Amount ({symbol}) *',
+  'portions.budgetPositive': 'Budget amount must be greater than 0',
+  'portions.atPeriodEnd': 'At period end',
+  'portions.carryHint': "Moves this category's balance into the category with the same name in the next period.",
+  'portions.notesPlaceholder': 'Optional notes',
+  'carryOver.none': 'No carry-over',
+  'carryOver.surplus': 'Carry leftover',
+  'carryOver.deficit': 'Carry overspending',
+  'carryOver.both': 'Carry leftover and overspending',
+
+  // Expenses
+  'expenses.add': 'Add Expense',
+  'expenses.edit': 'Edit Expense',
+  'expenses.importStatement': 'Import Statement',
+  'expenses.exportCsv': 'Export CSV',
+  'expenses.filters': 'Filters',
+  'expenses.allCategories': 'All categories',
+  'expenses.fromDate': 'From Date',
+  'expenses.toDate': 'To Date',
+  'expenses.count': '{count} expense(s)',
+  'expenses.total': 'Total: {amount}',
+  'expenses.none': 'No expenses found.',
+  'expenses.noCategories': 'No budget categories yet. Add some in the Budgets tab first.',
+  'expenses.auto': 'Auto',
+  'expenses.confirmDelete': 'Delete this expense?',
+  'expenses.confirmSkip': 'Skip this recurring expense? It will not be posted again for this date.',
+  'expenses.categoryLabel': 'Category *',
+  'expenses.dateLabel': 'Date *',
+  'expenses.descriptionLabel': 'Description *',
+  'expenses.descriptionPlaceholder': 'e.g., Lunch nasi goreng',
+  'expenses.rateLabel': 'Rate (1 {currency} = ? {base}) *',
+  'expenses.rateRequired': 'Enter the {currency} to {base} exchange rate',
+  'expenses.noSavedRate': 'No saved rate for {currency}. Add one in Settings to prefill it next time.',
+
+  // Recurring expenses
+  'recurring.title': 'Recurring Expenses',
+  'recurring.description': 'Rent, bills and subscriptions are posted automatically on their due dates in the active period, into the category with the same name.',
+  'recurring.add': 'Add Recurring Expense',
+  'recurring.edit': 'Edit Recurring Expense',
+  'recurring.none': 'No recurring expenses yet.',
+  'recurring.paused': 'Paused',
+  'recurring.missingCategory': ' · no "{name}" category in this period',
+  'recurring.confirmDelete': 'Delete this recurring expense? Expenses already posted are kept.',
+  'recurring.descriptionPlaceholder': 'e.g., Rent, Internet, Netflix',
+  'recurring.repeats': 'Repeats',
+  'recurring.monthly': 'Monthly',
+  'recurring.weekly': 'Weekly',
+  'recurring.yearly': 'Yearly',
+  'recurring.on': 'On',
+  'recurring.dayOfMonth': 'Day of month',
+  'recurring.month': 'Month',
+  'recurring.starts': 'Starts *',
+  'recurring.ends': 'Ends',
+  'recurring.dayOfMonthRange': 'Day of month must be between 1 and 31',
+  'recurring.startRequired': 'Start date is required',
+  'schedule.monthly': 'Monthly on day {day}',
+  'schedule.weekly': 'Weekly on {weekday}',
+  'schedule.yearly': 'Yearly on {day} {month}',
+
+  // Periods
+  'periods.select': 'Select period',
+  'periods.none': 'No periods',
+  'periods.new': 'New Period',
+  'periods.edit': 'Edit Period',
+  'periods.nextMonth': 'Next Month',
+  'periods.nextMonthTitle': 'Start next month from the latest period',
+  'periods.confirmDelete': 'Delete this period? All related categories and expenses will also be deleted.',
+  'periods.create': 'Create',
+  'periods.startFrom': 'Start from',
+  'periods.emptyPeriod': 'Empty period',
+  'periods.copyOf': 'Copy of {name}',
+  'periods.nameLabel': 'Period Name *',
+  'periods.namePlaceholder': 'e.g., Nov 2025',
+  'periods.startDate': 'Start Date *',
+  'periods.endDate': 'End Date *',
+  'periods.baseCurrency': 'Base Currency',
+  'periods.currencyFixed': 'The base currency is fixed once a period is created.',
+  'periods.currencyHint': 'Budgets, income and summaries use this currency. Expenses paid in another currency are converted into it.',
+  'periods.expectedSalary': 'Expected Salary ({symbol})',
+  'periods.moreIncomeHint': 'More income sources can be added in the Budgets tab.',
+  'periods.incomeToCopy': 'Income to copy (as expected)',
+  'periods.categoriesToCopy': 'Categories to copy',
+  'periods.salary': 'Salary',
+  'periods.nameRequired': 'Name is required',
+  'periods.datesRequired': 'Start and end dates are required',
+  'periods.incomeCopyInvalid': 'Every copied income needs a source and an amount greater than 0',
+  'periods.incomePositive': 'Income must be greater than 0',
+  'periods.categoryNameRequired': 'Every copied category needs a name',
+  'periods.budgetsPositive': 'Budget amounts must be greater than 0',
+
+  // Settings
+  'settings.migrationErrorTitle': 'Stored data could not be upgraded',
+  'settings.migrationErrorBody': 'Your original data was kept as a backup and the app started empty.',
+  'settings.migrationReadOnlyBody': 'No backup of your original data could be made, so it was left in place and changes are not saved until you clear all data. Download it first.',
+  'settings.downloadOriginal': 'Download original',
+  'settings.retentionReportTitle': 'Expired periods removed',
+  'settings.retentionReportBody': 'Removed {periods} ({portions} categories, {expenses} expenses).',
+  'settings.retentionArchived': 'They were moved to the archive.',
+  'settings.retentionNotArchived': 'They were not archived.',
+  'settings.language': 'Language',
+  'settings.languageDescription': 'Language for the interface, dates and numbers.',
+  'settings.storageTitle': 'Data Storage',
+  'settings.storageDescription': 'Your data is stored only in this browser ({backend}). Each period is kept for a limited time after it ends.',
+  'settings.backend.indexeddb': 'IndexedDB',
+  'settings.backend.localstorage': 'local storage',
+  'settings.created': 'Created:',
+  'settings.lastUsed': 'Last used:',
+  'settings.periods': 'Periods:',
+  'settings.categories': 'Categories:',
+  'settings.expenses': 'Expenses:',
+  'settings.retentionTitle': 'Data Retention',
+  'settings.retentionDescription': 'Periods are removed once they ended longer ago than the retention window.',
+  'settings.keepPeriodsFor': 'Keep periods for',
+  'settings.monthsAfterEnd': '{months} months after they end',
+  'settings.archiveExpired': 'Move expired periods to the archive',
+  'settings.expiringWithin': 'Expiring within {days} days',
+  'settings.noneExpiring': 'No periods are about to expire.',
+  'settings.expiredPending': 'expired, removed on next load',
+  'settings.expiresOn': 'expires {date} ({days} days)',
+  'settings.removeExpired': 'Remove expired now',
+  'settings.archiveTitle': 'Archive',
+  'settings.archiveDescription': 'Expired periods kept in compact form. {count} period(s) archived.',
+  'settings.exportArchive': 'Export Archive',
+  'settings.clearArchive': 'Clear Archive',
+  'settings.exportTitle': 'Export Data',
+  'settings.exportDescription': 'Download all your data as a JSON file for backup, or as CSV for spreadsheets.',
+  'settings.exportJson': 'Export JSON',
+  'settings.exportCsv': 'Export CSV',
+  'settings.exportEncrypted': 'Export Encrypted',
+  'settings.exportEncryptedTitle': 'Encrypted Export',
+  'settings.exportEncryptedDescription': 'The exported file can only be imported with this passphrase.',
+  'settings.exportScope': 'Export',
+  'settings.exportScopeProfile': 'This profile ({name})',
+  'settings.exportScopeAll': 'All profiles',
+  'settings.importTitle': 'Import Data',
+  'settings.importDescription': 'Restore data from a previously exported JSON file, either replacing all current data or merging into it.',
+  'settings.importJson': 'Import JSON',
+  'settings.clearTitle': 'Clear All Data',
+  'settings.clearDescription': 'Delete all periods, categories, and expenses. Until you close this tab, Undo brings them back.',
+  'settings.clearConfirmTitle': 'Clear All Data?',
+  'settings.clearConfirmBody': 'This will delete all your periods, budget categories, and expenses. Undo restores them only until this tab is closed, so export a backup first if you may need them later.',
+  'settings.clearConfirm': 'Yes, Clear All',
+
+  // Exchange rates
+  'rates.title': 'Exchange Rates',
+  'rates.description': 'Rates used to prefill foreign-currency expenses. They are entered by hand and stored on this device.',
+  'rates.none': 'No rates saved yet.',
+  'rates.updated': 'Updated {date}',
+  'rates.from': 'From',
+  'rates.to': 'To',
+  'rates.rate': 'Rate',
+  'rates.save': 'Save Rate',
+  'rates.confirmDelete': 'Delete the {currency} to {base} rate?',
+  'rates.sameCurrency': 'Pick two different currencies',
+  'rates.ratePositive': 'Rate must be greater than 0',
+
+  // JSON import
+  'import.title': 'Import Data',
+  'import.replaceDescription': 'Paste your exported JSON data below. This will replace all current data.',
+  'import.mergeDescription': 'Paste another export below, e.g. from a second device. New records are added; records with the same id, or the same name and dates, are compared first.',
+  'import.mode': 'Mode',
+  'import.modeReplace': 'Replace all data',
+  'import.modeMerge': 'Merge into current data',
+  'import.moreIssues': '…and {count} more',
+  'import.placeholder': 'Paste JSON here...',
+  'import.previewSummary': 'Adds {periods} period(s), {incomes} income(s), {portions} category(ies) and {expenses} expense(s). {unchanged} record(s) already match.',
+  'import.conflicts': '{count} conflict(s):',
+  'import.conflictTitle': '{kind} "{name}"',
+  'import.matchedByDetails': 'Matched by name and dates',
+  'import.previewMatched': '{count} record(s) were matched by name and dates instead of id.',
+  'import.field': 'Field',
+  'import.currentVersion': 'Current',
+  'import.importedVersion': 'Imported',
+  'import.forConflicts': 'For conflicting records',
+  'import.keepExisting': 'Keep my current version',
+  'import.useIncoming': 'Use the imported version',
+  'import.encrypted': 'This file is encrypted. Enter its passphrase to continue.',
+  'import.decrypt': 'Decrypt',
+  'import.profilesFile': 'This file holds {count} profiles: {names}. They will be added as new profiles; the open profile is not changed.',
+  'import.addProfiles': 'Add profiles',
+  'import.import': 'Import',
+  'import.previewMerge': 'Preview Merge',
+  'import.applyMerge': 'Apply Merge',
+  'import.invalidJson': 'Invalid JSON',
+  'import.kind.period': 'period',
+  'import.kind.income': 'income',
+  'import.kind.portion': 'category',
+  'import.kind.expense': 'expense',
+
+  // CSV export
+  'csv.title': 'Export CSV',
+  'csv.description': 'Download a spreadsheet of your expenses or budget vs actual per category.',
+  'csv.sheet': 'Sheet',
+  'csv.sheetExpenses': 'Expenses',
+  'csv.sheetSummary': 'Budget vs actual by category',
+  'csv.scope': 'Scope',
+  'csv.scopeFiltered': 'Current filter',
+  'csv.scopeActive': 'Active period',
+  'csv.scopeAll': 'All periods',
+
+  // Statement import
+  'statement.title': 'Import Statement',
+  'statement.sourceDescription': 'Load a CSV statement exported from your bank or e-wallet.',
+  'statement.mappingDescription': 'Tell us which columns hold the date, description and amount.',
+  'statement.reviewDescription': 'Review transactions before adding them to {period}.',
+  'statement.profile': 'Bank / e-wallet profile',
+  'statement.newMapping': 'New mapping',
+  'statement.file': 'CSV file',
+  'statement.pastePlaceholder': '...or paste the CSV content here',
+  'statement.dateColumn': 'Date column',
+  'statement.descriptionColumn': 'Description column',
+  'statement.amountColumn': 'Amount column',
+  'statement.column': 'Column {index}',
+  'statement.dateFormat': 'Date format',
+  'statement.spendingShownAs': 'Spending is shown as',
+  'statement.negativeAmounts': 'Negative amounts',
+  'statement.positiveAmounts': 'Positive amounts',
+  'statement.separator': 'Separator',
+  'statement.comma': 'Comma (,)',
+  'statement.semicolon': 'Semicolon (;)',
+  'statement.tab': 'Tab',
+  'statement.hasHeader': 'First row is a header',
+  'statement.saveAs': 'Save mapping as',
+  'statement.saveAsPlaceholder': 'e.g., BCA, GoPay (leave empty to not save)',
+  'statement.selectedSummary': '{selected} of {total} row(s) selected, total {amount}',
+  'statement.review': 'Review',
+  'statement.addExpenses': 'Add {count} Expense(s)',
+  'statement.status.ok': 'New',
+  'statement.status.duplicate': 'Possible duplicate',
+  'statement.status.outside-period': 'Outside period',
+  'statement.status.invalid': 'Invalid date or amount',
+  'statement.status.credit': 'Incoming money',
+  'statement.noContent': 'Choose a file or paste the statement first',
+  'statement.noRows': 'No rows found with this mapping',
+  'statement.rowsNeedCategory': 'Every selected row needs a category',
+  'statement.importedTransaction': 'Imported transaction',
+
+  // Undo history
+  'history.undo': 'Undo',
+  'history.redo': 'Redo',
+  'history.undoTitle': 'Undo: {action} (Ctrl+Z)',
+  'history.redoTitle': 'Redo: {action} (Ctrl+Shift+Z)',
+  'history.action.addPeriod': 'Period added',
+  'history.action.updatePeriod': 'Period edited',
+  'history.action.deletePeriod': 'Period deleted',
+  'history.action.addIncome': 'Income added',
+  'history.action.updateIncome': 'Income edited',
+  'history.action.deleteIncome': 'Income deleted',
+  'history.action.addPortion': 'Category added',
+  'history.action.updatePortion': 'Category edited',
+  'history.action.deletePortion': 'Category and its expenses deleted',
+  'history.action.addExpense': 'Expense added',
+  'history.action.updateExpense': 'Expense edited',
+  'history.action.deleteExpense': 'Expense deleted',
+  'history.action.addRecurringExpense': 'Recurring expense added',
+  'history.action.updateRecurringExpense': 'Recurring expense edited',
+  'history.action.deleteRecurringExpense': 'Recurring expense deleted',
+  'history.action.saveImportProfile': 'Statement mapping saved',
+  'history.action.deleteImportProfile': 'Statement mapping deleted',
+  'history.action.saveExchangeRate': 'Exchange rate saved',
+  'history.action.deleteExchangeRate': 'Exchange rate deleted',
+  'history.action.runRetention': 'Expired periods removed',
+  'history.action.clearArchive': 'Archive cleared',
+  'history.action.clearAlertHistory': 'Alert history cleared',
+  'history.action.importData': 'Data imported',
+  'history.action.mergeImportData': 'Data merged',
+  'history.action.clearData': 'All data cleared',
+
+  // Server sync
+  'sync.title': 'Server Sync',
+  'sync.description': 'Optionally keep periods, categories and expenses on a sync server as well. Changes made while offline are queued and sent once the server can be reached.',
+  'sync.serverUrl': 'Server URL',
+  'sync.urlHint': 'For local testing, run "npm run mock-server" and use {url}.',
+  'sync.enable': 'Sync with this server',
+  'sync.offNote': 'Turning sync off forgets queued changes. Turning it on again uploads the data in this browser and merges in what the server has.',
+  'sync.syncNow': 'Sync now',
+  'sync.status.disabled': 'Sync off',
+  'sync.status.syncing': 'Syncing…',
+  'sync.status.synced': 'Synced',
+  'sync.status.pending': 'Changes waiting',
+  'sync.status.offline': 'Offline',
+  'sync.status.error': 'Sync failed',
+  'sync.pending': '{count} change(s) waiting to be sent',
+  'sync.lastSynced': 'Last synced: {time}',
+  'sync.neverSynced': 'Not synced yet',
+  'sync.unreachable': 'The sync server could not be reached. Changes are kept and sent later.',
+  'sync.serverError': 'The sync server answered with HTTP {status}.',
+  'sync.invalidResponse': 'The sync server sent an unexpected response for {resource}.',
+
+  // Cross-tab sync
+  'tabSync.conflictTitle': 'Edited in another tab',
+  'tabSync.conflictBody': '{collection} "{name}" was changed in another tab while you changed it here.',
+  'tabSync.conflictDeletedHere': '{collection} "{name}" was changed in another tab after you deleted it here.',
+  'tabSync.conflictDeletedThere': '{collection} "{name}" was deleted in another tab while you changed it here.',
+  'tabSync.keepLocal': 'Keep this tab\'s version',
+  'tabSync.keepRemote': 'Use the other tab\'s version',
+  'tabSync.collection.periods': 'Period',
+  'tabSync.collection.incomes': 'Income',
+  'tabSync.collection.portions': 'Category',
+  'tabSync.collection.expenses': 'Expense',
+  'tabSync.collection.recurringExpenses': 'Recurring expense',
+  'tabSync.collection.importProfiles': 'Statement mapping',
+  'tabSync.collection.exchangeRates': 'Exchange rate',
+  'tabSync.collection.alertHistory': 'Category alert',
+
+  // Passphrase lock
+  'lock.unlockTitle': 'Budget locked',
+  'lock.unlockDescription': 'Enter your passphrase to open your budget.',
+  'lock.passphrase': 'Passphrase',
+  'lock.unlock': 'Unlock',
+  'lock.unlocking': 'Unlocking…',
+  'lock.forgot': 'Forgot your passphrase?',
+  'lock.forgotBody': 'Without the passphrase the data in this browser cannot be recovered. You can erase it and start over; an encrypted export can still be imported later with its own passphrase.',
+  'lock.erase': 'Erase all data',
+  'lock.title': 'Passphrase Lock',
+  'lock.description': 'Encrypt the data in this browser with a passphrase, which is asked for whenever the app opens.',
+  'lock.enabledNote': 'Your data is encrypted. While the lock is on, undo history and the sync queue are not kept across reloads.',
+  'lock.warning': 'If you forget the passphrase, your data cannot be recovered. Export a backup first.',
+  'lock.newPassphrase': 'New passphrase',
+  'lock.confirmPassphrase': 'Confirm passphrase',
+  'lock.currentPassphrase': 'Current passphrase',
+  'lock.enable': 'Turn on lock',
+  'lock.disable': 'Turn off lock',
+  'lock.lockNow': 'Lock now',
+  'lock.working': 'Please wait…',
+  'lock.autoLock': 'Lock automatically',
+  'lock.autoLockNever': 'Never',
+  'lock.autoLockMinutes': 'After {minutes} minutes of inactivity',
+  'lock.tooShort': 'Use at least {min} characters',
+  'lock.mismatch': 'The passphrases do not match',
+
+  // Profiles
+  'profiles.defaultName': 'My budget',
+  'profiles.select': 'Profile',
+  'profiles.manage': 'Manage profiles',
+  'profiles.title': 'Profiles',
+  'profiles.description': 'Each profile is a separate budget with its own periods, categories, expenses and settings.',
+  'profiles.open': '(open)',
+  'profiles.rename': 'Rename',
+  'profiles.duplicate': 'Duplicate',
+  'profiles.delete': 'Delete profile',
+  'profiles.new': 'New profile',
+  'profiles.namePlaceholder': 'e.g., Household',
+  'profiles.add': 'Add',
+  'profiles.copyName': '{name} (copy)',
+  'profiles.confirmDelete': 'Delete the profile "{name}" and all of its data? This cannot be undone.',
+  'profiles.nameRequired': 'Profile name is required',
+  'profiles.defaultNotDeletable': 'The first profile cannot be deleted',
+  'profiles.activeNotDeletable': 'Switch to another profile before deleting this one',
+
+  // Service errors
+  'errors.saveFailed': 'Failed to save data. Storage might be full.',
+  'errors.loadFailed': 'Could not read your saved data. Nothing was changed; reload to try again. ({reason})',
+  'errors.wrongPassphrase': 'Wrong passphrase, or the data is damaged.',
+  'errors.locked': 'The data is encrypted. Unlock it first.',
+  'errors.encryptedImport': 'This file is encrypted. Enter its passphrase to import it.',
+  'errors.profilesImport': 'This file holds several profiles, which can only be added as new profiles.',
+  'errors.invalidJson': 'Invalid JSON format. Please check your data.',
+  'errors.upgradeFailed': 'Could not upgrade imported data. {reason}',
+  'errors.noData': 'No data loaded',
+  'errors.notObject': 'Data is not an object',
+  'errors.unknownVersion': 'Unknown data version "{version}". It may come from a newer version of the app.',
+  'errors.migrationFailed': 'Migration {step} ({description}) failed: {reason}',
+  'errors.migrationVersion': 'Migration {step} did not set version to {version}',
+
+  // Validation
+  'validation.summary': 'Imported data has {count} problem(s).',
+  'validation.mustBeObject': 'must be an object',
+  'validation.mustBeList': 'must be a list',
+  'validation.dataMustBeObject': 'Data must be an object',
+  'validation.missing': 'is missing',
+  'validation.duplicateId': 'duplicate id "{id}"',
+  'validation.required': 'is required',
+  'validation.date': 'must be a date (YYYY-MM-DD)',
+  'validation.endBeforeStart': 'is before the start date',
+  'validation.currencyCode': 'must be a three-letter currency code',
+  'validation.unknownPeriod': 'refers to unknown period "{id}"',
+  'validation.unknownCategory': 'refers to unknown category "{id}"',
+  'validation.differentPeriod': 'belongs to a different period than the expense',
+  'validation.positive': 'must be a number greater than 0',
+  'validation.nonNegative': 'must be a number of 0 or more',
+  'validation.text': 'must be text',
+  'validation.thresholds': 'must be a list of percentages above 0',
+  'validation.oneOf': 'must be one of {values}',
+  'validation.wholeNumber': 'must be a whole number from {min} to {max}',
+  'validation.boolean': 'must be true or false',
+  'validation.dateList': 'must be a list of dates (YYYY-MM-DD)'
+};
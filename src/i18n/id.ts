@@ -0,0 +1,591 @@
+/**
+ * =============================================================================
+ * PESAN BAHASA INDONESIA
+ * Indonesian catalog; the Messages type makes a missing key a type error.
+ * =============================================================================
+ */
+
+import type { Messages } from '@/i18n';
+
+export const id: Messages = {
+  // Common
+  'common.add': 'Tambah',
+  'common.save': 'Simpan',
+  'common.update': 'Perbarui',
+  'common.cancel': 'Batal',
+  'common.delete': 'Hapus',
+  'common.dismiss': 'Tutup',
+  'common.back': 'Kembali',
+  'common.next': 'Lanjut',
+  'common.clear': 'Reset',
+  'common.export': 'Ekspor',
+  'common.download': 'Unduh',
+  'common.unknown': 'Tidak diketahui',
+  'common.date': 'Tanggal',
+  'common.description': 'Keterangan',
+  'common.amount': 'Jumlah',
+  'common.category': 'Kategori',
+  'common.status': 'Status',
+  'common.notes': 'Catatan',
+  'common.currency': 'Mata uang',
+  'common.selectCategory': 'Pilih kategori',
+  'common.example': 'mis. {value}',
+  'common.noActivePeriod': 'Belum ada periode aktif. Buat periode terlebih dahulu.',
+  'common.amountWithSymbol': 'Jumlah ({symbol}) *',
+  'common.dateRequired': 'Tanggal wajib diisi',
+  'common.descriptionRequired': 'Keterangan wajib diisi',
+  'common.amountPositive': 'Jumlah harus lebih dari 0',
+  'common.selectCategoryError': 'Pilih kategori terlebih dahulu',
+  'common.endAfterStart': 'Tanggal akhir harus setelah tanggal mulai',
+
+  // App shell
+  'app.title': 'Anggaran Pribadi',
+  'app.footer': 'Aplikasi Anggaran Pribadi • Data disimpan di browser Anda',
+  'tabs.dashboard': 'Ringkasan',
+  'tabs.budgets': 'Anggaran',
+  'tabs.expenses': 'Pengeluaran',
+  'tabs.reports': 'Laporan',
+  'tabs.settings': 'Pengaturan',
+
+  // App updates
+  'pwa.updateReady': 'Versi baru aplikasi tersedia.',
+  'pwa.update': 'Perbarui',
+
+  // Dashboard
+  'dashboard.noPeriod': 'Belum ada periode aktif. Buat periode untuk memulai.',
+  'dashboard.budgetExceedsIncome': 'Anggaran melebihi pemasukan sebesar {amount}',
+  'dashboard.totalIncome': 'Total Pemasukan',
+  'dashboard.sourceExpected': '+{amount} diharapkan',
+  'dashboard.leftOfReceived': 'Sisa {amount} dari pemasukan yang diterima',
+  'dashboard.totalBudgeted': 'Total Anggaran',
+  'dashboard.unallocated': '+{amount} belum dialokasikan',
+  'dashboard.carriedIn': '{amount} dibawa dari periode lalu',
+  'dashboard.totalExpenses': 'Total Pengeluaran',
+  'dashboard.percentOfBudget': '{percent} dari anggaran',
+  'dashboard.remaining': 'Sisa',
+  'dashboard.fromBudget': 'dari anggaran',
+  'dashboard.overallUsage': 'Pemakaian Anggaran Keseluruhan',
+  'dashboard.usedOf': '{used} dari {available} terpakai',
+  'dashboard.byCategory': 'Anggaran per Kategori',
+  'dashboard.noCategories': 'Belum ada kategori anggaran. Tambahkan di tab Anggaran.',
+  'dashboard.overBudget': 'Melebihi Anggaran',
+  'dashboard.budget': 'Anggaran',
+  'dashboard.used': 'Terpakai',
+  'dashboard.left': 'Sisa',
+  'dashboard.percentUsed': '{percent} terpakai',
+
+  // Dashboard charts
+  'charts.cumulativeTitle': 'Pengeluaran dari Waktu ke Waktu',
+  'charts.spentSoFar': 'Terpakai sejauh ini: {amount}',
+  'charts.evenPace': 'Laju merata: {amount}',
+  'charts.cumulativeTooltip': '{date}: {total} terpakai sejauh ini, {ideal} pada laju merata',
+  'charts.futureTooltip': '{date}: {ideal} pada laju merata',
+  'charts.dailyTitle': 'Pengeluaran Harian',
+  'charts.dailyAllowance': 'Jatah harian merata: {amount}',
+  'charts.dailyTooltip': '{date}: {amount} terpakai',
+  'charts.byCategoryTitle': 'Pengeluaran per Kategori',
+  'charts.sliceTooltip': '{name}: {amount} ({percent})',
+  'charts.noSpending': 'Belum ada pengeluaran pada periode ini.',
+  'charts.clickHint': 'Klik hari atau kategori untuk melihat pengeluarannya.',
+
+  // Year in review
+  'yearReview.title': 'Ringkasan Tahun {year}',
+  'yearReview.periodsCovered': '{count} periode: {names}',
+  'yearReview.year': 'Tahun',
+  'yearReview.print': 'Cetak',
+  'yearReview.popupBlocked': 'Jendela cetak diblokir. Izinkan pop-up atau unduh halamannya.',
+  'yearReview.income': 'Pemasukan diterima',
+  'yearReview.expectedIncome': '{amount} masih diharapkan',
+  'yearReview.spending': 'Pengeluaran',
+  'yearReview.savings': 'Tabungan',
+  'yearReview.savingsRate': 'Rasio tabungan',
+  'yearReview.categories': 'Kategori',
+  'yearReview.spent': 'Terpakai',
+  'yearReview.overBudget': 'Melebihi anggaran',
+  'yearReview.overBudgetCount': '{over} dari {count} periode',
+  'yearReview.bestMonth': 'Bulan terbaik',
+  'yearReview.worstMonth': 'Bulan terburuk',
+  'yearReview.largestExpenses': 'Pengeluaran terbesar',
+  'yearReview.frequentDescriptions': 'Pengeluaran paling sering',
+  'yearReview.times': 'Kali',
+  'yearReview.timesCount': '{count}×',
+  'yearReview.noExpenses': 'Tidak ada pengeluaran pada tahun ini.',
+  'yearReview.generated': 'Dibuat {date}',
+
+  // Reports
+  'reports.title': 'Perbandingan Periode',
+  'reports.description': 'Anggaran, pengeluaran aktual dan selisih per kategori; kategori dicocokkan berdasarkan nama antar periode dengan mata uang yang sama.',
+  'reports.range': 'Jumlah periode',
+  'reports.lastPeriods': '{count} periode terakhir',
+  'reports.trend': 'Tren',
+  'reports.total': 'Total',
+  'reports.ofBudget': 'dari {amount}',
+  'reports.under': 'sisa {amount}',
+  'reports.over': 'lebih {amount}',
+  'reports.change': '{percent} dibanding sebelumnya',
+  'reports.noCategories': 'Belum ada kategori pada periode-periode ini.',
+  'reports.openExpenses': 'Tampilkan pengeluaran ini',
+  'reports.hint': 'Klik angka untuk membuka pengeluaran periode tersebut.',
+
+  // Category alerts
+  'alerts.bannerTitle': 'Peringatan anggaran',
+  'alerts.crossed': '{name} melewati {threshold} dari anggarannya ({percent} terpakai)',
+  'alerts.notificationTitle': 'Peringatan anggaran',
+  'alerts.thresholdsLabel': 'Peringatan pada (% anggaran)',
+  'alerts.thresholdsHint': 'Persentase dipisahkan koma. Kosongkan jika tidak perlu peringatan.',
+  'alerts.thresholdsInvalid': 'Batas peringatan harus berupa persentase di atas 0, mis. 50, 80, 100',
+  'alerts.portionThresholds': 'Peringatan pada {thresholds}',
+  'alerts.portionNoThresholds': 'Tanpa peringatan',
+  'alerts.historyTitle': 'Riwayat Peringatan',
+  'alerts.historyDescription': 'Kapan setiap kategori pada periode ini melewati batas peringatannya.',
+  'alerts.noHistory': 'Belum ada peringatan pada periode ini.',
+  'alerts.clearHistory': 'Hapus riwayat',
+  'alerts.when': 'Waktu',
+  'alerts.threshold': 'Batas',
+  'alerts.used': 'Terpakai',
+  'alerts.settingsTitle': 'Peringatan Anggaran',
+  'alerts.settingsDescription': 'Peringatan selalu tampil di aplikasi, dan juga bisa muncul sebagai notifikasi browser.',
+  'alerts.enableNotifications': 'Tampilkan notifikasi browser',
+  'alerts.notificationsUnsupported': 'Browser ini tidak mendukung notifikasi.',
+  'alerts.notificationsBlocked': 'Notifikasi diblokir untuk situs ini. Izinkan di pengaturan browser lalu coba lagi.',
+
+  // Daily allowance
+  'allowance.title': 'Aman Dibelanjakan Hari Ini',
+  'allowance.spentToday': '{spent} terpakai hari ini, sisa {left}',
+  'allowance.overToday': '{spent} terpakai hari ini, lebih {amount}',
+  'allowance.basis': 'Sisa {remaining} untuk {days} hari sampai akhir periode.',
+  'allowance.committed': '{amount} disisihkan untuk pengeluaran rutin dan terjadwal yang akan datang.',
+  'allowance.portionLine': '{spent} dari {allowance}',
+  'allowance.dialogHint': 'Aman dibelanjakan hari ini: {allowance} ({spent} terpakai hari ini)',
+
+  // Forecast
+  'forecast.title': 'Proyeksi',
+  'forecast.useHistory': 'Sertakan periode sebelumnya dalam proyeksi',
+  'forecast.projectedTotal': 'Perkiraan di akhir periode',
+  'forecast.surplus': 'Perkiraan sisa',
+  'forecast.overspend': 'Perkiraan kelebihan',
+  'forecast.runsOut': 'Diperkirakan habis pada {date}',
+  'forecast.lasts': 'Diperkirakan cukup sampai akhir periode',
+  'forecast.exhausted': 'Sudah habis terpakai',
+  'forecast.noData': 'Belum ada pengeluaran untuk diproyeksikan.',
+  'forecast.basis.pace': 'Berdasarkan pengeluaran sejauh ini',
+  'forecast.basis.history': 'Berdasarkan {count} periode sebelumnya',
+  'forecast.basis.blended': 'Berdasarkan pengeluaran sejauh ini dan {count} periode sebelumnya',
+
+  // Income
+  'income.title': 'Pemasukan',
+  'income.received': '{amount} diterima',
+  'income.stillExpected': ', {amount} masih diharapkan',
+  'income.add': 'Tambah Pemasukan',
+  'income.edit': 'Ubah Pemasukan',
+  'income.none': 'Belum ada pemasukan di periode ini.',
+  'income.statusReceived': 'Diterima',
+  'income.statusExpected': 'Diharapkan',
+  'income.markExpected': 'Tandai sebagai diharapkan',
+  'income.markReceived': 'Tandai sebagai diterima',
+  'income.confirmDelete': 'Hapus pemasukan ini?',
+  'income.source': 'Sumber *',
+  'income.sourcePlaceholder': 'mis. Gaji, THR, Freelance',
+  'income.sourceRequired': 'Sumber wajib diisi',
+
+  // Portions
+  'portions.totalBudgeted': 'Total Anggaran',
+  'portions.income': 'Pemasukan',
+  'portions.unallocated': 'Belum Dialokasikan',
+  'portions.exceedsIncome': 'Anggaran Anda melebihi pemasukan sebesar {amount}',
+  'portions.add': 'Tambah Kategori Anggaran',
+  'portions.edit': 'Ubah Kategori Anggaran',
+  'portions.none': 'Belum ada kategori anggaran.',
+  'portions.carryToNext': '{policy} ke periode berikutnya',
+  'portions.confirmDelete': 'Hapus kategori anggaran ini? Semua pengeluaran terkait juga akan dihapus.',
+  'portions.nameLabel': 'Nama *',
+  'portions.namePlaceholder': 'mis. Makan, Transportasi',
+  'portions.nameRequired': 'Nama wajib diisi',
+  'portions.budgetLabel': 'Jumlah Anggaran ({symbol}) *',
+  'portions.budgetPositive': 'Jumlah anggaran harus lebih dari 0',
+  'portions.atPeriodEnd': 'Di akhir periode',
+  'portions.carryHint': 'Memindahkan saldo kategori ini ke kategori dengan nama yang sama di periode berikutnya.',
+  'portions.notesPlaceholder': 'Catatan (opsional)',
+  'carryOver.none': 'Tidak dibawa',
+  'carryOver.surplus': 'Bawa sisa',
+  'carryOver.deficit': 'Bawa kelebihan belanja',
+  'carryOver.both': 'Bawa sisa dan kelebihan belanja',
+
+  // Expenses
+  'expenses.add': 'Tambah Pengeluaran',
+  'expenses.edit': 'Ubah Pengeluaran',
+  'expenses.importStatement': 'Impor Mutasi',
+  'expenses.exportCsv': 'Ekspor CSV',
+  'expenses.filters': 'Filter',
+  'expenses.allCategories': 'Semua kategori',
+  'expenses.fromDate': 'Dari Tanggal',
+  'expenses.toDate': 'Sampai Tanggal',
+  'expenses.count': '{count} pengeluaran',
+  'expenses.total': 'Total: {amount}',
+  'expenses.none': 'Tidak ada pengeluaran.',
+  'expenses.noCategories': 'Belum ada kategori anggaran. Tambahkan dulu di tab Anggaran.',
+  'expenses.auto': 'Otomatis',
+  'expenses.confirmDelete': 'Hapus pengeluaran ini?',
+  'expenses.confirmSkip': 'Lewati pengeluaran rutin ini? Pengeluaran ini tidak akan dicatat lagi untuk tanggal tersebut.',
+  'expenses.categoryLabel': 'Kategori *',
+  'expenses.dateLabel': 'Tanggal *',
+  'expenses.descriptionLabel': 'Keterangan *',
+  'expenses.descriptionPlaceholder': 'mis. Makan siang nasi goreng',
+  'expenses.rateLabel': 'Kurs (1 {currency} = ? {base}) *',
+  'expenses.rateRequired': 'Isi kurs {currency} ke {base}',
+  'expenses.noSavedRate': 'Belum ada kurs tersimpan untuk {currency}. Tambahkan di Pengaturan agar terisi otomatis lain kali.',
+
+  // Recurring expenses
+  'recurring.title': 'Pengeluaran Rutin',
+  'recurring.description': 'Sewa, tagihan, dan langganan dicatat otomatis pada tanggal jatuh temponya di periode aktif, ke kategori dengan nama yang sama.',
+  'recurring.add': 'Tambah Pengeluaran Rutin',
+  'recurring.edit': 'Ubah Pengeluaran Rutin',
+  'recurring.none': 'Belum ada pengeluaran rutin.',
+  'recurring.paused': 'Dijeda',
+  'recurring.missingCategory': ' · tidak ada kategori "{name}" di periode ini',
+  'recurring.confirmDelete': 'Hapus pengeluaran rutin ini? Pengeluaran yang sudah tercatat tetap disimpan.',
+  'recurring.descriptionPlaceholder': 'mis. Sewa, Internet, Netflix',
+  'recurring.repeats': 'Berulang',
+  'recurring.monthly': 'Bulanan',
+  'recurring.weekly': 'Mingguan',
+  'recurring.yearly': 'Tahunan',
+  'recurring.on': 'Pada',
+  'recurring.dayOfMonth': 'Tanggal',
+  'recurring.month': 'Bulan',
+  'recurring.starts': 'Mulai *',
+  'recurring.ends': 'Berakhir',
+  'recurring.dayOfMonthRange': 'Tanggal harus antara 1 dan 31',
+  'recurring.startRequired': 'Tanggal mulai wajib diisi',
+  'schedule.monthly': 'Bulanan setiap tanggal {day}',
+  'schedule.weekly': 'Mingguan setiap {weekday}',
+  'schedule.yearly': 'Tahunan setiap {day} {month}',
+
+  // Periods
+  'periods.select': 'Pilih periode',
+  'periods.none': 'Belum ada periode',
+  'periods.new': 'Periode Baru',
+  'periods.edit': 'Ubah Periode',
+  'periods.nextMonth': 'Bulan Depan',
+  'periods.nextMonthTitle': 'Mulai bulan depan dari periode terakhir',
+  'periods.confirmDelete': 'Hapus periode ini? Semua kategori dan pengeluaran terkait juga akan dihapus.',
+  'periods.create': 'Buat',
+  'periods.startFrom': 'Mulai dari',
+  'periods.emptyPeriod': 'Periode kosong',
+  'periods.copyOf': 'Salinan {name}',
+  'periods.nameLabel': 'Nama Periode *',
+  'periods.namePlaceholder': 'mis. Nov 2025',
+  'periods.startDate': 'Tanggal Mulai *',
+  'periods.endDate': 'Tanggal Akhir *',
+  'periods.baseCurrency': 'Mata Uang Dasar',
+  'periods.currencyFixed': 'Mata uang dasar tidak dapat diubah setelah periode dibuat.',
+  'periods.currencyHint': 'Anggaran, pemasukan, dan ringkasan memakai mata uang ini. Pengeluaran dalam mata uang lain dikonversi ke mata uang ini.',
+  'periods.expectedSalary': 'Perkiraan Gaji ({symbol})',
+  'periods.moreIncomeHint': 'Sumber pemasukan lain dapat ditambahkan di tab Anggaran.',
+  'periods.incomeToCopy': 'Pemasukan yang disalin (sebagai diharapkan)',
+  'periods.categoriesToCopy': 'Kategori yang disalin',
+  'periods.salary': 'Gaji',
+  'periods.nameRequired': 'Nama wajib diisi',
+  'periods.datesRequired': 'Tanggal mulai dan akhir wajib diisi',
+  'periods.incomeCopyInvalid': 'Setiap pemasukan yang disalin perlu sumber dan jumlah lebih dari 0',
+  'periods.incomePositive': 'Pemasukan harus lebih dari 0',
+  'periods.categoryNameRequired': 'Setiap kategori yang disalin perlu nama',
+  'periods.budgetsPositive': 'Jumlah anggaran harus lebih dari 0',
+
+  // Settings
+  'settings.migrationErrorTitle': 'Data tersimpan tidak dapat diperbarui',
+  'settings.migrationErrorBody': 'Data asli Anda disimpan sebagai cadangan dan aplikasi dimulai kosong.',
+  'settings.migrationReadOnlyBody': 'Cadangan data asli Anda tidak dapat dibuat, jadi data itu dibiarkan dan perubahan tidak disimpan sampai Anda menghapus semua data. Unduh data itu terlebih dahulu.',
+  'settings.downloadOriginal': 'Unduh data asli',
+  'settings.retentionReportTitle': 'Periode kedaluwarsa dihapus',
+  'settings.retentionReportBody': 'Dihapus: {periods} ({portions} kategori, {expenses} pengeluaran).',
+  'settings.retentionArchived': 'Semuanya dipindahkan ke arsip.',
+  'settings.retentionNotArchived': 'Semuanya tidak diarsipkan.',
+  'settings.language': 'Bahasa',
+  'settings.languageDescription': 'Bahasa untuk tampilan, tanggal, dan angka.',
+  'settings.storageTitle': 'Penyimpanan Data',
+  'settings.storageDescription': 'Data Anda hanya disimpan di browser ini ({backend}). Setiap periode disimpan selama waktu tertentu setelah berakhir.',
+  'settings.backend.indexeddb': 'IndexedDB',
+  'settings.backend.localstorage': 'local storage',
+  'settings.created': 'Dibuat:',
+  'settings.lastUsed': 'Terakhir dipakai:',
+  'settings.periods': 'Periode:',
+  'settings.categories': 'Kategori:',
+  'settings.expenses': 'Pengeluaran:',
+  'settings.retentionTitle': 'Masa Simpan Data',
+  'settings.retentionDescription': 'Periode dihapus setelah berakhir lebih lama dari masa simpan.',
+  'settings.keepPeriodsFor': 'Simpan periode selama',
+  'settings.monthsAfterEnd': '{months} bulan setelah berakhir',
+  'settings.archiveExpired': 'Pindahkan periode kedaluwarsa ke arsip',
+  'settings.expiringWithin': 'Kedaluwarsa dalam {days} hari',
+  'settings.noneExpiring': 'Tidak ada periode yang akan kedaluwarsa.',
+  'settings.expiredPending': 'kedaluwarsa, dihapus saat dibuka berikutnya',
+  'settings.expiresOn': 'kedaluwarsa {date} ({days} hari)',
+  'settings.removeExpired': 'Hapus yang kedaluwarsa sekarang',
+  'settings.archiveTitle': 'Arsip',
+  'settings.archiveDescription': 'Periode kedaluwarsa yang disimpan dalam bentuk ringkas. {count} periode diarsipkan.',
+  'settings.exportArchive': 'Ekspor Arsip',
+  'settings.clearArchive': 'Kosongkan Arsip',
+  'settings.exportTitle': 'Ekspor Data',
+  'settings.exportDescription': 'Unduh semua data sebagai file JSON untuk cadangan, atau CSV untuk spreadsheet.',
+  'settings.exportJson': 'Ekspor JSON',
+  'settings.exportCsv': 'Ekspor CSV',
+  'settings.exportEncrypted': 'Ekspor Terenkripsi',
+  'settings.exportEncryptedTitle': 'Ekspor Terenkripsi',
+  'settings.exportEncryptedDescription': 'File hasil ekspor hanya dapat diimpor dengan frasa sandi ini.',
+  'settings.exportScope': 'Ekspor',
+  'settings.exportScopeProfile': 'Profil ini ({name})',
+  'settings.exportScopeAll': 'Semua profil',
+  'settings.importTitle': 'Impor Data',
+  'settings.importDescription': 'Pulihkan data dari file JSON hasil ekspor, dengan mengganti semua data atau menggabungkannya.',
+  'settings.importJson': 'Impor JSON',
+  'settings.clearTitle': 'Hapus Semua Data',
+  'settings.clearDescription': 'Hapus semua periode, kategori, dan pengeluaran. Selama tab ini belum ditutup, Urungkan dapat mengembalikannya.',
+  'settings.clearConfirmTitle': 'Hapus Semua Data?',
+  'settings.clearConfirmBody': 'Semua periode, kategori anggaran, dan pengeluaran Anda akan dihapus. Urungkan hanya dapat memulihkannya sampai tab ini ditutup, jadi ekspor cadangan terlebih dahulu jika mungkin masih diperlukan.',
+  'settings.clearConfirm': 'Ya, Hapus Semua',
+
+  // Exchange rates
+  'rates.title': 'Kurs',
+  'rates.description': 'Kurs untuk mengisi otomatis pengeluaran dalam mata uang asing. Diisi manual dan disimpan di perangkat ini.',
+  'rates.none': 'Belum ada kurs tersimpan.',
+  'rates.updated': 'Diperbarui {date}',
+  'rates.from': 'Dari',
+  'rates.to': 'Ke',
+  'rates.rate': 'Kurs',
+  'rates.save': 'Simpan Kurs',
+  'rates.confirmDelete': 'Hapus kurs {currency} ke {base}?',
+  'rates.sameCurrency': 'Pilih dua mata uang yang berbeda',
+  'rates.ratePositive': 'Kurs harus lebih dari 0',
+
+  // JSON import
+  'import.title': 'Impor Data',
+  'import.replaceDescription': 'Tempel data JSON hasil ekspor di bawah. Semua data saat ini akan diganti.',
+  'import.mergeDescription': 'Tempel ekspor lain di bawah, mis. dari perangkat kedua. Data baru ditambahkan; data dengan id yang sama, atau nama dan tanggal yang sama, dibandingkan terlebih dahulu.',
+  'import.mode': 'Mode',
+  'import.modeReplace': 'Ganti semua data',
+  'import.modeMerge': 'Gabungkan ke data saat ini',
+  'import.moreIssues': '…dan {count} lainnya',
+  'import.placeholder': 'Tempel JSON di sini...',
+  'import.previewSummary': 'Menambahkan {periods} periode, {incomes} pemasukan, {portions} kategori, dan {expenses} pengeluaran. {unchanged} data sudah sama.',
+  'import.conflicts': '{count} konflik:',
+  'import.conflictTitle': '{kind} "{name}"',
+  'import.matchedByDetails': 'Dicocokkan menurut nama dan tanggal',
+  'import.previewMatched': '{count} data dicocokkan menurut nama dan tanggal, bukan id.',
+  'import.field': 'Kolom',
+  'import.currentVersion': 'Saat ini',
+  'import.importedVersion': 'Impor',
+  'import.forConflicts': 'Untuk data yang konflik',
+  'import.keepExisting': 'Pertahankan versi saya',
+  'import.useIncoming': 'Pakai versi yang diimpor',
+  'import.encrypted': 'File ini terenkripsi. Masukkan frasa sandinya untuk melanjutkan.',
+  'import.decrypt': 'Dekripsi',
+  'import.profilesFile': 'File ini berisi {count} profil: {names}. Semuanya akan ditambahkan sebagai profil baru; profil yang terbuka tidak diubah.',
+  'import.addProfiles': 'Tambahkan profil',
+  'import.import': 'Impor',
+  'import.previewMerge': 'Pratinjau Penggabungan',
+  'import.applyMerge': 'Terapkan Penggabungan',
+  'import.invalidJson': 'JSON tidak valid',
+  'import.kind.period': 'periode',
+  'import.kind.income': 'pemasukan',
+  'import.kind.portion': 'kategori',
+  'import.kind.expense': 'pengeluaran',
+
+  // CSV export
+  'csv.title': 'Ekspor CSV',
+  'csv.description': 'Unduh spreadsheet pengeluaran atau anggaran vs realisasi per kategori.',
+  'csv.sheet': 'Lembar',
+  'csv.sheetExpenses': 'Pengeluaran',
+  'csv.sheetSummary': 'Anggaran vs realisasi per kategori',
+  'csv.scope': 'Cakupan',
+  'csv.scopeFiltered': 'Filter saat ini',
+  'csv.scopeActive': 'Periode aktif',
+  'csv.scopeAll': 'Semua periode',
+
+  // Statement import
+  'statement.title': 'Impor Mutasi',
+  'statement.sourceDescription': 'Muat file CSV mutasi dari bank atau e-wallet Anda.',
+  'statement.mappingDescription': 'Tentukan kolom yang berisi tanggal, keterangan, dan jumlah.',
+  'statement.reviewDescription': 'Periksa transaksi sebelum ditambahkan ke {period}.',
+  'statement.profile': 'Profil bank / e-wallet',
+  'statement.newMapping': 'Pemetaan baru',
+  'statement.file': 'File CSV',
+  'statement.pastePlaceholder': '...atau tempel isi CSV di sini',
+  'statement.dateColumn': 'Kolom tanggal',
+  'statement.descriptionColumn': 'Kolom keterangan',
+  'statement.amountColumn': 'Kolom jumlah',
+  'statement.column': 'Kolom {index}',
+  'statement.dateFormat': 'Format tanggal',
+  'statement.spendingShownAs': 'Pengeluaran ditulis sebagai',
+  'statement.negativeAmounts': 'Jumlah negatif',
+  'statement.positiveAmounts': 'Jumlah positif',
+  'statement.separator': 'Pemisah',
+  'statement.comma': 'Koma (,)',
+  'statement.semicolon': 'Titik koma (;)',
+  'statement.tab': 'Tab',
+  'statement.hasHeader': 'Baris pertama adalah judul kolom',
+  'statement.saveAs': 'Simpan pemetaan sebagai',
+  'statement.saveAsPlaceholder': 'mis. BCA, GoPay (kosongkan jika tidak disimpan)',
+  'statement.selectedSummary': '{selected} dari {total} baris dipilih, total {amount}',
+  'statement.review': 'Periksa',
+  'statement.addExpenses': 'Tambah {count} Pengeluaran',
+  'statement.status.ok': 'Baru',
+  'statement.status.duplicate': 'Mungkin duplikat',
+  'statement.status.outside-period': 'Di luar periode',
+  'statement.status.invalid': 'Tanggal atau jumlah tidak valid',
+  'statement.status.credit': 'Uang masuk',
+  'statement.noContent': 'Pilih file atau tempel mutasi terlebih dahulu',
+  'statement.noRows': 'Tidak ada baris yang cocok dengan pemetaan ini',
+  'statement.rowsNeedCategory': 'Setiap baris yang dipilih perlu kategori',
+  'statement.importedTransaction': 'Transaksi impor',
+
+  // Undo history
+  'history.undo': 'Urungkan',
+  'history.redo': 'Ulangi',
+  'history.undoTitle': 'Urungkan: {action} (Ctrl+Z)',
+  'history.redoTitle': 'Ulangi: {action} (Ctrl+Shift+Z)',
+  'history.action.addPeriod': 'Periode ditambahkan',
+  'history.action.updatePeriod': 'Periode diubah',
+  'history.action.deletePeriod': 'Periode dihapus',
+  'history.action.addIncome': 'Pemasukan ditambahkan',
+  'history.action.updateIncome': 'Pemasukan diubah',
+  'history.action.deleteIncome': 'Pemasukan dihapus',
+  'history.action.addPortion': 'Kategori ditambahkan',
+  'history.action.updatePortion': 'Kategori diubah',
+  'history.action.deletePortion': 'Kategori beserta pengeluarannya dihapus',
+  'history.action.addExpense': 'Pengeluaran ditambahkan',
+  'history.action.updateExpense': 'Pengeluaran diubah',
+  'history.action.deleteExpense': 'Pengeluaran dihapus',
+  'history.action.addRecurringExpense': 'Pengeluaran rutin ditambahkan',
+  'history.action.updateRecurringExpense': 'Pengeluaran rutin diubah',
+  'history.action.deleteRecurringExpense': 'Pengeluaran rutin dihapus',
+  'history.action.saveImportProfile': 'Pemetaan mutasi disimpan',
+  'history.action.deleteImportProfile': 'Pemetaan mutasi dihapus',
+  'history.action.saveExchangeRate': 'Kurs disimpan',
+  'history.action.deleteExchangeRate': 'Kurs dihapus',
+  'history.action.runRetention': 'Periode kedaluwarsa dihapus',
+  'history.action.clearArchive': 'Arsip dikosongkan',
+  'history.action.clearAlertHistory': 'Riwayat peringatan dihapus',
+  'history.action.importData': 'Data diimpor',
+  'history.action.mergeImportData': 'Data digabungkan',
+  'history.action.clearData': 'Semua data dihapus',
+
+  // Server sync
+  'sync.title': 'Sinkronisasi Server',
+  'sync.description': 'Opsional: simpan juga periode, kategori, dan pengeluaran di server sinkronisasi. Perubahan saat offline diantrekan dan dikirim begitu server dapat dijangkau.',
+  'sync.serverUrl': 'URL server',
+  'sync.urlHint': 'Untuk uji coba lokal, jalankan "npm run mock-server" dan gunakan {url}.',
+  'sync.enable': 'Sinkronkan dengan server ini',
+  'sync.offNote': 'Mematikan sinkronisasi membuang perubahan yang masih antre. Menyalakannya lagi mengunggah data di browser ini dan menggabungkan data yang ada di server.',
+  'sync.syncNow': 'Sinkronkan sekarang',
+  'sync.status.disabled': 'Sinkronisasi mati',
+  'sync.status.syncing': 'Menyinkronkan…',
+  'sync.status.synced': 'Tersinkron',
+  'sync.status.pending': 'Ada perubahan antre',
+  'sync.status.offline': 'Offline',
+  'sync.status.error': 'Sinkronisasi gagal',
+  'sync.pending': '{count} perubahan menunggu dikirim',
+  'sync.lastSynced': 'Terakhir disinkronkan: {time}',
+  'sync.neverSynced': 'Belum pernah disinkronkan',
+  'sync.unreachable': 'Server sinkronisasi tidak dapat dijangkau. Perubahan disimpan dan dikirim nanti.',
+  'sync.serverError': 'Server sinkronisasi menjawab dengan HTTP {status}.',
+  'sync.invalidResponse': 'Server sinkronisasi mengirim jawaban yang tidak terduga untuk {resource}.',
+
+  // Cross-tab sync
+  'tabSync.conflictTitle': 'Diubah di tab lain',
+  'tabSync.conflictBody': '{collection} "{name}" diubah di tab lain saat Anda mengubahnya di sini.',
+  'tabSync.conflictDeletedHere': '{collection} "{name}" diubah di tab lain setelah Anda menghapusnya di sini.',
+  'tabSync.conflictDeletedThere': '{collection} "{name}" dihapus di tab lain saat Anda mengubahnya di sini.',
+  'tabSync.keepLocal': 'Pakai versi tab ini',
+  'tabSync.keepRemote': 'Pakai versi tab lain',
+  'tabSync.collection.periods': 'Periode',
+  'tabSync.collection.incomes': 'Pemasukan',
+  'tabSync.collection.portions': 'Kategori',
+  'tabSync.collection.expenses': 'Pengeluaran',
+  'tabSync.collection.recurringExpenses': 'Pengeluaran berulang',
+  'tabSync.collection.importProfiles': 'Pemetaan mutasi',
+  'tabSync.collection.exchangeRates': 'Kurs',
+  'tabSync.collection.alertHistory': 'Peringatan kategori',
+
+  // Passphrase lock
+  'lock.unlockTitle': 'Anggaran terkunci',
+  'lock.unlockDescription': 'Masukkan frasa sandi untuk membuka anggaran Anda.',
+  'lock.passphrase': 'Frasa sandi',
+  'lock.unlock': 'Buka',
+  'lock.unlocking': 'Membuka…',
+  'lock.forgot': 'Lupa frasa sandi?',
+  'lock.forgotBody': 'Tanpa frasa sandi, data di browser ini tidak dapat dipulihkan. Anda dapat menghapusnya dan memulai dari awal; ekspor terenkripsi tetap dapat diimpor nanti dengan frasa sandinya sendiri.',
+  'lock.erase': 'Hapus semua data',
+  'lock.title': 'Kunci Frasa Sandi',
+  'lock.description': 'Enkripsi data di browser ini dengan frasa sandi, yang diminta setiap kali aplikasi dibuka.',
+  'lock.enabledNote': 'Data Anda terenkripsi. Selama kunci aktif, riwayat urungkan dan antrean sinkronisasi tidak disimpan saat halaman dimuat ulang.',
+  'lock.warning': 'Jika Anda lupa frasa sandi, data tidak dapat dipulihkan. Ekspor cadangan terlebih dahulu.',
+  'lock.newPassphrase': 'Frasa sandi baru',
+  'lock.confirmPassphrase': 'Ulangi frasa sandi',
+  'lock.currentPassphrase': 'Frasa sandi saat ini',
+  'lock.enable': 'Aktifkan kunci',
+  'lock.disable': 'Matikan kunci',
+  'lock.lockNow': 'Kunci sekarang',
+  'lock.working': 'Mohon tunggu…',
+  'lock.autoLock': 'Kunci otomatis',
+  'lock.autoLockNever': 'Tidak pernah',
+  'lock.autoLockMinutes': 'Setelah {minutes} menit tidak aktif',
+  'lock.tooShort': 'Gunakan minimal {min} karakter',
+  'lock.mismatch': 'Frasa sandi tidak sama',
+
+  // Profiles
+  'profiles.defaultName': 'Anggaran saya',
+  'profiles.select': 'Profil',
+  'profiles.manage': 'Kelola profil',
+  'profiles.title': 'Profil',
+  'profiles.description': 'Setiap profil adalah anggaran terpisah dengan periode, kategori, pengeluaran, dan pengaturannya sendiri.',
+  'profiles.open': '(terbuka)',
+  'profiles.rename': 'Ganti nama',
+  'profiles.duplicate': 'Duplikat',
+  'profiles.delete': 'Hapus profil',
+  'profiles.new': 'Profil baru',
+  'profiles.namePlaceholder': 'mis., Rumah tangga',
+  'profiles.add': 'Tambah',
+  'profiles.copyName': '{name} (salinan)',
+  'profiles.confirmDelete': 'Hapus profil "{name}" beserta semua datanya? Tindakan ini tidak dapat dibatalkan.',
+  'profiles.nameRequired': 'Nama profil wajib diisi',
+  'profiles.defaultNotDeletable': 'Profil pertama tidak dapat dihapus',
+  'profiles.activeNotDeletable': 'Beralih ke profil lain sebelum menghapus profil ini',
+
+  // Service errors
+  'errors.saveFailed': 'Gagal menyimpan data. Penyimpanan mungkin penuh.',
+  'errors.loadFailed': 'Data tersimpan tidak dapat dibaca. Tidak ada yang diubah; muat ulang untuk mencoba lagi. ({reason})',
+  'errors.wrongPassphrase': 'Frasa sandi salah, atau data rusak.',
+  'errors.locked': 'Data terenkripsi. Buka kuncinya terlebih dahulu.',
+  'errors.encryptedImport': 'File ini terenkripsi. Masukkan frasa sandinya untuk mengimpor.',
+  'errors.profilesImport': 'File ini berisi beberapa profil, yang hanya dapat ditambahkan sebagai profil baru.',
+  'errors.invalidJson': 'Format JSON tidak valid. Periksa kembali data Anda.',
+  'errors.upgradeFailed': 'Data yang diimpor tidak dapat diperbarui. {reason}',
+  'errors.noData': 'Data belum dimuat',
+  'errors.notObject': 'Data bukan objek',
+  'errors.unknownVersion': 'Versi data "{version}" tidak dikenal. Data mungkin berasal dari versi aplikasi yang lebih baru.',
+  'errors.migrationFailed': 'Migrasi {step} ({description}) gagal: {reason}',
+  'errors.migrationVersion': 'Migrasi {step} tidak mengubah versi menjadi {version}',
+
+  // Validation
+  'validation.summary': 'Data yang diimpor memiliki {count} masalah.',
+  'validation.mustBeObject': 'harus berupa objek',
+  'validation.mustBeList': 'harus berupa daftar',
+  'validation.dataMustBeObject': 'Data harus berupa objek',
+  'validation.missing': 'tidak ada',
+  'validation.duplicateId': 'id "{id}" ganda',
+  'validation.required': 'wajib diisi',
+  'validation.date': 'harus berupa tanggal (YYYY-MM-DD)',
+  'validation.endBeforeStart': 'sebelum tanggal mulai',
+  'validation.currencyCode': 'harus berupa kode mata uang tiga huruf',
+  'validation.unknownPeriod': 'merujuk ke periode tidak dikenal "{id}"',
+  'validation.unknownCategory': 'merujuk ke kategori tidak dikenal "{id}"',
+  'validation.differentPeriod': 'berada di periode yang berbeda dengan pengeluaran',
+  'validation.positive': 'harus berupa angka lebih dari 0',
+  'validation.nonNegative': 'harus berupa angka 0 atau lebih',
+  'validation.text': 'harus berupa teks',
+  'validation.thresholds': 'harus berupa daftar persentase di atas 0',
+  'validation.oneOf': 'harus salah satu dari {values}',
+  'validation.wholeNumber': 'harus bilangan bulat dari {min} sampai {max}',
+  'validation.boolean': 'harus true atau false',
+  'validation.dateList': 'harus berupa daftar tanggal (YYYY-MM-DD)'
+};
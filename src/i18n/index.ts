@@ -0,0 +1,58 @@
+/**
+ * =============================================================================
+ * TRANSLATIONS
+ * Message catalogs per language and the active language, which also drives
+ * date and number formatting in src/utils/formatters.ts.
+ * =============================================================================
+ */
+
+import { Language } from '@/types';
+import { en } from '@/i18n/en';
+import { id } from '@/i18n/id';
+
+export type MessageKey = keyof typeof en;
+
+/** A complete catalog: every key of the English catalog */
+export type Messages = Record<MessageKey, string>;
+
+export type MessageParams = Record<string, string | number>;
+
+export const LANGUAGES: { code: Language; label: string; locale: string }[] = [
+  { code: 'id', label: 'Bahasa Indonesia', locale: 'id-ID' },
+  { code: 'en', label: 'English', locale: 'en-US' }
+];
+
+const CATALOGS: Record<Language, Messages> = { en, id };
+
+let activeLanguage: Language = detectLanguage();
+
+/** Language from the browser settings, English unless it prefers Indonesian */
+export function detectLanguage(): Language {
+  const preferred = typeof navigator !== 'undefined' ? navigator.language : '';
+  return preferred.toLowerCase().startsWith('id') ? 'id' : 'en';
+}
+
+export function getActiveLanguage(): Language {
+  return activeLanguage;
+}
+
+export function setActiveLanguage(language: Language): void {
+  activeLanguage = language;
+}
+
+/** BCP 47 locale for Intl formatting, e.g. "id-ID" */
+export function getLocale(language: Language = activeLanguage): string {
+  return LANGUAGES.find(l => l.code === language)?.locale || 'en-US';
+}
+
+/** Message for `key` in `language`, with {placeholders} filled from `params` */
+export function translate(language: Language, key: MessageKey, params?: MessageParams): string {
+  const message = CATALOGS[language][key] ?? en[key];
+  if (!params) return message;
+  return message.replace(/\{(\w+)\}/g, (match, name: string) => (name in params ? String(params[name]) : match));
+}
+
+/** Message for `key` in the active language */
+export function t(key: MessageKey, params?: MessageParams): string {
+  return translate(activeLanguage, key, params);
+}
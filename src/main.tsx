@@ -1,10 +1,19 @@
 import React from 'react'
 import ReactDOM from 'react-dom/client'
 import App from './App'
+import { LockProvider } from './hooks/useLock'
+import { LockGate } from './components/LockGate'
+import { ProfileProvider } from './hooks/useProfiles'
 import './index.css'
 
 ReactDOM.createRoot(document.getElementById('root')!).render(
   <React.StrictMode>
-    <App />
+    <LockProvider>
+      <LockGate>
+        <ProfileProvider>
+          <App />
+        </ProfileProvider>
+      </LockGate>
+    </LockProvider>
   </React.StrictMode>,
 )
@@ -0,0 +1,116 @@
+/**
+ * =============================================================================
+ * CATEGORY ALERTS
+ * Each portion has thresholds in percent of its available amount (budget plus
+ * carry-over). When adding or editing an expense takes a portion's spending
+ * across one of them, an alert is recorded in the alert history, shown in the
+ * app and, if allowed, as a browser notification.
+ * =============================================================================
+ */
+
+import { AppData, Portion, PortionAlert } from '@/types';
+import { calculatePortionSummary } from '@/services/dataService';
+import { calculateCarriedIn } from '@/services/carryOver';
+import { formatPercent, generateId } from '@/utils/formatters';
+import { t } from '@/i18n';
+
+/** Thresholds of portions that have none set */
+export const DEFAULT_ALERT_THRESHOLDS = [80, 100];
+
+/** Alerts kept in the history; the oldest go first */
+export const MAX_ALERT_HISTORY = 200;
+
+export function getAlertThresholds(portion: Portion): number[] {
+  return portion.alertThresholds ?? DEFAULT_ALERT_THRESHOLDS;
+}
+
+/** Thresholds as typed in a form, e.g. "50, 80, 100"; null when any part is not a percentage above 0 */
+export function parseAlertThresholds(text: string): number[] | null {
+  const parts = text.split(/[,;\s]+/).map(part => part.replace('%', '')).filter(Boolean);
+  const values = parts.map(Number);
+  if (values.some(v => !Number.isFinite(v) || v <= 0)) return null;
+  return [...new Set(values)].sort((a, b) => a - b);
+}
+
+export function formatAlertThresholds(thresholds: number[]): string {
+  return thresholds.join(', ');
+}
+
+function percentUsed(data: AppData, portion: Portion): number {
+  const carriedIn = calculateCarriedIn(portion, data.periods, data.portions, data.expenses);
+  return calculatePortionSummary(portion, data.expenses.filter(e => e.periodId === portion.periodId), carriedIn).percentUsed;
+}
+
+/** Alerts for thresholds of `portionIds` that spending crossed going from `before` to `after` */
+export function detectThresholdCrossings(
+  before: AppData,
+  after: AppData,
+  portionIds: string[],
+  now: string = new Date().toISOString()
+): PortionAlert[] {
+  const alerts: PortionAlert[] = [];
+  [...new Set(portionIds)].forEach(id => {
+    const portion = after.portions.find(p => p.id === id);
+    const previous = before.portions.find(p => p.id === id);
+    if (!portion) return;
+    const was = previous ? percentUsed(before, previous) : 0;
+    const is = percentUsed(after, portion);
+    getAlertThresholds(portion)
+      .filter(threshold => was < threshold && is >= threshold)
+      .forEach(threshold => alerts.push({
+        id: generateId(),
+        periodId: portion.periodId,
+        portionId: portion.id,
+        portionName: portion.name,
+        threshold,
+        percentUsed: is,
+        triggeredAt: now
+      }));
+  });
+  return alerts;
+}
+
+/** `after` with alerts for any thresholds crossed by the change added to its history */
+export function withThresholdAlerts(before: AppData, after: AppData, portionIds: string[]): AppData {
+  const alerts = detectThresholdCrossings(before, after, portionIds);
+  if (alerts.length === 0) return after;
+  return { ...after, alertHistory: [...(after.alertHistory || []), ...alerts].slice(-MAX_ALERT_HISTORY) };
+}
+
+/** One-line description of an alert, e.g. "Food passed 80% of its budget (83.5% used)" */
+export function describeAlert(alert: PortionAlert): string {
+  return t('alerts.crossed', {
+    name: alert.portionName,
+    threshold: `${alert.threshold}%`,
+    percent: formatPercent(alert.percentUsed)
+  });
+}
+
+export function notificationsSupported(): boolean {
+  return typeof window !== 'undefined' && 'Notification' in window;
+}
+
+/** Ask for permission to show notifications; resolves to whether it was granted */
+export async function requestNotificationPermission(): Promise<boolean> {
+  if (!notificationsSupported()) return false;
+  if (Notification.permission === 'granted') return true;
+  return (await Notification.requestPermission()) === 'granted';
+}
+
+/** Show an alert as a browser notification, if permission was granted */
+export async function showAlertNotification(alert: PortionAlert): Promise<void> {
+  if (!notificationsSupported() || Notification.permission !== 'granted') return;
+  const title = t('alerts.notificationTitle');
+  const options: NotificationOptions = {
+    body: describeAlert(alert),
+    tag: alert.id,
+    icon: `${import.meta.env.BASE_URL}icon-192.png`
+  };
+  // Mobile browsers only show notifications through the service worker
+  const registration = 'serviceWorker' in navigator ? await navigator.serviceWorker.getRegistration() : undefined;
+  if (registration) {
+    await registration.showNotification(title, options);
+  } else {
+    new Notification(title, options);
+  }
+}
@@ -0,0 +1,97 @@
+/**
+ * =============================================================================
+ * DAILY ALLOWANCE
+ * "Safe to spend today": what is left of a portion at the start of today,
+ * less the commitments still to come in the period, spread over the days
+ * left until the period's end. Commitments are expenses already entered for
+ * a later date and recurring expenses that will fall due after today.
+ * Today's spending is measured against the allowance rather than taken out
+ * of it, so the figure stays put through the day.
+ * =============================================================================
+ */
+
+import { Expense, Period, PortionSummary, RecurringExpense } from '@/types';
+import { getDueDates } from '@/services/recurring';
+import { ONE_DAY_MS, addDays, getCurrentDate } from '@/utils/formatters';
+
+export interface DailyAllowance {
+  /** Null for the whole period */
+  portionId: string | null;
+  /** Available at the start of today: budget plus carry-over, less spending before today */
+  remaining: number;
+  /** Scheduled and recurring expenses still due after today */
+  committed: number;
+  /** Safe to spend per day from today to the period's end; never negative */
+  perDay: number;
+  spentToday: number;
+}
+
+export interface DailyAllowances {
+  /** Days from today to the period's end, today included */
+  daysLeft: number;
+  overall: DailyAllowance;
+  portions: DailyAllowance[];
+}
+
+/** Recurring expenses of a portion that will fall due after today and are not generated or skipped yet */
+function upcomingRecurring(
+  portionName: string,
+  period: Period,
+  recurringExpenses: RecurringExpense[],
+  expenses: Expense[],
+  today: string
+): number {
+  const target = portionName.trim().toLowerCase();
+  return recurringExpenses
+    .filter(r => r.active && r.portionName.trim().toLowerCase() === target)
+    .reduce((sum, recurring) => {
+      const posted = new Set(expenses.filter(e => e.recurringId === recurring.id).map(e => e.date));
+      const skipped = new Set(recurring.skippedDates || []);
+      const due = getDueDates(recurring, addDays(today, 1), period.endDate)
+        .filter(date => !posted.has(date) && !skipped.has(date));
+      return sum + due.length * recurring.amount;
+    }, 0);
+}
+
+/** Allowance for today per portion and overall; null when today is outside the period */
+export function calculateDailyAllowances(
+  period: Period,
+  summaries: PortionSummary[],
+  expenses: Expense[],
+  recurringExpenses: RecurringExpense[] = [],
+  today: string = getCurrentDate()
+): DailyAllowances | null {
+  if (today < period.startDate || today > period.endDate) return null;
+  const daysLeft = Math.round((Date.parse(period.endDate) - Date.parse(today)) / ONE_DAY_MS) + 1;
+
+  const portions = summaries.map(summary => {
+    const portionExpenses = expenses.filter(e => e.portionId === summary.portion.id);
+    const total = (match: (date: string) => boolean) =>
+      portionExpenses.filter(e => match(e.date)).reduce((sum, e) => sum + e.amount, 0);
+
+    const remaining = summary.available - total(date => date < today);
+    const committed = total(date => date > today)
+      + upcomingRecurring(summary.portion.name, period, recurringExpenses, expenses, today);
+    return {
+      portionId: summary.portion.id,
+      remaining,
+      committed,
+      perDay: Math.max((remaining - committed) / daysLeft, 0),
+      spentToday: total(date => date === today)
+    };
+  });
+
+  const remaining = portions.reduce((sum, p) => sum + p.remaining, 0);
+  const committed = portions.reduce((sum, p) => sum + p.committed, 0);
+  return {
+    daysLeft,
+    overall: {
+      portionId: null,
+      remaining,
+      committed,
+      perDay: Math.max((remaining - committed) / daysLeft, 0),
+      spentToday: portions.reduce((sum, p) => sum + p.spentToday, 0)
+    },
+    portions
+  };
+}
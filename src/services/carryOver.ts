@@ -0,0 +1,55 @@
+/**
+ * =============================================================================
+ * CARRY-OVER
+ * Rolls a portion's leftover or overspent balance into the portion with the
+ * same name in the next period, according to the source portion's policy.
+ * Balances chain, so envelope-style categories build up across periods.
+ * Nothing carries between periods kept in different base currencies.
+ * =============================================================================
+ */
+
+import { CarryOverPolicy, Expense, Period, Portion } from '@/types';
+import { findPortionByName, getPreviousPeriod } from '@/services/periods';
+import { getPeriodCurrency } from '@/services/exchangeRates';
+
+/** Part of a closing balance that moves on under a policy */
+export function applyCarryOverPolicy(balance: number, policy: CarryOverPolicy = 'none'): number {
+  switch (policy) {
+    case 'surplus':
+      return Math.max(balance, 0);
+    case 'deficit':
+      return Math.min(balance, 0);
+    case 'both':
+      return balance;
+    default:
+      return 0;
+  }
+}
+
+/** Amount carried into `portion` from the matching portion of the previous period */
+export function calculateCarriedIn(
+  portion: Portion,
+  periods: Period[],
+  portions: Portion[],
+  expenses: Expense[],
+  cache: Map<string, number> = new Map()
+): number {
+  const cached = cache.get(portion.id);
+  if (cached !== undefined) return cached;
+
+  const period = periods.find(p => p.id === portion.periodId);
+  const previousPeriod = period && getPreviousPeriod(periods, period);
+  const source = previousPeriod && getPeriodCurrency(previousPeriod) === getPeriodCurrency(period)
+    ? findPortionByName(portions, previousPeriod.id, portion.name)
+    : undefined;
+
+  let carriedIn = 0;
+  if (source && source.carryOver && source.carryOver !== 'none') {
+    const sourceCarriedIn = calculateCarriedIn(source, periods, portions, expenses, cache);
+    const used = expenses.filter(e => e.portionId === source.id).reduce((sum, e) => sum + e.amount, 0);
+    carriedIn = applyCarryOverPolicy(source.budgetAmount + sourceCarriedIn - used, source.carryOver);
+  }
+
+  cache.set(portion.id, carriedIn);
+  return carriedIn;
+}
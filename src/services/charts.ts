@@ -0,0 +1,90 @@
+/**
+ * =============================================================================
+ * CHART DATA
+ * Series for the Dashboard charts: spending per day and accumulated over a
+ * period next to an even burn of the budget, and each portion's share of
+ * what was spent.
+ * =============================================================================
+ */
+
+import { Expense, Period, PortionSummary } from '@/types';
+import { ONE_DAY_MS, getCurrentDate, toDateString } from '@/utils/formatters';
+
+export interface SpendingDay {
+  /** YYYY-MM-DD */
+  date: string;
+  spent: number;
+  /** Spent from the start of the period up to and including this day; null for days still to come */
+  cumulative: number | null;
+  /** Spent by the end of this day if the budget were used evenly */
+  ideal: number;
+}
+
+export interface SpendingSeries {
+  days: SpendingDay[];
+  /** Budget plus carried-in balances, spread evenly over the days */
+  available: number;
+  /** Even share of the budget per day */
+  dailyAllowance: number;
+  /** Index of today in `days`; -1 when today is outside the period */
+  todayIndex: number;
+}
+
+export interface PortionSlice {
+  portionId: string;
+  name: string;
+  amount: number;
+  /** Fraction of everything spent in the period, 0 to 1 */
+  share: number;
+}
+
+/** Every date from the period's start to its end, inclusive */
+export function getPeriodDays(period: Period): string[] {
+  const start = Date.parse(period.startDate);
+  const end = Date.parse(period.endDate);
+  if (isNaN(start) || isNaN(end) || end < start) return [];
+  const days: string[] = [];
+  for (let time = start; time <= end; time += ONE_DAY_MS) {
+    days.push(toDateString(new Date(time)));
+  }
+  return days;
+}
+
+/** Daily and accumulated spending of a period against an even burn of `available` */
+export function buildSpendingSeries(period: Period, expenses: Expense[], available: number): SpendingSeries {
+  const dates = getPeriodDays(period);
+  const byDay = new Map<string, number>();
+  expenses
+    .filter(e => e.periodId === period.id)
+    .forEach(e => byDay.set(e.date, (byDay.get(e.date) || 0) + e.amount));
+
+  const today = getCurrentDate();
+  let total = 0;
+  const days = dates.map((date, i) => {
+    const spent = byDay.get(date) || 0;
+    total += spent;
+    return {
+      date,
+      spent,
+      cumulative: date <= today ? total : null,
+      ideal: dates.length > 0 ? (available * (i + 1)) / dates.length : 0
+    };
+  });
+
+  return {
+    days,
+    available,
+    dailyAllowance: dates.length > 0 ? available / dates.length : 0,
+    todayIndex: dates.indexOf(today)
+  };
+}
+
+/** What each portion spent, largest first; portions with nothing spent are left out */
+export function buildPortionBreakdown(summaries: PortionSummary[]): PortionSlice[] {
+  const total = summaries.reduce((sum, s) => sum + Math.max(s.used, 0), 0);
+  if (total <= 0) return [];
+  return summaries
+    .filter(s => s.used > 0)
+    .map(s => ({ portionId: s.portion.id, name: s.portion.name, amount: s.used, share: s.used / total }))
+    .sort((a, b) => b.amount - a.amount);
+}
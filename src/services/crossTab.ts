@@ -0,0 +1,187 @@
+/**
+ * =============================================================================
+ * CROSS-TAB SYNC
+ * Tabs of the app send each other the records they change, over a
+ * BroadcastChannel (or "storage" events where that is missing). A change is
+ * applied only if the receiving tab still has the record as the sender had it
+ * before the change; otherwise both tabs edited it and it becomes a conflict.
+ * =============================================================================
+ */
+
+import { AppData } from '@/types';
+import { generateId } from '@/utils/formatters';
+import { profileStorageKey } from '@/services/profiles';
+
+/** Base channel name; tabs only talk to tabs on the same profile */
+const CHANNEL_NAME = 'budget_app_v1';
+/** localStorage key used to pass messages where BroadcastChannel is unavailable */
+const FALLBACK_STORAGE_KEY = 'budget_app_v1_tab_message';
+
+/** AppData collections synced record by record */
+export const TAB_COLLECTIONS = [
+  'periods', 'incomes', 'portions', 'expenses', 'recurringExpenses', 'importProfiles', 'exchangeRates', 'alertHistory'
+] as const;
+export type TabCollection = typeof TAB_COLLECTIONS[number];
+type TabRecord = NonNullable<AppData[TabCollection]>[number];
+
+/** Other fields are taken over whole from the tab that changed them last */
+export const SHARED_FIELDS = ['settings', 'archive'] as const;
+type SharedFields = Partial<Pick<AppData, typeof SHARED_FIELDS[number]>>;
+
+/** One record as the sending tab had it before and after; null means absent */
+export interface TabChange {
+  collection: TabCollection;
+  id: string;
+  before: TabRecord | null;
+  after: TabRecord | null;
+}
+
+export interface TabMessage {
+  tabId: string;
+  changes: TabChange[];
+  fields: SharedFields;
+}
+
+/** A record changed in this tab and another tab at the same time */
+export interface TabConflict {
+  collection: TabCollection;
+  id: string;
+  /** This tab's version; null when deleted here */
+  local: TabRecord | null;
+  /** The other tab's version; null when deleted there */
+  remote: TabRecord | null;
+}
+
+/** Identifies this tab, so it ignores its own messages */
+export const TAB_ID = generateId();
+
+function records(data: AppData, collection: TabCollection): TabRecord[] {
+  return (data[collection] as TabRecord[] | undefined) || [];
+}
+
+/** The record with `id`, or null */
+export function findRecord(data: AppData, collection: TabCollection, id: string): TabRecord | null {
+  return records(data, collection).find(r => r.id === id) || null;
+}
+
+function sameRecord(a: TabRecord | null | undefined, b: TabRecord | null | undefined): boolean {
+  return a === b || JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+/** The message describing what changed from `before` to `after`; null when nothing did */
+export function diffForTabs(before: AppData, after: AppData): TabMessage | null {
+  const changes: TabChange[] = [];
+  TAB_COLLECTIONS.forEach(collection => {
+    const previous = new Map(records(before, collection).map(r => [r.id, r]));
+    const current = new Map(records(after, collection).map(r => [r.id, r]));
+    // Unchanged reference, unchanged record (see AppData)
+    current.forEach((record, id) => {
+      if (previous.get(id) !== record) changes.push({ collection, id, before: previous.get(id) || null, after: record });
+    });
+    previous.forEach((record, id) => {
+      if (!current.has(id)) changes.push({ collection, id, before: record, after: null });
+    });
+  });
+
+  const fields: SharedFields = {};
+  SHARED_FIELDS.forEach(field => {
+    if (before[field] !== after[field]) (fields as Record<string, unknown>)[field] = after[field];
+  });
+
+  if (changes.length === 0 && Object.keys(fields).length === 0) return null;
+  return { tabId: TAB_ID, changes, fields };
+}
+
+/** Put `record` in place of the record with `id`, appending it if new; null removes it */
+export function replaceRecord(data: AppData, collection: TabCollection, id: string, record: TabRecord | null): AppData {
+  const list = records(data, collection);
+  const exists = list.some(r => r.id === id);
+  const next = record === null
+    ? list.filter(r => r.id !== id)
+    : exists ? list.map(r => r.id === id ? record : r) : [...list, record];
+  const updated = { ...data, [collection]: next } as AppData;
+  if (collection === 'periods' && record === null && updated.activePeriodId === id) {
+    updated.activePeriodId = updated.periods[updated.periods.length - 1]?.id;
+  }
+  return updated;
+}
+
+/**
+ * Apply another tab's message. Records this tab changed differently are left
+ * alone and reported as conflicts; returns `data` itself when nothing applies.
+ * `resolved` lists records both tabs now agree on, whose conflicts can go.
+ */
+export function applyTabMessage(data: AppData, message: TabMessage): {
+  data: AppData;
+  conflicts: TabConflict[];
+  resolved: { collection: TabCollection; id: string }[];
+} {
+  let next = data;
+  const conflicts: TabConflict[] = [];
+  const resolved: { collection: TabCollection; id: string }[] = [];
+
+  message.changes.forEach(change => {
+    const local = findRecord(next, change.collection, change.id);
+    if (sameRecord(local, change.after)) {
+      resolved.push({ collection: change.collection, id: change.id });
+    } else if (sameRecord(local, change.before)) {
+      next = replaceRecord(next, change.collection, change.id, change.after);
+      resolved.push({ collection: change.collection, id: change.id });
+    } else {
+      conflicts.push({ collection: change.collection, id: change.id, local, remote: change.after });
+    }
+  });
+
+  if (Object.keys(message.fields).length > 0) next = { ...next, ...message.fields };
+  return { data: next, conflicts, resolved };
+}
+
+/** A short name for a record, for the conflict notice */
+export function describeRecord(record: TabRecord): string {
+  const r = record as Partial<Record<'name' | 'description' | 'source' | 'currency' | 'portionName', string>>;
+  return r.name || r.description || r.source || r.currency || r.portionName || record.id;
+}
+
+export interface TabChannel {
+  post(message: TabMessage): void;
+  close(): void;
+}
+
+/** Listen for other tabs' messages and send this tab's */
+export function openTabChannel(onMessage: (message: TabMessage) => void): TabChannel {
+  const receive = (message: TabMessage | null) => {
+    if (message && message.tabId !== TAB_ID) onMessage(message);
+  };
+
+  if (typeof BroadcastChannel !== 'undefined') {
+    const channel = new BroadcastChannel(profileStorageKey(CHANNEL_NAME));
+    channel.onmessage = (event: MessageEvent<TabMessage>) => receive(event.data);
+    return {
+      post: message => channel.postMessage(message),
+      close: () => channel.close()
+    };
+  }
+
+  // Fallback: other tabs see the write as a "storage" event; the key is removed right away
+  const fallbackKey = profileStorageKey(FALLBACK_STORAGE_KEY);
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key !== fallbackKey || !event.newValue) return;
+    try {
+      receive(JSON.parse(event.newValue) as TabMessage);
+    } catch {
+      // Not a message from this app
+    }
+  };
+  window.addEventListener('storage', handleStorage);
+  return {
+    post: message => {
+      try {
+        localStorage.setItem(fallbackKey, JSON.stringify({ ...message, nonce: generateId() }));
+        localStorage.removeItem(fallbackKey);
+      } catch {
+        // Storage full: the other tabs pick the change up on their next load
+      }
+    },
+    close: () => window.removeEventListener('storage', handleStorage)
+  };
+}
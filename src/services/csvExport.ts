@@ -0,0 +1,71 @@
+/**
+ * =============================================================================
+ * CSV EXPORT
+ * Spreadsheet-friendly exports: expense rows with names resolved and a
+ * budget-vs-actual sheet per portion. Amounts are plain numbers in each
+ * period's base currency; foreign-currency expenses also list the original.
+ * =============================================================================
+ */
+
+import { AppData, Expense } from '@/types';
+import { calculatePortionSummary } from '@/services/dataService';
+import { calculateCarriedIn } from '@/services/carryOver';
+import { getPeriodCurrency } from '@/services/exchangeRates';
+import { toCsv } from '@/utils/csv';
+
+/** Which records to export: the current expense filter, the active period or everything */
+export type CsvExportScope = 'filtered' | 'active-period' | 'all-periods';
+
+/** Which sheet to export */
+export type CsvSheet = 'expenses' | 'portion-summary';
+
+/** Expense rows with period and category names instead of ids */
+export function buildExpensesCsv(data: AppData, expenses: Expense[]): string {
+  const periodNames = new Map(data.periods.map(p => [p.id, p.name]));
+  const periodCurrencies = new Map(data.periods.map(p => [p.id, getPeriodCurrency(p)]));
+  const portionNames = new Map(data.portions.map(p => [p.id, p.name]));
+  const rows = [...expenses]
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .map(e => [
+      e.date,
+      periodNames.get(e.periodId) || '',
+      portionNames.get(e.portionId) || '',
+      e.description,
+      e.amount,
+      periodCurrencies.get(e.periodId) || '',
+      e.originalAmount ?? '',
+      e.originalCurrency || '',
+      e.exchangeRate ?? ''
+    ]);
+  return toCsv(
+    ['Date', 'Period', 'Category', 'Description', 'Amount', 'Currency', 'Original Amount', 'Original Currency', 'Exchange Rate'],
+    rows
+  );
+}
+
+/**
+ * Budget vs actual per portion for the given periods. When `expenses` is
+ * passed, "used" only counts those expenses (e.g. the current filter).
+ */
+export function buildPortionSummaryCsv(data: AppData, periodIds: string[], expenses: Expense[] = data.expenses): string {
+  const cache = new Map<string, number>();
+  const rows = data.periods
+    .filter(p => periodIds.includes(p.id))
+    .sort((a, b) => a.startDate.localeCompare(b.startDate))
+    .flatMap(period => data.portions.filter(p => p.periodId === period.id).map(portion => {
+      const carriedIn = calculateCarriedIn(portion, data.periods, data.portions, data.expenses, cache);
+      const s = calculatePortionSummary(portion, expenses, carriedIn);
+      return [
+        period.name,
+        s.portion.name,
+        s.budget,
+        s.carriedIn,
+        s.available,
+        s.used,
+        s.remaining,
+        Math.round(s.percentUsed * 10) / 10,
+        s.isOverBudget ? 'yes' : 'no'
+      ];
+    }));
+  return toCsv(['Period', 'Category', 'Budget', 'Carried In', 'Available', 'Used', 'Remaining', 'Percent Used', 'Over Budget'], rows);
+}
@@ -1,30 +1,60 @@
 /**
  * =============================================================================
  * DATA SERVICE LAYER
- * Handles all data persistence using localStorage.
+ * Loads and saves AppData through the storage adapter (IndexedDB, or
+ * localStorage as a fallback) and holds the budget calculations.
  * Designed for easy future backend integration.
  * =============================================================================
  */
 
-import { AppData, Period, Portion, Expense, PortionSummary, PeriodSummary } from '@/types';
-import { generateId, getShortMonthYear } from '@/utils/formatters';
+import {
+  AppData, AppSettings, BudgetProfile, Period, IncomeEntry, Portion, Expense, PortionSummary, PeriodSummary, IncomeSourceSummary,
+  ArchivedExpense, ArchivedPeriod, RetentionReport, PeriodExpiry
+} from '@/types';
+import { ONE_DAY_MS, generateId, getShortMonthYear, getCurrentDate, toDateString } from '@/utils/formatters';
+import { CURRENT_SCHEMA_VERSION, MigrationError, migrateAppData } from '@/services/migrations';
+import { assertValidAppData } from '@/services/validation';
+import { t } from '@/i18n';
+import { calculateCarriedIn } from '@/services/carryOver';
+import { StorageKind, destroyProfileStorage, enqueueStorageTask, getStorageAdapter } from '@/services/storage';
+import { decryptWithPassphrase, encryptWithPassphrase, isEncryptedEnvelope } from '@/services/encryption';
+import { DEFAULT_PROFILE_ID, addProfile, getProfiles, removeProfile } from '@/services/profiles';
 
-const STORAGE_KEY = 'budget_app_v1';
-const ONE_YEAR_MS = 365 * 24 * 60 * 60 * 1000;
+/** Marks a file holding several profiles, as written by exportAllProfilesAsJson */
+export const PROFILES_EXPORT_FORMAT = 'budget_app_profiles';
 
-function createEmptyAppData(): AppData {
+/** Every profile with its data, as exported together */
+export interface ProfilesExport {
+  format: typeof PROFILES_EXPORT_FORMAT;
+  version: 1;
+  exportedAt: string;
+  profiles: { name: string; data: AppData }[];
+}
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  retention: { retentionMonths: 12, archiveExpired: true }
+};
+
+export function createEmptyAppData(): AppData {
   const now = new Date().toISOString();
   return {
-    version: 'v1',
+    version: CURRENT_SCHEMA_VERSION,
     createdAt: now,
     lastUsedAt: now,
     periods: [],
+    incomes: [],
     portions: [],
     expenses: [],
-    activePeriodId: undefined
+    activePeriodId: undefined,
+    settings: DEFAULT_SETTINGS,
+    archive: []
   };
 }
 
+export function getSettings(data: AppData): AppSettings {
+  return { ...DEFAULT_SETTINGS, ...data.settings };
+}
+
 /** Generate sample seed data for first-time users */
 function generateSeedData(): AppData {
   const now = new Date();
@@ -36,11 +66,14 @@ function generateSeedData(): AppData {
   const period: Period = {
     id: periodId,
     name: getShortMonthYear(now),
-    startDate: startDate.toISOString().split('T')[0],
-    endDate: endDate.toISOString().split('T')[0],
-    incomeAmount: 10000000
+    startDate: toDateString(startDate),
+    endDate: toDateString(endDate)
   };
 
+  const incomes: IncomeEntry[] = [
+    { id: generateId(), periodId, source: 'Salary', date: period.startDate, amount: 10000000, status: 'received' }
+  ];
+
   const portions: Portion[] = [
     { id: generateId(), periodId, name: 'Food', budgetAmount: 3000000, notes: 'Daily meals and groceries' },
     { id: generateId(), periodId, name: 'Transport', budgetAmount: 1000000, notes: 'Ojek, fuel, parking' },
@@ -49,7 +82,7 @@ function generateSeedData(): AppData {
     { id: generateId(), periodId, name: 'Savings', budgetAmount: 3500000, notes: 'Emergency fund and investments' }
   ];
 
-  const today = now.toISOString().split('T')[0];
+  const today = toDateString(now);
   const expenses: Expense[] = [
     { id: generateId(), periodId, portionId: portions[0].id, date: today, description: 'Lunch nasi goreng', amount: 50000 },
     { id: generateId(), periodId, portionId: portions[0].id, date: today, description: 'Snack and coffee', amount: 30000 },
@@ -57,129 +90,403 @@ function generateSeedData(): AppData {
   ];
 
   return {
-    version: 'v1',
+    version: CURRENT_SCHEMA_VERSION,
     createdAt: now.toISOString(),
     lastUsedAt: now.toISOString(),
     periods: [period],
+    incomes,
     portions,
     expenses,
-    activePeriodId: periodId
+    activePeriodId: periodId,
+    settings: DEFAULT_SETTINGS,
+    archive: []
   };
 }
 
-function isDataExpired(data: AppData): boolean {
-  const createdAt = new Date(data.createdAt).getTime();
-  return (Date.now() - createdAt) > ONE_YEAR_MS;
+/* -----------------------------------------------------------------------------
+ * Retention
+ * Each period is kept for `retentionMonths` after its end date. Expired periods
+ * are removed together with their portions and expenses, and optionally moved
+ * into a compact archive first.
+ * -------------------------------------------------------------------------- */
+
+/** Date a period expires: its end date plus the retention window */
+export function getPeriodExpiryDate(period: Period, retentionMonths: number): string {
+  const [year, month, day] = period.endDate.split('-').map(Number);
+  const lastDayOfTargetMonth = new Date(Date.UTC(year, month - 1 + retentionMonths + 1, 0)).getUTCDate();
+  const expiry = new Date(Date.UTC(year, month - 1 + retentionMonths, Math.min(day, lastDayOfTargetMonth)));
+  return toDateString(expiry);
 }
 
-/** Load data from localStorage with 1-year retention check */
-export function loadDataFromLocalStorage(): { data: AppData; wasCleared: boolean } {
-  try {
-    const stored = localStorage.getItem(STORAGE_KEY);
-    
-    if (!stored) {
-      const seedData = generateSeedData();
-      saveDataToLocalStorage(seedData);
-      return { data: seedData, wasCleared: false };
-    }
+/** Periods expiring within the given number of days, soonest first */
+export function getUpcomingExpirations(data: AppData, withinDays: number, today: string = getCurrentDate()): PeriodExpiry[] {
+  const { retention } = getSettings(data);
+  const todayMs = new Date(today).getTime();
+  return data.periods
+    .map(period => {
+      const expiresOn = getPeriodExpiryDate(period, retention.retentionMonths);
+      const daysLeft = Math.round((new Date(expiresOn).getTime() - todayMs) / ONE_DAY_MS);
+      return { period, expiresOn, daysLeft };
+    })
+    .filter(e => e.daysLeft <= withinDays)
+    .sort((a, b) => a.expiresOn.localeCompare(b.expiresOn));
+}
+
+/** Pack an expense, adding its optional fields only when it has any */
+function packExpense(expense: Expense): ArchivedExpense {
+  const { id, periodId: _periodId, portionId, date, description, amount, ...rest } = expense;
+  const extras = Object.fromEntries(Object.entries(rest).filter(([, value]) => value !== undefined));
+  return Object.keys(extras).length > 0
+    ? [id, portionId, date, description, amount, extras]
+    : [id, portionId, date, description, amount];
+}
+
+function archivePeriod(period: Period, incomes: IncomeEntry[], portions: Portion[], expenses: Expense[]): ArchivedPeriod {
+  return {
+    period,
+    incomes,
+    portions,
+    expenses: expenses.map(packExpense),
+    archivedAt: new Date().toISOString()
+  };
+}
+
+/** Expand an archived period back into regular records */
+export function unpackArchivedPeriod(
+  archived: ArchivedPeriod
+): { period: Period; incomes: IncomeEntry[]; portions: Portion[]; expenses: Expense[] } {
+  return {
+    period: archived.period,
+    incomes: archived.incomes || [],
+    portions: archived.portions,
+    expenses: archived.expenses.map(([id, portionId, date, description, amount, extras]) => ({
+      id, periodId: archived.period.id, portionId, date, description, amount, ...extras
+    }))
+  };
+}
+
+/** Remove periods past their retention window. Returns null report when nothing expired. */
+export function applyRetention(data: AppData, today: string = getCurrentDate()): { data: AppData; report: RetentionReport | null } {
+  const { retention } = getSettings(data);
+  const expired = data.periods.filter(p => getPeriodExpiryDate(p, retention.retentionMonths) <= today);
+  if (expired.length === 0) return { data, report: null };
+
+  const expiredIds = new Set(expired.map(p => p.id));
+  const removedIncomes = data.incomes.filter(i => expiredIds.has(i.periodId));
+  const removedPortions = data.portions.filter(p => expiredIds.has(p.periodId));
+  const removedExpenses = data.expenses.filter(e => expiredIds.has(e.periodId));
 
-    const data: AppData = JSON.parse(stored);
-    
-    if (isDataExpired(data)) {
-      const freshData = createEmptyAppData();
-      saveDataToLocalStorage(freshData);
-      return { data: freshData, wasCleared: true };
+  const newArchive = retention.archiveExpired
+    ? expired.map(period => archivePeriod(
+        period,
+        removedIncomes.filter(i => i.periodId === period.id),
+        removedPortions.filter(p => p.periodId === period.id),
+        removedExpenses.filter(e => e.periodId === period.id)
+      ))
+    : [];
+
+  const periods = data.periods.filter(p => !expiredIds.has(p.id));
+  const activePeriodId = data.activePeriodId && !expiredIds.has(data.activePeriodId)
+    ? data.activePeriodId
+    : [...periods].sort((a, b) => b.startDate.localeCompare(a.startDate))[0]?.id;
+
+  return {
+    data: {
+      ...data,
+      periods,
+      incomes: data.incomes.filter(i => !expiredIds.has(i.periodId)),
+      portions: data.portions.filter(p => !expiredIds.has(p.periodId)),
+      expenses: data.expenses.filter(e => !expiredIds.has(e.periodId)),
+      activePeriodId,
+      archive: [...(data.archive || []), ...newArchive]
+    },
+    report: {
+      removedPeriods: expired.map(p => ({ id: p.id, name: p.name, endDate: p.endDate })),
+      removedPortions: removedPortions.length,
+      removedExpenses: removedExpenses.length,
+      archived: retention.archiveExpired,
+      ranAt: new Date().toISOString()
     }
+  };
+}
 
-    data.lastUsedAt = new Date().toISOString();
-    saveDataToLocalStorage(data);
-    
-    return { data, wasCleared: false };
+export interface LoadResult {
+  data: AppData;
+  retentionReport: RetentionReport | null;
+  /** Set when stored data could not be migrated; the original is kept as the adapter's backup */
+  migrationError: string | null;
+  /** Set when that backup could not be written, so the original is only in the main store and must not be saved over */
+  readOnly: boolean;
+  /** Where the data is kept in this browser */
+  storage: StorageKind;
+}
+
+/**
+ * Load stored data, migrating it to the current schema and pruning periods
+ * past their retention window
+ */
+export async function loadData(): Promise<LoadResult> {
+  const { kind: storage } = await getStorageAdapter();
+  // A failing read is passed on rather than answered with fresh data, which would overwrite what is stored
+  const stored = await enqueueStorageTask(adapter => adapter.load());
+
+  if (stored === null) {
+    const seedData = generateSeedData();
+    await saveData(seedData);
+    return { data: seedData, retentionReport: null, migrationError: null, readOnly: false, storage };
+  }
+
+  let migrated: AppData;
+  try {
+    migrated = migrateAppData(stored).data;
+  } catch (err) {
+    if (!(err instanceof MigrationError)) throw err;
+    const readOnly = await enqueueStorageTask(adapter => adapter.saveBackup(stored)).then(() => false, () => true);
+    return { data: createEmptyAppData(), retentionReport: null, migrationError: err.message, readOnly, storage };
+  }
+
+  const { data, report } = applyRetention(migrated);
+  await saveData(data);
+  return { data, retentionReport: report, migrationError: null, readOnly: false, storage };
+}
+
+/**
+ * JSON of stored data that failed to migrate: the backup, or while none could
+ * be written, what is still in the main store
+ */
+export function getMigrationBackup(): Promise<string | null> {
+  return enqueueStorageTask(async adapter => {
+    const original = (await adapter.loadBackup()) ?? (await adapter.load());
+    return original === null ? null : JSON.stringify(original);
+  });
+}
+
+/** Persist data; saves run in order, each after the previous one finished */
+export function saveData(data: AppData): Promise<void> {
+  data.lastUsedAt = new Date().toISOString();
+  return enqueueStorageTask(adapter => adapter.save(data));
+}
+
+export function clearAllData(): Promise<void> {
+  return enqueueStorageTask(adapter => adapter.clear());
+}
+
+/**
+ * Add a profile holding empty data, or a copy of another profile's data.
+ * A copy starts with server sync off, so two profiles never sync the same records.
+ */
+export async function createProfile(name: string, copyFrom?: string): Promise<BudgetProfile> {
+  const stored = copyFrom ? await enqueueStorageTask(adapter => adapter.load(), copyFrom) : null;
+  const data = stored === null ? createEmptyAppData() : migrateAppData(stored).data;
+  if (data.settings?.sync) data.settings = { ...data.settings, sync: { ...data.settings.sync, enabled: false } };
+  const profile = addProfile(name);
+  await enqueueStorageTask(adapter => adapter.save(data), profile.id);
+  return profile;
+}
+
+/** Delete a profile and everything stored for it */
+export async function deleteProfile(profileId: string): Promise<void> {
+  if (profileId === DEFAULT_PROFILE_ID) throw new Error(t('profiles.defaultNotDeletable'));
+  await destroyProfileStorage(profileId);
+  removeProfile(profileId);
+}
+
+/** Export every profile with its data; with a passphrase the file is encrypted like exportDataAsJson */
+export async function exportAllProfilesAsJson(passphrase?: string): Promise<string> {
+  const profiles = await Promise.all(getProfiles().map(async profile => {
+    const stored = await enqueueStorageTask(adapter => adapter.load(), profile.id);
+    return { name: profile.name, data: stored === null ? createEmptyAppData() : migrateAppData(stored).data };
+  }));
+  const file: ProfilesExport = { format: PROFILES_EXPORT_FORMAT, version: 1, exportedAt: new Date().toISOString(), profiles };
+  return JSON.stringify(passphrase ? await encryptWithPassphrase(file, passphrase) : file, null, 2);
+}
+
+function parseProfilesExport(json: string): ProfilesExport | null {
+  try {
+    const parsed = JSON.parse(json) as ProfilesExport | null;
+    return parsed?.format === PROFILES_EXPORT_FORMAT && Array.isArray(parsed.profiles) ? parsed : null;
   } catch {
-    const freshData = generateSeedData();
-    saveDataToLocalStorage(freshData);
-    return { data: freshData, wasCleared: false };
+    return null;
   }
 }
 
-export function saveDataToLocalStorage(data: AppData): void {
+/** Names of the profiles in a file from exportAllProfilesAsJson; null for any other JSON */
+export function getExportedProfileNames(json: string): string[] | null {
+  return parseProfilesExport(json)?.profiles.map(p => String(p.name)) ?? null;
+}
+
+/**
+ * Add every profile in a file from exportAllProfilesAsJson as a new profile.
+ * All of them are validated first, so a bad file adds nothing.
+ */
+export async function importProfilesFromJson(json: string): Promise<BudgetProfile[]> {
+  const file = parseProfilesExport(json);
+  if (!file) throw new Error(t('errors.invalidJson'));
+  const entries = file.profiles.map(entry => ({
+    name: String(entry.name || '').trim() || t('profiles.defaultName'),
+    data: importDataFromJson(JSON.stringify(entry.data))
+  }));
+  const added: BudgetProfile[] = [];
+  for (const entry of entries) {
+    const profile = addProfile(entry.name);
+    await enqueueStorageTask(adapter => adapter.save(entry.data), profile.id);
+    added.push(profile);
+  }
+  return added;
+}
+
+/** Export all data; with a passphrase the file is encrypted in the same format as locked local data */
+export async function exportDataAsJson(data: AppData, passphrase?: string): Promise<string> {
+  return JSON.stringify(passphrase ? await encryptWithPassphrase(data, passphrase) : data, null, 2);
+}
+
+/** True when `json` is an encrypted export, which needs decryptImportedJson before importing */
+export function isEncryptedJson(json: string): boolean {
   try {
-    data.lastUsedAt = new Date().toISOString();
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(data));
+    return isEncryptedEnvelope(JSON.parse(json));
   } catch {
-    throw new Error('Failed to save data. Storage might be full.');
+    return false;
   }
 }
 
-export function clearAllData(): void {
-  localStorage.removeItem(STORAGE_KEY);
+/** Decrypt an encrypted export into plain JSON; throws DecryptionError for a wrong passphrase */
+export async function decryptImportedJson(json: string, passphrase: string): Promise<string> {
+  const parsed: unknown = JSON.parse(json);
+  if (!isEncryptedEnvelope(parsed)) return json;
+  return JSON.stringify(await decryptWithPassphrase(parsed, passphrase), null, 2);
+}
+
+/** Export a single period with its portions and expenses, e.g. before it expires */
+export function exportPeriodAsJson(data: AppData, periodId: string): string {
+  return JSON.stringify({
+    period: data.periods.find(p => p.id === periodId),
+    incomes: data.incomes.filter(i => i.periodId === periodId),
+    portions: data.portions.filter(p => p.periodId === periodId),
+    expenses: data.expenses.filter(e => e.periodId === periodId)
+  }, null, 2);
 }
 
-export function exportDataAsJson(data: AppData): string {
-  return JSON.stringify(data, null, 2);
+/** Export the retention archive with expenses expanded back into records */
+export function exportArchiveAsJson(data: AppData): string {
+  return JSON.stringify((data.archive || []).map(unpackArchivedPeriod), null, 2);
 }
 
+/**
+ * Parse, migrate and validate exported JSON.
+ * Throws ImportValidationError listing every problem when records are invalid.
+ */
 export function importDataFromJson(jsonString: string): AppData {
+  let parsed: unknown;
   try {
-    const data = JSON.parse(jsonString);
-    if (!data.version || !data.periods || !data.portions || !data.expenses) {
-      throw new Error('Invalid data structure');
-    }
-    data.lastUsedAt = new Date().toISOString();
-    return data as AppData;
+    parsed = JSON.parse(jsonString);
   } catch {
-    throw new Error('Invalid JSON format. Please check your data.');
+    throw new Error(t('errors.invalidJson'));
+  }
+  if (isEncryptedEnvelope(parsed)) throw new Error(t('errors.encryptedImport'));
+  if (parseProfilesExport(jsonString)) throw new Error(t('errors.profilesImport'));
+
+  let data: AppData;
+  try {
+    data = migrateAppData(parsed).data;
+  } catch (err) {
+    if (err instanceof MigrationError) throw new Error(t('errors.upgradeFailed', { reason: err.message }));
+    throw err;
   }
+  assertValidAppData(data);
+  data.lastUsedAt = new Date().toISOString();
+  return data;
 }
 
-/** Calculate summary for a single portion */
-export function calculatePortionSummary(portion: Portion, expenses: Expense[]): PortionSummary {
+/** Calculate summary for a single portion, including any balance carried in */
+export function calculatePortionSummary(portion: Portion, expenses: Expense[], carriedIn = 0): PortionSummary {
   const portionExpenses = expenses.filter(e => e.portionId === portion.id);
   const used = portionExpenses.reduce((sum, e) => sum + e.amount, 0);
-  const remaining = portion.budgetAmount - used;
-  const percentUsed = portion.budgetAmount > 0 ? (used / portion.budgetAmount) * 100 : 0;
+  const available = portion.budgetAmount + carriedIn;
+  const remaining = available - used;
+  const percentUsed = available > 0 ? (used / available) * 100 : used > 0 ? 100 : 0;
 
   return {
     portion,
     budget: portion.budgetAmount,
+    carriedIn,
+    available,
     used,
     remaining,
     percentUsed,
-    isOverBudget: used > portion.budgetAmount
+    isOverBudget: used > available
   };
 }
 
-/** Calculate overall summary for a period */
+/** Expected and received totals per income source, largest first */
+export function summarizeIncomeBySource(incomes: IncomeEntry[]): IncomeSourceSummary[] {
+  const bySource = new Map<string, IncomeSourceSummary>();
+  incomes.forEach(income => {
+    const summary = bySource.get(income.source) || { source: income.source, expected: 0, received: 0 };
+    summary[income.status] += income.amount;
+    bySource.set(income.source, summary);
+  });
+  return [...bySource.values()].sort((a, b) => (b.expected + b.received) - (a.expected + a.received));
+}
+
+/** Total of all income entries (expected and received) in a period */
+export function getPeriodIncomeTotal(incomes: IncomeEntry[], periodId: string): number {
+  return incomes.filter(i => i.periodId === periodId).reduce((sum, i) => sum + i.amount, 0);
+}
+
+/**
+ * Calculate overall summary for a period. Pass `periods` to include balances
+ * carried in from the previous period.
+ */
 export function calculatePeriodSummary(
   period: Period,
+  incomes: IncomeEntry[],
   portions: Portion[],
-  expenses: Expense[]
+  expenses: Expense[],
+  periods: Period[] = []
 ): PeriodSummary {
   const periodPortions = portions.filter(p => p.periodId === period.id);
   const periodExpenses = expenses.filter(e => e.periodId === period.id);
+  const periodIncomes = incomes.filter(i => i.periodId === period.id);
+  const cache = new Map<string, number>();
 
-  const totalIncome = period.incomeAmount;
+  const receivedIncome = periodIncomes.filter(i => i.status === 'received').reduce((sum, i) => sum + i.amount, 0);
+  const expectedIncome = periodIncomes.filter(i => i.status === 'expected').reduce((sum, i) => sum + i.amount, 0);
+  const totalIncome = receivedIncome + expectedIncome;
   const totalBudgeted = periodPortions.reduce((sum, p) => sum + p.budgetAmount, 0);
+  const totalCarriedIn = periodPortions.reduce((sum, p) => sum + calculateCarriedIn(p, periods, portions, expenses, cache), 0);
+  const totalAvailable = totalBudgeted + totalCarriedIn;
   const totalExpenses = periodExpenses.reduce((sum, e) => sum + e.amount, 0);
 
   return {
     totalIncome,
+    receivedIncome,
+    expectedIncome,
+    incomeBySource: summarizeIncomeBySource(periodIncomes),
     totalBudgeted,
+    totalCarriedIn,
     totalExpenses,
-    remainingBudget: totalBudgeted - totalExpenses,
-    remainingIncome: totalIncome - totalExpenses,
+    remainingBudget: totalAvailable - totalExpenses,
+    remainingIncome: receivedIncome - totalExpenses,
     unallocatedIncome: totalIncome - totalBudgeted,
-    overallPercentUsed: totalBudgeted > 0 ? (totalExpenses / totalBudgeted) * 100 : 0,
-    isOverBudget: totalExpenses > totalBudgeted
+    overallPercentUsed: totalAvailable > 0 ? (totalExpenses / totalAvailable) * 100 : 0,
+    isOverBudget: totalExpenses > totalAvailable
   };
 }
 
+/**
+ * Summaries for every portion in a period. Pass `periods` to include balances
+ * carried in from the previous period.
+ */
 export function getPortionSummaries(
   periodId: string,
   portions: Portion[],
-  expenses: Expense[]
+  expenses: Expense[],
+  periods: Period[] = []
 ): PortionSummary[] {
   const periodPortions = portions.filter(p => p.periodId === periodId);
   const periodExpenses = expenses.filter(e => e.periodId === periodId);
-  return periodPortions.map(portion => calculatePortionSummary(portion, periodExpenses));
+  const cache = new Map<string, number>();
+  return periodPortions.map(portion =>
+    calculatePortionSummary(portion, periodExpenses, calculateCarriedIn(portion, periods, portions, expenses, cache))
+  );
 }
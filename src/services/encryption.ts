@@ -0,0 +1,110 @@
+/**
+ * =============================================================================
+ * ENCRYPTION
+ * Passphrase-based encryption with WebCrypto: a PBKDF2-SHA-256 key stretched
+ * from the passphrase, and AES-GCM. Encrypted values are JSON envelopes that
+ * carry everything needed to decrypt them except the passphrase; the same
+ * format is used for data at rest and for encrypted exports.
+ * =============================================================================
+ */
+
+import { t } from '@/i18n';
+
+export const ENCRYPTED_FORMAT = 'budget_app_encrypted';
+const PBKDF2_ITERATIONS = 310000;
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+
+/** An encrypted JSON value */
+export interface EncryptedEnvelope {
+  format: typeof ENCRYPTED_FORMAT;
+  version: 1;
+  kdf: { name: 'PBKDF2'; hash: 'SHA-256'; iterations: number; salt: string };
+  cipher: { name: 'AES-GCM'; iv: string };
+  /** Base64 ciphertext of the JSON-serialized value */
+  data: string;
+}
+
+/** A key derived from a passphrase, with the parameters it was derived with */
+export interface PassphraseKey {
+  key: CryptoKey;
+  salt: string;
+  iterations: number;
+}
+
+/** Thrown when a passphrase is wrong or encrypted data is damaged */
+export class DecryptionError extends Error {
+  constructor(message: string = t('errors.wrongPassphrase')) {
+    super(message);
+    this.name = 'DecryptionError';
+  }
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+function fromBase64(text: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(text);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+export function isEncryptedEnvelope(value: unknown): value is EncryptedEnvelope {
+  const envelope = value as EncryptedEnvelope | null;
+  return typeof envelope === 'object' && envelope !== null && envelope.format === ENCRYPTED_FORMAT &&
+    typeof envelope.data === 'string' && typeof envelope.kdf?.salt === 'string' && typeof envelope.cipher?.iv === 'string';
+}
+
+/** Stretch a passphrase into an AES key; a new random salt is used unless one is given */
+export async function deriveKey(passphrase: string, salt?: string, iterations = PBKDF2_ITERATIONS): Promise<PassphraseKey> {
+  const saltBytes = salt ? fromBase64(salt) : crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  const key = await crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt: saltBytes, iterations },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+  return { key, salt: toBase64(saltBytes), iterations };
+}
+
+export async function encryptValue(value: unknown, key: PassphraseKey): Promise<EncryptedEnvelope> {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const plaintext = new TextEncoder().encode(JSON.stringify(value));
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key.key, plaintext);
+  return {
+    format: ENCRYPTED_FORMAT,
+    version: 1,
+    kdf: { name: 'PBKDF2', hash: 'SHA-256', iterations: key.iterations, salt: key.salt },
+    cipher: { name: 'AES-GCM', iv: toBase64(iv) },
+    data: toBase64(new Uint8Array(ciphertext))
+  };
+}
+
+/** Decrypt an envelope made with `key`; throws DecryptionError for another key or damaged data */
+export async function decryptValue(envelope: EncryptedEnvelope, key: PassphraseKey): Promise<unknown> {
+  if (envelope.kdf.salt !== key.salt || envelope.kdf.iterations !== key.iterations) throw new DecryptionError();
+  let plaintext: ArrayBuffer;
+  try {
+    plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(envelope.cipher.iv) }, key.key, fromBase64(envelope.data));
+  } catch {
+    throw new DecryptionError();
+  }
+  return JSON.parse(new TextDecoder().decode(plaintext));
+}
+
+/** Encrypt with a key derived from `passphrase` and a fresh salt, e.g. for an export */
+export async function encryptWithPassphrase(value: unknown, passphrase: string): Promise<EncryptedEnvelope> {
+  return encryptValue(value, await deriveKey(passphrase));
+}
+
+export async function decryptWithPassphrase(envelope: EncryptedEnvelope, passphrase: string): Promise<unknown> {
+  return decryptValue(envelope, await deriveKey(passphrase, envelope.kdf.salt, envelope.kdf.iterations));
+}
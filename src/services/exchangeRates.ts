@@ -0,0 +1,57 @@
+/**
+ * =============================================================================
+ * EXCHANGE RATES
+ * The locally maintained rate table and conversion of foreign-currency
+ * expenses into their period's base currency. Rates are entered by hand, so
+ * everything works offline.
+ * =============================================================================
+ */
+
+import { Expense, ExchangeRate, Period } from '@/types';
+import { DEFAULT_CURRENCY, convertAmount } from '@/utils/currency';
+
+/** Base currency of a period */
+export function getPeriodCurrency(period: Period | null | undefined): string {
+  return period?.currency || DEFAULT_CURRENCY;
+}
+
+/**
+ * Rate from `currency` into `base` from the table. Falls back to the inverse
+ * of a `base` → `currency` entry; returns null when neither exists.
+ */
+export function findExchangeRate(rates: ExchangeRate[], currency: string, base: string): number | null {
+  if (currency === base) return 1;
+  const direct = rates.find(r => r.currency === currency && r.base === base);
+  if (direct) return direct.rate;
+  const inverse = rates.find(r => r.currency === base && r.base === currency);
+  return inverse ? 1 / inverse.rate : null;
+}
+
+/** Add or replace the table entry for a currency pair */
+export function upsertExchangeRate(rates: ExchangeRate[], rate: ExchangeRate): ExchangeRate[] {
+  const existing = rates.find(r => r.id === rate.id || (r.currency === rate.currency && r.base === rate.base));
+  return existing
+    ? rates.map(r => r === existing ? { ...rate, id: existing.id } : r)
+    : [...rates, rate];
+}
+
+/**
+ * Expense fields for an amount paid in `currency`. Amounts in the base
+ * currency clear any earlier original-currency fields.
+ */
+export function toBaseCurrencyFields(
+  amount: number,
+  currency: string,
+  baseCurrency: string,
+  rate: number
+): Pick<Expense, 'amount' | 'originalCurrency' | 'originalAmount' | 'exchangeRate'> {
+  if (currency === baseCurrency) {
+    return { amount, originalCurrency: undefined, originalAmount: undefined, exchangeRate: undefined };
+  }
+  return {
+    amount: convertAmount(amount, rate, baseCurrency),
+    originalCurrency: currency,
+    originalAmount: amount,
+    exchangeRate: rate
+  };
+}
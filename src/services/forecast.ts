@@ -0,0 +1,130 @@
+/**
+ * =============================================================================
+ * FORECAST
+ * Projects where each portion of a period will land by its end date. The
+ * daily rate is the spending pace since the period started, optionally
+ * blended with the portion of the same name in earlier periods: history
+ * counts most at the start of a period and the actual pace by its end.
+ * =============================================================================
+ */
+
+import { AppData, Period, PortionSummary } from '@/types';
+import { getPeriodCurrency } from '@/services/exchangeRates';
+import { findPortionByName } from '@/services/periods';
+import { ONE_DAY_MS, addDays, getCurrentDate } from '@/utils/formatters';
+
+/** Earlier periods looked at for a portion's usual pace */
+export const FORECAST_HISTORY_PERIODS = 3;
+
+/** What a portion's daily rate is based on */
+export type ForecastBasis = 'pace' | 'history' | 'blended';
+
+export interface PortionForecast {
+  portionId: string;
+  /** Expected spending by the period's end */
+  projectedTotal: number;
+  /** Available minus the projected total; negative for an expected overspend */
+  projectedBalance: number;
+  /** Expected spending per remaining day */
+  dailyRate: number;
+  /** Day the portion is expected to run out; null when it should last the period */
+  runOutDate: string | null;
+  /** Everything available is already spent */
+  exhausted: boolean;
+  /** Null when there is neither spending so far nor history to go on */
+  basis: ForecastBasis | null;
+  /** Earlier periods the history rate came from */
+  historyPeriods: number;
+}
+
+export interface ForecastOptions {
+  /** Blend in the pace of the same portion in earlier periods */
+  useHistory: boolean;
+  /** YYYY-MM-DD; defaults to the current date */
+  today?: string;
+}
+
+/** Inclusive number of days from one date to another; 0 when `to` is before `from` */
+function countDays(from: string, to: string): number {
+  return Math.max(Math.round((Date.parse(to) - Date.parse(from)) / ONE_DAY_MS) + 1, 0);
+}
+
+/** Average daily spending of the same-named portion in the latest earlier periods */
+function historyRate(
+  name: string,
+  period: Period,
+  data: Pick<AppData, 'periods' | 'portions' | 'expenses'>
+): { rate: number; periods: number } {
+  const currency = getPeriodCurrency(period);
+  const rates = data.periods
+    .filter(p => p.startDate < period.startDate && getPeriodCurrency(p) === currency)
+    .sort((a, b) => b.startDate.localeCompare(a.startDate))
+    .map(p => {
+      const portion = findPortionByName(data.portions, p.id, name);
+      const days = countDays(p.startDate, p.endDate);
+      if (!portion || days === 0) return null;
+      const spent = data.expenses.filter(e => e.portionId === portion.id).reduce((sum, e) => sum + e.amount, 0);
+      return spent / days;
+    })
+    .filter((rate): rate is number => rate !== null)
+    .slice(0, FORECAST_HISTORY_PERIODS);
+  return {
+    rate: rates.length > 0 ? rates.reduce((sum, r) => sum + r, 0) / rates.length : 0,
+    periods: rates.length
+  };
+}
+
+/** Project each portion of `period` to the period's end; empty once the period is over */
+export function forecastPortions(
+  period: Period,
+  summaries: PortionSummary[],
+  data: Pick<AppData, 'periods' | 'portions' | 'expenses'>,
+  options: ForecastOptions
+): PortionForecast[] {
+  const today = options.today || getCurrentDate();
+  const totalDays = countDays(period.startDate, period.endDate);
+  const elapsedDays = Math.min(countDays(period.startDate, today), totalDays);
+  const remainingDays = totalDays - elapsedDays;
+  const progress = totalDays > 0 ? elapsedDays / totalDays : 1;
+  if (remainingDays === 0) return [];
+
+  return summaries.map(summary => {
+    const history = options.useHistory
+      ? historyRate(summary.portion.name, period, data)
+      : { rate: 0, periods: 0 };
+
+    let basis: ForecastBasis | null = null;
+    let dailyRate = 0;
+    if (elapsedDays > 0 && history.periods > 0) {
+      basis = 'blended';
+      dailyRate = progress * (summary.used / elapsedDays) + (1 - progress) * history.rate;
+    } else if (elapsedDays > 0) {
+      basis = 'pace';
+      dailyRate = summary.used / elapsedDays;
+    } else if (history.periods > 0) {
+      basis = 'history';
+      dailyRate = history.rate;
+    }
+
+    const projectedTotal = summary.used + dailyRate * remainingDays;
+    const left = summary.available - summary.used;
+    const exhausted = left <= 0 && summary.used > 0;
+
+    let runOutDate: string | null = null;
+    if (!exhausted && dailyRate > 0 && left / dailyRate < remainingDays) {
+      // The last day counted as elapsed is today, or the day before a period that has not started
+      runOutDate = addDays(period.startDate, elapsedDays - 1 + Math.max(Math.ceil(left / dailyRate), 1));
+    }
+
+    return {
+      portionId: summary.portion.id,
+      projectedTotal,
+      projectedBalance: summary.available - projectedTotal,
+      dailyRate,
+      runOutDate,
+      exhausted,
+      basis,
+      historyPeriods: history.periods
+    };
+  });
+}
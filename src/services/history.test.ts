@@ -0,0 +1,146 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  EMPTY_HISTORY, HistoryState, loadHistory, pushHistory, rebaseHistory, redoHistory, saveHistory, undoHistory
+} from '@/services/history';
+import { createEmptyAppData } from '@/services/dataService';
+import { diffForSync } from '@/services/remoteSync';
+import { applyTabMessage, diffForTabs } from '@/services/crossTab';
+import { AppData, Expense, RecurringExpense } from '@/types';
+
+const expense = (id: string, amount = 10): Expense => ({
+  id, periodId: 'p1', portionId: 'f1', date: '2024-01-05', description: 'Coffee', amount
+});
+
+const start: AppData = {
+  ...createEmptyAppData(),
+  periods: [{ id: 'p1', name: 'January 2024', startDate: '2024-01-01', endDate: '2024-01-31' }],
+  portions: [{ id: 'f1', periodId: 'p1', name: 'Food', budgetAmount: 100 }],
+  expenses: [expense('a')],
+  activePeriodId: 'p1'
+};
+
+describe('rebaseHistory', () => {
+  it('keeps records received after a snapshot when undoing', () => {
+    const added = { ...start, expenses: [...start.expenses, expense('local')] };
+    const history = pushHistory(EMPTY_HISTORY, 'addExpense', start);
+    const pulled = { ...added, expenses: [...added.expenses, expense('remote')] };
+
+    const undone = undoHistory(rebaseHistory(history, added, pulled), pulled)!;
+    expect(undone.data.expenses.map(e => e.id)).toEqual(['a', 'remote']);
+    expect(diffForSync(pulled, undone.data)).toEqual([{ resource: 'expenses', id: 'local', method: 'delete' }]);
+  });
+
+  it('applies received edits and deletions to snapshots', () => {
+    const history = pushHistory(EMPTY_HISTORY, 'addExpense', start);
+    const edited = expense('a', 25);
+    const received = { ...start, expenses: [edited] };
+    expect(rebaseHistory(history, start, received).past[0].data.expenses).toEqual([edited]);
+    expect(rebaseHistory(history, start, { ...start, expenses: [] }).past[0].data.expenses).toEqual([]);
+  });
+
+  it('leaves records added by the undone operation out', () => {
+    const added = { ...start, expenses: [...start.expenses, expense('local')] };
+    const history = pushHistory(EMPTY_HISTORY, 'addExpense', start);
+    const received = { ...added, expenses: [expense('a'), { ...expense('local'), amount: 30 }] };
+    expect(rebaseHistory(history, added, received).past[0].data.expenses.map(e => e.id)).toEqual(['a']);
+  });
+
+  it('keeps a record from another tab that is still unchanged there', () => {
+    const added = { ...start, expenses: [...start.expenses, expense('local')] };
+    const history = pushHistory(EMPTY_HISTORY, 'addExpense', start);
+    const received = applyTabMessage(added, {
+      tabId: 'other', changes: [{ collection: 'expenses', id: 'y', before: null, after: expense('y') }], fields: {}
+    }).data;
+
+    const undone = undoHistory(rebaseHistory(history, added, received), received)!;
+    expect(diffForTabs(received, undone.data)?.changes.map(c => [c.id, c.after])).toEqual([['local', null]]);
+  });
+
+  it('takes over settings and the archive from another tab', () => {
+    const history = pushHistory(EMPTY_HISTORY, 'addExpense', start);
+    const received = { ...start, archive: [] };
+    expect(rebaseHistory(history, start, received).past[0].data.archive).toBe(received.archive);
+  });
+
+  it('keeps entries whose snapshot nothing changed in', () => {
+    const history = pushHistory(EMPTY_HISTORY, 'addExpense', start);
+    expect(rebaseHistory(history, start, { ...start }).past[0]).toBe(history.past[0]);
+  });
+});
+
+describe('undoHistory', () => {
+  const rent: RecurringExpense = {
+    id: 'rent', portionName: 'Food', description: 'Rent', amount: 50,
+    schedule: { frequency: 'monthly', dayOfMonth: 1 }, startDate: '2024-01-01', active: true
+  };
+  const posted: Expense = { ...expense('rent-2024-01-01', 50), recurringId: 'rent', autoGenerated: true };
+
+  it('keeps the current settings and open period', () => {
+    const before = {
+      ...start, periods: [...start.periods, { id: 'p2', name: 'February 2024', startDate: '2024-02-01', endDate: '2024-02-29' }]
+    };
+    const history = pushHistory(EMPTY_HISTORY, 'addExpense', before);
+    const settings = { ...before.settings!, language: 'id' as const };
+    const current = { ...before, expenses: [...before.expenses, expense('local')], settings, activePeriodId: 'p2' };
+
+    const undone = undoHistory(history, current)!;
+    expect(undone.data.settings).toBe(settings);
+    expect(undone.data.activePeriodId).toBe('p2');
+    expect(undone.data.expenses.map(e => e.id)).toEqual(['a']);
+    expect(redoHistory(undone.history, undone.data)!.data.settings).toBe(settings);
+  });
+
+  it('keeps expenses posted since by an unchanged recurring definition', () => {
+    const before = { ...start, recurringExpenses: [rent] };
+    const history = pushHistory(EMPTY_HISTORY, 'addExpense', before);
+    const current = { ...before, expenses: [...before.expenses, expense('local'), posted] };
+    expect(undoHistory(history, current)!.data.expenses.map(e => e.id)).toEqual(['a', 'rent-2024-01-01']);
+  });
+
+  it('drops posted expenses whose definition the undone operation added or changed', () => {
+    const history = pushHistory(EMPTY_HISTORY, 'addRecurringExpense', start);
+    const current = { ...start, recurringExpenses: [rent], expenses: [...start.expenses, posted] };
+    expect(undoHistory(history, current)!.data.expenses.map(e => e.id)).toEqual(['a']);
+
+    const changed = pushHistory(EMPTY_HISTORY, 'updateRecurringExpense', { ...start, recurringExpenses: [{ ...rent, amount: 40 }] });
+    expect(undoHistory(changed, current)!.data.expenses.map(e => e.id)).toEqual(['a']);
+  });
+});
+
+describe('saveHistory', () => {
+  beforeEach(() => {
+    const storage = () => {
+      const items = new Map<string, string>();
+      return {
+        getItem: (key: string) => items.get(key) ?? null,
+        setItem: (key: string, value: string) => { items.set(key, value); },
+        removeItem: (key: string) => { items.delete(key); }
+      };
+    };
+    vi.stubGlobal('localStorage', storage());
+    vi.stubGlobal('sessionStorage', storage());
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('keeps the entries nearest to the current data when the history is too large', () => {
+    const large = (id: string) => ({ ...start, expenses: [{ ...expense(id), description: 'x'.repeat(600_000) }] });
+    const history: HistoryState = {
+      past: ['p1', 'p2', 'p3'].map(id => ({ action: 'addExpense', data: large(id) })),
+      future: ['f1', 'f2'].map(id => ({ action: 'deleteExpense', data: large(id) }))
+    };
+    saveHistory(history);
+    const saved = loadHistory();
+    expect(saved.past.map(e => e.data.expenses[0].id)).toEqual(['p2', 'p3']);
+    expect(saved.future.map(e => e.data.expenses[0].id)).toEqual(['f2']);
+  });
+
+  it('gives up on storing the history when storage is full', () => {
+    saveHistory(pushHistory(EMPTY_HISTORY, 'addExpense', start));
+    sessionStorage.setItem = () => { throw new Error('QuotaExceededError'); };
+    saveHistory(pushHistory(EMPTY_HISTORY, 'deleteExpense', start));
+    expect(loadHistory()).toEqual(EMPTY_HISTORY);
+  });
+});
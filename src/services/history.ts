@@ -0,0 +1,214 @@
+/**
+ * =============================================================================
+ * UNDO HISTORY
+ * Snapshots of AppData taken before each data operation, so it can be undone
+ * and redone. The history is kept in sessionStorage and survives a reload
+ * within the same browser tab session, except while the passphrase lock is on:
+ * then it stays in memory so no unencrypted copy is written. Changes that
+ * arrive from the sync server or another tab are carried into every snapshot,
+ * so undo and redo only ever reverse this tab's own operations.
+ * =============================================================================
+ */
+
+import { AppData } from '@/types';
+import { CURRENT_SCHEMA_VERSION } from '@/services/migrations';
+import { isLockEnabled } from '@/services/lock';
+import { profileStorageKey } from '@/services/profiles';
+import { SHARED_FIELDS, TAB_COLLECTIONS, TabCollection } from '@/services/crossTab';
+
+/** Base sessionStorage key; each profile has its own history */
+const HISTORY_STORAGE_KEY = 'budget_app_v1_history';
+
+/** sessionStorage key of a profile's undo history */
+export function historyStorageKey(profileId?: string): string {
+  return profileStorageKey(HISTORY_STORAGE_KEY, profileId);
+}
+
+/** Snapshots kept per direction; older ones are dropped first */
+export const MAX_HISTORY = 30;
+
+/** Characters of serialized history saved per profile, well inside the usual 5 MB sessionStorage quota */
+const HISTORY_BUDGET = 2_000_000;
+
+/** Operations that can be undone, named after the useBudgetData callbacks */
+export type HistoryAction =
+  | 'addPeriod' | 'updatePeriod' | 'deletePeriod'
+  | 'addIncome' | 'updateIncome' | 'deleteIncome'
+  | 'addPortion' | 'updatePortion' | 'deletePortion'
+  | 'addExpense' | 'updateExpense' | 'deleteExpense'
+  | 'addRecurringExpense' | 'updateRecurringExpense' | 'deleteRecurringExpense'
+  | 'saveImportProfile' | 'deleteImportProfile'
+  | 'saveExchangeRate' | 'deleteExchangeRate'
+  | 'runRetention' | 'clearArchive' | 'clearAlertHistory'
+  | 'importData' | 'mergeImportData' | 'clearData';
+
+/** Actions that remove data; these offer an "Undo" notice right away */
+export const DESTRUCTIVE_ACTIONS: HistoryAction[] = [
+  'deletePeriod', 'deleteIncome', 'deletePortion', 'deleteExpense', 'deleteRecurringExpense',
+  'runRetention', 'clearArchive', 'clearAlertHistory', 'importData', 'mergeImportData', 'clearData'
+];
+
+export interface HistoryEntry {
+  action: HistoryAction;
+  /** Data to restore when this entry is applied */
+  data: AppData;
+}
+
+export interface HistoryState {
+  /** Entries to undo, most recent last */
+  past: HistoryEntry[];
+  /** Entries to redo, most recent last */
+  future: HistoryEntry[];
+}
+
+export const EMPTY_HISTORY: HistoryState = { past: [], future: [] };
+
+/** Record the data as it was before `action`; a new action discards the redo stack */
+export function pushHistory(history: HistoryState, action: HistoryAction, before: AppData): HistoryState {
+  return { past: [...history.past, { action, data: before }].slice(-MAX_HISTORY), future: [] };
+}
+
+/**
+ * Restored data with what changes outside the history taken from `current`:
+ * settings, the open period, and expenses posted by recurring definitions the
+ * restored data still has unchanged
+ */
+function withCurrentState(restored: AppData, current: AppData): AppData {
+  const periodIds = new Set(restored.periods.map(p => p.id));
+  const portionIds = new Set(restored.portions.map(p => p.id));
+  const expenseIds = new Set(restored.expenses.map(e => e.id));
+  const definitions = new Map((restored.recurringExpenses || []).map(r => [r.id, JSON.stringify(r)]));
+  const unchanged = new Set((current.recurringExpenses || []).filter(r => definitions.get(r.id) === JSON.stringify(r)).map(r => r.id));
+  const posted = current.expenses.filter(e =>
+    e.autoGenerated && e.recurringId && unchanged.has(e.recurringId) &&
+    !expenseIds.has(e.id) && periodIds.has(e.periodId) && portionIds.has(e.portionId)
+  );
+  return {
+    ...restored,
+    settings: current.settings,
+    activePeriodId: current.activePeriodId && periodIds.has(current.activePeriodId) ? current.activePeriodId : restored.activePeriodId,
+    expenses: posted.length > 0 ? [...restored.expenses, ...posted] : restored.expenses
+  };
+}
+
+/**
+ * Step back one entry. Returns the data to restore and the new history, which
+ * keeps `current` for redo; null when there is nothing to undo.
+ */
+export function undoHistory(history: HistoryState, current: AppData): { data: AppData; history: HistoryState } | null {
+  const entry = history.past[history.past.length - 1];
+  if (!entry) return null;
+  return {
+    data: withCurrentState(entry.data, current),
+    history: {
+      past: history.past.slice(0, -1),
+      future: [...history.future, { action: entry.action, data: current }].slice(-MAX_HISTORY)
+    }
+  };
+}
+
+/** Step forward one entry; the mirror of undoHistory */
+export function redoHistory(history: HistoryState, current: AppData): { data: AppData; history: HistoryState } | null {
+  const entry = history.future[history.future.length - 1];
+  if (!entry) return null;
+  return {
+    data: withCurrentState(entry.data, current),
+    history: {
+      past: [...history.past, { action: entry.action, data: current }].slice(-MAX_HISTORY),
+      future: history.future.slice(0, -1)
+    }
+  };
+}
+
+const recordsOf = (data: AppData, collection: TabCollection) => (data[collection] || []) as { id: string }[];
+
+/** Apply the changes from `before` to `after` to a snapshot taken earlier */
+function rebaseSnapshot(snapshot: AppData, before: AppData, after: AppData): AppData {
+  let next = snapshot;
+  TAB_COLLECTIONS.forEach(collection => {
+    const previous = new Map(recordsOf(before, collection).map(r => [r.id, r]));
+    const current = new Map(recordsOf(after, collection).map(r => [r.id, r]));
+    const changed = new Set([...previous.keys(), ...current.keys()].filter(id => previous.get(id) !== current.get(id)));
+    if (changed.size === 0) return;
+    const records = recordsOf(snapshot, collection);
+    const kept = new Set(records.map(r => r.id));
+    // Changed records are replaced or dropped; added ones are appended unless the snapshot has them
+    const rebased = [
+      ...records.flatMap(r => !changed.has(r.id) ? [r] : current.has(r.id) ? [current.get(r.id)!] : []),
+      ...recordsOf(after, collection).filter(r => !previous.has(r.id) && !kept.has(r.id))
+    ];
+    next = { ...next, [collection]: rebased };
+  });
+  SHARED_FIELDS.forEach(field => {
+    if (before[field] !== after[field]) next = { ...next, [field]: after[field] };
+  });
+  if (next !== snapshot && next.activePeriodId && !next.periods.some(p => p.id === next.activePeriodId)) {
+    next = { ...next, activePeriodId: after.activePeriodId };
+  }
+  return next;
+}
+
+/**
+ * Carry a change made elsewhere, from `before` to `after`, into every entry.
+ * Undoing an entry then restores only what its own operation changed.
+ */
+export function rebaseHistory(history: HistoryState, before: AppData, after: AppData): HistoryState {
+  const rebase = (entry: HistoryEntry) => {
+    const data = rebaseSnapshot(entry.data, before, after);
+    return data === entry.data ? entry : { ...entry, data };
+  };
+  return { past: history.past.map(rebase), future: history.future.map(rebase) };
+}
+
+/** History saved earlier in this session; entries from another schema version are dropped */
+export function loadHistory(): HistoryState {
+  if (isLockEnabled()) return EMPTY_HISTORY;
+  try {
+    const stored = sessionStorage.getItem(historyStorageKey());
+    if (!stored) return EMPTY_HISTORY;
+    const parsed = JSON.parse(stored) as HistoryState;
+    const current = (entry: HistoryEntry) => entry?.data?.version === CURRENT_SCHEMA_VERSION;
+    return {
+      past: Array.isArray(parsed.past) ? parsed.past.filter(current) : [],
+      future: Array.isArray(parsed.future) ? parsed.future.filter(current) : []
+    };
+  } catch {
+    return EMPTY_HISTORY;
+  }
+}
+
+/**
+ * Save the history for this session. Entries nearest to the current data are
+ * kept within HISTORY_BUDGET; when storage is still full, the history lives in
+ * memory only. History is never worth failing a save over.
+ */
+export function saveHistory(history: HistoryState): void {
+  const key = historyStorageKey();
+  if (isLockEnabled()) {
+    sessionStorage.removeItem(key);
+    return;
+  }
+  // Each entry is serialized once; the newest of each stack are kept first, taking turns
+  const past = history.past.map(entry => JSON.stringify(entry));
+  const future = history.future.map(entry => JSON.stringify(entry));
+  let pastFrom = past.length;
+  let futureFrom = future.length;
+  let size = 0;
+  let growing = true;
+  while (growing) {
+    growing = false;
+    if (pastFrom > 0 && size + past[pastFrom - 1].length <= HISTORY_BUDGET) {
+      size += past[--pastFrom].length;
+      growing = true;
+    }
+    if (futureFrom > 0 && size + future[futureFrom - 1].length <= HISTORY_BUDGET) {
+      size += future[--futureFrom].length;
+      growing = true;
+    }
+  }
+  try {
+    sessionStorage.setItem(key, `{"past":[${past.slice(pastFrom).join(',')}],"future":[${future.slice(futureFrom).join(',')}]}`);
+  } catch {
+    sessionStorage.removeItem(key);
+  }
+}
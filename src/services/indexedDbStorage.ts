@@ -0,0 +1,207 @@
+/**
+ * =============================================================================
+ * INDEXEDDB STORAGE
+ * Periods, income, portions and expenses live in their own object stores, one
+ * row per record; the rest of AppData is a single "meta" row. Saves compare the
+ * new data with what was last written and only touch changed rows. Row values
+ * and the meta row go through the storage codec, so they are encrypted while
+ * the passphrase lock is on. A migration backup is a second row in "meta".
+ * =============================================================================
+ */
+
+import { AppData } from '@/types';
+import { LOCAL_STORAGE_KEY, StorageAdapter, StorageCodec, getStorageCodec } from '@/services/storage';
+import { profileStorageKey } from '@/services/profiles';
+
+/** Database of the default profile; every other profile has one of its own */
+const DB_NAME = 'budget_app_v1';
+const DB_VERSION = 1;
+const META_STORE = 'meta';
+const META_KEY = 'app';
+const BACKUP_KEY = 'backup';
+
+/** AppData collections stored one row per record */
+const RECORD_STORES = ['periods', 'incomes', 'portions', 'expenses'] as const;
+type RecordStore = typeof RECORD_STORES[number];
+
+/** A stored record; `position` keeps the array order, since rows come back sorted by id */
+interface RecordRow {
+  id: string;
+  position: number;
+  /** The record, encoded by the storage codec */
+  value: unknown;
+}
+
+type MetaRow = Omit<AppData, RecordStore>;
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error('Transaction aborted'));
+  });
+}
+
+function openDatabase(name: string): Promise<IDBDatabase> {
+  if (typeof indexedDB === 'undefined') return Promise.reject(new Error('IndexedDB is not available'));
+  const request = indexedDB.open(name, DB_VERSION);
+  request.onupgradeneeded = () => {
+    const db = request.result;
+    if (!db.objectStoreNames.contains(META_STORE)) db.createObjectStore(META_STORE);
+    RECORD_STORES.forEach(store => {
+      if (!db.objectStoreNames.contains(store)) db.createObjectStore(store, { keyPath: 'id' });
+    });
+  };
+  return promisify(request).then(db => {
+    // Let another tab delete the database (its profile was deleted) instead of blocking it
+    db.onversionchange = () => db.close();
+    return db;
+  });
+}
+
+function splitAppData(data: AppData): MetaRow {
+  const { periods: _periods, incomes: _incomes, portions: _portions, expenses: _expenses, ...meta } = data;
+  return meta;
+}
+
+/** Open a profile's budget database; rejects when IndexedDB is unavailable (e.g. some private modes) */
+export async function openIndexedDbStorage(profileId: string): Promise<StorageAdapter> {
+  const name = profileStorageKey(DB_NAME, profileId);
+  const legacyKey = profileStorageKey(LOCAL_STORAGE_KEY, profileId);
+  const db = await openDatabase(name);
+
+  // What the database holds, to diff the next save against
+  let lastSaved: AppData | null = null;
+  const positions: Record<RecordStore, Map<string, number>> = {
+    periods: new Map(), incomes: new Map(), portions: new Map(), expenses: new Map()
+  };
+  // Set while the legacy localStorage blob is the source; it is removed after the first save
+  let legacyPending = false;
+  // Codec the stored rows were written with; a different one means every row is rewritten
+  let savedWith: StorageCodec | null = null;
+
+  const nextPosition = (store: RecordStore) => Math.max(-1, ...positions[store].values()) + 1;
+
+  return {
+    kind: 'indexeddb',
+
+    async load() {
+      const codec = getStorageCodec();
+      const tx = db.transaction([META_STORE, ...RECORD_STORES], 'readonly');
+      const [meta, ...rows] = await Promise.all([
+        promisify(tx.objectStore(META_STORE).get(META_KEY)),
+        ...RECORD_STORES.map(store => promisify(tx.objectStore(store).getAll()) as Promise<RecordRow[]>)
+      ]) as [unknown, ...RecordRow[][]];
+
+      if (meta === undefined) {
+        // First run on IndexedDB: hand over the localStorage blob, if any, to be migrated and saved here
+        const legacy = localStorage.getItem(legacyKey);
+        legacyPending = legacy !== null;
+        lastSaved = null;
+        return legacy ? codec.decode(JSON.parse(legacy)) : null;
+      }
+
+      // Decoding may wait on decryption, so it happens after the transaction has read everything
+      const data = { ...(await codec.decode(meta) as MetaRow) } as AppData;
+      await Promise.all(RECORD_STORES.map(async (store, i) => {
+        const sorted = [...rows[i]].sort((a, b) => a.position - b.position);
+        positions[store] = new Map(sorted.map(row => [row.id, row.position]));
+        (data[store] as unknown[]) = await Promise.all(sorted.map(row => codec.decode(row.value)));
+      }));
+      lastSaved = { ...data };
+      savedWith = codec;
+      return data;
+    },
+
+    async save(data) {
+      const codec = getStorageCodec();
+      const rewriteAll = codec !== savedWith;
+      const written: Record<RecordStore, Map<string, number>> = {
+        periods: new Map(positions.periods), incomes: new Map(positions.incomes),
+        portions: new Map(positions.portions), expenses: new Map(positions.expenses)
+      };
+      const puts: { store: RecordStore; id: string; position: number; record: { id: string } }[] = [];
+      const deletes: { store: RecordStore; id: string }[] = [];
+
+      RECORD_STORES.forEach(store => {
+        const records = data[store] as { id: string }[];
+        const previous = new Map((lastSaved?.[store] as { id: string }[] | undefined)?.map(r => [r.id, r]) || []);
+        let position = nextPosition(store);
+
+        // Unchanged reference, unchanged row (see AppData)
+        records.forEach(record => {
+          if (!rewriteAll && previous.get(record.id) === record) return;
+          const existing = written[store].get(record.id);
+          const row = { store, id: record.id, position: existing ?? position++, record };
+          written[store].set(record.id, row.position);
+          puts.push(row);
+        });
+
+        const kept = new Set(records.map(r => r.id));
+        [...written[store].keys()].forEach(id => {
+          if (kept.has(id)) return;
+          deletes.push({ store, id });
+          written[store].delete(id);
+        });
+      });
+
+      // A transaction closes while it waits on anything else, so every row is encoded before it opens
+      const [meta, ...values] = await Promise.all([
+        codec.encode(splitAppData(data)),
+        ...puts.map(put => codec.encode(put.record))
+      ]);
+      const tx = db.transaction([META_STORE, ...RECORD_STORES], 'readwrite');
+      tx.objectStore(META_STORE).put(meta, META_KEY);
+      puts.forEach((put, i) => {
+        const row: RecordRow = { id: put.id, position: put.position, value: values[i] };
+        tx.objectStore(put.store).put(row);
+      });
+      deletes.forEach(({ store, id }) => tx.objectStore(store).delete(id));
+
+      await transactionDone(tx);
+      RECORD_STORES.forEach(store => { positions[store] = written[store]; });
+      lastSaved = { ...data };
+      savedWith = codec;
+      if (legacyPending) {
+        localStorage.removeItem(legacyKey);
+        legacyPending = false;
+      }
+    },
+
+    async loadBackup() {
+      const stored = await promisify(db.transaction(META_STORE, 'readonly').objectStore(META_STORE).get(BACKUP_KEY));
+      return stored === undefined ? null : getStorageCodec().decode(stored);
+    },
+
+    async saveBackup(value) {
+      const encoded = await getStorageCodec().encode(value);
+      const tx = db.transaction(META_STORE, 'readwrite');
+      tx.objectStore(META_STORE).put(encoded, BACKUP_KEY);
+      await transactionDone(tx);
+    },
+
+    async clear() {
+      const tx = db.transaction([META_STORE, ...RECORD_STORES], 'readwrite');
+      [META_STORE, ...RECORD_STORES].forEach(store => tx.objectStore(store).clear());
+      await transactionDone(tx);
+      RECORD_STORES.forEach(store => positions[store].clear());
+      lastSaved = null;
+      savedWith = null;
+      localStorage.removeItem(legacyKey);
+      legacyPending = false;
+    },
+
+    async destroy() {
+      db.close();
+      await promisify(indexedDB.deleteDatabase(name));
+      localStorage.removeItem(legacyKey);
+    }
+  };
+}
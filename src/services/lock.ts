@@ -0,0 +1,132 @@
+/**
+ * =============================================================================
+ * PASSPHRASE LOCK
+ * Opt-in encryption of the stored data. The lock settings (salt, KDF
+ * iterations, a value encrypted with the key to check passphrases against, and
+ * the auto-lock delay) are kept unencrypted in localStorage; the key itself
+ * only lives in memory while the app is unlocked.
+ * =============================================================================
+ */
+
+import { EncryptedEnvelope, PassphraseKey, decryptValue, deriveKey, encryptValue } from '@/services/encryption';
+import {
+  LOCAL_STORAGE_KEY, PLAIN_CODEC, StorageCodec, createEncryptedCodec, destroyProfileStorage, recodeStorage, setStorageCodec
+} from '@/services/storage';
+import { historyStorageKey } from '@/services/history';
+import { syncStorageKey } from '@/services/remoteSync';
+import { getProfiles, resetProfiles } from '@/services/profiles';
+import { t } from '@/i18n';
+
+export const LOCK_STORAGE_KEY = `${LOCAL_STORAGE_KEY}_lock`;
+const VERIFIER_TEXT = 'budget_app_v1';
+
+export const MIN_PASSPHRASE_LENGTH = 8;
+/** Auto-lock choices in minutes; 0 turns auto-lock off */
+export const AUTO_LOCK_OPTIONS = [0, 1, 5, 15, 30, 60];
+
+/** Used while locked: nothing can be written, and encrypted data cannot be read */
+const LOCKED_CODEC: StorageCodec = {
+  async encode() {
+    throw new Error(t('errors.locked'));
+  },
+  decode: PLAIN_CODEC.decode
+};
+
+export interface LockConfig {
+  salt: string;
+  iterations: number;
+  /** A known text encrypted with the key; decrypting it proves the passphrase */
+  verifier: EncryptedEnvelope;
+  autoLockMinutes: number;
+}
+
+export function getLockConfig(): LockConfig | null {
+  try {
+    const stored = localStorage.getItem(LOCK_STORAGE_KEY);
+    return stored ? JSON.parse(stored) as LockConfig : null;
+  } catch {
+    return null;
+  }
+}
+
+export function isLockEnabled(): boolean {
+  return localStorage.getItem(LOCK_STORAGE_KEY) !== null;
+}
+
+function saveLockConfig(config: LockConfig): void {
+  localStorage.setItem(LOCK_STORAGE_KEY, JSON.stringify(config));
+}
+
+/** Derive the key for `passphrase` and check it against the lock; throws DecryptionError when wrong */
+async function verifyPassphrase(config: LockConfig, passphrase: string): Promise<PassphraseKey> {
+  const key = await deriveKey(passphrase, config.salt, config.iterations);
+  await decryptValue(config.verifier, key);
+  return key;
+}
+
+/** Encrypt everything stored with a key derived from `passphrase` */
+export async function enableLock(passphrase: string, autoLockMinutes: number): Promise<void> {
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) throw new Error(t('lock.tooShort', { min: MIN_PASSPHRASE_LENGTH }));
+  const key = await deriveKey(passphrase);
+  // Written before the data is encrypted, so a failure halfway never leaves data nobody can unlock
+  saveLockConfig({
+    salt: key.salt,
+    iterations: key.iterations,
+    verifier: await encryptValue(VERIFIER_TEXT, key),
+    autoLockMinutes
+  });
+  const codec = createEncryptedCodec(key);
+  await recodeStorage(codec);
+  removePlainCopies();
+}
+
+/** Check `passphrase` and use its key for reading and writing data */
+export async function unlock(passphrase: string): Promise<void> {
+  const config = getLockConfig();
+  if (!config) return;
+  await setStorageCodec(createEncryptedCodec(await verifyPassphrase(config, passphrase)));
+}
+
+/** Forget the key once pending saves are written; stored data stays encrypted */
+export function lock(): Promise<void> {
+  return setStorageCodec(LOCKED_CODEC);
+}
+
+/** Go back to plain storage after another tab turned the lock off */
+export function forgetLock(): Promise<void> {
+  return setStorageCodec(PLAIN_CODEC);
+}
+
+/** Decrypt everything stored and remove the lock; `passphrase` must be the current one */
+export async function disableLock(passphrase: string): Promise<void> {
+  const config = getLockConfig();
+  if (!config) return;
+  const codec = createEncryptedCodec(await verifyPassphrase(config, passphrase));
+  await setStorageCodec(codec);
+  await recodeStorage(PLAIN_CODEC);
+  localStorage.removeItem(LOCK_STORAGE_KEY);
+}
+
+export function setAutoLockMinutes(autoLockMinutes: number): void {
+  const config = getLockConfig();
+  if (config) saveLockConfig({ ...config, autoLockMinutes });
+}
+
+/**
+ * Undo history and queued sync changes are not stored while locked; drop the
+ * plain copies every profile wrote before. Sync starts over as a first sync.
+ */
+function removePlainCopies(): void {
+  getProfiles().forEach(profile => {
+    sessionStorage.removeItem(historyStorageKey(profile.id));
+    localStorage.removeItem(syncStorageKey(profile.id));
+  });
+}
+
+/** Erase every profile's encrypted data and the lock, for when the passphrase is lost */
+export async function eraseLockedData(): Promise<void> {
+  await Promise.all(getProfiles().map(profile => destroyProfileStorage(profile.id)));
+  resetProfiles();
+  localStorage.removeItem(LOCK_STORAGE_KEY);
+  await setStorageCodec(PLAIN_CODEC);
+}
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { mergeAppData, previewMerge } from '@/services/merge';
+import { ImportValidationError } from '@/services/validation';
+import { createEmptyAppData } from '@/services/dataService';
+import { AppData, Expense } from '@/types';
+
+const coffee = (id: string, fields: Partial<Expense> = {}): Expense => ({
+  id, periodId: 'p1', portionId: 'f1', date: '2024-01-05', description: 'Coffee', amount: 10, ...fields
+});
+
+const current: AppData = {
+  ...createEmptyAppData(),
+  periods: [{ id: 'p1', name: 'January 2024', startDate: '2024-01-01', endDate: '2024-01-31' }],
+  portions: [{ id: 'f1', periodId: 'p1', name: 'Food', budgetAmount: 100 }],
+  expenses: [coffee('a')],
+  activePeriodId: 'p1'
+};
+
+/** The same period and portion as another device would have created them, under other ids */
+const elsewhere: AppData = {
+  ...current,
+  periods: [{ id: 'p9', name: 'january 2024 ', startDate: '2024-01-01', endDate: '2024-01-31' }],
+  portions: [{ id: 'f9', periodId: 'p9', name: 'FOOD', budgetAmount: 100 }],
+  expenses: [],
+  activePeriodId: 'p9'
+};
+
+describe('previewMerge', () => {
+  it('counts records with the same id and values as unchanged', () => {
+    expect(previewMerge(current, current)).toEqual({
+      added: { periods: 0, incomes: 0, portions: 0, expenses: 0 }, unchanged: 3, matchedByDetails: 0, conflicts: []
+    });
+  });
+
+  it('pairs records by their details and rewrites references to them', () => {
+    const preview = previewMerge(current, { ...elsewhere, expenses: [coffee('x', { periodId: 'p9', portionId: 'f9' })] });
+    expect(preview.matchedByDetails).toBe(3);
+    expect(preview.added).toEqual({ periods: 0, incomes: 0, portions: 0, expenses: 0 });
+    expect(preview.conflicts.map(c => [c.kind, c.id, c.fields])).toEqual([['period', 'p1', ['name']], ['portion', 'f1', ['name']]]);
+  });
+
+  it('pairs identical records one to one', () => {
+    const twice = { ...current, expenses: [coffee('a'), coffee('b')] };
+    const preview = previewMerge(twice, { ...current, expenses: [coffee('x'), coffee('y'), coffee('z')] });
+    expect(preview.matchedByDetails).toBe(2);
+    expect(preview.added.expenses).toBe(1);
+  });
+
+  it('reports the fields that differ', () => {
+    const [conflict] = previewMerge(current, { ...current, expenses: [coffee('a', { amount: 12 })] }).conflicts;
+    expect(conflict).toMatchObject({ kind: 'expense', id: 'a', matchedBy: 'id', fields: ['amount'] });
+  });
+});
+
+describe('mergeAppData', () => {
+  const incoming = { ...current, expenses: [coffee('a', { amount: 12 }), coffee('b', { description: 'Tea' })] };
+
+  it('adds new records and keeps current values by default', () => {
+    const merged = mergeAppData(current, incoming, 'keep-existing');
+    expect(merged.expenses.map(e => [e.id, e.amount, e.description])).toEqual([['a', 10, 'Coffee'], ['b', 10, 'Tea']]);
+  });
+
+  it('takes incoming values when asked, overall or per conflict', () => {
+    expect(mergeAppData(current, incoming, 'use-incoming').expenses[0].amount).toBe(12);
+    expect(mergeAppData(current, incoming, 'use-incoming', { 'expense:a': 'keep-existing' }).expenses[0].amount).toBe(10);
+  });
+
+  it('moves added records onto the matched period and portion', () => {
+    const merged = mergeAppData(current, { ...elsewhere, expenses: [coffee('b', { periodId: 'p9', portionId: 'f9', amount: 5 })] }, 'keep-existing');
+    expect(merged.periods).toEqual(current.periods);
+    expect(merged.expenses.find(e => e.id === 'b')).toMatchObject({ periodId: 'p1', portionId: 'f1' });
+    expect(merged.activePeriodId).toBe('p1');
+  });
+
+  it('rejects a merge that leaves broken references', () => {
+    const orphan = { ...current, expenses: [coffee('b', { portionId: 'missing' })] };
+    expect(() => mergeAppData(current, orphan, 'keep-existing')).toThrow(ImportValidationError);
+  });
+});
@@ -0,0 +1,208 @@
+/**
+ * =============================================================================
+ * MERGE IMPORT
+ * Adds records from an imported AppData into the current data. Periods,
+ * income entries, portions and expenses are matched by id, and otherwise by
+ * what identifies them to a person: a period by name and date range, a
+ * portion by name within its period, income and expenses by their details.
+ * Matched records take the current record's id, and references to them are
+ * rewritten, so two exports that grew apart combine into one consistent
+ * dataset. Matched records that differ are reported as conflicts, to be
+ * resolved one by one or all the same way.
+ * =============================================================================
+ */
+
+import { AppData, Period, IncomeEntry, Portion, Expense } from '@/types';
+import { assertValidAppData } from '@/services/validation';
+
+export type MergeRecordKind = 'period' | 'income' | 'portion' | 'expense';
+
+export type MergeRecord = Period | IncomeEntry | Portion | Expense;
+
+/** How an incoming record was paired with a current one */
+export type MergeMatch = 'id' | 'details';
+
+export interface MergeConflict {
+  kind: MergeRecordKind;
+  /** Id of the current record */
+  id: string;
+  existing: MergeRecord;
+  /** The imported record, with its id and references rewritten to the current data's */
+  incoming: MergeRecord;
+  matchedBy: MergeMatch;
+  /** Fields whose values differ between the two records */
+  fields: string[];
+}
+
+export interface MergePreview {
+  added: { periods: number; incomes: number; portions: number; expenses: number };
+  unchanged: number;
+  /** Imported records paired with current ones by their details rather than by id */
+  matchedByDetails: number;
+  conflicts: MergeConflict[];
+}
+
+/** How to resolve records that exist on both sides with different values */
+export type ConflictStrategy = 'keep-existing' | 'use-incoming';
+
+/** Choices for single conflicts, by conflictKey; the others follow the overall strategy */
+export type MergeResolutions = Record<string, ConflictStrategy>;
+
+export function conflictKey(conflict: Pick<MergeConflict, 'kind' | 'id'>): string {
+  return `${conflict.kind}:${conflict.id}`;
+}
+
+function diffFields<T extends object>(a: T, b: T): string[] {
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+  return [...keys].filter(k => JSON.stringify(a[k as keyof T]) !== JSON.stringify(b[k as keyof T]));
+}
+
+const normalize = (text: string) => text.trim().toLowerCase();
+
+interface MatchResult<T> {
+  /** Incoming records not matched to any current record */
+  added: T[];
+  unchanged: number;
+  matchedByDetails: number;
+  conflicts: MergeConflict[];
+  /** Incoming id to the id of the current record it matched, for rewriting references */
+  ids: Map<string, string>;
+}
+
+/**
+ * Pair incoming records with current ones, by id first and then by
+ * `detailsKey`. Each current record is paired at most once.
+ */
+function matchRecords<T extends { id: string }>(
+  kind: MergeRecordKind,
+  existing: T[],
+  incoming: T[],
+  detailsKey: (record: T) => string
+): MatchResult<T> {
+  const byId = new Map(existing.map(r => [r.id, r]));
+  const claimed = new Set(incoming.filter(r => byId.has(r.id)).map(r => r.id));
+  // Unclaimed current records per key, so identical records pair one to one
+  const byDetails = new Map<string, T[]>();
+  existing.forEach(r => {
+    if (claimed.has(r.id)) return;
+    const key = detailsKey(r);
+    byDetails.set(key, [...(byDetails.get(key) || []), r]);
+  });
+
+  const result: MatchResult<T> = { added: [], unchanged: 0, matchedByDetails: 0, conflicts: [], ids: new Map() };
+
+  incoming.forEach(record => {
+    let current = byId.get(record.id);
+    let matchedBy: MergeMatch = 'id';
+    if (!current) {
+      current = byDetails.get(detailsKey(record))?.shift();
+      if (!current) {
+        result.added.push(record);
+        return;
+      }
+      matchedBy = 'details';
+      result.matchedByDetails++;
+    }
+
+    result.ids.set(record.id, current.id);
+    const paired = { ...record, id: current.id };
+    const fields = diffFields(current, paired);
+    if (fields.length === 0) {
+      result.unchanged++;
+    } else {
+      result.conflicts.push({
+        kind,
+        id: current.id,
+        existing: current as unknown as MergeRecord,
+        incoming: paired as unknown as MergeRecord,
+        matchedBy,
+        fields
+      });
+    }
+  });
+
+  return result;
+}
+
+const remap = (ids: Map<string, string>, id: string) => ids.get(id) || id;
+
+/** Match every kind of record, rewriting references as parents are matched */
+function planMerge(current: AppData, incoming: AppData) {
+  const periods = matchRecords('period', current.periods, incoming.periods,
+    p => `${normalize(p.name)}|${p.startDate}|${p.endDate}`);
+
+  const incomingPortions = incoming.portions.map(p => ({ ...p, periodId: remap(periods.ids, p.periodId) }));
+  const portions = matchRecords('portion', current.portions, incomingPortions,
+    p => `${p.periodId}|${normalize(p.name)}`);
+
+  const incomingIncomes = incoming.incomes.map(i => ({ ...i, periodId: remap(periods.ids, i.periodId) }));
+  const incomes = matchRecords('income', current.incomes, incomingIncomes,
+    i => `${i.periodId}|${normalize(i.source)}|${i.date}|${i.amount}`);
+
+  const incomingExpenses = incoming.expenses.map(e => ({
+    ...e,
+    periodId: remap(periods.ids, e.periodId),
+    portionId: remap(portions.ids, e.portionId)
+  }));
+  const expenses = matchRecords('expense', current.expenses, incomingExpenses,
+    e => `${e.periodId}|${e.portionId}|${e.date}|${e.amount}|${normalize(e.description)}`);
+
+  return {
+    periods, incomes, portions, expenses,
+    activePeriodId: incoming.activePeriodId && remap(periods.ids, incoming.activePeriodId)
+  };
+}
+
+/** Describe what merging `incoming` into `current` would do, without changing anything */
+export function previewMerge(current: AppData, incoming: AppData): MergePreview {
+  const { periods, incomes, portions, expenses } = planMerge(current, incoming);
+  const all = [periods, incomes, portions, expenses];
+
+  return {
+    added: {
+      periods: periods.added.length,
+      incomes: incomes.added.length,
+      portions: portions.added.length,
+      expenses: expenses.added.length
+    },
+    unchanged: all.reduce((sum, r) => sum + r.unchanged, 0),
+    matchedByDetails: all.reduce((sum, r) => sum + r.matchedByDetails, 0),
+    conflicts: all.flatMap(r => r.conflicts)
+  };
+}
+
+function mergeRecords<T extends { id: string }>(
+  existing: T[],
+  result: MatchResult<T>,
+  resolve: (conflict: MergeConflict) => ConflictStrategy
+): T[] {
+  const replaced = new Map(result.conflicts
+    .filter(c => resolve(c) === 'use-incoming')
+    .map(c => [c.id, c.incoming as unknown as T]));
+  return [...existing.map(r => replaced.get(r.id) || r), ...result.added];
+}
+
+/**
+ * Merge `incoming` into `current`. Conflicts use their entry in `resolutions`,
+ * else `strategy`. The result is validated, so a merge that would leave broken
+ * references throws ImportValidationError.
+ */
+export function mergeAppData(
+  current: AppData,
+  incoming: AppData,
+  strategy: ConflictStrategy,
+  resolutions: MergeResolutions = {}
+): AppData {
+  const plan = planMerge(current, incoming);
+  const resolve = (conflict: MergeConflict) => resolutions[conflictKey(conflict)] || strategy;
+  const merged: AppData = {
+    ...current,
+    periods: mergeRecords(current.periods, plan.periods, resolve),
+    incomes: mergeRecords(current.incomes, plan.incomes, resolve),
+    portions: mergeRecords(current.portions, plan.portions, resolve),
+    expenses: mergeRecords(current.expenses, plan.expenses, resolve),
+    activePeriodId: current.activePeriodId || plan.activePeriodId
+  };
+  assertValidAppData(merged);
+  return merged;
+}
@@ -0,0 +1,99 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import {
+  CURRENT_SCHEMA_VERSION, MIGRATIONS, MigrationError, migrateAppData, migrateV1ToV2, migrateV2ToV3, migrateV3ToV4
+} from '@/services/migrations';
+import { validateAppData } from '@/services/validation';
+import v1 from '@/services/__fixtures__/v1.json';
+import v2 from '@/services/__fixtures__/v2.json';
+import v3 from '@/services/__fixtures__/v3.json';
+import unknownVersion from '@/services/__fixtures__/unknown-version.json';
+
+describe('migrateV1ToV2', () => {
+  it('adds default retention settings and an empty archive', () => {
+    const data = migrateV1ToV2(v1);
+    expect(data.version).toBe('v2');
+    expect(data.settings).toEqual({ retention: { retentionMonths: 12, archiveExpired: true } });
+    expect(data.archive).toEqual([]);
+    expect(data.periods).toEqual(v1.periods);
+  });
+
+  it('keeps retention settings that are already there', () => {
+    const settings = { retention: { retentionMonths: 3, archiveExpired: false } };
+    expect(migrateV1ToV2({ ...v1, settings }).settings).toEqual(settings);
+  });
+});
+
+describe('migrateV2ToV3', () => {
+  it('turns each period income amount into a received income entry', () => {
+    const data = migrateV2ToV3(v2);
+    expect(data.version).toBe('v3');
+    expect(data.incomes).toEqual([
+      { id: 'p2-income', periodId: 'p2', source: 'Income', date: '2024-02-01', amount: 5000000, status: 'received' }
+    ]);
+    expect(data.periods).toEqual([
+      { id: 'p2', name: 'February 2024', startDate: '2024-02-01', endDate: '2024-02-29' },
+      { id: 'p3', name: 'March 2024', startDate: '2024-03-01', endDate: '2024-03-31' }
+    ]);
+  });
+
+  it('does the same for archived periods', () => {
+    const [entry] = migrateV2ToV3(v2).archive as Record<string, unknown>[];
+    expect(entry.period).not.toHaveProperty('incomeAmount');
+    expect(entry.incomes).toEqual([
+      { id: 'p1-income', periodId: 'p1', source: 'Income', date: '2024-01-01', amount: 4500000, status: 'received' }
+    ]);
+  });
+});
+
+describe('migrateV3ToV4', () => {
+  it('keeps archived expense tuples as they are', () => {
+    const data = migrateV3ToV4(v3);
+    expect(data.version).toBe('v4');
+    expect(data.archive).toEqual(v3.archive);
+  });
+});
+
+describe('migrateAppData', () => {
+  const steps = MIGRATIONS.map(m => m.migrate);
+
+  afterEach(() => {
+    MIGRATIONS.forEach((m, i) => { m.migrate = steps[i]; });
+  });
+
+  it.each([
+    ['v1', v1, ['v1 → v2', 'v2 → v3', 'v3 → v4']],
+    ['v2', v2, ['v2 → v3', 'v3 → v4']],
+    ['v3', v3, ['v3 → v4']]
+  ])('runs %s data up to the current version', (_version, fixture, applied) => {
+    const result = migrateAppData(fixture);
+    expect(result.applied).toEqual(applied);
+    expect(result.data.version).toBe(CURRENT_SCHEMA_VERSION);
+    expect(validateAppData(result.data)).toEqual([]);
+  });
+
+  it('leaves its input untouched', () => {
+    const copy = JSON.parse(JSON.stringify(v2));
+    migrateAppData(copy);
+    expect(copy).toEqual(v2);
+  });
+
+  it('rejects an unknown version', () => {
+    expect(() => migrateAppData(unknownVersion)).toThrow(MigrationError);
+  });
+
+  it('names the step that failed', () => {
+    MIGRATIONS[1].migrate = () => { throw new Error('broken'); };
+    try {
+      migrateAppData(v1);
+      expect.fail('migration should have thrown');
+    } catch (err) {
+      expect(err).toBeInstanceOf(MigrationError);
+      expect(err).toMatchObject({ fromVersion: 'v1', step: 'v2 → v3' });
+    }
+  });
+
+  it('rejects a step that does not reach its target version', () => {
+    MIGRATIONS[0].migrate = data => ({ ...data, version: 'v1' });
+    expect(() => migrateAppData(v1)).toThrow(MigrationError);
+  });
+});
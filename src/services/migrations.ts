@@ -0,0 +1,131 @@
+/**
+ * =============================================================================
+ * SCHEMA MIGRATIONS
+ * Runs stored or imported AppData forward to the current schema version.
+ * Each step is a pure function from one version's shape to the next, so it
+ * can be exercised on its own with a saved JSON blob.
+ * =============================================================================
+ */
+
+import { AppData } from '@/types';
+import { t } from '@/i18n';
+
+export const CURRENT_SCHEMA_VERSION = 'v4';
+
+type RawData = Record<string, unknown>;
+
+const isRawData = (value: unknown): value is RawData =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/** Items of a list field; anything that is not a list counts as empty */
+const rawList = (value: unknown): unknown[] => (Array.isArray(value) ? value : []);
+
+export interface Migration {
+  from: string;
+  to: string;
+  description: string;
+  migrate: (data: RawData) => RawData;
+}
+
+/** Thrown when a migration step fails or the data version is unknown */
+export class MigrationError extends Error {
+  constructor(message: string, public readonly fromVersion: string, public readonly step?: string) {
+    super(message);
+    this.name = 'MigrationError';
+  }
+}
+
+/** v1 → v2: add retention settings and the period archive */
+export function migrateV1ToV2(data: RawData): RawData {
+  return {
+    ...data,
+    version: 'v2',
+    settings: {
+      retention: { retentionMonths: 12, archiveExpired: true },
+      ...(isRawData(data.settings) ? data.settings : {})
+    },
+    archive: Array.isArray(data.archive) ? data.archive : []
+  };
+}
+
+/** Turn a v2 period's single incomeAmount into a received income entry */
+function incomeEntriesFromPeriod(period: unknown): RawData[] {
+  if (!isRawData(period)) return [];
+  const amount = Number(period.incomeAmount) || 0;
+  return amount > 0
+    ? [{ id: `${period.id}-income`, periodId: period.id, source: 'Income', date: period.startDate, amount, status: 'received' }]
+    : [];
+}
+
+function withoutIncomeAmount(period: unknown): unknown {
+  if (!isRawData(period)) return period;
+  const { incomeAmount: _incomeAmount, ...rest } = period;
+  return rest;
+}
+
+/** v2 → v3: replace Period.incomeAmount with per-period income entries */
+export function migrateV2ToV3(data: RawData): RawData {
+  const periods = rawList(data.periods);
+  const archive = rawList(data.archive);
+  return {
+    ...data,
+    version: 'v3',
+    periods: periods.map(withoutIncomeAmount),
+    incomes: periods.flatMap(incomeEntriesFromPeriod),
+    archive: archive.map(entry => (isRawData(entry)
+      ? { ...entry, period: withoutIncomeAmount(entry.period), incomes: incomeEntriesFromPeriod(entry.period) }
+      : entry))
+  };
+}
+
+/**
+ * v3 → v4: archived expenses may carry a sixth element with their optional
+ * fields (original currency and amount, exchange rate, recurring source).
+ * v3 tuples are valid v4 tuples without it, so only the version changes.
+ */
+export function migrateV3ToV4(data: RawData): RawData {
+  return { ...data, version: 'v4' };
+}
+
+/** Ordered registry; each entry's `from` must equal the previous entry's `to` */
+export const MIGRATIONS: Migration[] = [
+  { from: 'v1', to: 'v2', description: 'Add retention settings and archive', migrate: migrateV1ToV2 },
+  { from: 'v2', to: 'v3', description: 'Split period income into income entries', migrate: migrateV2ToV3 },
+  { from: 'v3', to: 'v4', description: 'Keep optional expense fields in the archive', migrate: migrateV3ToV4 }
+];
+
+/**
+ * Run data through every migration from its version up to the current one.
+ * Works on a copy; the input is never modified.
+ */
+export function migrateAppData(raw: unknown): { data: AppData; applied: string[] } {
+  if (!isRawData(raw)) {
+    throw new MigrationError(t('errors.notObject'), 'unknown');
+  }
+
+  const fromVersion = typeof raw.version === 'string' ? raw.version : 'v1';
+  let data: RawData = JSON.parse(JSON.stringify(raw));
+  data.version = fromVersion;
+  const applied: string[] = [];
+
+  while (data.version !== CURRENT_SCHEMA_VERSION) {
+    const migration = MIGRATIONS.find(m => m.from === data.version);
+    if (!migration) {
+      throw new MigrationError(t('errors.unknownVersion', { version: String(data.version) }), fromVersion);
+    }
+    const step = `${migration.from} → ${migration.to}`;
+    try {
+      data = migration.migrate(data);
+    } catch (err) {
+      const reason = err instanceof Error ? err.message : String(err);
+      throw new MigrationError(t('errors.migrationFailed', { step, description: migration.description, reason }), fromVersion, step);
+    }
+    if (data.version !== migration.to) {
+      throw new MigrationError(t('errors.migrationVersion', { step, version: migration.to }), fromVersion, step);
+    }
+    applied.push(step);
+  }
+
+  // The shape is checked afterwards by validation
+  return { data: data as unknown as AppData, applied };
+}
@@ -0,0 +1,75 @@
+/**
+ * =============================================================================
+ * PERIOD HELPERS
+ * Calendar month ranges and templates for starting a period from another one
+ * =============================================================================
+ */
+
+import { IncomeEntry, Period, Portion } from '@/types';
+import { ONE_DAY_MS, getShortMonthYear, toDateString } from '@/utils/formatters';
+
+/** A portion to create in a new period, before it has ids */
+export type PortionTemplate = Omit<Portion, 'id' | 'periodId'>;
+
+/** An income entry to create in a new period, before it has ids */
+export type IncomeTemplate = Omit<IncomeEntry, 'id' | 'periodId'>;
+
+/** First and last day of the calendar month `monthOffset` months after `date` */
+export function getMonthRange(date: Date, monthOffset = 0): { name: string; startDate: string; endDate: string } {
+  const year = date.getFullYear();
+  const month = date.getMonth() + monthOffset;
+  return {
+    name: getShortMonthYear(new Date(year, month, 1)),
+    startDate: toDateString(new Date(Date.UTC(year, month, 1))),
+    endDate: toDateString(new Date(Date.UTC(year, month + 1, 0)))
+  };
+}
+
+/** The calendar month right after a period ends */
+export function getNextMonthRange(period: Period): { name: string; startDate: string; endDate: string } {
+  const [year, month] = period.endDate.split('-').map(Number);
+  return getMonthRange(new Date(year, month - 1, 1), 1);
+}
+
+/** Most recent period by start date */
+export function getLatestPeriod(periods: Period[]): Period | undefined {
+  return [...periods].sort((a, b) => b.startDate.localeCompare(a.startDate))[0];
+}
+
+/** Copy a period's portions as templates, keeping every field except ids */
+export function getPortionTemplates(portions: Portion[], periodId: string): PortionTemplate[] {
+  return portions
+    .filter(p => p.periodId === periodId)
+    .map(({ id: _id, periodId: _periodId, ...template }) => template);
+}
+
+/**
+ * Copy a period's income entries into another date range as expected income,
+ * keeping each entry's offset from the period start (clamped to the new end)
+ */
+export function getIncomeTemplates(
+  incomes: IncomeEntry[],
+  source: Period,
+  target: { startDate: string; endDate: string }
+): IncomeTemplate[] {
+  const sourceStart = new Date(source.startDate).getTime();
+  const targetStart = new Date(target.startDate).getTime();
+  return incomes
+    .filter(i => i.periodId === source.id)
+    .map(({ id: _id, periodId: _periodId, ...template }) => {
+      const offsetDays = Math.max(0, Math.round((new Date(template.date).getTime() - sourceStart) / ONE_DAY_MS));
+      const date = toDateString(new Date(targetStart + offsetDays * ONE_DAY_MS));
+      return { ...template, date: date > target.endDate ? target.endDate : date, status: 'expected' as const };
+    });
+}
+
+/** Find the portion in a period with the given name (case-insensitive) */
+export function findPortionByName(portions: Portion[], periodId: string, name: string): Portion | undefined {
+  const target = name.trim().toLowerCase();
+  return portions.find(p => p.periodId === periodId && p.name.trim().toLowerCase() === target);
+}
+
+/** The period that started most recently before the given one */
+export function getPreviousPeriod(periods: Period[], period: Period): Period | undefined {
+  return getLatestPeriod(periods.filter(p => p.id !== period.id && p.startDate < period.startDate));
+}
@@ -0,0 +1,118 @@
+/**
+ * =============================================================================
+ * PROFILES
+ * Named budgets kept side by side in one browser. The list of profiles is
+ * stored in localStorage; each profile's data, undo history, sync queue and
+ * tab channel use their own keys, derived with profileStorageKey. The first
+ * profile keeps the original keys, so data from before profiles stays put; it
+ * can be renamed but not deleted.
+ * =============================================================================
+ */
+
+import { BudgetProfile } from '@/types';
+import { generateId } from '@/utils/formatters';
+import { t } from '@/i18n';
+
+export const PROFILES_STORAGE_KEY = 'budget_app_v1_profiles';
+/** sessionStorage key of the profile open in this tab */
+const ACTIVE_PROFILE_KEY = 'budget_app_v1_active_profile';
+export const DEFAULT_PROFILE_ID = 'default';
+export const MAX_PROFILE_NAME_LENGTH = 40;
+
+interface ProfileRegistry {
+  profiles: BudgetProfile[];
+  /** Opened by new tabs */
+  lastActiveId: string;
+}
+
+function defaultRegistry(): ProfileRegistry {
+  return {
+    profiles: [{ id: DEFAULT_PROFILE_ID, name: t('profiles.defaultName'), createdAt: new Date().toISOString() }],
+    lastActiveId: DEFAULT_PROFILE_ID
+  };
+}
+
+function loadRegistry(): ProfileRegistry {
+  try {
+    const stored = JSON.parse(localStorage.getItem(PROFILES_STORAGE_KEY) || 'null') as ProfileRegistry | null;
+    if (stored && Array.isArray(stored.profiles) && stored.profiles.length > 0) return stored;
+  } catch {
+    // Unreadable list: fall back to the default profile, whose data keys never change
+  }
+  return defaultRegistry();
+}
+
+function saveRegistry(registry: ProfileRegistry): void {
+  localStorage.setItem(PROFILES_STORAGE_KEY, JSON.stringify(registry));
+}
+
+export function getProfiles(): BudgetProfile[] {
+  return loadRegistry().profiles;
+}
+
+let activeProfileId: string | null = null;
+
+/** The profile this tab works on: the one it had open, else the one last opened in any tab */
+export function getActiveProfileId(): string {
+  const registry = loadRegistry();
+  const exists = (id: string | null) => id !== null && registry.profiles.some(p => p.id === id);
+  if (exists(activeProfileId)) return activeProfileId!;
+  const fromSession = sessionStorage.getItem(ACTIVE_PROFILE_KEY);
+  activeProfileId = exists(fromSession) ? fromSession! :
+    exists(registry.lastActiveId) ? registry.lastActiveId : registry.profiles[0].id;
+  return activeProfileId;
+}
+
+export function setActiveProfileId(id: string): void {
+  if (id === activeProfileId) return;
+  activeProfileId = id;
+  sessionStorage.setItem(ACTIVE_PROFILE_KEY, id);
+  const registry = loadRegistry();
+  if (registry.profiles.some(p => p.id === id)) saveRegistry({ ...registry, lastActiveId: id });
+}
+
+/** `base` for the default profile, a key of its own for every other profile */
+export function profileStorageKey(base: string, profileId: string = getActiveProfileId()): string {
+  return profileId === DEFAULT_PROFILE_ID ? base : `${base}_profile_${profileId}`;
+}
+
+function cleanName(name: string): string {
+  const trimmed = name.trim().slice(0, MAX_PROFILE_NAME_LENGTH);
+  if (!trimmed) throw new Error(t('profiles.nameRequired'));
+  return trimmed;
+}
+
+/** Add a profile to the list; its data is written separately */
+export function addProfile(name: string): BudgetProfile {
+  const registry = loadRegistry();
+  const profile: BudgetProfile = { id: generateId(), name: cleanName(name), createdAt: new Date().toISOString() };
+  saveRegistry({ ...registry, profiles: [...registry.profiles, profile] });
+  return profile;
+}
+
+export function renameProfile(id: string, name: string): void {
+  const registry = loadRegistry();
+  const cleaned = cleanName(name);
+  saveRegistry({ ...registry, profiles: registry.profiles.map(p => (p.id === id ? { ...p, name: cleaned } : p)) });
+}
+
+/** Remove a profile from the list, with every localStorage and sessionStorage key of its own */
+export function removeProfile(id: string): void {
+  if (id === DEFAULT_PROFILE_ID) throw new Error(t('profiles.defaultNotDeletable'));
+  const registry = loadRegistry();
+  saveRegistry({
+    profiles: registry.profiles.filter(p => p.id !== id),
+    lastActiveId: registry.lastActiveId === id ? DEFAULT_PROFILE_ID : registry.lastActiveId
+  });
+  const suffix = profileStorageKey('', id);
+  [localStorage, sessionStorage].forEach(storage => {
+    Object.keys(storage).filter(key => key.endsWith(suffix)).forEach(key => storage.removeItem(key));
+  });
+}
+
+/** Forget every profile, back to the default one; used when all data is erased */
+export function resetProfiles(): void {
+  localStorage.removeItem(PROFILES_STORAGE_KEY);
+  sessionStorage.removeItem(ACTIVE_PROFILE_KEY);
+  activeProfileId = null;
+}
@@ -0,0 +1,60 @@
+/**
+ * =============================================================================
+ * PROGRESSIVE WEB APP
+ * Service worker registration and update handoff, and the launch actions the
+ * web app manifest's shortcuts open the app with (e.g. "?action=add-expense").
+ * =============================================================================
+ */
+
+/** How often an open app checks for a new deploy */
+const UPDATE_CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
+export type LaunchAction = 'add-expense';
+const LAUNCH_ACTIONS: LaunchAction[] = ['add-expense'];
+
+/** The shortcut action the app was opened with, if any */
+export function getLaunchAction(): LaunchAction | null {
+  const action = new URL(window.location.href).searchParams.get('action') as LaunchAction | null;
+  return action && LAUNCH_ACTIONS.includes(action) ? action : null;
+}
+
+/** Remove the action from the address bar, so a reload does not repeat it */
+export function clearLaunchAction(): void {
+  const url = new URL(window.location.href);
+  if (!url.searchParams.has('action')) return;
+  url.searchParams.delete('action');
+  window.history.replaceState(window.history.state, '', url.toString());
+}
+
+/**
+ * Register the service worker (production builds only) and report a new
+ * version that is installed and waiting. Returns a cleanup function.
+ */
+export function registerServiceWorker(onUpdateReady: (worker: ServiceWorker) => void): () => void {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return () => {};
+
+  let registration: ServiceWorkerRegistration | null = null;
+  const checkForUpdate = () => { registration?.update().catch(() => undefined); };
+
+  const watch = (reg: ServiceWorkerRegistration) => {
+    registration = reg;
+    // A waiting worker with a controlling one means a new version; on first install there is no controller
+    if (reg.waiting && navigator.serviceWorker.controller) onUpdateReady(reg.waiting);
+    reg.addEventListener('updatefound', () => {
+      const installing = reg.installing;
+      installing?.addEventListener('statechange', () => {
+        if (installing.state === 'installed' && navigator.serviceWorker.controller) onUpdateReady(installing);
+      });
+    });
+  };
+
+  navigator.serviceWorker.register(`${import.meta.env.BASE_URL}sw.js`).then(watch).catch(() => undefined);
+  const timer = window.setInterval(checkForUpdate, UPDATE_CHECK_INTERVAL_MS);
+  return () => window.clearInterval(timer);
+}
+
+/** Let the waiting worker take over, then reload into the new version */
+export function activateUpdate(worker: ServiceWorker): void {
+  navigator.serviceWorker.addEventListener('controllerchange', () => window.location.reload(), { once: true });
+  worker.postMessage({ type: 'SKIP_WAITING' });
+}
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { generateRecurringExpenses, getDueDates } from '@/services/recurring';
+import { createEmptyAppData } from '@/services/dataService';
+import { AppData, RecurringExpense } from '@/types';
+
+const rent: RecurringExpense = {
+  id: 'r1',
+  portionName: 'Housing',
+  description: 'Rent',
+  amount: 1000,
+  schedule: { frequency: 'monthly', dayOfMonth: 31 },
+  startDate: '2024-01-01',
+  active: true
+};
+
+describe('getDueDates', () => {
+  it('clamps monthly dates to the end of shorter months', () => {
+    expect(getDueDates(rent, '2024-01-01', '2024-04-30')).toEqual(['2024-01-31', '2024-02-29', '2024-03-31', '2024-04-30']);
+  });
+
+  it('lists weekly and yearly dates', () => {
+    expect(getDueDates({ ...rent, schedule: { frequency: 'weekly', dayOfWeek: 1 } }, '2024-01-01', '2024-01-20'))
+      .toEqual(['2024-01-01', '2024-01-08', '2024-01-15']);
+    expect(getDueDates({ ...rent, schedule: { frequency: 'yearly', month: 2, dayOfMonth: 29 } }, '2024-01-01', '2025-12-31'))
+      .toEqual(['2024-02-29', '2025-02-28']);
+  });
+
+  it('returns nothing for a malformed schedule or date instead of looping', () => {
+    const broken = { ...rent, schedule: { frequency: 'monthly' } } as unknown as RecurringExpense;
+    expect(getDueDates(broken, '2024-01-01', '2024-12-31')).toEqual([]);
+    expect(getDueDates({ ...rent, startDate: 'soon' }, '2024-01-01', '2024-12-31')).toEqual([]);
+  });
+});
+
+describe('generateRecurringExpenses', () => {
+  const data: AppData = {
+    ...createEmptyAppData(),
+    periods: [{ id: 'p1', name: 'January 2024', startDate: '2024-01-01', endDate: '2024-01-31' }],
+    portions: [{ id: 'h1', periodId: 'p1', name: 'Housing', budgetAmount: 1000 }],
+    recurringExpenses: [{ ...rent, schedule: { frequency: 'monthly', dayOfMonth: 5 } }]
+  };
+
+  it('gives the same id wherever the same due date is posted', () => {
+    const [first] = generateRecurringExpenses(data, data.periods[0], '2024-01-10');
+    const [second] = generateRecurringExpenses(data, data.periods[0], '2024-01-10');
+    expect(first).toMatchObject({ id: 'r1-2024-01-05', portionId: 'h1', date: '2024-01-05', autoGenerated: true });
+    expect(second.id).toBe(first.id);
+  });
+
+  it('skips dates already posted or skipped', () => {
+    const posted = { ...data, expenses: generateRecurringExpenses(data, data.periods[0], '2024-01-10') };
+    expect(generateRecurringExpenses(posted, data.periods[0], '2024-01-10')).toEqual([]);
+    const skipped = { ...data, recurringExpenses: [{ ...data.recurringExpenses![0], skippedDates: ['2024-01-05'] }] };
+    expect(generateRecurringExpenses(skipped, data.periods[0], '2024-01-10')).toEqual([]);
+  });
+});
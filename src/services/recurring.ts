@@ -0,0 +1,116 @@
+/**
+ * =============================================================================
+ * RECURRING EXPENSES
+ * Works out due dates for recurring definitions and generates the matching
+ * expenses in a period. Portions are matched by name, since each Portion
+ * belongs to a single period.
+ * =============================================================================
+ */
+
+import { AppData, Expense, Period, RecurrenceSchedule, RecurringExpense } from '@/types';
+import { findPortionByName } from '@/services/periods';
+import { getCurrentDate, getMonthNames, getWeekdayNames, toDateString } from '@/utils/formatters';
+import { t } from '@/i18n';
+
+function parseDate(value: string): Date {
+  const [year, month, day] = String(value).split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day));
+}
+
+/** Day N of a month, clamped to the month's last day (e.g. 31 → 28 Feb) */
+function clampedDate(year: number, monthIndex: number, day: number): Date {
+  const lastDay = new Date(Date.UTC(year, monthIndex + 1, 0)).getUTCDate();
+  return new Date(Date.UTC(year, monthIndex, Math.min(day, lastDay)));
+}
+
+/** Short description of a schedule, e.g. "Monthly on day 5" */
+export function describeSchedule(schedule: RecurrenceSchedule): string {
+  switch (schedule.frequency) {
+    case 'monthly':
+      return t('schedule.monthly', { day: schedule.dayOfMonth });
+    case 'weekly':
+      return t('schedule.weekly', { weekday: getWeekdayNames()[schedule.dayOfWeek] });
+    case 'yearly':
+      return t('schedule.yearly', { day: schedule.dayOfMonth, month: getMonthNames('short')[schedule.month - 1] });
+  }
+}
+
+/** All due dates of a recurring expense between two dates (inclusive) */
+export function getDueDates(recurring: RecurringExpense, from: string, to: string): string[] {
+  const start = from > recurring.startDate ? from : recurring.startDate;
+  const end = recurring.endDate && recurring.endDate < to ? recurring.endDate : to;
+  if (start > end) return [];
+
+  const startDate = parseDate(start);
+  const endDate = parseDate(end);
+  const dates: string[] = [];
+  const { schedule } = recurring;
+  // A malformed date or schedule would otherwise never reach the end date
+  const probe = schedule.frequency === 'weekly'
+    ? new Date(Date.UTC(2000, 0, 1 + schedule.dayOfWeek))
+    : clampedDate(2000, (schedule.frequency === 'yearly' ? schedule.month : 1) - 1, schedule.dayOfMonth);
+  if ([startDate, endDate, probe].some(date => isNaN(date.getTime()))) return [];
+
+  if (schedule.frequency === 'weekly') {
+    const first = new Date(startDate);
+    first.setUTCDate(first.getUTCDate() + ((schedule.dayOfWeek - first.getUTCDay() + 7) % 7));
+    for (const d = first; d <= endDate; d.setUTCDate(d.getUTCDate() + 7)) dates.push(toDateString(d));
+  } else if (schedule.frequency === 'monthly') {
+    for (let y = startDate.getUTCFullYear(), m = startDate.getUTCMonth(); ; m++) {
+      const due = clampedDate(y, m, schedule.dayOfMonth);
+      if (due > endDate) break;
+      if (due >= startDate) dates.push(toDateString(due));
+    }
+  } else {
+    for (let y = startDate.getUTCFullYear(); y <= endDate.getUTCFullYear(); y++) {
+      const due = clampedDate(y, schedule.month - 1, schedule.dayOfMonth);
+      if (due >= startDate && due <= endDate) dates.push(toDateString(due));
+    }
+  }
+  return dates;
+}
+
+/**
+ * Id of the expense generated for a due date. It is the same wherever it is
+ * generated, so tabs and devices posting the same date independently end up
+ * with one expense instead of one each.
+ */
+function recurringExpenseId(recurringId: string, date: string): string {
+  return `${recurringId}-${date}`;
+}
+
+/**
+ * Expenses due in the period up to `today` that have not been generated or
+ * skipped yet. Definitions whose portion name has no match in the period are
+ * left out.
+ */
+export function generateRecurringExpenses(data: AppData, period: Period, today: string = getCurrentDate()): Expense[] {
+  const until = period.endDate < today ? period.endDate : today;
+  const generated: Expense[] = [];
+  const existingIds = new Set(data.expenses.map(e => e.id));
+
+  (data.recurringExpenses || []).filter(r => r.active).forEach(recurring => {
+    const portion = findPortionByName(data.portions, period.id, recurring.portionName);
+    if (!portion) return;
+    const existingDates = new Set(
+      data.expenses.filter(e => e.recurringId === recurring.id).map(e => e.date)
+    );
+    const skipped = new Set(recurring.skippedDates || []);
+
+    getDueDates(recurring, period.startDate, until)
+      .filter(date => !existingDates.has(date) && !skipped.has(date)
+        && !existingIds.has(recurringExpenseId(recurring.id, date)))
+      .forEach(date => generated.push({
+        id: recurringExpenseId(recurring.id, date),
+        periodId: period.id,
+        portionId: portion.id,
+        date,
+        description: recurring.description,
+        amount: recurring.amount,
+        recurringId: recurring.id,
+        autoGenerated: true
+      }));
+  });
+
+  return generated;
+}
@@ -0,0 +1,208 @@
+/**
+ * =============================================================================
+ * REMOTE SYNC
+ * Optional sync of periods, portions and expenses with a REST server (the API
+ * is described under "Sync API" in the README; server/mock-server.mjs
+ * implements it). Local changes become queued operations, kept in localStorage
+ * while the server cannot be reached and replayed in order once it can.
+ * =============================================================================
+ */
+
+import { AppData, Expense, Period, Portion } from '@/types';
+import { isLockEnabled } from '@/services/lock';
+import { profileStorageKey } from '@/services/profiles';
+import { t } from '@/i18n';
+
+/** Base localStorage key; each profile has its own journal */
+const SYNC_STORAGE_KEY = 'budget_app_v1_sync';
+
+/** Where the bundled mock server listens */
+export const DEFAULT_SYNC_URL = 'http://localhost:3001/api';
+
+/** AppData collections that are synced, also the API resource names */
+export const SYNC_RESOURCES = ['periods', 'portions', 'expenses'] as const;
+export type SyncResource = typeof SYNC_RESOURCES[number];
+type SyncRecord = Period | Portion | Expense;
+
+export type RemoteRecords = Pick<AppData, SyncResource>;
+
+/** A change still to be sent to the server */
+export interface SyncOperation {
+  resource: SyncResource;
+  id: string;
+  method: 'put' | 'delete';
+  /** The record as it should be stored; only for 'put' */
+  record?: SyncRecord;
+}
+
+/** Queue and progress for one server, persisted across reloads */
+export interface SyncJournal {
+  serverUrl: string;
+  /** Operations in the order they were made, oldest first */
+  queue: SyncOperation[];
+  /** When the server's records were last fetched; null until the first sync with this server */
+  lastSyncedAt: string | null;
+}
+
+export type SyncStatus = 'disabled' | 'syncing' | 'synced' | 'pending' | 'offline' | 'error';
+
+/** Sync progress shown in the UI */
+export interface SyncState {
+  status: SyncStatus;
+  /** Operations waiting to be sent */
+  pending: number;
+  lastSyncedAt: string | null;
+  error: string | null;
+}
+
+/** Thrown when the server cannot be reached at all, as opposed to answering with an error */
+export class SyncOfflineError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SyncOfflineError';
+  }
+}
+
+/** Operations that turn the synced collections of `before` into those of `after` */
+export function diffForSync(before: AppData, after: AppData): SyncOperation[] {
+  const operations: SyncOperation[] = [];
+  SYNC_RESOURCES.forEach(resource => {
+    const previous = new Map((before[resource] as SyncRecord[]).map(r => [r.id, r]));
+    const current = after[resource] as SyncRecord[];
+    // Unchanged reference, unchanged record (see AppData)
+    current.forEach(record => {
+      if (previous.get(record.id) !== record) operations.push({ resource, id: record.id, method: 'put', record });
+    });
+    const kept = new Set(current.map(r => r.id));
+    previous.forEach((_, id) => {
+      if (!kept.has(id)) operations.push({ resource, id, method: 'delete' });
+    });
+  });
+  return operations;
+}
+
+/** A put for every synced record, used to upload local data on the first sync with a server */
+export function snapshotOperations(data: AppData): SyncOperation[] {
+  return SYNC_RESOURCES.flatMap(resource =>
+    (data[resource] as SyncRecord[]).map(record => ({ resource, id: record.id, method: 'put' as const, record }))
+  );
+}
+
+/** Append operations to the queue; an earlier operation on the same record is dropped */
+export function queueOperations(queue: SyncOperation[], operations: SyncOperation[]): SyncOperation[] {
+  const key = (op: SyncOperation) => `${op.resource}/${op.id}`;
+  const replaced = new Set(operations.map(key));
+  return [...queue.filter(op => !replaced.has(key(op))), ...operations];
+}
+
+function resourceUrl(serverUrl: string, resource: SyncResource, id?: string): string {
+  const base = serverUrl.trim().replace(/\/+$/, '');
+  return id ? `${base}/${resource}/${encodeURIComponent(id)}` : `${base}/${resource}`;
+}
+
+async function request(url: string, init?: RequestInit): Promise<Response> {
+  let response: Response;
+  try {
+    response = await fetch(url, init);
+  } catch {
+    throw new SyncOfflineError(t('sync.unreachable'));
+  }
+  if (!response.ok) throw new Error(t('sync.serverError', { status: response.status }));
+  return response;
+}
+
+/** Send one queued operation; deleting a record the server does not have succeeds */
+export async function sendOperation(serverUrl: string, operation: SyncOperation): Promise<void> {
+  const url = resourceUrl(serverUrl, operation.resource, operation.id);
+  if (operation.method === 'delete') {
+    await request(url, { method: 'DELETE' });
+  } else {
+    await request(url, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(operation.record)
+    });
+  }
+}
+
+/** Fetch every synced record from the server */
+export async function fetchRemoteRecords(serverUrl: string): Promise<RemoteRecords> {
+  const [periods, portions, expenses] = await Promise.all(SYNC_RESOURCES.map(async resource => {
+    const response = await request(resourceUrl(serverUrl, resource));
+    const body: unknown = await response.json().catch(() => null);
+    if (!Array.isArray(body) || !body.every(r => typeof r?.id === 'string')) {
+      throw new Error(t('sync.invalidResponse', { resource }));
+    }
+    return body;
+  }));
+  return { periods, portions, expenses };
+}
+
+/**
+ * Replace the synced collections with the server's records, keeping local
+ * changes still waiting in `queue`. Unchanged records keep their local object
+ * and order; returns `data` itself when nothing differs.
+ */
+export function applyRemoteRecords(data: AppData, remote: RemoteRecords, queue: SyncOperation[]): AppData {
+  let changed = false;
+  const next = { ...data };
+
+  SYNC_RESOURCES.forEach(resource => {
+    const local = data[resource] as SyncRecord[];
+    const records = new Map((remote[resource] as SyncRecord[]).map(r => [r.id, r]));
+    queue.filter(op => op.resource === resource).forEach(op => {
+      if (op.method === 'put' && op.record) records.set(op.id, op.record);
+      else records.delete(op.id);
+    });
+
+    const localIds = new Set(local.map(r => r.id));
+    const merged = [
+      ...local.filter(r => records.has(r.id)).map(r => {
+        const record = records.get(r.id)!;
+        return JSON.stringify(record) === JSON.stringify(r) ? r : record;
+      }),
+      ...[...records.values()].filter(r => !localIds.has(r.id))
+    ];
+    if (merged.length !== local.length || merged.some((r, i) => r !== local[i])) {
+      changed = true;
+      (next[resource] as SyncRecord[]) = merged;
+    }
+  });
+
+  if (!changed) return data;
+  if (next.activePeriodId && !next.periods.some(p => p.id === next.activePeriodId)) {
+    next.activePeriodId = next.periods[next.periods.length - 1]?.id;
+  }
+  return next;
+}
+
+/** The saved journal for `serverUrl`; a journal for another server starts over */
+/** localStorage key of a profile's sync journal */
+export function syncStorageKey(profileId?: string): string {
+  return profileStorageKey(SYNC_STORAGE_KEY, profileId);
+}
+
+export function loadSyncJournal(serverUrl: string): SyncJournal {
+  try {
+    const stored = JSON.parse(localStorage.getItem(syncStorageKey()) || 'null') as SyncJournal | null;
+    if (stored && stored.serverUrl === serverUrl && Array.isArray(stored.queue)) return stored;
+  } catch {
+    // Unreadable journal: start over, the next sync uploads everything again
+  }
+  return { serverUrl, queue: [], lastSyncedAt: null };
+}
+
+export function saveSyncJournal(journal: SyncJournal): void {
+  // While the passphrase lock is on, queued records stay in memory only; after a reload the next sync starts over
+  // as a first sync, uploading everything and merging in the server's records
+  const stored = isLockEnabled() ? { serverUrl: journal.serverUrl, queue: [], lastSyncedAt: null } : journal;
+  try {
+    localStorage.setItem(syncStorageKey(), JSON.stringify(stored));
+  } catch {
+    // Storage full: the queue is still kept in memory for this session
+  }
+}
+
+export function clearSyncJournal(): void {
+  localStorage.removeItem(syncStorageKey());
+}
@@ -0,0 +1,111 @@
+/**
+ * =============================================================================
+ * REPORTS
+ * Compares several periods side by side. Portions are lined up by name, as
+ * carry-over and recurring expenses do, and each period gets the budget,
+ * actual spending and variance of every category along with the change in
+ * spending from the period before. Only periods kept in the same base
+ * currency as the last one are compared.
+ * =============================================================================
+ */
+
+import { AppData, Period } from '@/types';
+import { getPortionSummaries } from '@/services/dataService';
+import { getPeriodCurrency } from '@/services/exchangeRates';
+
+/** Numbers of periods a report can cover */
+export const REPORT_RANGES = [3, 6, 12] as const;
+export type ReportRange = typeof REPORT_RANGES[number];
+
+export interface ReportCell {
+  periodId: string;
+  /** Null when the category does not exist in this period, or for totals */
+  portionId: string | null;
+  budget: number;
+  /** Budget plus carried-in balance */
+  available: number;
+  actual: number;
+  /** Available minus actual; negative when overspent */
+  variance: number;
+  /** Percent change of actual from the previous period in the report; null without a base to compare with */
+  change: number | null;
+}
+
+export interface ReportRow {
+  name: string;
+  /** One per period of the report, oldest first */
+  cells: ReportCell[];
+}
+
+export interface PeriodReport {
+  /** Oldest first */
+  periods: Period[];
+  rows: ReportRow[];
+  totals: ReportCell[];
+}
+
+const nameKey = (name: string) => name.trim().toLowerCase();
+
+/** The `count` latest periods up to and including `lastPeriodId`, oldest first */
+export function getReportPeriods(periods: Period[], lastPeriodId: string | undefined, count: number): Period[] {
+  const last = periods.find(p => p.id === lastPeriodId);
+  if (!last) return [];
+  const currency = getPeriodCurrency(last);
+  return periods
+    .filter(p => p.startDate <= last.startDate && getPeriodCurrency(p) === currency)
+    .sort((a, b) => a.startDate.localeCompare(b.startDate))
+    .slice(-count);
+}
+
+/** Fill in each cell's change from the cell before it */
+function withChanges(cells: Omit<ReportCell, 'change'>[]): ReportCell[] {
+  return cells.map((cell, i) => {
+    const previous = cells[i - 1];
+    const change = previous && previous.actual > 0
+      ? ((cell.actual - previous.actual) / previous.actual) * 100
+      : null;
+    return { ...cell, change };
+  });
+}
+
+/** Budget, actual and variance per category for the `count` periods ending with `lastPeriodId` */
+export function buildPeriodReport(data: AppData, lastPeriodId: string | undefined, count: number): PeriodReport {
+  const periods = getReportPeriods(data.periods, lastPeriodId, count);
+  const summaries = periods.map(p => getPortionSummaries(p.id, data.portions, data.expenses, data.periods));
+
+  // Categories in order of first appearance, named as in the latest period that has them
+  const names = new Map<string, string>();
+  summaries.forEach(list => list.forEach(s => names.set(nameKey(s.portion.name), s.portion.name)));
+  const keys = [...new Set(summaries.flatMap(list => list.map(s => nameKey(s.portion.name))))];
+
+  const rows = keys.map(key => ({
+    name: names.get(key)!,
+    cells: withChanges(periods.map((period, i) => {
+      const summary = summaries[i].find(s => nameKey(s.portion.name) === key);
+      return summary
+        ? {
+          periodId: period.id,
+          portionId: summary.portion.id,
+          budget: summary.budget,
+          available: summary.available,
+          actual: summary.used,
+          variance: summary.remaining
+        }
+        : { periodId: period.id, portionId: null, budget: 0, available: 0, actual: 0, variance: 0 };
+    })).map(cell => (cell.portionId ? cell : { ...cell, change: null }))
+  }));
+
+  const totals = withChanges(periods.map((period, i) => {
+    const sum = (pick: (cell: ReportCell) => number) => rows.reduce((total, row) => total + pick(row.cells[i]), 0);
+    return {
+      periodId: period.id,
+      portionId: null,
+      budget: sum(c => c.budget),
+      available: sum(c => c.available),
+      actual: sum(c => c.actual),
+      variance: sum(c => c.variance)
+    };
+  }));
+
+  return { periods, rows, totals };
+}
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { createDefaultProfile, findDuplicate, parseStatement, parseStatementDate } from '@/services/statementImport';
+import { Expense } from '@/types';
+
+describe('parseStatementDate', () => {
+  it.each([
+    ['2024-03-05', 'YYYY-MM-DD'],
+    ['05/03/2024', 'DD/MM/YYYY'],
+    ['03/05/2024', 'MM/DD/YYYY'],
+    ['5.3.24', 'DD/MM/YYYY'],
+    ['05-03-2024 14:30', 'DD/MM/YYYY']
+  ] as const)('reads %s as %s', (text, format) => {
+    expect(parseStatementDate(text, format)).toBe('2024-03-05');
+  });
+
+  it('rejects dates that do not exist', () => {
+    expect(parseStatementDate('31/02/2024', 'DD/MM/YYYY')).toBeNull();
+    expect(parseStatementDate('13/01/2024', 'MM/DD/YYYY')).toBeNull();
+  });
+
+  it('rejects text without three date parts', () => {
+    expect(parseStatementDate('', 'YYYY-MM-DD')).toBeNull();
+    expect(parseStatementDate('March 2024', 'DD/MM/YYYY')).toBeNull();
+  });
+});
+
+describe('parseStatement', () => {
+  it('maps columns and marks incoming money', () => {
+    const { header, rows } = parseStatement(
+      'Date;Description;Amount\n05/03/2024;Coffee;-25.000\n06/03/2024;Top up;100.000\n',
+      createDefaultProfile(';')
+    );
+    expect(header).toEqual(['Date', 'Description', 'Amount']);
+    expect(rows.map(r => [r.line, r.date, r.description, r.amount, r.isCredit])).toEqual([
+      [2, '2024-03-05', 'Coffee', 25000, false],
+      [3, '2024-03-06', 'Top up', 100000, true]
+    ]);
+  });
+});
+
+describe('findDuplicate', () => {
+  const existing: Expense = {
+    id: 'e1', periodId: 'p1', portionId: 'f1', date: '2024-03-05', description: 'Coffee  Shop', amount: 25000
+  };
+
+  it('matches the same date, amount and description, ignoring case and spacing', () => {
+    expect(findDuplicate({ date: '2024-03-05', description: ' coffee shop', amount: 25000 }, [existing])).toBe(existing);
+  });
+
+  it.each([
+    ['date', { date: '2024-03-06', description: 'Coffee Shop', amount: 25000 }],
+    ['amount', { date: '2024-03-05', description: 'Coffee Shop', amount: 26000 }],
+    ['description', { date: '2024-03-05', description: 'Tea Shop', amount: 25000 }]
+  ])('does not match a different %s', (_field, row) => {
+    expect(findDuplicate(row, [existing])).toBeUndefined();
+  });
+});
@@ -0,0 +1,107 @@
+/**
+ * =============================================================================
+ * STATEMENT IMPORT
+ * Turns a bank or e-wallet CSV statement into candidate expenses using a
+ * column mapping profile, and flags rows that look like duplicates.
+ * =============================================================================
+ */
+
+import { Expense, Portion, StatementDateFormat, StatementImportProfile } from '@/types';
+import { parseCsv } from '@/utils/csv';
+import { parseLocaleAmount, toDateString } from '@/utils/formatters';
+
+export interface StatementRow {
+  /** Line number in the file (1-based) */
+  line: number;
+  cells: string[];
+  date: string | null;
+  description: string;
+  /** Amount spent, always positive; null when the cell is not a number */
+  amount: number | null;
+  /** True for incoming money (e.g. top-ups, refunds), which is not imported */
+  isCredit: boolean;
+}
+
+export interface ParsedStatement {
+  header: string[];
+  rows: StatementRow[];
+}
+
+/** Starting mapping for a file that has no saved profile yet */
+export function createDefaultProfile(delimiter: string): Omit<StatementImportProfile, 'id' | 'name'> {
+  return {
+    delimiter,
+    hasHeader: true,
+    dateColumn: 0,
+    descriptionColumn: 1,
+    amountColumn: 2,
+    dateFormat: 'DD/MM/YYYY',
+    debitSign: 'negative'
+  };
+}
+
+/** Parse a date cell into YYYY-MM-DD, or null when it doesn't match the format */
+export function parseStatementDate(value: string, format: StatementDateFormat): string | null {
+  const parts = value.trim().split(/[\s/.-]+/).slice(0, 3).map(p => parseInt(p, 10));
+  if (parts.length < 3 || parts.some(isNaN)) return null;
+
+  const [year, month, day] = format === 'YYYY-MM-DD'
+    ? parts
+    : format === 'DD/MM/YYYY'
+      ? [parts[2], parts[1], parts[0]]
+      : [parts[2], parts[0], parts[1]];
+  const fullYear = year < 100 ? 2000 + year : year;
+  const date = new Date(Date.UTC(fullYear, month - 1, day));
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+  return toDateString(date);
+}
+
+/** Apply a mapping profile to statement CSV text */
+export function parseStatement(text: string, profile: Omit<StatementImportProfile, 'id' | 'name'>): ParsedStatement {
+  const table = parseCsv(text, profile.delimiter);
+  const header = profile.hasHeader ? table[0] || [] : [];
+  const body = profile.hasHeader ? table.slice(1) : table;
+
+  const rows = body.map((cells, i) => {
+    const rawAmount = parseLocaleAmount(cells[profile.amountColumn] || '');
+    const isCredit = rawAmount !== null && rawAmount !== 0 &&
+      (profile.debitSign === 'negative' ? rawAmount > 0 : rawAmount < 0);
+    return {
+      line: i + 1 + (profile.hasHeader ? 1 : 0),
+      cells,
+      date: parseStatementDate(cells[profile.dateColumn] || '', profile.dateFormat),
+      description: (cells[profile.descriptionColumn] || '').trim(),
+      amount: rawAmount === null ? null : Math.abs(rawAmount),
+      isCredit
+    };
+  });
+
+  return { header, rows };
+}
+
+function normalizeDescription(description: string): string {
+  return description.toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+/** An existing expense on the same date with the same amount and description */
+export function findDuplicate(
+  row: { date: string | null; description: string; amount: number | null },
+  expenses: Expense[]
+): Expense | undefined {
+  const description = normalizeDescription(row.description);
+  return expenses.find(e =>
+    e.date === row.date &&
+    e.amount === row.amount &&
+    normalizeDescription(e.description) === description
+  );
+}
+
+/** Pick the portion previously used for the same description, else the first portion */
+export function suggestPortionId(description: string, expenses: Expense[], portions: Portion[]): string {
+  const normalized = normalizeDescription(description);
+  const portionIds = new Set(portions.map(p => p.id));
+  const match = [...expenses]
+    .sort((a, b) => b.date.localeCompare(a.date))
+    .find(e => portionIds.has(e.portionId) && normalizeDescription(e.description) === normalized);
+  return match?.portionId || portions[0]?.id || '';
+}
@@ -0,0 +1,170 @@
+/**
+ * =============================================================================
+ * STORAGE ADAPTERS
+ * Where AppData is persisted. IndexedDB is used when the browser offers it;
+ * localStorage (one JSON blob under "budget_app_v1") remains as the fallback.
+ * Each profile has an adapter of its own. Both adapters pass what they store
+ * through the current codec, which encrypts it while the passphrase lock is on.
+ * =============================================================================
+ */
+
+import { AppData } from '@/types';
+import { openIndexedDbStorage } from '@/services/indexedDbStorage';
+import { getActiveProfileId, getProfiles, profileStorageKey } from '@/services/profiles';
+import { DecryptionError, PassphraseKey, decryptValue, encryptValue, isEncryptedEnvelope } from '@/services/encryption';
+import { t } from '@/i18n';
+
+/** localStorage key of the single-blob format, also read once to migrate into IndexedDB */
+export const LOCAL_STORAGE_KEY = 'budget_app_v1';
+
+export type StorageKind = 'indexeddb' | 'localstorage';
+
+export interface StorageAdapter {
+  readonly kind: StorageKind;
+  /** Stored data as saved, before migrations; null when nothing is stored yet */
+  load(): Promise<unknown | null>;
+  /** Persist `data`; adapters may write only what changed since the last load or save */
+  save(data: AppData): Promise<void>;
+  /** The stored original kept aside after it failed to migrate; null when there is none */
+  loadBackup(): Promise<unknown | null>;
+  /** Keep `value` aside as that original, passed through the codec like the data */
+  saveBackup(value: unknown): Promise<void>;
+  /** Remove everything this adapter stored */
+  clear(): Promise<void>;
+  /** Remove everything stored, including the database itself; the adapter cannot be used afterwards */
+  destroy(): Promise<void>;
+}
+
+/** Turns values into what is written to storage and back */
+export interface StorageCodec {
+  encode(value: unknown): Promise<unknown>;
+  decode(stored: unknown): Promise<unknown>;
+}
+
+/** Stores values as they are; encrypted values cannot be read until unlocked */
+export const PLAIN_CODEC: StorageCodec = {
+  async encode(value) {
+    return value;
+  },
+  async decode(stored) {
+    if (isEncryptedEnvelope(stored)) throw new DecryptionError(t('errors.locked'));
+    return stored;
+  }
+};
+
+/** Encrypts every value with `key`; values still stored in plain text are read as they are */
+export function createEncryptedCodec(key: PassphraseKey): StorageCodec {
+  return {
+    encode: value => encryptValue(value, key),
+    async decode(stored) {
+      return isEncryptedEnvelope(stored) ? decryptValue(stored, key) : stored;
+    }
+  };
+}
+
+let codec: StorageCodec = PLAIN_CODEC;
+
+export function getStorageCodec(): StorageCodec {
+  return codec;
+}
+
+/** Use `next` from now on, without touching what is stored (e.g. after unlocking) */
+export function setStorageCodec(next: StorageCodec): Promise<void> {
+  return enqueue(async () => { codec = next; });
+}
+
+/** Rewrite every profile's data with `next`, e.g. to encrypt or decrypt it when the lock is turned on or off */
+export function recodeStorage(next: StorageCodec): Promise<void> {
+  return enqueue(async () => {
+    const adapters = await Promise.all(getProfiles().map(p => getStorageAdapter(p.id)));
+    // Everything is read with the old codec before anything is written with the new one
+    const stored = await Promise.all(adapters.map(adapter => adapter.load()));
+    const backups = await Promise.all(adapters.map(adapter => adapter.loadBackup()));
+    codec = next;
+    for (let i = 0; i < adapters.length; i++) {
+      if (stored[i] !== null) await adapters[i].save(stored[i] as AppData);
+      if (backups[i] !== null) await adapters[i].saveBackup(backups[i]);
+    }
+  });
+}
+
+export function createLocalStorageAdapter(profileId: string): StorageAdapter {
+  const key = profileStorageKey(LOCAL_STORAGE_KEY, profileId);
+  const backupKey = profileStorageKey(`${LOCAL_STORAGE_KEY}_backup`, profileId);
+  return {
+    kind: 'localstorage',
+    async load() {
+      const stored = localStorage.getItem(key);
+      return stored ? codec.decode(JSON.parse(stored)) : null;
+    },
+    async save(data) {
+      const encoded = await codec.encode(data);
+      try {
+        localStorage.setItem(key, JSON.stringify(encoded));
+      } catch {
+        throw new Error(t('errors.saveFailed'));
+      }
+    },
+    async loadBackup() {
+      const stored = localStorage.getItem(backupKey);
+      return stored ? codec.decode(JSON.parse(stored)) : null;
+    },
+    async saveBackup(value) {
+      const encoded = await codec.encode(value);
+      try {
+        localStorage.setItem(backupKey, JSON.stringify(encoded));
+      } catch {
+        throw new Error(t('errors.saveFailed'));
+      }
+    },
+    async clear() {
+      localStorage.removeItem(key);
+      localStorage.removeItem(backupKey);
+    },
+    async destroy() {
+      localStorage.removeItem(key);
+      localStorage.removeItem(backupKey);
+    }
+  };
+}
+
+const adapters = new Map<string, Promise<StorageAdapter>>();
+
+/** The adapter for a profile in this browser: IndexedDB if it opens, otherwise localStorage */
+export function getStorageAdapter(profileId: string = getActiveProfileId()): Promise<StorageAdapter> {
+  let adapter = adapters.get(profileId);
+  if (!adapter) {
+    adapter = openIndexedDbStorage(profileId).catch(() => createLocalStorageAdapter(profileId));
+    adapters.set(profileId, adapter);
+  }
+  return adapter;
+}
+
+/** Delete everything stored for a profile */
+export function destroyProfileStorage(profileId: string): Promise<void> {
+  return enqueueStorageTask(async adapter => {
+    await adapter.destroy();
+    adapters.delete(profileId);
+  }, profileId);
+}
+
+// Writes run one at a time, in the order they were requested
+let queue: Promise<unknown> = Promise.resolve();
+
+function enqueue<T>(task: () => Promise<T>): Promise<T> {
+  const run = queue.then(task);
+  queue = run.catch(() => undefined);
+  return run;
+}
+
+/**
+ * Run `task` with a profile's adapter after every storage operation queued
+ * before it. The profile is fixed when the task is queued, so a save requested
+ * just before switching profiles still lands in the profile it came from.
+ */
+export function enqueueStorageTask<T>(
+  task: (adapter: StorageAdapter) => Promise<T>,
+  profileId: string = getActiveProfileId()
+): Promise<T> {
+  return enqueue(() => getStorageAdapter(profileId).then(task));
+}
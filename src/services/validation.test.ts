@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import { ImportValidationError, assertValidAppData, validateAppData } from '@/services/validation';
+import { createEmptyAppData } from '@/services/dataService';
+import { AppData } from '@/types';
+
+const valid: AppData = {
+  ...createEmptyAppData(),
+  periods: [{ id: 'p1', name: 'January 2024', startDate: '2024-01-01', endDate: '2024-01-31' }],
+  incomes: [{ id: 'i1', periodId: 'p1', source: 'Salary', date: '2024-01-01', amount: 1000, status: 'received' }],
+  portions: [{ id: 'f1', periodId: 'p1', name: 'Food', budgetAmount: 300 }],
+  expenses: [{ id: 'e1', periodId: 'p1', portionId: 'f1', date: '2024-01-05', description: 'Groceries', amount: 40 }],
+  recurringExpenses: [{
+    id: 'r1', portionName: 'Food', description: 'Box', amount: 20,
+    schedule: { frequency: 'weekly', dayOfWeek: 1 }, startDate: '2024-01-01', active: true
+  }],
+  activePeriodId: 'p1'
+};
+
+const paths = (data: unknown) => validateAppData(data).map(issue => issue.path);
+
+describe('validateAppData', () => {
+  it('accepts valid data', () => {
+    expect(validateAppData(valid)).toEqual([]);
+  });
+
+  it('needs an object with a list of each record kind', () => {
+    expect(paths(null)).toEqual(['']);
+    expect(paths({ ...valid, periods: undefined, expenses: {} })).toEqual(expect.arrayContaining(['periods', 'expenses']));
+  });
+
+  it('needs every record to be an object with a unique id', () => {
+    const issues = validateAppData({ ...valid, expenses: [...valid.expenses, 'coffee', { ...valid.expenses[0] }, { ...valid.expenses[0], id: '' }] });
+    expect(issues.map(issue => issue.path)).toEqual(['expenses[1]', 'expenses[2].id', 'expenses[3].id']);
+    expect(issues[1].recordId).toBe('e1');
+  });
+
+  it('checks period dates and currency', () => {
+    expect(paths({ ...valid, periods: [{ ...valid.periods[0], startDate: '2024-02-01', currency: 'rupiah' }] }))
+      .toEqual(['periods[0].endDate', 'periods[0].currency']);
+  });
+
+  it('checks income entries', () => {
+    expect(paths({ ...valid, incomes: [{ ...valid.incomes[0], periodId: 'p2', amount: -5, status: 'pending' }] }))
+      .toEqual(['incomes[0].periodId', 'incomes[0].amount', 'incomes[0].status']);
+  });
+
+  it('checks portions', () => {
+    expect(paths({ ...valid, portions: [{ ...valid.portions[0], budgetAmount: -1, carryOver: 'all', alertThresholds: [80, 0] }] }))
+      .toEqual(['portions[0].budgetAmount', 'portions[0].carryOver', 'portions[0].alertThresholds']);
+  });
+
+  it('needs an expense to belong to a portion of its own period', () => {
+    const other = { id: 'p2', name: 'February 2024', startDate: '2024-02-01', endDate: '2024-02-29' };
+    const data = { ...valid, periods: [...valid.periods, other], expenses: [{ ...valid.expenses[0], periodId: 'p2' }] };
+    expect(paths(data)).toEqual(['expenses[0].portionId']);
+    expect(paths({ ...valid, expenses: [{ ...valid.expenses[0], portionId: 'f2' }] })).toEqual(['expenses[0].portionId']);
+  });
+
+  it('needs all foreign currency fields of an expense together', () => {
+    expect(paths({ ...valid, expenses: [{ ...valid.expenses[0], originalCurrency: 'USD', originalAmount: 3 }] }))
+      .toEqual(['expenses[0].exchangeRate']);
+  });
+
+  it('checks the active period and the archive', () => {
+    expect(paths({ ...valid, activePeriodId: 'p2', archive: {} })).toEqual(['activePeriodId', 'archive']);
+  });
+
+  describe('recurring expenses', () => {
+    const withRecurring = (fields: Record<string, unknown>) => ({
+      ...valid,
+      recurringExpenses: [{ ...valid.recurringExpenses![0], ...fields }]
+    });
+
+    it('needs the day a schedule falls on', () => {
+      expect(paths(withRecurring({ schedule: { frequency: 'monthly' } }))).toEqual(['recurringExpenses[0].schedule.dayOfMonth']);
+      expect(paths(withRecurring({ schedule: { frequency: 'weekly', dayOfWeek: 7 } }))).toEqual(['recurringExpenses[0].schedule.dayOfWeek']);
+      expect(paths(withRecurring({ schedule: { frequency: 'yearly', dayOfMonth: 1, month: 13 } })))
+        .toEqual(['recurringExpenses[0].schedule.month']);
+      expect(paths(withRecurring({ schedule: { frequency: 'daily' } }))).toEqual(['recurringExpenses[0].schedule.frequency']);
+    });
+
+    it('checks dates, amount and the active flag', () => {
+      expect(paths(withRecurring({ startDate: '2024-13-01', endDate: 'never', amount: 0, active: 'yes', skippedDates: ['x'] }))).toEqual([
+        'recurringExpenses[0].amount',
+        'recurringExpenses[0].startDate',
+        'recurringExpenses[0].endDate',
+        'recurringExpenses[0].active',
+        'recurringExpenses[0].skippedDates'
+      ]);
+      expect(paths(withRecurring({ endDate: '2023-12-31' }))).toEqual(['recurringExpenses[0].endDate']);
+    });
+  });
+});
+
+describe('assertValidAppData', () => {
+  it('throws every issue found', () => {
+    const broken = { ...valid, activePeriodId: 'p2', incomes: [{ ...valid.incomes[0], amount: 0 }] };
+    try {
+      assertValidAppData(broken);
+      expect.fail('validation should have thrown');
+    } catch (err) {
+      expect(err).toBeInstanceOf(ImportValidationError);
+      expect((err as ImportValidationError).issues.map(issue => issue.path)).toEqual(['incomes[0].amount', 'activePeriodId']);
+    }
+  });
+});
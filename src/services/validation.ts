@@ -0,0 +1,218 @@
+/**
+ * =============================================================================
+ * DATA VALIDATION
+ * Structural and referential checks for AppData, used before imported data
+ * is allowed to replace or merge into the current data.
+ * =============================================================================
+ */
+
+import { AppData } from '@/types';
+import { isCurrencyCode } from '@/utils/currency';
+import { t } from '@/i18n';
+
+export interface ValidationIssue {
+  /** Location of the problem, e.g. "expenses[3].amount" */
+  path: string;
+  message: string;
+  recordId?: string;
+}
+
+/** Thrown when data fails validation; carries every issue found */
+export class ImportValidationError extends Error {
+  constructor(public readonly issues: ValidationIssue[]) {
+    super(t('validation.summary', { count: issues.length }));
+    this.name = 'ImportValidationError';
+  }
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const CARRY_OVER_POLICIES = ['none', 'surplus', 'deficit', 'both'];
+const INCOME_STATUSES = ['expected', 'received'];
+const FREQUENCIES = ['monthly', 'weekly', 'yearly'];
+
+type RawRecord = Record<string, unknown>;
+
+function isValidDate(value: unknown): boolean {
+  return typeof value === 'string' && DATE_PATTERN.test(value) && !isNaN(new Date(value).getTime());
+}
+
+function isNonEmptyString(value: unknown): boolean {
+  return typeof value === 'string' && value.trim().length > 0;
+}
+
+function isAmount(value: unknown): boolean {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+function isWholeNumber(value: unknown, min: number, max: number): boolean {
+  return typeof value === 'number' && Number.isInteger(value) && value >= min && value <= max;
+}
+
+/** Check every record of the given kind is an object with a unique id */
+function checkRecords(list: unknown, key: string, issues: ValidationIssue[]): RawRecord[] {
+  if (!Array.isArray(list)) {
+    issues.push({ path: key, message: t('validation.mustBeList') });
+    return [];
+  }
+  const seen = new Set<string>();
+  const records: RawRecord[] = [];
+  list.forEach((item, i) => {
+    if (!item || typeof item !== 'object') {
+      issues.push({ path: `${key}[${i}]`, message: t('validation.mustBeObject') });
+      return;
+    }
+    const record = item as RawRecord;
+    if (!isNonEmptyString(record.id)) {
+      issues.push({ path: `${key}[${i}].id`, message: t('validation.missing') });
+    } else if (seen.has(record.id as string)) {
+      issues.push({ path: `${key}[${i}].id`, message: t('validation.duplicateId', { id: String(record.id) }), recordId: record.id as string });
+    } else {
+      seen.add(record.id as string);
+    }
+    records.push(record);
+  });
+  return records;
+}
+
+/** Validate structure and references of every Period, IncomeEntry, Portion and Expense */
+export function validateAppData(data: unknown): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  if (!data || typeof data !== 'object') {
+    return [{ path: '', message: t('validation.dataMustBeObject') }];
+  }
+  const root = data as RawRecord;
+
+  const periods = checkRecords(root.periods, 'periods', issues);
+  const incomes = checkRecords(root.incomes, 'incomes', issues);
+  const portions = checkRecords(root.portions, 'portions', issues);
+  const expenses = checkRecords(root.expenses, 'expenses', issues);
+
+  const periodIds = new Set(periods.map(p => p.id));
+  const portionPeriods = new Map(portions.map(p => [p.id, p.periodId]));
+
+  periods.forEach((p, i) => {
+    const at = (field: string) => `periods[${i}].${field}`;
+    const recordId = p.id as string | undefined;
+    if (!isNonEmptyString(p.name)) issues.push({ path: at('name'), message: t('validation.required'), recordId });
+    if (!isValidDate(p.startDate)) issues.push({ path: at('startDate'), message: t('validation.date'), recordId });
+    if (!isValidDate(p.endDate)) issues.push({ path: at('endDate'), message: t('validation.date'), recordId });
+    if (isValidDate(p.startDate) && isValidDate(p.endDate) && (p.startDate as string) > (p.endDate as string)) {
+      issues.push({ path: at('endDate'), message: t('validation.endBeforeStart'), recordId });
+    }
+    if (p.currency !== undefined && !isCurrencyCode(p.currency)) {
+      issues.push({ path: at('currency'), message: t('validation.currencyCode'), recordId });
+    }
+  });
+
+  incomes.forEach((income, i) => {
+    const at = (field: string) => `incomes[${i}].${field}`;
+    const recordId = income.id as string | undefined;
+    if (!periodIds.has(income.periodId)) {
+      issues.push({ path: at('periodId'), message: t('validation.unknownPeriod', { id: String(income.periodId) }), recordId });
+    }
+    if (!isNonEmptyString(income.source)) issues.push({ path: at('source'), message: t('validation.required'), recordId });
+    if (!isValidDate(income.date)) issues.push({ path: at('date'), message: t('validation.date'), recordId });
+    if (!isAmount(income.amount) || (income.amount as number) <= 0) {
+      issues.push({ path: at('amount'), message: t('validation.positive'), recordId });
+    }
+    if (!INCOME_STATUSES.includes(income.status as string)) {
+      issues.push({ path: at('status'), message: t('validation.oneOf', { values: INCOME_STATUSES.join(', ') }), recordId });
+    }
+  });
+
+  portions.forEach((p, i) => {
+    const at = (field: string) => `portions[${i}].${field}`;
+    const recordId = p.id as string | undefined;
+    if (!periodIds.has(p.periodId)) issues.push({ path: at('periodId'), message: t('validation.unknownPeriod', { id: String(p.periodId) }), recordId });
+    if (!isNonEmptyString(p.name)) issues.push({ path: at('name'), message: t('validation.required'), recordId });
+    if (!isAmount(p.budgetAmount) || (p.budgetAmount as number) < 0) {
+      issues.push({ path: at('budgetAmount'), message: t('validation.nonNegative'), recordId });
+    }
+    if (p.notes !== undefined && typeof p.notes !== 'string') issues.push({ path: at('notes'), message: t('validation.text'), recordId });
+    if (p.carryOver !== undefined && !CARRY_OVER_POLICIES.includes(p.carryOver as string)) {
+      issues.push({ path: at('carryOver'), message: t('validation.oneOf', { values: CARRY_OVER_POLICIES.join(', ') }), recordId });
+    }
+    if (p.alertThresholds !== undefined
+      && (!Array.isArray(p.alertThresholds) || !p.alertThresholds.every(v => isAmount(v) && (v as number) > 0))) {
+      issues.push({ path: at('alertThresholds'), message: t('validation.thresholds'), recordId });
+    }
+  });
+
+  expenses.forEach((e, i) => {
+    const at = (field: string) => `expenses[${i}].${field}`;
+    const recordId = e.id as string | undefined;
+    if (!periodIds.has(e.periodId)) issues.push({ path: at('periodId'), message: t('validation.unknownPeriod', { id: String(e.periodId) }), recordId });
+    if (!portionPeriods.has(e.portionId)) {
+      issues.push({ path: at('portionId'), message: t('validation.unknownCategory', { id: String(e.portionId) }), recordId });
+    } else if (portionPeriods.get(e.portionId) !== e.periodId) {
+      issues.push({ path: at('portionId'), message: t('validation.differentPeriod'), recordId });
+    }
+    if (!isValidDate(e.date)) issues.push({ path: at('date'), message: t('validation.date'), recordId });
+    if (!isNonEmptyString(e.description)) issues.push({ path: at('description'), message: t('validation.required'), recordId });
+    if (!isAmount(e.amount) || (e.amount as number) <= 0) {
+      issues.push({ path: at('amount'), message: t('validation.positive'), recordId });
+    }
+    if (e.originalCurrency !== undefined || e.originalAmount !== undefined || e.exchangeRate !== undefined) {
+      if (!isCurrencyCode(e.originalCurrency)) {
+        issues.push({ path: at('originalCurrency'), message: t('validation.currencyCode'), recordId });
+      }
+      if (!isAmount(e.originalAmount) || (e.originalAmount as number) <= 0) {
+        issues.push({ path: at('originalAmount'), message: t('validation.positive'), recordId });
+      }
+      if (!isAmount(e.exchangeRate) || (e.exchangeRate as number) <= 0) {
+        issues.push({ path: at('exchangeRate'), message: t('validation.positive'), recordId });
+      }
+    }
+  });
+
+  const recurring = root.recurringExpenses === undefined ? [] : checkRecords(root.recurringExpenses, 'recurringExpenses', issues);
+  recurring.forEach((r, i) => {
+    const at = (field: string) => `recurringExpenses[${i}].${field}`;
+    const recordId = r.id as string | undefined;
+    if (!isNonEmptyString(r.portionName)) issues.push({ path: at('portionName'), message: t('validation.required'), recordId });
+    if (!isNonEmptyString(r.description)) issues.push({ path: at('description'), message: t('validation.required'), recordId });
+    if (!isAmount(r.amount) || (r.amount as number) <= 0) {
+      issues.push({ path: at('amount'), message: t('validation.positive'), recordId });
+    }
+    const schedule = r.schedule && typeof r.schedule === 'object' ? r.schedule as RawRecord : null;
+    if (!schedule || !FREQUENCIES.includes(schedule.frequency as string)) {
+      issues.push({ path: at('schedule.frequency'), message: t('validation.oneOf', { values: FREQUENCIES.join(', ') }), recordId });
+    } else {
+      const checkNumber = (field: string, min: number, max: number) => {
+        if (!isWholeNumber(schedule[field], min, max)) {
+          issues.push({ path: at(`schedule.${field}`), message: t('validation.wholeNumber', { min, max }), recordId });
+        }
+      };
+      if (schedule.frequency === 'weekly') checkNumber('dayOfWeek', 0, 6);
+      else checkNumber('dayOfMonth', 1, 31);
+      if (schedule.frequency === 'yearly') checkNumber('month', 1, 12);
+    }
+    if (!isValidDate(r.startDate)) issues.push({ path: at('startDate'), message: t('validation.date'), recordId });
+    if (r.endDate !== undefined) {
+      if (!isValidDate(r.endDate)) {
+        issues.push({ path: at('endDate'), message: t('validation.date'), recordId });
+      } else if (isValidDate(r.startDate) && (r.startDate as string) > (r.endDate as string)) {
+        issues.push({ path: at('endDate'), message: t('validation.endBeforeStart'), recordId });
+      }
+    }
+    if (typeof r.active !== 'boolean') issues.push({ path: at('active'), message: t('validation.boolean'), recordId });
+    if (r.skippedDates !== undefined && (!Array.isArray(r.skippedDates) || !r.skippedDates.every(isValidDate))) {
+      issues.push({ path: at('skippedDates'), message: t('validation.dateList'), recordId });
+    }
+  });
+
+  if (root.activePeriodId !== undefined && !periodIds.has(root.activePeriodId)) {
+    issues.push({ path: 'activePeriodId', message: t('validation.unknownPeriod', { id: String(root.activePeriodId) }) });
+  }
+  if (root.archive !== undefined && !Array.isArray(root.archive)) {
+    issues.push({ path: 'archive', message: t('validation.mustBeList') });
+  }
+
+  return issues;
+}
+
+/** Throw ImportValidationError when the data has any issues */
+export function assertValidAppData(data: AppData): void {
+  const issues = validateAppData(data);
+  if (issues.length > 0) throw new ImportValidationError(issues);
+}
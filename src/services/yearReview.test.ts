@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { buildYearReview } from '@/services/yearReview';
+import { createEmptyAppData } from '@/services/dataService';
+import { AppData } from '@/types';
+
+const data: AppData = {
+  ...createEmptyAppData(),
+  periods: [{ id: 'p1', name: 'January 2024', startDate: '2024-01-01', endDate: '2024-01-31' }],
+  incomes: [
+    { id: 'i1', periodId: 'p1', source: 'Salary', date: '2024-01-01', amount: 1000, status: 'received' },
+    { id: 'i2', periodId: 'p1', source: 'Bonus', date: '2024-01-25', amount: 500, status: 'expected' }
+  ],
+  portions: [{ id: 'f1', periodId: 'p1', name: 'Food', budgetAmount: 300 }],
+  expenses: [{ id: 'e1', periodId: 'p1', portionId: 'f1', date: '2024-01-05', description: 'Groceries', amount: 400 }]
+};
+
+describe('buildYearReview', () => {
+  it('counts only received income towards savings', () => {
+    const review = buildYearReview(data, 2024);
+    expect(review.income).toBe(1000);
+    expect(review.expectedIncome).toBe(500);
+    expect(review.savings).toBe(600);
+    expect(review.savingsRate).toBe(60);
+  });
+
+  it('counts a category over budget', () => {
+    expect(buildYearReview(data, 2024).categories).toMatchObject([{ name: 'Food', total: 400, periods: 1, overBudget: 1 }]);
+  });
+});
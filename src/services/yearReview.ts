@@ -0,0 +1,294 @@
+/**
+ * =============================================================================
+ * YEAR IN REVIEW
+ * Sums up a calendar year from every period that overlaps it, archived
+ * periods included. Received income, spending, the largest expenses and the most
+ * frequent descriptions count records dated within the year; categories are
+ * compared period by period, lined up by name. Periods kept in another base
+ * currency are reviewed separately.
+ * =============================================================================
+ */
+
+import { AppData, Expense, IncomeEntry, Period, Portion } from '@/types';
+import { getPortionSummaries, unpackArchivedPeriod } from '@/services/dataService';
+import { getPeriodCurrency } from '@/services/exchangeRates';
+import { formatCurrency, formatDate, formatDateTime, formatPercent } from '@/utils/formatters';
+import { getActiveLanguage, t } from '@/i18n';
+
+/** Entries listed for the largest expenses and the most frequent descriptions */
+export const YEAR_REVIEW_TOP = 10;
+
+export interface YearReviewExpense {
+  id: string;
+  date: string;
+  description: string;
+  amount: number;
+  portionName: string;
+  periodName: string;
+}
+
+export interface DescriptionStat {
+  description: string;
+  count: number;
+  total: number;
+}
+
+export interface CategoryPeriod {
+  periodId: string;
+  periodName: string;
+  actual: number;
+  available: number;
+  percentUsed: number;
+}
+
+export interface CategoryReview {
+  name: string;
+  /** Spending in the category across the year's periods */
+  total: number;
+  /** Periods of the year that had the category */
+  periods: number;
+  /** How many of them ended over budget */
+  overBudget: number;
+  /** Period with the lowest share of the budget used; null with fewer than two periods */
+  best: CategoryPeriod | null;
+  /** Period with the highest share of the budget used; null with fewer than two periods */
+  worst: CategoryPeriod | null;
+}
+
+export interface YearReview {
+  year: number;
+  currency: string;
+  /** Oldest first */
+  periods: Period[];
+  /** Received income only */
+  income: number;
+  /** Income entries still marked as expected, left out of savings */
+  expectedIncome: number;
+  spending: number;
+  /** Income minus spending */
+  savings: number;
+  /** Savings in percent of income; null without income */
+  savingsRate: number | null;
+  largestExpenses: YearReviewExpense[];
+  frequentDescriptions: DescriptionStat[];
+  /** Highest spending first */
+  categories: CategoryReview[];
+}
+
+interface ReviewRecords {
+  periods: Period[];
+  incomes: IncomeEntry[];
+  portions: Portion[];
+  expenses: Expense[];
+}
+
+/** Current and archived records together */
+function allRecords(data: AppData): ReviewRecords {
+  const records: ReviewRecords = {
+    periods: [...data.periods],
+    incomes: [...data.incomes],
+    portions: [...data.portions],
+    expenses: [...data.expenses]
+  };
+  (data.archive || []).forEach(archived => {
+    const unpacked = unpackArchivedPeriod(archived);
+    records.periods.push(unpacked.period);
+    records.incomes.push(...unpacked.incomes);
+    records.portions.push(...unpacked.portions);
+    records.expenses.push(...unpacked.expenses);
+  });
+  return records;
+}
+
+const overlapsYear = (period: Period, year: number) =>
+  period.startDate <= `${year}-12-31` && period.endDate >= `${year}-01-01`;
+
+const inYear = (date: string, year: number) => date.startsWith(`${year}-`);
+
+/** Years overlapped by any period, latest first */
+export function getReviewYears(data: AppData): number[] {
+  const years = new Set<number>();
+  allRecords(data).periods.forEach(p => {
+    for (let y = Number(p.startDate.slice(0, 4)); y <= Number(p.endDate.slice(0, 4)); y++) years.add(y);
+  });
+  return [...years].sort((a, b) => b - a);
+}
+
+/** Base currencies of the periods overlapping `year`, most used first */
+export function getYearCurrencies(data: AppData, year: number): string[] {
+  const counts = new Map<string, number>();
+  allRecords(data).periods
+    .filter(p => overlapsYear(p, year))
+    .forEach(p => counts.set(getPeriodCurrency(p), (counts.get(getPeriodCurrency(p)) || 0) + 1));
+  return [...counts.entries()].sort((a, b) => b[1] - a[1]).map(([code]) => code);
+}
+
+/** Review of `year` over the periods kept in `currency` (by default the most used one) */
+export function buildYearReview(data: AppData, year: number, currency?: string): YearReview {
+  const records = allRecords(data);
+  const reviewCurrency = currency || getYearCurrencies(data, year)[0] || getPeriodCurrency(null);
+  const periods = records.periods
+    .filter(p => overlapsYear(p, year) && getPeriodCurrency(p) === reviewCurrency)
+    .sort((a, b) => a.startDate.localeCompare(b.startDate));
+  const periodIds = new Set(periods.map(p => p.id));
+  const periodNames = new Map(periods.map(p => [p.id, p.name]));
+  const portionNames = new Map(records.portions.map(p => [p.id, p.name]));
+
+  const incomes = records.incomes.filter(i => periodIds.has(i.periodId) && inYear(i.date, year));
+  const expenses = records.expenses.filter(e => periodIds.has(e.periodId) && inYear(e.date, year));
+  const income = incomes.filter(i => i.status === 'received').reduce((sum, i) => sum + i.amount, 0);
+  const expectedIncome = incomes.filter(i => i.status === 'expected').reduce((sum, i) => sum + i.amount, 0);
+  const spending = expenses.reduce((sum, e) => sum + e.amount, 0);
+
+  const largestExpenses = [...expenses]
+    .sort((a, b) => b.amount - a.amount)
+    .slice(0, YEAR_REVIEW_TOP)
+    .map(e => ({
+      id: e.id,
+      date: e.date,
+      description: e.description,
+      amount: e.amount,
+      portionName: portionNames.get(e.portionId) || t('common.unknown'),
+      periodName: periodNames.get(e.periodId) || ''
+    }));
+
+  const descriptions = new Map<string, DescriptionStat>();
+  [...expenses].sort((a, b) => a.date.localeCompare(b.date)).forEach(e => {
+    const key = e.description.trim().toLowerCase();
+    const stat = descriptions.get(key) || { description: e.description.trim(), count: 0, total: 0 };
+    descriptions.set(key, { description: e.description.trim(), count: stat.count + 1, total: stat.total + e.amount });
+  });
+  const frequentDescriptions = [...descriptions.values()]
+    .sort((a, b) => b.count - a.count || b.total - a.total)
+    .slice(0, YEAR_REVIEW_TOP);
+
+  const byCategory = new Map<string, { name: string; periods: CategoryPeriod[] }>();
+  periods.forEach(period => {
+    getPortionSummaries(period.id, records.portions, records.expenses, records.periods).forEach(summary => {
+      const key = summary.portion.name.trim().toLowerCase();
+      const entry = byCategory.get(key) || { name: summary.portion.name, periods: [] };
+      entry.name = summary.portion.name;
+      entry.periods.push({
+        periodId: period.id,
+        periodName: period.name,
+        actual: summary.used,
+        available: summary.available,
+        percentUsed: summary.percentUsed
+      });
+      byCategory.set(key, entry);
+    });
+  });
+  const categories = [...byCategory.values()]
+    .map(({ name, periods: list }) => {
+      const ranked = [...list].sort((a, b) => a.percentUsed - b.percentUsed);
+      return {
+        name,
+        total: list.reduce((sum, p) => sum + p.actual, 0),
+        periods: list.length,
+        overBudget: list.filter(p => p.actual > p.available).length,
+        best: ranked.length > 1 ? ranked[0] : null,
+        worst: ranked.length > 1 ? ranked[ranked.length - 1] : null
+      };
+    })
+    .sort((a, b) => b.total - a.total);
+
+  const savings = income - spending;
+  return {
+    year,
+    currency: reviewCurrency,
+    periods,
+    income,
+    expectedIncome,
+    spending,
+    savings,
+    savingsRate: income > 0 ? (savings / income) * 100 : null,
+    largestExpenses,
+    frequentDescriptions,
+    categories
+  };
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[c]!));
+}
+
+/** A standalone page with the review, laid out for printing */
+export function buildYearReviewHtml(review: YearReview): string {
+  const money = (amount: number) => escapeHtml(formatCurrency(amount, review.currency));
+  const table = (headers: string[], rows: string[][], numeric: number[] = []) => `
+    <table>
+      <thead><tr>${headers.map((h, i) => `<th${numeric.includes(i) ? ' class="num"' : ''}>${escapeHtml(h)}</th>`).join('')}</tr></thead>
+      <tbody>${rows.map(row => `<tr>${row.map((cell, i) => `<td${numeric.includes(i) ? ' class="num"' : ''}>${cell}</td>`).join('')}</tr>`).join('')}</tbody>
+    </table>`;
+  const title = t('yearReview.title', { year: review.year });
+  const periodCell = (p: CategoryPeriod | null) =>
+    p ? `${escapeHtml(p.periodName)} (${escapeHtml(formatPercent(p.percentUsed))})` : '—';
+
+  return `<!DOCTYPE html>
+<html lang="${getActiveLanguage()}">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>
+  body { font-family: system-ui, sans-serif; color: #0f172a; margin: 2rem; }
+  h1 { margin-bottom: 0.25rem; }
+  h2 { margin-top: 2rem; font-size: 1.1rem; border-bottom: 1px solid #cbd5e1; padding-bottom: 0.25rem; }
+  .muted { color: #64748b; font-size: 0.85rem; }
+  .totals { display: flex; gap: 2rem; flex-wrap: wrap; margin-top: 1rem; }
+  .totals div { min-width: 10rem; }
+  .totals strong { display: block; font-size: 1.3rem; }
+  table { width: 100%; border-collapse: collapse; font-size: 0.9rem; }
+  th, td { text-align: left; padding: 0.3rem 0.5rem; border-bottom: 1px solid #e2e8f0; }
+  .num { text-align: right; }
+  @media print { body { margin: 0; } h2 { break-after: avoid; } tr { break-inside: avoid; } }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+<p class="muted">${escapeHtml(t('yearReview.periodsCovered', {
+    count: review.periods.length,
+    names: review.periods.map(p => p.name).join(', ')
+  }))}</p>
+<div class="totals">
+  <div>${escapeHtml(t('yearReview.income'))}<strong>${money(review.income)}</strong>${review.expectedIncome > 0
+    ? `<span class="muted">${escapeHtml(t('yearReview.expectedIncome', { amount: formatCurrency(review.expectedIncome, review.currency) }))}</span>`
+    : ''}</div>
+  <div>${escapeHtml(t('yearReview.spending'))}<strong>${money(review.spending)}</strong></div>
+  <div>${escapeHtml(t('yearReview.savings'))}<strong>${money(review.savings)}</strong></div>
+  <div>${escapeHtml(t('yearReview.savingsRate'))}<strong>${review.savingsRate === null ? '—' : escapeHtml(formatPercent(review.savingsRate))}</strong></div>
+</div>
+
+<h2>${escapeHtml(t('yearReview.categories'))}</h2>
+${table(
+    [t('common.category'), t('yearReview.spent'), t('yearReview.overBudget'), t('yearReview.bestMonth'), t('yearReview.worstMonth')],
+    review.categories.map(c => [
+      escapeHtml(c.name),
+      money(c.total),
+      escapeHtml(t('yearReview.overBudgetCount', { over: c.overBudget, count: c.periods })),
+      periodCell(c.best),
+      periodCell(c.worst)
+    ]),
+    [1]
+  )}
+
+<h2>${escapeHtml(t('yearReview.largestExpenses'))}</h2>
+${table(
+    [t('common.date'), t('common.description'), t('common.category'), t('common.amount')],
+    review.largestExpenses.map(e => [
+      escapeHtml(formatDate(e.date)), escapeHtml(e.description), escapeHtml(e.portionName), money(e.amount)
+    ]),
+    [3]
+  )}
+
+<h2>${escapeHtml(t('yearReview.frequentDescriptions'))}</h2>
+${table(
+    [t('common.description'), t('yearReview.times'), t('yearReview.spent')],
+    review.frequentDescriptions.map(d => [escapeHtml(d.description), String(d.count), money(d.total)]),
+    [1, 2]
+  )}
+
+<p class="muted">${escapeHtml(t('yearReview.generated', { date: formatDateTime(new Date().toISOString()) }))}</p>
+</body>
+</html>
+`;
+}
@@ -10,9 +10,26 @@ export interface Period {
   name: string;
   startDate: string;
   endDate: string;
-  incomeAmount: number;
+  /** Base currency (ISO 4217) all of the period's amounts are kept in; IDR when absent */
+  currency?: string;
 }
 
+/** Whether an income entry is still expected or has arrived */
+export type IncomeStatus = 'expected' | 'received';
+
+/** IncomeEntry is one source of income within a period (salary, THR, freelance, ...) */
+export interface IncomeEntry {
+  id: string;
+  periodId: string;
+  source: string;
+  date: string;
+  amount: number;
+  status: IncomeStatus;
+}
+
+/** What happens to a portion's balance when its period ends */
+export type CarryOverPolicy = 'none' | 'surplus' | 'deficit' | 'both';
+
 /** Portion represents a budget category within a period */
 export interface Portion {
   id: string;
@@ -20,6 +37,10 @@ export interface Portion {
   name: string;
   budgetAmount: number;
   notes?: string;
+  /** Roll the leftover or overspent balance into the next period's portion with the same name */
+  carryOver?: CarryOverPolicy;
+  /** Percentages of the available amount that raise an alert when spending crosses them; defaults apply when absent */
+  alertThresholds?: number[];
 }
 
 /** Expense represents a single spending record */
@@ -29,36 +50,214 @@ export interface Expense {
   portionId: string;
   date: string;
   description: string;
+  /** Amount in the period's base currency, used by every summary */
   amount: number;
+  /** Currency the expense was paid in, when different from the period's base currency */
+  originalCurrency?: string;
+  /** Amount in `originalCurrency` */
+  originalAmount?: number;
+  /** Base currency units per one unit of `originalCurrency`, as entered for this expense */
+  exchangeRate?: number;
+  /** Recurring definition this expense was generated from */
+  recurringId?: string;
+  /** True when created automatically from a recurring definition */
+  autoGenerated?: boolean;
+}
+
+/** When a recurring expense falls due */
+export type RecurrenceSchedule =
+  | { frequency: 'monthly'; dayOfMonth: number }
+  | { frequency: 'weekly'; dayOfWeek: number }
+  | { frequency: 'yearly'; month: number; dayOfMonth: number };
+
+/**
+ * RecurringExpense defines a repeating expense such as rent or a subscription.
+ * It is matched to a portion by name so it works across periods.
+ */
+export interface RecurringExpense {
+  id: string;
+  portionName: string;
+  description: string;
+  amount: number;
+  schedule: RecurrenceSchedule;
+  startDate: string;
+  endDate?: string;
+  active: boolean;
+  /** Due dates the user skipped (e.g. deleted the generated expense) */
+  skippedDates?: string[];
+}
+
+/** Optional expense fields kept in the archive, present only when set */
+export type ArchivedExpenseExtras = Pick<Expense, 'originalCurrency' | 'originalAmount' | 'exchangeRate' | 'recurringId' | 'autoGenerated'>;
+
+/** Packed expense tuple used in the archive: [id, portionId, date, description, amount, extras?] */
+export type ArchivedExpense = [string, string, string, string, number, ArchivedExpenseExtras?];
+
+/** ArchivedPeriod is a compact copy of a period removed by retention */
+export interface ArchivedPeriod {
+  period: Period;
+  incomes: IncomeEntry[];
+  portions: Portion[];
+  expenses: ArchivedExpense[];
+  archivedAt: string;
+}
+
+/** RetentionSettings controls how long periods are kept after they end */
+export interface RetentionSettings {
+  retentionMonths: number;
+  archiveExpired: boolean;
+}
+
+/** Interface language */
+export type Language = 'en' | 'id';
+
+/** AppSettings holds user preferences stored alongside the data */
+export interface AppSettings {
+  retention: RetentionSettings;
+  /** Chosen interface language; follows the browser language when absent */
+  language?: Language;
+  /** Optional sync of periods, categories and expenses with a REST server */
+  sync?: SyncSettings;
+  /** Whether portion forecasts blend in earlier periods' spending; on when absent */
+  forecastUsesHistory?: boolean;
+  /** Also show category alerts as browser notifications */
+  alertNotifications?: boolean;
+}
+
+/** SyncSettings configures the optional REST sync */
+export interface SyncSettings {
+  enabled: boolean;
+  /** Base URL of the sync API, e.g. "http://localhost:3001/api" */
+  serverUrl: string;
 }
 
-/** AppData is the root data structure stored in localStorage */
+/** ExchangeRate is an entry in the locally maintained rate table */
+export interface ExchangeRate {
+  id: string;
+  /** Currency being converted, e.g. "USD" */
+  currency: string;
+  /** Currency it converts into, e.g. "IDR" */
+  base: string;
+  /** Base currency units per one unit of `currency` */
+  rate: number;
+  updatedAt: string;
+}
+
+/** Date layouts accepted in statement files; any of / - . works as separator */
+export type StatementDateFormat = 'YYYY-MM-DD' | 'DD/MM/YYYY' | 'MM/DD/YYYY';
+
+/** StatementImportProfile is a saved column mapping for one bank or e-wallet */
+export interface StatementImportProfile {
+  id: string;
+  name: string;
+  delimiter: string;
+  hasHeader: boolean;
+  dateColumn: number;
+  descriptionColumn: number;
+  amountColumn: number;
+  dateFormat: StatementDateFormat;
+  /** Sign that marks money going out; rows with the other sign are skipped */
+  debitSign: 'negative' | 'positive';
+}
+
+/**
+ * AppData is the root data structure that is persisted. Records are replaced,
+ * never mutated, so a record whose reference is unchanged is unchanged; the
+ * storage, cross-tab and server sync diffs rely on this.
+ */
 export interface AppData {
   version: string;
   createdAt: string;
   lastUsedAt: string;
   periods: Period[];
+  incomes: IncomeEntry[];
   portions: Portion[];
   expenses: Expense[];
   activePeriodId?: string;
+  settings?: AppSettings;
+  archive?: ArchivedPeriod[];
+  importProfiles?: StatementImportProfile[];
+  recurringExpenses?: RecurringExpense[];
+  exchangeRates?: ExchangeRate[];
+  alertHistory?: PortionAlert[];
+}
+
+/** PortionAlert records a portion's spending crossing one of its alert thresholds */
+export interface PortionAlert {
+  id: string;
+  periodId: string;
+  portionId: string;
+  /** Name at the time, kept for portions deleted since */
+  portionName: string;
+  /** Threshold crossed, in percent */
+  threshold: number;
+  percentUsed: number;
+  triggeredAt: string;
+}
+
+/** BudgetProfile is one named budget in this browser, with its own AppData */
+export interface BudgetProfile {
+  id: string;
+  name: string;
+  createdAt: string;
+}
+
+/** RetentionReport describes what the retention check removed */
+export interface RetentionReport {
+  removedPeriods: { id: string; name: string; endDate: string }[];
+  removedPortions: number;
+  removedExpenses: number;
+  archived: boolean;
+  ranAt: string;
+}
+
+/** PeriodExpiry tells when a period will be removed by retention */
+export interface PeriodExpiry {
+  period: Period;
+  expiresOn: string;
+  daysLeft: number;
+}
+
+/** ExpenseFilters narrows the expense list within the active period */
+export interface ExpenseFilters {
+  startDate?: string;
+  endDate?: string;
+  portionId?: string;
 }
 
 /** PortionSummary provides calculated values for a portion */
 export interface PortionSummary {
   portion: Portion;
   budget: number;
+  /** Balance rolled in from the previous period (negative for a carried deficit) */
+  carriedIn: number;
+  /** Budget plus carried-in balance */
+  available: number;
   used: number;
   remaining: number;
   percentUsed: number;
   isOverBudget: boolean;
 }
 
+/** IncomeSourceSummary totals a period's income for one source */
+export interface IncomeSourceSummary {
+  source: string;
+  expected: number;
+  received: number;
+}
+
 /** PeriodSummary provides overall calculated values for a period */
 export interface PeriodSummary {
+  /** All income planned for the period, expected and received */
   totalIncome: number;
+  receivedIncome: number;
+  expectedIncome: number;
+  incomeBySource: IncomeSourceSummary[];
   totalBudgeted: number;
+  totalCarriedIn: number;
   totalExpenses: number;
   remainingBudget: number;
+  /** Received income minus expenses */
   remainingIncome: number;
   unallocatedIncome: number;
   overallPercentUsed: number;
@@ -0,0 +1,54 @@
+/**
+ * =============================================================================
+ * CURRENCY UTILITIES
+ * Known currencies with their symbol and number of decimals, and helpers to
+ * round and convert amounts. IDR is the default base currency.
+ * =============================================================================
+ */
+
+export interface CurrencyInfo {
+  /** ISO 4217 code, e.g. "USD" */
+  code: string;
+  symbol: string;
+  decimals: number;
+}
+
+export const DEFAULT_CURRENCY = 'IDR';
+
+export const CURRENCIES: CurrencyInfo[] = [
+  { code: 'IDR', symbol: 'Rp', decimals: 0 },
+  { code: 'USD', symbol: 'US$', decimals: 2 },
+  { code: 'EUR', symbol: '€', decimals: 2 },
+  { code: 'GBP', symbol: '£', decimals: 2 },
+  { code: 'SGD', symbol: 'S$', decimals: 2 },
+  { code: 'MYR', symbol: 'RM', decimals: 2 },
+  { code: 'THB', symbol: '฿', decimals: 2 },
+  { code: 'AUD', symbol: 'A$', decimals: 2 },
+  { code: 'JPY', symbol: '¥', decimals: 0 },
+  { code: 'KRW', symbol: '₩', decimals: 0 },
+  { code: 'CNY', symbol: 'CN¥', decimals: 2 },
+  { code: 'SAR', symbol: 'SAR', decimals: 2 }
+];
+
+const CURRENCY_CODE_PATTERN = /^[A-Z]{3}$/;
+
+/** True for a three-letter uppercase currency code */
+export function isCurrencyCode(value: unknown): value is string {
+  return typeof value === 'string' && CURRENCY_CODE_PATTERN.test(value);
+}
+
+/** Look up a currency; unknown codes use the code as symbol and two decimals */
+export function getCurrencyInfo(code: string = DEFAULT_CURRENCY): CurrencyInfo {
+  return CURRENCIES.find(c => c.code === code) || { code, symbol: code, decimals: 2 };
+}
+
+/** Round an amount to the number of decimals the currency uses */
+export function roundToCurrency(amount: number, code: string = DEFAULT_CURRENCY): number {
+  const factor = 10 ** getCurrencyInfo(code).decimals;
+  return Math.round(amount * factor) / factor;
+}
+
+/** Convert an amount with `rate` (base units per one unit) and round to the base currency */
+export function convertAmount(amount: number, rate: number, baseCurrency: string = DEFAULT_CURRENCY): number {
+  return roundToCurrency(amount * rate, baseCurrency);
+}
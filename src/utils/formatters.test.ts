@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { parseLocaleAmount } from '@/utils/formatters';
+
+describe('parseLocaleAmount', () => {
+  it.each([
+    ['1.250.000,00', 1250000],
+    ['Rp 1.250.000', 1250000],
+    ['1,250,000.00', 1250000],
+    ['12,50', 12.5],
+    ['12.5', 12.5],
+    ['350000', 350000]
+  ])('reads %s', (text, amount) => {
+    expect(parseLocaleAmount(text)).toBe(amount);
+  });
+
+  it('takes a single separator before three digits as a thousands separator', () => {
+    expect(parseLocaleAmount('1.250')).toBe(1250);
+    expect(parseLocaleAmount('1,250')).toBe(1250);
+  });
+
+  it.each(['-50.000', '(50.000)', '50.000-'])('reads %s as negative', text => {
+    expect(parseLocaleAmount(text)).toBe(-50000);
+  });
+
+  it.each(['', 'Rp', 'n/a'])('returns null for %j', text => {
+    expect(parseLocaleAmount(text)).toBeNull();
+  });
+});
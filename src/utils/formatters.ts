@@ -1,47 +1,134 @@
 /**
  * =============================================================================
  * FORMATTING UTILITIES
- * Currency: IDR (Rp) with dots as thousand separators
+ * Currency: IDR (Rp) by default. Separators, month names and date layout
+ * follow the active language: Rp 3.000.000 in Indonesian, Rp 3,000,000 in
+ * English.
  * =============================================================================
  */
 
-/** Format a number as Indonesian Rupiah: Rp 3.000.000 */
-export function formatCurrency(amount: number): string {
-  const formatted = Math.abs(amount)
-    .toFixed(0)
-    .replace(/\B(?=(\d{3})+(?!\d))/g, '.');
-  return amount < 0 ? `-Rp ${formatted}` : `Rp ${formatted}`;
+import { DEFAULT_CURRENCY, getCurrencyInfo, roundToCurrency } from '@/utils/currency';
+import { getLocale } from '@/i18n';
+
+/** Thousands and decimal separators of the active language */
+export function getNumberSeparators(): { group: string; decimal: string } {
+  const parts = new Intl.NumberFormat(getLocale()).formatToParts(12345.6);
+  return {
+    group: parts.find(p => p.type === 'group')?.value || ',',
+    decimal: parts.find(p => p.type === 'decimal')?.value || '.'
+  };
+}
+
+/** Group the digits of a plain "1234.5" number string with the active separators */
+function localizeDigits(value: string): string {
+  const { group, decimal } = getNumberSeparators();
+  const [whole, fraction] = value.split('.');
+  const grouped = whole.replace(/\B(?=(\d{3})+(?!\d))/g, group);
+  return fraction ? `${grouped}${decimal}${fraction}` : grouped;
+}
+
+/** Format an amount in the given currency: Rp 3.000.000, US$ 12,50 */
+export function formatCurrency(amount: number, currency: string = DEFAULT_CURRENCY): string {
+  const { symbol, decimals } = getCurrencyInfo(currency);
+  const formatted = localizeDigits(Math.abs(amount).toFixed(decimals));
+  return amount < 0 ? `-${symbol} ${formatted}` : `${symbol} ${formatted}`;
+}
+
+/** Parse currency string back to number, rounded to the currency's decimals */
+export function parseCurrency(value: string, currency: string = DEFAULT_CURRENCY): number {
+  const amount = parseLocaleAmount(value);
+  return amount === null ? 0 : roundToCurrency(amount, currency);
 }
 
-/** Parse currency string back to number */
-export function parseCurrency(value: string): number {
-  const cleaned = value.replace(/[Rp\s.]/g, '');
-  return parseInt(cleaned, 10) || 0;
+/** Format an exchange rate without rounding away small rates: 16.250 or 0,000061 */
+export function formatRate(rate: number): string {
+  return localizeDigits(String(rate));
+}
+
+/** Amount as prefilled in a form field: no grouping, the active decimal separator */
+export function formatAmountInput(amount: number, currency: string = DEFAULT_CURRENCY): string {
+  const fixed = amount.toFixed(getCurrencyInfo(currency).decimals);
+  return fixed.replace('.', getNumberSeparators().decimal);
+}
+
+/**
+ * Parse an amount written in Indonesian or English style:
+ * "1.250.000,00", "Rp 1.250.000", "1,250,000.00", "-50.000", "(50.000)".
+ * Returns null when the text holds no number.
+ */
+export function parseLocaleAmount(value: string): number | null {
+  let text = value.trim();
+  const negative = /^\(.*\)$/.test(text) || /^-|-$/.test(text.replace(/[^\d\-().,]/g, ''));
+  text = text.replace(/[^\d.,]/g, '');
+  if (!/\d/.test(text)) return null;
+
+  const lastDot = text.lastIndexOf('.');
+  const lastComma = text.lastIndexOf(',');
+  let decimalSeparator: string | null = null;
+  if (lastDot >= 0 && lastComma >= 0) {
+    decimalSeparator = lastDot > lastComma ? '.' : ',';
+  } else if (lastDot >= 0 || lastComma >= 0) {
+    const separator = lastDot >= 0 ? '.' : ',';
+    const occurrences = text.split(separator).length - 1;
+    const digitsAfter = text.length - text.lastIndexOf(separator) - 1;
+    // A single separator followed by exactly three digits is a thousands separator
+    decimalSeparator = occurrences === 1 && digitsAfter !== 3 ? separator : null;
+  }
+
+  const thousandsPattern = decimalSeparator === ',' ? /\./g : decimalSeparator === '.' ? /,/g : /[.,]/g;
+  const normalized = text.replace(thousandsPattern, '').replace(',', '.');
+  const amount = parseFloat(normalized);
+  if (isNaN(amount)) return null;
+  return negative ? -amount : amount;
 }
 
 /** Format date for display: "15 Nov 2025" */
 export function formatDate(dateString: string): string {
   const date = new Date(dateString);
-  return date.toLocaleDateString('id-ID', {
+  return date.toLocaleDateString(getLocale(), {
     day: 'numeric',
     month: 'short',
     year: 'numeric'
   });
 }
 
+/** Format date and time for display: "15 Nov 2025, 14.30" */
+export function formatDateTime(dateString: string): string {
+  const date = new Date(dateString);
+  return date.toLocaleString(getLocale(), {
+    day: 'numeric',
+    month: 'short',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+}
+
 /** Format date for input fields: YYYY-MM-DD */
 export function formatDateForInput(dateString: string): string {
   return dateString.split('T')[0];
 }
 
+export const ONE_DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Date as YYYY-MM-DD, in UTC */
+export function toDateString(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
 /** Get current date as YYYY-MM-DD */
 export function getCurrentDate(): string {
-  return new Date().toISOString().split('T')[0];
+  return toDateString(new Date());
+}
+
+/** YYYY-MM-DD date `days` days after `date` (before it when negative) */
+export function addDays(date: string, days: number): string {
+  return toDateString(new Date(Date.parse(date) + days * ONE_DAY_MS));
 }
 
 /** Format percentage: "75.5%" */
 export function formatPercent(value: number): string {
-  return `${value.toFixed(1)}%`;
+  return `${localizeDigits(value.toFixed(1))}%`;
 }
 
 /** Generate unique ID */
@@ -52,5 +139,18 @@ export function generateId(): string {
 /** Get short month year: "Nov 2025" */
 export function getShortMonthYear(date: Date | string): string {
   const d = typeof date === 'string' ? new Date(date) : date;
-  return d.toLocaleDateString('en-US', { month: 'short', year: 'numeric' });
+  return d.toLocaleDateString(getLocale(), { month: 'short', year: 'numeric' });
+}
+
+/** Month names of the active language, January first */
+export function getMonthNames(style: 'long' | 'short' = 'long'): string[] {
+  const format = new Intl.DateTimeFormat(getLocale(), { month: style, timeZone: 'UTC' });
+  return Array.from({ length: 12 }, (_, i) => format.format(new Date(Date.UTC(2024, i, 1))));
+}
+
+/** Weekday names of the active language, Sunday first */
+export function getWeekdayNames(style: 'long' | 'short' = 'long'): string[] {
+  // 7 Jan 2024 is a Sunday
+  const format = new Intl.DateTimeFormat(getLocale(), { weekday: style, timeZone: 'UTC' });
+  return Array.from({ length: 7 }, (_, i) => format.format(new Date(Date.UTC(2024, 0, 7 + i))));
 }
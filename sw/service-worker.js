@@ -0,0 +1,62 @@
+/**
+ * =============================================================================
+ * SERVICE WORKER
+ * Template for sw.js, which the build writes next to index.html (see the
+ * serviceWorker plugin in vite.config.ts). The build fills in BUILD_ID and
+ * PRECACHE_URLS below with a hash of the build and every file it produced, so
+ * each deploy installs a new worker with its own cache.
+ *
+ * Everything is served cache-first: once installed, the app loads without a
+ * network. A new worker waits until the app asks it to take over ("Update"
+ * in the update prompt), then the page reloads.
+ * =============================================================================
+ */
+
+const BUILD_ID = __BUILD_ID__;
+const PRECACHE_URLS = __PRECACHE_URLS__;
+
+const CACHE_PREFIX = 'do-eat-shell-';
+const CACHE_NAME = `${CACHE_PREFIX}${BUILD_ID}`;
+const SHELL_URL = new URL('./index.html', self.registration.scope).href;
+
+self.addEventListener('install', event => {
+  event.waitUntil(caches.open(CACHE_NAME).then(cache => cache.addAll(PRECACHE_URLS)));
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(
+        keys.filter(key => key.startsWith(CACHE_PREFIX) && key !== CACHE_NAME).map(key => caches.delete(key))
+      ))
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener('message', event => {
+  if (event.data && event.data.type === 'SKIP_WAITING') self.skipWaiting();
+});
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  // Only the app itself; API calls such as the sync server go straight to the network
+  if (request.method !== 'GET' || new URL(request.url).origin !== self.location.origin) return;
+
+  if (request.mode === 'navigate') {
+    // Any page in scope is the single-page app, including "?action=add-expense" from the shortcut
+    event.respondWith(
+      caches.match(SHELL_URL).then(cached => cached || fetch(request))
+    );
+    return;
+  }
+
+  event.respondWith(
+    caches.match(request).then(cached => cached || fetch(request).then(response => {
+      if (response.ok) {
+        const copy = response.clone();
+        caches.open(CACHE_NAME).then(cache => cache.put(request, copy));
+      }
+      return response;
+    }))
+  );
+});
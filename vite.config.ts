@@ -1,9 +1,40 @@
-import { defineConfig } from 'vite'
+import { defineConfig, Plugin } from 'vite'
 import react from '@vitejs/plugin-react'
+import { createHash } from 'crypto'
+import { readFileSync, readdirSync } from 'fs'
 import path from 'path'
 
+/** Writes sw.js from sw/service-worker.js, listing this build's files for offline use */
+function serviceWorker(): Plugin {
+  return {
+    name: 'do-eat-service-worker',
+    apply: 'build',
+    generateBundle(_options, bundle) {
+      const publicFiles = readdirSync(path.resolve(__dirname, 'public'))
+      const files = [...new Set(['index.html', ...Object.keys(bundle), ...publicFiles])]
+        .filter(file => file !== 'sw.js' && !file.endsWith('.map'))
+        .sort()
+
+      const hash = createHash('sha256')
+      Object.values(bundle).forEach(output => {
+        hash.update(output.type === 'chunk' ? output.code : output.source)
+      })
+      publicFiles.forEach(file => hash.update(readFileSync(path.resolve(__dirname, 'public', file))))
+
+      const template = readFileSync(path.resolve(__dirname, 'sw/service-worker.js'), 'utf8')
+      this.emitFile({
+        type: 'asset',
+        fileName: 'sw.js',
+        source: template
+          .replace('__BUILD_ID__', JSON.stringify(hash.digest('hex').slice(0, 12)))
+          .replace('__PRECACHE_URLS__', JSON.stringify(['./', ...files.map(file => `./${file}`)])),
+      })
+    },
+  }
+}
+
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), serviceWorker()],
   base: '/doeat/', // GitHub Pages base path (repo name)
   resolve: {
     alias: {